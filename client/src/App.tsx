@@ -15,6 +15,8 @@ import Home from "@/pages/home";
 import AIInsights from "@/pages/ai-insights";
 import TrustScore from "@/pages/trust-score";
 import SmartContracts from "@/pages/smart-contracts"; 
+import Settings from "@/pages/settings";
+import ApiDocs from "@/pages/api-docs";
 import { useAuth } from "@/lib/auth";
 
 function Router() {
@@ -38,6 +40,8 @@ function Router() {
       <Route path="/ai-insights" component={AIInsights} />
       <Route path="/trust-score" component={TrustScore} />
       <Route path="/smart-contracts" component={SmartContracts} />
+      <Route path="/settings" component={Settings} />
+      <Route path="/developers" component={ApiDocs} />
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
@@ -6,6 +6,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Contract, Milestone, ContractStatus, MilestoneStatus } from "@shared/schema";
 import { formatCurrency, formatDate, getContractProgress, getStatusBadgeColor } from "@/lib/contracts";
 import MilestoneItem from "./milestone-item";
+import ContractReviews from "./contract-reviews";
 import { FileIcon, InfoIcon, MessageSquareIcon, EditIcon } from "lucide-react";
 
 interface ContractDetailProps {
@@ -87,7 +88,7 @@ export default function ContractDetail({ isOpen, onClose, contractId }: Contract
                     </div>
                     <div>
                       <p className="text-xs font-medium text-neutral-500">Contract Value</p>
-                      <p className="text-sm text-neutral-900">{formatCurrency(contract?.totalAmount || 0)}</p>
+                      <p className="text-sm text-neutral-900">{formatCurrency(contract?.totalAmount || 0, contract?.currency)}</p>
                     </div>
                     <div>
                       <p className="text-xs font-medium text-neutral-500">Start Date</p>
@@ -130,7 +131,7 @@ export default function ContractDetail({ isOpen, onClose, contractId }: Contract
                   <div className="divide-y divide-neutral-200">
                     {milestones && milestones.length > 0 ? (
                       milestones.map((milestone) => (
-                        <MilestoneItem key={milestone.id} milestone={milestone} />
+                        <MilestoneItem key={milestone.id} milestone={milestone} contract={contract} />
                       ))
                     ) : (
                       <div className="p-4 text-center text-neutral-500">
@@ -150,6 +151,10 @@ export default function ContractDetail({ isOpen, onClose, contractId }: Contract
                 <div className="mt-2 w-full bg-neutral-200 rounded-full h-2.5">
                   <div className="bg-green-600 h-2.5 rounded-full" style={{ width: `${progress}%` }}></div>
                 </div>
+                
+                {contract?.status === ContractStatus.COMPLETED && (
+                  <ContractReviews contract={contract} />
+                )}
               </div>
             </div>
           </div>
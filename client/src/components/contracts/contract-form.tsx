@@ -20,7 +20,9 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { ContractStatus } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ContractStatus, CURRENCIES, DEFAULT_CURRENCY } from "@shared/schema";
+import { toMinorUnits } from "@shared/money";
 
 const formSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters"),
@@ -28,6 +30,7 @@ const formSchema = z.object({
   clientId: z.coerce.number().int().positive("Client ID must be a positive number"),
   freelancerId: z.coerce.number().int().positive("Freelancer ID must be a positive number"),
   totalAmount: z.coerce.number().positive("Amount must be positive"),
+  currency: z.enum(CURRENCIES),
   contractType: z.string().min(1, "Contract type is required"),
   startDate: z.string().min(1, "Start date is required"),
   endDate: z.string().min(1, "End date is required"),
@@ -48,6 +51,7 @@ export default function ContractForm() {
     clientId: user?.userType === 'client' ? user.id : 0,
     freelancerId: user?.userType === 'freelancer' ? user.id : 0,
     totalAmount: 0,
+    currency: DEFAULT_CURRENCY,
     contractType: "Fixed Price",
     startDate: new Date().toISOString().split('T')[0],
     endDate: "",
@@ -75,6 +79,8 @@ export default function ContractForm() {
       // Ensure startDate and endDate are parsed as Date objects
       const contractData = {
         ...data,
+        // The API takes amounts in minor units, e.g. cents
+        totalAmount: toMinorUnits(data.totalAmount, data.currency),
         startDate: new Date(data.startDate),
         endDate: new Date(data.endDate),
         status: ContractStatus.DRAFT,
@@ -151,7 +157,7 @@ export default function ContractForm() {
                   name="totalAmount"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Total Amount ($)</FormLabel>
+                      <FormLabel>Total Amount</FormLabel>
                       <FormControl>
                         <Input type="number" placeholder="e.g. 5000" {...field} />
                       </FormControl>
@@ -163,6 +169,32 @@ export default function ContractForm() {
                   )}
                 />
                 
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CURRENCIES.map(currency => (
+                            <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Milestones, escrow payments and invoices all use this currency
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
                 {user?.userType === 'client' ? (
                   <FormField
                     control={form.control}
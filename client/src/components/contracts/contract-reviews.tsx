@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Contract, Review } from "@shared/schema";
+import { formatDate } from "@/lib/contracts";
+import { isReviewRevealed, replyToReview, submitReview } from "@/lib/reviews";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { StarIcon } from "lucide-react";
+
+interface ContractReviewsProps {
+  contract: Contract;
+}
+
+function Stars({ rating, onSelect }: { rating: number; onSelect?: (rating: number) => void }) {
+  return (
+    <div className="flex">
+      {[1, 2, 3, 4, 5].map((value) => (
+        <StarIcon
+          key={value}
+          className={`h-4 w-4 ${value <= rating ? "fill-yellow-400 text-yellow-400" : "text-neutral-300"} ${onSelect ? "cursor-pointer" : ""}`}
+          onClick={() => onSelect?.(value)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ReviewItem({ review, canReply }: { review: Review; canReply: boolean }) {
+  const { toast } = useToast();
+  const [reply, setReply] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleReply = async () => {
+    setIsSaving(true);
+
+    try {
+      await replyToReview(review.id, reply.trim());
+      setReply("");
+    } catch (error) {
+      toast({
+        title: "Reply failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-between items-center">
+        <Stars rating={review.rating} />
+        <span className="text-xs text-neutral-500">
+          {isReviewRevealed(review)
+            ? formatDate(review.revealedAt)
+            : `Hidden until ${formatDate(review.revealedAt)} or the other party reviews`}
+        </span>
+      </div>
+      {review.comment && <p className="mt-2 text-sm text-neutral-700">{review.comment}</p>}
+      {review.reply && (
+        <p className="mt-2 text-xs text-neutral-600 bg-neutral-50 rounded p-2">
+          Reply: {review.reply}
+        </p>
+      )}
+      {canReply && !review.reply && (
+        <div className="mt-3 space-y-2">
+          <Textarea
+            placeholder="Reply publicly to this review"
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+          />
+          <Button size="sm" disabled={!reply.trim() || isSaving} onClick={handleReply}>
+            Reply
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ContractReviews({ contract }: ContractReviewsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: reviews } = useQuery<Review[]>({
+    queryKey: [`/api/contracts/${contract.id}/reviews`],
+  });
+
+  const isParty = user?.id === contract.clientId || user?.id === contract.freelancerId;
+  const hasReviewed = reviews?.some((review) => review.reviewerId === user?.id);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+
+    try {
+      await submitReview(contract.id, rating, comment.trim() || undefined);
+      setRating(0);
+      setComment("");
+    } catch (error) {
+      toast({
+        title: "Review failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-5 border rounded-lg overflow-hidden">
+      <div className="bg-neutral-50 px-4 py-3 border-b">
+        <h4 className="text-sm font-medium text-neutral-900">Reviews</h4>
+      </div>
+      <div className="divide-y divide-neutral-200">
+        {reviews && reviews.length > 0 ? (
+          reviews.map((review) => (
+            <ReviewItem
+              key={review.id}
+              review={review}
+              canReply={review.receiverId === user?.id && isReviewRevealed(review)}
+            />
+          ))
+        ) : (
+          <div className="p-4 text-center text-neutral-500">
+            No reviews yet
+          </div>
+        )}
+        {isParty && reviews && !hasReviewed && (
+          <div className="p-4 space-y-2">
+            <p className="text-xs text-neutral-500">
+              Your review stays hidden until the other party reviews or 14 days after completion.
+            </p>
+            <Stars rating={rating} onSelect={setRating} />
+            <Textarea
+              placeholder="How did it go?"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+            <Button size="sm" disabled={rating === 0 || isSaving} onClick={handleSubmit}>
+              Submit Review
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,24 @@
-import { Milestone, MilestoneStatus } from "@shared/schema";
-import { formatCurrency, formatDate, getStatusBadgeColor } from "@/lib/contracts";
+import { useState } from "react";
+import { Contract, Milestone, MilestoneStatus } from "@shared/schema";
+import { MILESTONE_WORKFLOW, MilestoneAction, getAvailableMilestoneActions } from "@shared/milestone-workflow";
+import { formatCurrency, formatDate, getStatusBadgeColor, performMilestoneAction } from "@/lib/contracts";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 
 interface MilestoneItemProps {
   milestone: Milestone;
+  contract?: Contract;
 }
 
-export default function MilestoneItem({ milestone }: MilestoneItemProps) {
+export default function MilestoneItem({ milestone, contract }: MilestoneItemProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [pendingAction, setPendingAction] = useState<MilestoneAction | null>(null);
+  const [showFeedback, setShowFeedback] = useState(false);
+  const [feedback, setFeedback] = useState("");
+
   const getStatusLabel = (status: MilestoneStatus): string => {
     switch(status) {
       case MilestoneStatus.NOT_STARTED:
@@ -22,7 +35,48 @@ export default function MilestoneItem({ milestone }: MilestoneItemProps) {
         return status;
     }
   };
-  
+
+  // Only the parties to the contract get workflow buttons
+  const actor = user && contract
+    ? user.id === contract.clientId
+      ? "client"
+      : user.id === contract.freelancerId
+        ? "freelancer"
+        : null
+    : null;
+
+  const availableActions = actor
+    ? getAvailableMilestoneActions(milestone.status as MilestoneStatus, actor)
+    : [];
+
+  const runAction = async (action: MilestoneAction, note?: string) => {
+    setPendingAction(action);
+
+    try {
+      await performMilestoneAction(milestone.id, action, note);
+      setShowFeedback(false);
+      setFeedback("");
+    } catch (error) {
+      console.error("Milestone action error:", error);
+      toast({
+        title: "Action failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleAction = (action: MilestoneAction) => {
+    // Change requests need feedback for the freelancer
+    if (action === "request_changes") {
+      setShowFeedback(true);
+      return;
+    }
+    runAction(action);
+  };
+
   return (
     <div className="p-4">
       <div className="flex justify-between items-start">
@@ -30,19 +84,60 @@ export default function MilestoneItem({ milestone }: MilestoneItemProps) {
           <h5 className="text-sm font-medium text-neutral-900">{milestone.title}</h5>
           <p className="text-xs text-neutral-500 mt-1">{milestone.description}</p>
         </div>
-        <span className="text-sm font-medium text-neutral-900">{formatCurrency(milestone.amount)}</span>
+        <span className="text-sm font-medium text-neutral-900">{formatCurrency(milestone.amount, milestone.currency)}</span>
       </div>
       <div className="mt-2 flex items-center justify-between">
-        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(milestone.status)}`}>
-          {getStatusLabel(milestone.status)}
+        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(milestone.status as MilestoneStatus)}`}>
+          {getStatusLabel(milestone.status as MilestoneStatus)}
         </span>
         <span className="text-xs text-neutral-500">
-          {milestone.status === MilestoneStatus.COMPLETED 
+          {milestone.status === MilestoneStatus.COMPLETED
             ? `Completed: ${formatDate(milestone.completedDate || new Date())}`
             : `Due: ${formatDate(milestone.dueDate)}`
           }
         </span>
       </div>
+      {milestone.reviewFeedback && milestone.status === MilestoneStatus.IN_PROGRESS && (
+        <p className="mt-2 text-xs text-yellow-800 bg-yellow-50 rounded p-2">
+          Changes requested: {milestone.reviewFeedback}
+        </p>
+      )}
+      {availableActions.length > 0 && !showFeedback && (
+        <div className="mt-3 flex gap-2">
+          {availableActions.map((action) => (
+            <Button
+              key={action}
+              size="sm"
+              variant={action === "request_changes" ? "outline" : "default"}
+              disabled={pendingAction !== null}
+              onClick={() => handleAction(action)}
+            >
+              {MILESTONE_WORKFLOW[action].label}
+            </Button>
+          ))}
+        </div>
+      )}
+      {showFeedback && (
+        <div className="mt-3 space-y-2">
+          <Textarea
+            placeholder="Describe the changes you need"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={!feedback.trim() || pendingAction !== null}
+              onClick={() => runAction("request_changes", feedback.trim())}
+            >
+              Send Request
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setShowFeedback(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
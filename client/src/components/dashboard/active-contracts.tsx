@@ -71,7 +71,7 @@ export default function ActiveContracts() {
                           </div>
                         </div>
                         <div className="ml-2 flex-shrink-0 flex">
-                          <p className="text-sm text-neutral-700 font-medium">{formatCurrency(contract.totalAmount)}</p>
+                          <p className="text-sm text-neutral-700 font-medium">{formatCurrency(contract.totalAmount, contract.currency)}</p>
                         </div>
                       </div>
                       <div className="mt-2 flex justify-between">
@@ -9,6 +9,7 @@ type StatsData = {
   pendingPayments: number;
   totalEarned: number;
   templateCount: number;
+  currency: string; // The user's home currency; amounts are converted to it
 };
 
 export default function DashboardStats() {
@@ -55,7 +56,7 @@ export default function DashboardStats() {
       <Card>
         <CardContent className="px-4 py-5 sm:p-6">
           <dt className="text-sm font-medium text-neutral-500 truncate">Pending Payments</dt>
-          <dd className="mt-1 text-3xl font-semibold text-neutral-900">{formatCurrency(stats.pendingPayments)}</dd>
+          <dd className="mt-1 text-3xl font-semibold text-neutral-900">{formatCurrency(stats.pendingPayments, stats.currency)}</dd>
           <div className="mt-2 flex items-center text-sm">
             <span className="text-yellow-600 flex items-center">
               <ClockIcon className="mr-1 h-4 w-4" />
@@ -69,7 +70,7 @@ export default function DashboardStats() {
       <Card>
         <CardContent className="px-4 py-5 sm:p-6">
           <dt className="text-sm font-medium text-neutral-500 truncate">Total Earned</dt>
-          <dd className="mt-1 text-3xl font-semibold text-neutral-900">{formatCurrency(stats.totalEarned)}</dd>
+          <dd className="mt-1 text-3xl font-semibold text-neutral-900">{formatCurrency(stats.totalEarned, stats.currency)}</dd>
           <div className="mt-2 flex items-center text-sm">
             <span className="text-green-600 flex items-center">
               <ArrowUpIcon className="mr-1 h-4 w-4" />
@@ -29,7 +29,7 @@ export default function UpcomingPayments() {
       id: 1,
       title: "Website Redesign - Milestone 3",
       clientName: "Acme Corporation",
-      amount: 1500,
+      amount: 150000,
       dueInDays: 5,
       status: MilestoneStatus.PENDING_REVIEW,
     },
@@ -37,7 +37,7 @@ export default function UpcomingPayments() {
       id: 2,
       title: "Mobile App - Milestone 2",
       clientName: "TechStart Inc.",
-      amount: 2500,
+      amount: 250000,
       dueInDays: 12,
       status: MilestoneStatus.NOT_STARTED,
     },
@@ -45,7 +45,7 @@ export default function UpcomingPayments() {
       id: 3,
       title: "Content Strategy - Milestone 4",
       clientName: "GlobalMarket Ltd.",
-      amount: 800,
+      amount: 80000,
       dueInDays: 3,
       status: MilestoneStatus.READY_FOR_PAYMENT,
     }
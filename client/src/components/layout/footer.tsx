@@ -16,6 +16,11 @@ export default function Footer() {
                 Help Center
               </a>
             </Link>
+            <Link href="/developers">
+              <a className="text-neutral-500 hover:text-neutral-700">
+                API
+              </a>
+            </Link>
             <Link href="/privacy">
               <a className="text-neutral-500 hover:text-neutral-700">
                 Privacy Policy
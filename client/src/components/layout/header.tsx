@@ -1,11 +1,17 @@
 import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Notification, NotificationType } from "@shared/schema";
 import { useAuth } from "@/lib/auth";
+import { markAllNotificationsRead, markNotificationRead, useNotificationStream } from "@/lib/notifications";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
   DropdownMenuItem, 
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
 import { 
@@ -17,10 +23,32 @@ import {
   CoinsIcon
 } from "lucide-react";
 
+// Where clicking a notification takes the user
+const NOTIFICATION_ROUTES: Record<NotificationType, string> = {
+  [NotificationType.CONTRACT_SIGNED]: "/contracts",
+  [NotificationType.MILESTONE_SUBMITTED]: "/contracts",
+  [NotificationType.ESCROW_FUNDED]: "/payments",
+  [NotificationType.PAYMENT_RELEASED]: "/payments",
+  [NotificationType.DISPUTE_OPENED]: "/ai-insights",
+  [NotificationType.MILESTONE_DUE_SOON]: "/contracts",
+  [NotificationType.TRUST_TIER_CHANGED]: "/trust-score",
+};
+
+// Only the most recent notifications fit in the bell menu
+const MAX_BELL_NOTIFICATIONS = 8;
+
 export default function Header() {
-  const [location] = useLocation();
+  const [location, navigate] = useLocation();
   const { user, logout } = useAuth();
   
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+    enabled: !!user,
+  });
+  const unreadCount = notifications.filter(n => !n.read).length;
+  
+  useNotificationStream(!!user);
+  
   const isActiveRoute = (path: string) => {
     return location === path;
   };
@@ -44,6 +72,13 @@ export default function Header() {
     logout();
   };
 
+  const handleNotificationClick = async (notification: Notification) => {
+    if (!notification.read) {
+      await markNotificationRead(notification.id);
+    }
+    navigate(NOTIFICATION_ROUTES[notification.type as NotificationType] || "/dashboard");
+  };
+
   return (
     <header className="bg-white shadow-sm border-b border-neutral-200">
       <div className="mx-auto px-4 sm:px-6 lg:px-8">
@@ -106,9 +141,53 @@ export default function Header() {
           <div className="flex items-center">
             {user ? (
               <>
-                <Button variant="ghost" size="icon" className="rounded-full mr-3">
-                  <BellIcon className="h-5 w-5 text-neutral-500" />
-                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="rounded-full mr-3 relative" aria-label="Notifications">
+                      <BellIcon className="h-5 w-5 text-neutral-500" />
+                      {unreadCount > 0 && (
+                        <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+                          {unreadCount > 9 ? "9+" : unreadCount}
+                        </span>
+                      )}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-80">
+                    <div className="flex items-center justify-between">
+                      <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+                      {unreadCount > 0 && (
+                        <Button variant="link" size="sm" className="h-auto text-xs" onClick={() => markAllNotificationsRead()}>
+                          Mark all as read
+                        </Button>
+                      )}
+                    </div>
+                    <DropdownMenuSeparator />
+                    {notifications.length === 0 ? (
+                      <p className="px-2 py-4 text-sm text-center text-neutral-500">You're all caught up</p>
+                    ) : (
+                      notifications.slice(0, MAX_BELL_NOTIFICATIONS).map(notification => (
+                        <DropdownMenuItem
+                          key={notification.id}
+                          className="cursor-pointer flex flex-col items-start space-y-1"
+                          onClick={() => handleNotificationClick(notification)}
+                        >
+                          <div className="flex w-full items-center justify-between">
+                            <span className={`text-sm ${notification.read ? "text-neutral-600" : "font-semibold text-neutral-900"}`}>
+                              {notification.title}
+                            </span>
+                            {!notification.read && <span className="h-2 w-2 rounded-full bg-primary" />}
+                          </div>
+                          <span className="text-xs text-neutral-500 line-clamp-2">{notification.message}</span>
+                          {notification.createdAt && (
+                            <span className="text-[11px] text-neutral-400">
+                              {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                            </span>
+                          )}
+                        </DropdownMenuItem>
+                      ))
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <div className="ml-3 relative cursor-pointer flex items-center">
@@ -123,7 +202,9 @@ export default function Header() {
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end" className="w-56">
                     <DropdownMenuItem className="cursor-pointer">Profile</DropdownMenuItem>
-                    <DropdownMenuItem className="cursor-pointer">Settings</DropdownMenuItem>
+                    <DropdownMenuItem className="cursor-pointer" onClick={() => navigate("/settings")}>
+                      Settings
+                    </DropdownMenuItem>
                     <DropdownMenuItem className="cursor-pointer" onClick={handleLogout}>
                       Logout
                     </DropdownMenuItem>
@@ -1,6 +1,6 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
-import { apiRequest } from "./queryClient";
-import { UserType } from "@shared/schema";
+import { apiRequest, queryClient } from "./queryClient";
+import { CurrencyCode, UserType } from "@shared/schema";
 
 type User = {
   id: number;
@@ -10,14 +10,28 @@ type User = {
   userType: UserType;
   bio?: string;
   profileImage?: string;
+  homeCurrency: string; // Earnings are reported in this currency
+  walletAddress: string | null; // Crypto escrow is deposited from, and paid out to, this address
+  stripeAccountId: string | null; // Card payments are paid out to this Stripe account
+};
+
+type ProfileChanges = {
+  homeCurrency?: CurrencyCode;
+  walletAddress?: string | null;
+  stripeAccountId?: string | null;
 };
 
 type AuthContextType = {
   user: User | null;
   isLoading: boolean;
+  // Set when the password was accepted but the account needs a 2FA code
+  twoFactorPending: boolean;
   login: (username: string, password: string) => Promise<void>;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  cancelTwoFactor: () => void;
   register: (userData: RegisterData) => Promise<void>;
-  logout: () => void;
+  updateProfile: (changes: ProfileChanges) => Promise<void>;
+  logout: () => Promise<void>;
 };
 
 type RegisterData = {
@@ -35,14 +49,15 @@ const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [twoFactorPending, setTwoFactorPending] = useState<boolean>(false);
 
   useEffect(() => {
-    // Check if user is already logged in
-    const storedUser = localStorage.getItem("user");
-    if (storedUser) {
-      setUser(JSON.parse(storedUser));
-    }
-    setIsLoading(false);
+    // Restore the user from an existing session cookie
+    fetch("/api/auth/me", { credentials: "include" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setUser(data))
+      .catch(() => setUser(null))
+      .finally(() => setIsLoading(false));
   }, []);
 
   const login = async (username: string, password: string) => {
@@ -50,8 +65,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       const res = await apiRequest("POST", "/api/auth/login", { username, password });
       const data = await res.json();
+      
+      if (data.twoFactorRequired) {
+        setTwoFactorPending(true);
+        return;
+      }
+      
       setUser(data.user);
-      localStorage.setItem("user", JSON.stringify(data.user));
     } catch (error) {
       console.error("Login error:", error);
       throw error;
@@ -60,13 +80,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const verifyTwoFactor = async (code: string) => {
+    const res = await apiRequest("POST", "/api/auth/login/2fa", { code });
+    const data = await res.json();
+    setTwoFactorPending(false);
+    setUser(data.user);
+  };
+
+  const cancelTwoFactor = () => setTwoFactorPending(false);
+
   const register = async (userData: RegisterData) => {
     setIsLoading(true);
     try {
       const res = await apiRequest("POST", "/api/auth/register", userData);
       const data = await res.json();
       setUser(data);
-      localStorage.setItem("user", JSON.stringify(data));
     } catch (error) {
       console.error("Register error:", error);
       throw error;
@@ -75,13 +103,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem("user");
+  const updateProfile = async (changes: ProfileChanges) => {
+    const res = await apiRequest("PATCH", "/api/auth/me", changes);
+    setUser(await res.json());
+    // Dashboard totals are converted to the home currency
+    queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+  };
+
+  const logout = async () => {
+    try {
+      await apiRequest("POST", "/api/auth/logout");
+    } finally {
+      setUser(null);
+      queryClient.clear();
+    }
   };
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, register, logout }}>
+    <AuthContext.Provider value={{ user, isLoading, twoFactorPending, login, verifyTwoFactor, cancelTwoFactor, register, updateProfile, logout }}>
       {children}
     </AuthContext.Provider>
   );
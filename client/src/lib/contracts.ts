@@ -1,4 +1,6 @@
-import { Contract, InsertContract, Milestone, InsertMilestone, ContractStatus, MilestoneStatus } from "@shared/schema";
+import { Contract, InsertContract, Milestone, InsertMilestone, ContractStatus, MilestoneStatus, DEFAULT_CURRENCY } from "@shared/schema";
+import { formatMoney } from "@shared/currency";
+import { MilestoneAction } from "@shared/milestone-workflow";
 import { apiRequest } from "./queryClient";
 import { queryClient } from "./queryClient";
 
@@ -10,11 +12,12 @@ export async function createContract(contractData: InsertContract): Promise<Cont
   return contract;
 }
 
-export async function updateContractStatus(id: number, status: ContractStatus): Promise<Contract> {
-  const res = await apiRequest("PATCH", `/api/contracts/${id}/status`, { status });
+export async function updateContractStatus(id: number, status: ContractStatus, reason?: string): Promise<Contract> {
+  const res = await apiRequest("PATCH", `/api/contracts/${id}/status`, { status, reason });
   const contract = await res.json();
   queryClient.invalidateQueries({ queryKey: ['/api/contracts'] });
   queryClient.invalidateQueries({ queryKey: ['/api/contracts', id.toString()] });
+  queryClient.invalidateQueries({ queryKey: [`/api/contracts/${id}/history`] });
   return contract;
 }
 
@@ -26,29 +29,34 @@ export async function createMilestone(milestoneData: InsertMilestone): Promise<M
   return milestone;
 }
 
-export async function updateMilestoneStatus(id: number, status: MilestoneStatus): Promise<Milestone> {
-  const res = await apiRequest("PATCH", `/api/milestones/${id}/status`, { status });
+export async function performMilestoneAction(id: number, action: MilestoneAction, feedback?: string): Promise<Milestone> {
+  const path = action.replace('_', '-');
+  const res = await apiRequest("POST", `/api/milestones/${id}/${path}`, feedback ? { feedback } : undefined);
   const milestone = await res.json();
   queryClient.invalidateQueries({ queryKey: ['/api/contracts', milestone.contractId.toString(), 'milestones'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
   return milestone;
 }
 
-export async function completeMilestone(id: number): Promise<Milestone> {
-  const res = await apiRequest("POST", `/api/milestones/${id}/complete`);
-  const milestone = await res.json();
-  queryClient.invalidateQueries({ queryKey: ['/api/contracts', milestone.contractId.toString(), 'milestones'] });
-  queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
-  return milestone;
+// Format a minor unit amount (e.g. cents) as currency, in the browser's locale
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  return formatMoney(amount, currency, { wholeUnits: true });
 }
 
-// Format currency helper function
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount);
+// Total amounts that may be in different currencies, e.g. "€1,200 + $300"
+export function formatCurrencyTotals(items: { amount: number; currency: string }[], fallbackCurrency?: string): string {
+  const totals = new Map<string, number>();
+  for (const item of items) {
+    totals.set(item.currency, (totals.get(item.currency) || 0) + item.amount);
+  }
+
+  if (totals.size === 0) {
+    return formatCurrency(0, fallbackCurrency);
+  }
+
+  return Array.from(totals.entries())
+    .map(([currency, total]) => formatCurrency(total, currency))
+    .join(" + ");
 }
 
 // Format date helper function
@@ -0,0 +1,75 @@
+import { Dispute, DisputeEvidenceInput, DisputeStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "./queryClient";
+
+export interface DisputeAnalysis {
+  recommendation: 'client' | 'freelancer' | 'compromise';
+  confidenceScore: number;
+  reasoning: string;
+  suggestedResolution: string;
+  fairAmountToRelease?: number;
+}
+
+export type DisputeOutcome =
+  | DisputeStatus.RESOLVED_FOR_CLIENT
+  | DisputeStatus.RESOLVED_FOR_FREELANCER
+  | DisputeStatus.RESOLVED_COMPROMISE;
+
+function invalidateDisputeQueries(dispute: Dispute) {
+  queryClient.invalidateQueries({ queryKey: ['/api/disputes'] });
+  queryClient.invalidateQueries({ queryKey: [`/api/disputes/${dispute.id}`] });
+  queryClient.invalidateQueries({ queryKey: ['/api/contracts'] });
+}
+
+// Dispute API functions
+export async function openDispute(
+  contractId: number,
+  reason: string,
+  milestoneId?: number,
+  evidence?: DisputeEvidenceInput[]
+): Promise<Dispute> {
+  const res = await apiRequest("POST", "/api/disputes", { contractId, milestoneId, reason, evidence });
+  const dispute = await res.json();
+  invalidateDisputeQueries(dispute);
+  queryClient.invalidateQueries({ queryKey: ['/api/payments'] });
+  return dispute;
+}
+
+export async function addDisputeEvidence(id: number, evidence: DisputeEvidenceInput[]): Promise<Dispute> {
+  const res = await apiRequest("POST", `/api/disputes/${id}/evidence`, { evidence });
+  const dispute = await res.json();
+  invalidateDisputeQueries(dispute);
+  return dispute;
+}
+
+export async function claimDispute(id: number): Promise<Dispute> {
+  const res = await apiRequest("POST", `/api/disputes/${id}/claim`);
+  const dispute = await res.json();
+  invalidateDisputeQueries(dispute);
+  return dispute;
+}
+
+export async function resolveDispute(
+  id: number,
+  outcome: DisputeOutcome,
+  resolution: string,
+  releaseAmount?: number
+): Promise<Dispute> {
+  const res = await apiRequest("POST", `/api/disputes/${id}/resolve`, { outcome, resolution, releaseAmount });
+  const dispute = await res.json();
+  invalidateDisputeQueries(dispute);
+  queryClient.invalidateQueries({ queryKey: ['/api/payments'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+  return dispute;
+}
+
+// Map an AI recommendation onto the matching resolution status
+export function recommendationToOutcome(recommendation: DisputeAnalysis['recommendation']): DisputeOutcome {
+  switch (recommendation) {
+    case 'client':
+      return DisputeStatus.RESOLVED_FOR_CLIENT;
+    case 'freelancer':
+      return DisputeStatus.RESOLVED_FOR_FREELANCER;
+    default:
+      return DisputeStatus.RESOLVED_COMPROMISE;
+  }
+}
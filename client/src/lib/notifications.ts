@@ -0,0 +1,92 @@
+import { useEffect } from "react";
+import { EmailDelivery, Notification, NotificationType } from "@shared/schema";
+import { apiRequest, queryClient } from "./queryClient";
+import { toast } from "@/hooks/use-toast";
+
+const NOTIFICATION_SOCKET_PATH = "/ws/notifications";
+
+// Wait before reconnecting after the socket drops (e.g. a server restart)
+const RECONNECT_DELAY = 5000;
+
+type NotificationSocketMessage = { type: "notification"; notification: Notification };
+
+export type NotificationPreference = {
+  type: NotificationType;
+  inApp: boolean;
+  email: EmailDelivery;
+};
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  [NotificationType.CONTRACT_SIGNED]: "Contract signed",
+  [NotificationType.MILESTONE_SUBMITTED]: "Milestone submitted for review",
+  [NotificationType.ESCROW_FUNDED]: "Escrow funded",
+  [NotificationType.PAYMENT_RELEASED]: "Payment released",
+  [NotificationType.DISPUTE_OPENED]: "Dispute opened",
+  [NotificationType.MILESTONE_DUE_SOON]: "Milestone due soon",
+  [NotificationType.TRUST_TIER_CHANGED]: "Trust tier changed",
+};
+
+// Notification API functions
+export async function markNotificationRead(id: number): Promise<Notification> {
+  const res = await apiRequest("POST", `/api/notifications/${id}/read`);
+  const notification = await res.json();
+  queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+  return notification;
+}
+
+export async function markAllNotificationsRead(): Promise<number> {
+  const res = await apiRequest("POST", "/api/notifications/read-all");
+  const { updated } = await res.json();
+  queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+  return updated;
+}
+
+export async function updateNotificationPreferences(
+  preferences: NotificationPreference[]
+): Promise<NotificationPreference[]> {
+  const res = await apiRequest("PUT", "/api/notifications/preferences", { preferences });
+  const updated = await res.json();
+  queryClient.setQueryData(['/api/notifications/preferences'], updated);
+  return updated;
+}
+
+// Keep the notification list live while a user is logged in
+export function useNotificationStream(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${NOTIFICATION_SOCKET_PATH}`);
+
+      socket.onmessage = (event) => {
+        const message: NotificationSocketMessage = JSON.parse(event.data);
+
+        if (message.type === "notification") {
+          queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+          toast({ title: message.notification.title, description: message.notification.message });
+        }
+      };
+
+      socket.onclose = () => {
+        if (!closed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,30 @@
+import { EscrowPayment, PaymentMethod } from "@shared/schema";
+import { apiRequest, queryClient } from "./queryClient";
+
+function invalidatePaymentQueries() {
+  queryClient.invalidateQueries({ queryKey: ['/api/payments'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/contracts'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+}
+
+// Escrow payment API functions
+export async function fundEscrow(milestoneId: number, amount: number, paymentMethod: PaymentMethod): Promise<EscrowPayment> {
+  const res = await apiRequest("POST", "/api/payments", { milestoneId, amount, paymentMethod });
+  const payment = await res.json();
+  invalidatePaymentQueries();
+  return payment;
+}
+
+export async function releaseEscrowPayment(id: number): Promise<EscrowPayment> {
+  const res = await apiRequest("POST", `/api/payments/${id}/release`);
+  const payment = await res.json();
+  invalidatePaymentQueries();
+  return payment;
+}
+
+export async function refundEscrowPayment(id: number): Promise<EscrowPayment> {
+  const res = await apiRequest("POST", `/api/payments/${id}/refund`);
+  const payment = await res.json();
+  invalidatePaymentQueries();
+  return payment;
+}
@@ -0,0 +1,27 @@
+import { Review } from "@shared/schema";
+import { apiRequest, queryClient } from "./queryClient";
+
+// Whether a review is visible to everyone, not just its author
+export function isReviewRevealed(review: Review, now: Date = new Date()): boolean {
+  return new Date(review.revealedAt) <= now;
+}
+
+function invalidateReviewQueries(review: Review) {
+  queryClient.invalidateQueries({ queryKey: [`/api/contracts/${review.contractId}/reviews`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/users/${review.receiverId}/reviews`] });
+}
+
+// Review API functions
+export async function submitReview(contractId: number, rating: number, comment?: string): Promise<Review> {
+  const res = await apiRequest("POST", `/api/contracts/${contractId}/reviews`, { rating, comment });
+  const review = await res.json();
+  invalidateReviewQueries(review);
+  return review;
+}
+
+export async function replyToReview(id: number, reply: string): Promise<Review> {
+  const res = await apiRequest("POST", `/api/reviews/${id}/reply`, { reply });
+  const review = await res.json();
+  invalidateReviewQueries(review);
+  return review;
+}
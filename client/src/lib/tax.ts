@@ -0,0 +1,68 @@
+import { TaxLine, TaxProfile, TaxRate } from "@shared/schema";
+import { apiRequest, queryClient } from "./queryClient";
+
+export type TaxProfileChanges = {
+  country: string;
+  registrationNumber: string | null;
+  taxRates: TaxRate[];
+  reverseCharge: boolean;
+  incomeTaxRate: number;
+  deductibleExpenseRate: number;
+};
+
+export type QuarterlyTaxSummary = {
+  year: number;
+  quarter: number;
+  from: string;
+  to: string;
+  currency: string;
+  invoiceCount: number;
+  netSales: number;
+  reverseChargeSales: number;
+  taxCollected: TaxLine[];
+  taxCollectedTotal: number;
+  estimatedTaxableIncome: number;
+  estimatedTaxDue: number;
+};
+
+// Rates are stored in basis points; the UI edits them as percentages
+export function basisPointsToPercent(rate: number): number {
+  return rate / 100;
+}
+
+export function percentToBasisPoints(percent: number): number {
+  return Math.round(percent * 100);
+}
+
+// Calendar quarter a date falls in, e.g. { year: 2026, quarter: 4 }
+export function getQuarter(date: Date = new Date()): { year: number; quarter: number } {
+  return { year: date.getFullYear(), quarter: Math.floor(date.getMonth() / 3) + 1 };
+}
+
+// Tax API functions
+export async function fetchTaxProfile(): Promise<TaxProfile | null> {
+  const res = await fetch("/api/tax/profile", { credentials: "include" });
+
+  // Not set up yet
+  if (res.status === 404) {
+    return null;
+  }
+
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+  return res.json();
+}
+
+export async function saveTaxProfile(changes: TaxProfileChanges): Promise<TaxProfile> {
+  const res = await apiRequest("PUT", "/api/tax/profile", changes);
+  const profile = await res.json();
+  queryClient.setQueryData(['/api/tax/profile'], profile);
+  queryClient.invalidateQueries({ queryKey: ['/api/tax/summary'] });
+  return profile;
+}
+
+export async function fetchTaxSummary(year: number, quarter: number): Promise<QuarterlyTaxSummary> {
+  const res = await apiRequest("GET", `/api/tax/summary?year=${year}&quarter=${quarter}`);
+  return res.json();
+}
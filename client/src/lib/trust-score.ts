@@ -0,0 +1,60 @@
+export type TrustTierName = "bronze" | "silver" | "gold" | "platinum";
+
+export type TrustTierBenefits = {
+  tier: TrustTierName;
+  minimumScore: number;
+  platformFeeDiscount: number;
+  payoutSpeed: number;
+  escrowRequirements: "full" | "partial" | "minimal";
+  verificationLevel: "basic" | "enhanced" | "simplified";
+  prioritySupport: boolean;
+  contractTemplateAccess: "basic" | "premium" | "all";
+};
+
+export type TrustHistory = {
+  contractsCompleted: number;
+  contractsCancelled: number;
+  averageRating: number;
+  reviewCount: number;
+  disputesInitiated: number;
+  disputesLost: number;
+  paymentsPunctual: number;
+  paymentsLate: number;
+  deliverablesOnTime: number;
+  deliverablesLate: number;
+};
+
+// The full score, only returned for the logged-in user
+export type TrustScoreReport = {
+  trustScore: {
+    overallScore: number;
+    ratingFactor: number;
+    reliabilityFactor: number;
+    disputeFactor: number;
+    recommendation: string;
+    modelVersion: number;
+  };
+  tier: TrustTierBenefits;
+  nextTier?: TrustTierBenefits;
+  pointsToNextTier?: number;
+  history: TrustHistory;
+};
+
+// What other users see
+export type TrustScoreSummary = {
+  userId: number;
+  overallScore: number;
+  tier: TrustTierName;
+  averageRating: number;
+  reviewCount: number;
+  contractsCompleted: number;
+};
+
+export function getTrustScoreUrl(userId: number): string {
+  return `/api/users/${userId}/trust-score`;
+}
+
+// Daily snapshots, oldest first; only available for the logged-in user
+export function getTrustScoreHistoryUrl(userId: number, days: number): string {
+  return `/api/users/${userId}/trust-score/history?days=${days}`;
+}
@@ -23,6 +23,16 @@ import {
   GavelIcon
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Contract, Dispute, DisputeEvidence, DisputeStatus, UserType } from "@shared/schema";
+import { formatCurrency } from "@/lib/contracts";
+import {
+  DisputeAnalysis,
+  addDisputeEvidence,
+  claimDispute,
+  resolveDispute,
+  recommendationToOutcome
+} from "@/lib/disputes";
 
 export default function AIInsights() {
   const { user, isLoading } = useAuth();
@@ -30,22 +40,31 @@ export default function AIInsights() {
   const [messageToAnalyze, setMessageToAnalyze] = useState("");
   const [analysisResult, setAnalysisResult] = useState<any>(null);
   
-  // Mock dispute data (In production, this would come from an API)
-  const disputeData = {
-    id: 123,
-    contractId: 456,
-    reason: "Client claims the delivered work doesn't meet the specified requirements.",
-    status: "under_review",
-    evidence: [
-      { type: "message", content: "Our agreement clearly stated mobile compatibility as a requirement." },
-      { type: "screenshot", url: "#", description: "Screenshot showing requirements document" }
-    ],
-    recommendation: "compromise",
-    confidenceScore: 0.78,
-    reasoning: "While the contract does mention mobile compatibility, the specific requirements were not detailed enough. The freelancer delivered a working solution, but mobile optimization could be improved.",
-    suggestedResolution: "Release 75% of the milestone payment, with the remaining 25% to be released after mobile optimization improvements are made.",
-    fairAmountToRelease: 750
-  };
+  const { toast } = useToast();
+  const [selectedDisputeId, setSelectedDisputeId] = useState<number | null>(null);
+  const [evidenceText, setEvidenceText] = useState("");
+  const [disputeActionPending, setDisputeActionPending] = useState(false);
+  
+  const { data: disputes, isLoading: disputesLoading } = useQuery<Dispute[]>({
+    queryKey: ['/api/disputes'],
+    enabled: !!user,
+  });
+  
+  const disputeData = disputes?.find(d => d.id === selectedDisputeId) || disputes?.[0];
+  const isReviewingModerator = !!disputeData && disputeData.moderatorId === user?.id
+    && disputeData.status === DisputeStatus.UNDER_REVIEW;
+  
+  // Only the reviewing moderator can request the AI recommendation
+  const { data: disputeAnalysis, isLoading: analysisLoading } = useQuery<DisputeAnalysis>({
+    queryKey: [`/api/disputes/${disputeData?.id}/analysis`],
+    enabled: isReviewingModerator,
+  });
+  
+  // For the currency the disputed amounts are in
+  const { data: disputeContract } = useQuery<Contract>({
+    queryKey: ['/api/contracts', disputeData?.contractId.toString()],
+    enabled: isReviewingModerator,
+  });
   
   // Mock red flag data
   const redFlagSample = {
@@ -241,9 +260,75 @@ export default function AIInsights() {
     );
   };
   
+  const runDisputeAction = async (action: () => Promise<unknown>, successTitle: string) => {
+    setDisputeActionPending(true);
+    
+    try {
+      await action();
+      toast({ title: successTitle });
+    } catch (error) {
+      console.error("Dispute action error:", error);
+      toast({
+        title: "Action failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setDisputeActionPending(false);
+    }
+  };
+  
+  const handleAddEvidence = (dispute: Dispute) => runDisputeAction(async () => {
+    await addDisputeEvidence(dispute.id, [{ type: "note", description: evidenceText }]);
+    setEvidenceText("");
+  }, "Evidence added");
+  
+  const handleAcceptRecommendation = (dispute: Dispute, analysis: DisputeAnalysis) => runDisputeAction(
+    () => resolveDispute(
+      dispute.id,
+      recommendationToOutcome(analysis.recommendation),
+      analysis.suggestedResolution,
+      analysis.recommendation === 'compromise' ? analysis.fairAmountToRelease ?? 0 : undefined
+    ),
+    "Dispute resolved"
+  );
+  
   const renderDisputeResolution = () => {
+    if (disputesLoading) {
+      return <div className="text-center py-10 text-neutral-500">Loading disputes...</div>;
+    }
+    
+    if (!disputeData) {
+      return (
+        <Card>
+          <CardContent className="py-10 text-center text-neutral-500">
+            No disputes to show.
+          </CardContent>
+        </Card>
+      );
+    }
+    
+    const evidence = (disputeData.evidence || []) as DisputeEvidence[];
+    const isModerator = user.userType === UserType.MODERATOR;
+    const isResolved = disputeData.status !== DisputeStatus.OPEN && disputeData.status !== DisputeStatus.UNDER_REVIEW;
+    
     return (
       <div className="grid grid-cols-1 gap-6">
+        {disputes && disputes.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {disputes.map(dispute => (
+              <Button
+                key={dispute.id}
+                size="sm"
+                variant={dispute.id === disputeData.id ? "default" : "outline"}
+                onClick={() => setSelectedDisputeId(dispute.id)}
+              >
+                Dispute #{dispute.id}
+              </Button>
+            ))}
+          </div>
+        )}
+        
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -251,10 +336,11 @@ export default function AIInsights() {
                 <GavelIcon className="h-5 w-5 mr-2 text-primary" />
                 AI-Powered Dispute Analysis
               </CardTitle>
-              <Badge variant="outline">{disputeData.status}</Badge>
+              <Badge variant="outline">{disputeData.status.replace(/_/g, ' ')}</Badge>
             </div>
             <CardDescription>
               Dispute #{disputeData.id} for Contract #{disputeData.contractId}
+              {disputeData.milestoneId && `, Milestone #${disputeData.milestoneId}`}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -265,57 +351,120 @@ export default function AIInsights() {
                 <p className="text-sm text-neutral-700">{disputeData.reason}</p>
               </div>
               
+              {disputeData.resolution && (
+                <div>
+                  <h3 className="font-semibold text-md mb-2">Resolution</h3>
+                  <p className="text-sm text-neutral-700">{disputeData.resolution}</p>
+                </div>
+              )}
+              
               <Separator />
               
               {/* AI Recommendation */}
-              <div>
-                <div className="flex justify-between items-center mb-2">
-                  <h3 className="font-semibold text-md">AI Recommendation</h3>
-                  <div className="flex items-center">
-                    <span className="text-sm text-neutral-500 mr-2">Confidence:</span>
-                    <Progress value={disputeData.confidenceScore * 100} className="w-24 h-2" />
-                    <span className="text-sm text-neutral-500 ml-2">{Math.round(disputeData.confidenceScore * 100)}%</span>
+              {isReviewingModerator && (
+                <>
+                  <div>
+                    {analysisLoading || !disputeAnalysis ? (
+                      <p className="text-sm text-neutral-500">Analyzing dispute...</p>
+                    ) : (
+                      <>
+                        <div className="flex justify-between items-center mb-2">
+                          <h3 className="font-semibold text-md">AI Recommendation</h3>
+                          <div className="flex items-center">
+                            <span className="text-sm text-neutral-500 mr-2">Confidence:</span>
+                            <Progress value={disputeAnalysis.confidenceScore * 100} className="w-24 h-2" />
+                            <span className="text-sm text-neutral-500 ml-2">{Math.round(disputeAnalysis.confidenceScore * 100)}%</span>
+                          </div>
+                        </div>
+                        
+                        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+                          <p className="text-sm font-medium">
+                            Recommended outcome: <span className="text-blue-700 capitalize">{disputeAnalysis.recommendation}</span>
+                          </p>
+                          {disputeAnalysis.fairAmountToRelease !== undefined && (
+                            <p className="text-sm mt-1">
+                              Fair amount to release: <span className="font-medium">{formatCurrency(disputeAnalysis.fairAmountToRelease, disputeContract?.currency)}</span>
+                            </p>
+                          )}
+                        </div>
+                        
+                        <h3 className="font-semibold text-md mb-2">Reasoning</h3>
+                        <p className="text-sm text-neutral-700 mb-4">{disputeAnalysis.reasoning}</p>
+                        
+                        <h3 className="font-semibold text-md mb-2">Suggested Resolution</h3>
+                        <p className="text-sm text-neutral-700">{disputeAnalysis.suggestedResolution}</p>
+                      </>
+                    )}
                   </div>
-                </div>
-                
-                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
-                  <p className="text-sm font-medium">
-                    Recommended outcome: <span className="text-blue-700 capitalize">{disputeData.recommendation}</span>
-                  </p>
-                  {disputeData.fairAmountToRelease && (
-                    <p className="text-sm mt-1">
-                      Fair amount to release: <span className="font-medium">${disputeData.fairAmountToRelease}</span>
-                    </p>
-                  )}
-                </div>
-                
-                <h3 className="font-semibold text-md mb-2">Reasoning</h3>
-                <p className="text-sm text-neutral-700 mb-4">{disputeData.reasoning}</p>
-                
-                <h3 className="font-semibold text-md mb-2">Suggested Resolution</h3>
-                <p className="text-sm text-neutral-700">{disputeData.suggestedResolution}</p>
-              </div>
-              
-              <Separator />
+                  
+                  <Separator />
+                </>
+              )}
               
               {/* Evidence Summary */}
               <div>
-                <h3 className="font-semibold text-md mb-2">Evidence Analysis</h3>
-                <ul className="space-y-2">
-                  {disputeData.evidence.map((item: any, index: number) => (
-                    <li key={index} className="text-sm">
-                      <span className="font-medium">{item.type === 'message' ? 'Message' : 'Screenshot'}: </span>
-                      {item.content || item.description}
-                    </li>
-                  ))}
-                </ul>
+                <h3 className="font-semibold text-md mb-2">Evidence</h3>
+                {evidence.length === 0 ? (
+                  <p className="text-sm text-neutral-500">No evidence has been submitted yet.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {evidence.map((item, index) => (
+                      <li key={index} className="text-sm">
+                        <span className="font-medium capitalize">{item.type}: </span>
+                        {item.url ? (
+                          <a href={item.url} target="_blank" rel="noreferrer" className="text-primary underline">
+                            {item.description}
+                          </a>
+                        ) : item.description}
+                        <span className="text-neutral-500"> ({new Date(item.submittedAt).toLocaleDateString()})</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
+              
+              {!isResolved && (!isModerator || isReviewingModerator) && (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder="Add a note or evidence for the moderator..."
+                    value={evidenceText}
+                    onChange={(e) => setEvidenceText(e.target.value)}
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!evidenceText || disputeActionPending}
+                      onClick={() => handleAddEvidence(disputeData)}
+                    >
+                      <FileTextIcon className="h-4 w-4 mr-2" />
+                      Add Evidence
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           </CardContent>
-          <CardFooter className="flex justify-end space-x-2">
-            <Button variant="outline">Reject Recommendation</Button>
-            <Button>Accept Recommendation</Button>
-          </CardFooter>
+          {isModerator && !isResolved && (
+            <CardFooter className="flex justify-end space-x-2">
+              {disputeData.status === DisputeStatus.OPEN && (
+                <Button
+                  disabled={disputeActionPending}
+                  onClick={() => runDisputeAction(() => claimDispute(disputeData.id), "Dispute claimed")}
+                >
+                  Claim Dispute
+                </Button>
+              )}
+              {isReviewingModerator && disputeAnalysis && (
+                <Button
+                  disabled={disputeActionPending}
+                  onClick={() => handleAcceptRecommendation(disputeData, disputeAnalysis)}
+                >
+                  Accept Recommendation
+                </Button>
+              )}
+            </CardFooter>
+          )}
         </Card>
       </div>
     );
@@ -0,0 +1,396 @@
+import { useMemo, useState } from "react";
+import { Helmet } from "react-helmet";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import Footer from "@/components/layout/footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { SearchIcon, SendIcon } from "lucide-react";
+
+const OPENAPI_URL = "/api/docs/openapi.json";
+
+type Schema = {
+  $ref?: string;
+  type?: string;
+  format?: string;
+  enum?: unknown[];
+  default?: unknown;
+  nullable?: boolean;
+  description?: string;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  items?: Schema;
+  additionalProperties?: Schema;
+  anyOf?: Schema[];
+  allOf?: Schema[];
+  oneOf?: Schema[];
+};
+
+type Parameter = { name: string; in: "path" | "query"; required: boolean; schema: Schema };
+
+type Operation = {
+  operationId: string;
+  tags: string[];
+  summary: string;
+  description?: string;
+  security: Record<string, string[]>[];
+  parameters?: Parameter[];
+  requestBody?: { content: { "application/json": { schema: Schema } } };
+  // JSON, or a file type such as application/pdf
+  responses: Record<string, { description: string; content?: Record<string, { schema: Schema }> }>;
+};
+
+type OpenApiDocument = {
+  info: { title: string; version: string; description: string };
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, Schema> };
+};
+
+type Endpoint = { method: string; path: string; operation: Operation };
+
+const METHOD_STYLES: Record<string, string> = {
+  get: "bg-blue-100 text-blue-800",
+  post: "bg-green-100 text-green-800",
+  put: "bg-amber-100 text-amber-800",
+  patch: "bg-amber-100 text-amber-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+function resolve(schema: Schema, doc: OpenApiDocument): Schema {
+  return schema.$ref ? doc.components.schemas[schema.$ref.split("/").pop()!] || {} : schema;
+}
+
+function schemaLabel(schema: Schema): string {
+  if (schema.$ref) {
+    return schema.$ref.split("/").pop()!;
+  }
+  if (schema.type === "array" && schema.items) {
+    return `${schemaLabel(schema.items)}[]`;
+  }
+  if (schema.enum) {
+    return schema.enum.map(String).join(" | ");
+  }
+  return [schema.type || "any", schema.format && `(${schema.format})`].filter(Boolean).join(" ");
+}
+
+// Build a sample value so request bodies can be filled in rather than typed from scratch
+function exampleFor(schema: Schema, doc: OpenApiDocument, depth: number = 0): unknown {
+  const resolved = resolve(schema, doc);
+
+  if (depth > 5) {
+    return null;
+  }
+  if (resolved.default !== undefined) {
+    return resolved.default;
+  }
+  if (resolved.enum) {
+    return resolved.enum[0];
+  }
+  if (resolved.anyOf || resolved.oneOf) {
+    return exampleFor((resolved.anyOf || resolved.oneOf)![0], doc, depth + 1);
+  }
+
+  switch (resolved.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(resolved.properties || {})
+          .filter(([name]) => resolved.required?.includes(name))
+          .map(([name, property]) => [name, exampleFor(property, doc, depth + 1)])
+      );
+    case "array":
+      return resolved.items ? [exampleFor(resolved.items, doc, depth + 1)] : [];
+    case "string":
+      return resolved.format === "date-time" ? new Date().toISOString() : "string";
+    case "integer":
+      return 1;
+    case "number":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+function SchemaTable({ schema, doc }: { schema: Schema; doc: OpenApiDocument }) {
+  const resolved = resolve(schema.type === "array" && schema.items ? schema.items : schema, doc);
+
+  if (!resolved.properties) {
+    return <p className="text-sm text-neutral-600">{schemaLabel(schema)}</p>;
+  }
+
+  return (
+    <div className="border rounded-md divide-y">
+      {Object.entries(resolved.properties).map(([name, property]) => (
+        <div key={name} className="px-3 py-2 text-sm flex flex-col sm:flex-row sm:gap-4">
+          <div className="sm:w-48 font-mono">
+            {name}
+            {resolved.required?.includes(name) && <span className="text-red-600">*</span>}
+          </div>
+          <div className="flex-1">
+            <span className="text-neutral-700">{schemaLabel(property)}</span>
+            {property.nullable && <span className="text-neutral-400"> or null</span>}
+            {property.description && <p className="text-neutral-500">{property.description}</p>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TryIt({ endpoint, doc }: { endpoint: Endpoint; doc: OpenApiDocument }) {
+  const { method, path, operation } = endpoint;
+  const requestSchema = operation.requestBody?.content["application/json"].schema;
+  const [params, setParams] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(() =>
+    requestSchema ? JSON.stringify(exampleFor(requestSchema, doc), null, 2) : ""
+  );
+  const [result, setResult] = useState<{ status: number; body: string } | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const send = async () => {
+    const query = new URLSearchParams();
+    let url = path;
+
+    for (const param of operation.parameters || []) {
+      const value = params[param.name];
+      if (param.in === "path") {
+        url = url.replace(`{${param.name}}`, encodeURIComponent(value || ""));
+      } else if (value) {
+        query.append(param.name, value);
+      }
+    }
+
+    setIsSending(true);
+    try {
+      const res = await fetch(query.toString() ? `${url}?${query}` : url, {
+        method: method.toUpperCase(),
+        headers: body ? { "Content-Type": "application/json" } : {},
+        body: body || undefined,
+        credentials: "include",
+      });
+      const contentType = res.headers.get("Content-Type") || "";
+      if (contentType.startsWith("application/pdf")) {
+        // Files aren't worth printing; the request from the page is enough to check access
+        setResult({ status: res.status, body: `${contentType}, ${(await res.blob()).size} bytes` });
+        return;
+      }
+      const text = await res.text();
+      let formatted = text;
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON; show as is
+      }
+      setResult({ status: res.status, body: formatted });
+    } catch (error) {
+      setResult({ status: 0, body: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <h4 className="text-sm font-semibold">Try it</h4>
+      {(operation.parameters || []).map(param => (
+        <div key={param.name} className="grid sm:grid-cols-4 items-center gap-2">
+          <Label htmlFor={`${operation.operationId}-${param.name}`} className="font-mono">
+            {param.name} <span className="text-neutral-400 font-sans">({param.in})</span>
+          </Label>
+          <Input
+            id={`${operation.operationId}-${param.name}`}
+            className="sm:col-span-3"
+            placeholder={schemaLabel(param.schema)}
+            value={params[param.name] || ""}
+            onChange={(e) => setParams({ ...params, [param.name]: e.target.value })}
+          />
+        </div>
+      ))}
+      {requestSchema && (
+        <Textarea
+          className="font-mono text-xs"
+          rows={Math.min(16, body.split("\n").length + 1)}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+      )}
+      <Button size="sm" onClick={send} disabled={isSending}>
+        <SendIcon className="mr-2 h-4 w-4" />
+        {isSending ? "Sending..." : "Send request"}
+      </Button>
+      {result && (
+        <div>
+          <p className="text-sm mb-1">
+            Status: <span className={result.status >= 200 && result.status < 300 ? "text-green-700" : "text-red-700"}>{result.status || "network error"}</span>
+          </p>
+          <pre className="bg-neutral-900 text-neutral-100 text-xs rounded-md p-3 max-h-80 overflow-auto">{result.body || "(empty)"}</pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function EndpointDetails({ endpoint, doc }: { endpoint: Endpoint; doc: OpenApiDocument }) {
+  const { operation } = endpoint;
+  const requestSchema = operation.requestBody?.content["application/json"].schema;
+  const isSigned = operation.security.some(requirement => "ApiSignature" in requirement);
+
+  return (
+    <div className="space-y-4">
+      {operation.description && <p className="text-sm text-neutral-600">{operation.description}</p>}
+      <p className="text-xs text-neutral-500">
+        {isSigned
+          ? "Authenticated with a signed API key."
+          : operation.security.length
+            ? "Authenticated with your login session."
+            : "No authentication required."}
+      </p>
+
+      {requestSchema && (
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Request body: {schemaLabel(requestSchema)}</h4>
+          <SchemaTable schema={requestSchema} doc={doc} />
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-semibold mb-2">Responses</h4>
+        <div className="space-y-1">
+          {Object.entries(operation.responses).map(([status, response]) => (
+            <div key={status} className="text-sm flex gap-3">
+              <span className="font-mono w-10">{status}</span>
+              <span className="text-neutral-600">
+                {response.description}
+                {response.content && Object.entries(response.content).map(([type, { schema }]) =>
+                  ` (${type === "application/json" ? schemaLabel(schema) : type})`
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {isSigned ? (
+        <p className="text-sm text-neutral-600 border-t pt-4">
+          Requests must be signed with an API key secret, so they can't be sent from this page.
+        </p>
+      ) : (
+        <TryIt endpoint={endpoint} doc={doc} />
+      )}
+    </div>
+  );
+}
+
+export default function ApiDocs() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const { data: doc, isLoading } = useQuery<OpenApiDocument>({
+    queryKey: [OPENAPI_URL],
+  });
+
+  const groups = useMemo(() => {
+    const byTag = new Map<string, Endpoint[]>();
+    const term = searchTerm.toLowerCase();
+
+    for (const [path, operations] of Object.entries(doc?.paths || {})) {
+      for (const [method, operation] of Object.entries(operations)) {
+        if (term && !`${method} ${path} ${operation.summary}`.toLowerCase().includes(term)) {
+          continue;
+        }
+        const tag = operation.tags[0];
+        byTag.set(tag, [...(byTag.get(tag) || []), { method, path, operation }]);
+      }
+    }
+
+    return Array.from(byTag.entries());
+  }, [doc, searchTerm]);
+
+  return (
+    <>
+      <Helmet>
+        <title>API Reference | ContractPay</title>
+      </Helmet>
+      <div className="min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-1">
+          <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+            <div className="px-4 sm:px-0">
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+                <div>
+                  <h1 className="text-2xl font-semibold text-neutral-900">API Reference</h1>
+                  <p className="mt-1 text-sm text-neutral-600">
+                    Generated from the live routes.{" "}
+                    <a href={OPENAPI_URL} className="text-primary hover:underline" target="_blank" rel="noreferrer">
+                      Download the OpenAPI document
+                    </a>
+                  </p>
+                </div>
+              </div>
+
+              {isLoading || !doc ? (
+                <p className="text-neutral-500">Loading...</p>
+              ) : (
+                <>
+                  <Card className="mb-6">
+                    <CardHeader>
+                      <CardTitle>{doc.info.title} <span className="text-sm text-neutral-500">v{doc.info.version}</span></CardTitle>
+                      <CardDescription>{doc.info.description}</CardDescription>
+                    </CardHeader>
+                  </Card>
+
+                  <div className="mb-6 relative">
+                    <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-neutral-400 h-4 w-4" />
+                    <Input
+                      placeholder="Search endpoints..."
+                      className="pl-10"
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                    />
+                  </div>
+
+                  {groups.length === 0 && <p className="text-center py-12 text-neutral-500">No endpoints found</p>}
+
+                  <div className="space-y-6">
+                    {groups.map(([tag, endpoints]) => (
+                      <Card key={tag}>
+                        <CardHeader className="pb-2">
+                          <CardTitle className="text-lg">{tag}</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <Accordion type="multiple">
+                            {endpoints.map(endpoint => (
+                              <AccordionItem key={endpoint.operation.operationId} value={endpoint.operation.operationId}>
+                                <AccordionTrigger className="hover:no-underline">
+                                  <div className="flex items-center gap-3 text-left">
+                                    <Badge variant="outline" className={`w-16 justify-center uppercase border-0 ${METHOD_STYLES[endpoint.method] || ""}`}>
+                                      {endpoint.method}
+                                    </Badge>
+                                    <span className="font-mono text-sm">{endpoint.path}</span>
+                                    <span className="text-sm text-neutral-500 hidden md:inline">{endpoint.operation.summary}</span>
+                                  </div>
+                                </AccordionTrigger>
+                                <AccordionContent>
+                                  <EndpointDetails endpoint={endpoint} doc={doc} />
+                                </AccordionContent>
+                              </AccordionItem>
+                            ))}
+                          </Accordion>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    </>
+  );
+}
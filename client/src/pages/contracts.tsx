@@ -116,7 +116,7 @@ export default function Contracts() {
                   <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(contract.status)}`}>
                     {getStatusLabel(contract.status)}
                   </span>
-                  <p className="text-sm font-medium text-neutral-900 mt-1">{formatCurrency(contract.totalAmount)}</p>
+                  <p className="text-sm font-medium text-neutral-900 mt-1">{formatCurrency(contract.totalAmount, contract.currency)}</p>
                 </div>
               </div>
               <div className="flex justify-between items-center mt-4 text-sm text-neutral-500">
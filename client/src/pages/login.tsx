@@ -17,6 +17,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
 
@@ -27,8 +28,105 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+function TwoFactorStep() {
+  const { verifyTwoFactor, cancelTwoFactor } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  
+  const submit = async (value: string) => {
+    setIsSubmitting(true);
+    
+    try {
+      await verifyTwoFactor(value);
+    } catch (error) {
+      console.error("2FA error:", error);
+      // The server drops the pending login after it expires or too many bad codes
+      const expired = error instanceof Error && error.message.includes("sign in again");
+      
+      setCode("");
+      toast({
+        title: "Verification failed",
+        description: expired ? "Please sign in again." : "That code wasn't accepted. Please try again.",
+        variant: "destructive",
+      });
+      
+      if (expired) {
+        cancelTwoFactor();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <>
+      <CardHeader className="text-center">
+        <h1 className="text-2xl font-bold tracking-tight text-neutral-900">
+          Two-factor authentication
+        </h1>
+        <p className="mt-2 text-sm text-neutral-600">
+          {useBackupCode
+            ? "Enter one of your backup codes"
+            : "Enter the 6-digit code from your authenticator app"}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {useBackupCode ? (
+          <Input
+            placeholder="xxxxx-xxxxx"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+          />
+        ) : (
+          <div className="flex justify-center">
+            <InputOTP
+              maxLength={6}
+              value={code}
+              onChange={setCode}
+              onComplete={submit}
+              disabled={isSubmitting}
+            >
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
+        
+        <Button
+          className="w-full"
+          disabled={isSubmitting || !code}
+          onClick={() => submit(code)}
+        >
+          {isSubmitting ? "Verifying..." : "Verify"}
+        </Button>
+      </CardContent>
+      <CardFooter className="flex justify-between border-t p-6">
+        <Button
+          variant="link"
+          className="px-0"
+          onClick={() => {
+            setUseBackupCode(!useBackupCode);
+            setCode("");
+          }}
+        >
+          {useBackupCode ? "Use authenticator app" : "Use a backup code"}
+        </Button>
+        <Button variant="link" className="px-0" onClick={cancelTwoFactor}>
+          Back to login
+        </Button>
+      </CardFooter>
+    </>
+  );
+}
+
 export default function Login() {
-  const { login, user } = useAuth();
+  const { login, user, twoFactorPending } = useAuth();
   const { toast } = useToast();
   const [_, navigate] = useLocation();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -51,8 +149,8 @@ export default function Login() {
     setIsSubmitting(true);
     
     try {
+      // Once the user is set the redirect above takes over; 2FA accounts get a second step first
       await login(data.username, data.password);
-      navigate("/dashboard");
     } catch (error) {
       console.error("Login error:", error);
       toast({
@@ -74,69 +172,73 @@ export default function Login() {
         <Header />
         <main className="flex-1 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
           <Card className="w-full max-w-md">
-            <CardHeader className="text-center">
-              <h1 className="text-2xl font-bold tracking-tight text-neutral-900">
-                Log in to your account
-              </h1>
-              <p className="mt-2 text-sm text-neutral-600">
-                Enter your credentials to access your account
-              </p>
-            </CardHeader>
-            <CardContent>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="username"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Username</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Enter your username" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+            {twoFactorPending ? <TwoFactorStep /> : (
+              <>
+                <CardHeader className="text-center">
+                  <h1 className="text-2xl font-bold tracking-tight text-neutral-900">
+                    Log in to your account
+                  </h1>
+                  <p className="mt-2 text-sm text-neutral-600">
+                    Enter your credentials to access your account
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="username"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Username</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Enter your username" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                   
-                  <FormField
-                    control={form.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Password</FormLabel>
-                        <FormControl>
-                          <Input 
-                            type="password" 
-                            placeholder="Enter your password" 
-                            {...field} 
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                      <FormField
+                        control={form.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Password</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="password" 
+                                placeholder="Enter your password" 
+                                {...field} 
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                   
-                  <Button
-                    type="submit"
-                    className="w-full"
-                    disabled={isSubmitting}
-                  >
-                    {isSubmitting ? "Logging in..." : "Log in"}
-                  </Button>
-                </form>
-              </Form>
-            </CardContent>
-            <CardFooter className="flex justify-center border-t p-6">
-              <p className="text-sm text-neutral-600">
-                Don't have an account?{" "}
-                <Link href="/register">
-                  <a className="font-medium text-primary hover:text-primary-dark">
-                    Register now
-                  </a>
-                </Link>
-              </p>
-            </CardFooter>
+                      <Button
+                        type="submit"
+                        className="w-full"
+                        disabled={isSubmitting}
+                      >
+                        {isSubmitting ? "Logging in..." : "Log in"}
+                      </Button>
+                    </form>
+                  </Form>
+                </CardContent>
+                <CardFooter className="flex justify-center border-t p-6">
+                  <p className="text-sm text-neutral-600">
+                    Don't have an account?{" "}
+                    <Link href="/register">
+                      <a className="font-medium text-primary hover:text-primary-dark">
+                        Register now
+                      </a>
+                    </Link>
+                  </p>
+                </CardFooter>
+              </>
+            )}
           </Card>
         </main>
         <Footer />
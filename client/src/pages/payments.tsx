@@ -1,72 +1,97 @@
+import { useState } from "react";
 import { Helmet } from "react-helmet";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/lib/auth";
-import { formatCurrency, formatDate, getStatusBadgeColor } from "@/lib/contracts";
+import { formatCurrency, formatCurrencyTotals, formatDate } from "@/lib/contracts";
+import { releaseEscrowPayment } from "@/lib/payments";
+import { basisPointsToPercent, fetchTaxSummary, getQuarter } from "@/lib/tax";
+import { useToast } from "@/hooks/use-toast";
 import { Redirect } from "wouter";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Milestone, MilestoneStatus } from "@shared/schema";
+import { EscrowPayment, EscrowStatus } from "@shared/schema";
+import { formatMoney } from "@shared/currency";
+import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
 
-// In a real application, we would have an API endpoint for payments
-// Here we're simulating upcoming payments using milestone data
-const simulatedMilestones: Milestone[] = [
-  {
-    id: 1,
-    contractId: 1,
-    title: "Website Redesign - Milestone 3",
-    description: "CMS Integration",
-    amount: 1500,
-    status: MilestoneStatus.PENDING_REVIEW,
-    dueDate: new Date('2023-06-01'),
-    completedDate: null,
-  },
-  {
-    id: 2,
-    contractId: 2,
-    title: "Mobile App - Milestone 2",
-    description: "Frontend implementation",
-    amount: 2500,
-    status: MilestoneStatus.NOT_STARTED,
-    dueDate: new Date('2023-06-08'),
-    completedDate: null,
-  },
-  {
-    id: 3,
-    contractId: 3,
-    title: "Content Strategy - Milestone 4",
-    description: "Final content delivery",
-    amount: 800,
-    status: MilestoneStatus.READY_FOR_PAYMENT,
-    dueDate: new Date('2023-05-30'),
-    completedDate: null,
-  },
-  {
-    id: 4,
-    contractId: 1,
-    title: "Website Redesign - Milestone 2",
-    description: "Frontend development",
-    amount: 1250,
-    status: MilestoneStatus.COMPLETED,
-    dueDate: new Date('2023-05-15'),
-    completedDate: new Date('2023-05-15'),
-  },
-  {
-    id: 5,
-    contractId: 3,
-    title: "Content Strategy - Milestone 3",
-    description: "SEO optimization",
-    amount: 950,
-    status: MilestoneStatus.COMPLETED,
-    dueDate: new Date('2023-05-10'),
-    completedDate: new Date('2023-05-10'),
-  }
-];
+function TaxSummaryCard() {
+  const [period, setPeriod] = useState(getQuarter);
+  const { data: summary, isLoading } = useQuery({
+    queryKey: ['/api/tax/summary', period.year, period.quarter],
+    queryFn: () => fetchTaxSummary(period.year, period.quarter),
+  });
+
+  const step = (delta: number) => setPeriod(({ year, quarter }) => {
+    const index = year * 4 + (quarter - 1) + delta;
+    return { year: Math.floor(index / 4), quarter: (index % 4) + 1 };
+  });
+
+  const rows = summary ? [
+    { label: "Net sales", value: summary.netSales },
+    { label: "Of which reverse charge", value: summary.reverseChargeSales },
+    ...summary.taxCollected.map(line => ({
+      label: `${line.name} collected (${basisPointsToPercent(line.rate)}%)`,
+      value: line.amount,
+    })),
+    { label: "Estimated taxable income", value: summary.estimatedTaxableIncome },
+    { label: "Estimated income tax", value: summary.estimatedTaxDue },
+  ] : [];
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Quarterly tax summary</CardTitle>
+          <CardDescription>
+            From invoices issued in the quarter, in your home currency. Estimates use the rates in your tax profile.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => step(-1)} aria-label="Previous quarter">
+            <ChevronLeftIcon className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium text-neutral-900 w-20 text-center">
+            Q{period.quarter} {period.year}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => step(1)} aria-label="Next quarter">
+            <ChevronRightIcon className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && <Skeleton className="h-24 w-full" />}
+        {summary && (
+          <>
+            <dl className="divide-y divide-neutral-200">
+              {rows.map(row => (
+                <div key={row.label} className="flex justify-between py-2">
+                  <dt className="text-sm text-neutral-600">{row.label}</dt>
+                  <dd className="text-sm font-medium text-neutral-900">{formatMoney(row.value, summary.currency)}</dd>
+                </div>
+              ))}
+            </dl>
+            <p className="pt-2 text-xs text-neutral-500">
+              {summary.invoiceCount} invoice{summary.invoiceCount === 1 ? "" : "s"} issued. Not tax advice.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function Payments() {
   const { user, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [releasingId, setReleasingId] = useState<number | null>(null);
+  
+  const { data: payments, isLoading } = useQuery<EscrowPayment[]>({
+    queryKey: ['/api/payments'],
+    enabled: !!user,
+  });
   
   if (authLoading) {
     return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
@@ -76,51 +101,74 @@ export default function Payments() {
     return <Redirect to="/login" />;
   }
   
-  // Calculate days until due
-  const getDaysUntilDue = (dueDate: Date) => {
-    const today = new Date();
-    const due = new Date(dueDate);
-    const diffTime = due.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays;
-  };
+  const allPayments = payments || [];
   
-  // Filter milestones by status
-  const pendingPayments = simulatedMilestones.filter(
-    milestone => milestone.status === MilestoneStatus.PENDING_REVIEW || 
-                 milestone.status === MilestoneStatus.READY_FOR_PAYMENT
-  );
+  // Group escrow payments by status
+  const fundedPayments = allPayments.filter(p => p.status === EscrowStatus.FUNDED);
+  const releasedPayments = allPayments.filter(p => p.status === EscrowStatus.RELEASED);
+  const refundedPayments = allPayments.filter(p => p.status === EscrowStatus.REFUNDED);
   
-  const upcomingPayments = simulatedMilestones.filter(
-    milestone => milestone.status === MilestoneStatus.NOT_STARTED || 
-                 milestone.status === MilestoneStatus.IN_PROGRESS
-  );
+  // Payments on contracts in different currencies are totalled per currency
+  const sumAmounts = (list: EscrowPayment[]) => formatCurrencyTotals(list, user.homeCurrency);
   
-  const completedPayments = simulatedMilestones.filter(
-    milestone => milestone.status === MilestoneStatus.COMPLETED
-  );
-  
-  const allPayments = [...pendingPayments, ...upcomingPayments, ...completedPayments];
+  const handleRelease = async (payment: EscrowPayment) => {
+    setReleasingId(payment.id);
+    
+    try {
+      await releaseEscrowPayment(payment.id);
+      toast({
+        title: "Payment released",
+        description: `${formatCurrency(payment.amount, payment.currency)} has been released to the freelancer`,
+      });
+    } catch (error) {
+      console.error("Release error:", error);
+      toast({
+        title: "Release failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setReleasingId(null);
+    }
+  };
   
-  const getStatusLabel = (status: MilestoneStatus): string => {
+  const getStatusLabel = (status: string): string => {
     switch(status) {
-      case MilestoneStatus.NOT_STARTED:
-        return "Not Started";
-      case MilestoneStatus.IN_PROGRESS:
-        return "In Progress";
-      case MilestoneStatus.PENDING_REVIEW:
-        return "Awaiting Approval";
-      case MilestoneStatus.READY_FOR_PAYMENT:
-        return "Ready for Payment";
-      case MilestoneStatus.COMPLETED:
-        return "Paid";
+      case EscrowStatus.FUNDED:
+        return "In Escrow";
+      case EscrowStatus.RELEASED:
+        return "Released";
+      case EscrowStatus.REFUNDED:
+        return "Refunded";
       default:
         return status;
     }
   };
   
-  const renderPaymentsList = (milestones: Milestone[]) => {
-    if (!milestones.length) {
+  const getStatusColor = (status: string): string => {
+    switch(status) {
+      case EscrowStatus.FUNDED:
+        return "bg-yellow-100 text-yellow-800";
+      case EscrowStatus.RELEASED:
+        return "bg-green-100 text-green-800";
+      case EscrowStatus.REFUNDED:
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+  
+  const renderPaymentsList = (list: EscrowPayment[]) => {
+    if (isLoading) {
+      return (
+        <div className="space-y-4">
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </div>
+      );
+    }
+    
+    if (!list.length) {
       return (
         <div className="text-center py-12">
           <p className="text-neutral-500">No payments found</p>
@@ -130,47 +178,60 @@ export default function Payments() {
     
     return (
       <div className="divide-y divide-neutral-200">
-        {milestones.map(milestone => {
-          const daysUntilDue = getDaysUntilDue(milestone.dueDate);
-          
-          return (
-            <div key={milestone.id} className="py-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-neutral-900">{milestone.title}</p>
-                  <p className="text-sm text-neutral-500">{milestone.description}</p>
-                </div>
-                <div className="text-right">
-                  <p className="text-sm font-medium text-neutral-900">{formatCurrency(milestone.amount)}</p>
+        {list.map(payment => (
+          <div key={payment.id} className="py-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-neutral-900">Milestone #{payment.milestoneId}</p>
+                <p className="text-sm text-neutral-500">
+                  {user.id === payment.clientId ? `To freelancer #${payment.freelancerId}` : `From client #${payment.clientId}`}
+                  {" · "}{payment.paymentMethod}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm font-medium text-neutral-900">{formatCurrency(payment.amount, payment.currency)}</p>
+                <p className="text-xs text-neutral-500">
+                  {payment.releasedAt
+                    ? `Released on ${formatDate(payment.releasedAt)}`
+                    : payment.depositedAt
+                      ? `Deposited on ${formatDate(payment.depositedAt)}`
+                      : ""
+                  }
+                </p>
+                {payment.payoutAmount !== null && (
                   <p className="text-xs text-neutral-500">
-                    {milestone.status === MilestoneStatus.COMPLETED
-                      ? `Paid on ${formatDate(milestone.completedDate!)}`
-                      : daysUntilDue <= 0
-                        ? "Overdue"
-                        : `Due in ${daysUntilDue} days`
+                    {`Fee ${formatCurrency(payment.feeAmount! - payment.feeDiscount!, payment.currency)}`}
+                    {" · "}
+                    {payment.paidOutAt
+                      ? `${formatCurrency(payment.payoutAmount, payment.currency)} paid out`
+                      : `${formatCurrency(payment.payoutAmount, payment.currency)} payout by ${formatDate(payment.payoutDueAt!)}`
                     }
                   </p>
-                </div>
+                )}
               </div>
-              <div className="mt-2 flex items-center justify-between">
-                <div className="flex items-center">
-                  <span className="text-xs font-medium text-neutral-700 mr-1">Status:</span>
-                  <span className={`text-xs inline-flex items-center px-2.5 py-0.5 rounded-full font-medium ${getStatusBadgeColor(milestone.status)}`}>
-                    {getStatusLabel(milestone.status)}
-                  </span>
-                </div>
-                <div className="flex space-x-2">
-                  {milestone.status === MilestoneStatus.READY_FOR_PAYMENT && (
-                    <Button size="sm" variant="default">Process Payment</Button>
-                  )}
-                  {milestone.status === MilestoneStatus.PENDING_REVIEW && (
-                    <Button size="sm" variant="outline">Review Work</Button>
-                  )}
-                </div>
+            </div>
+            <div className="mt-2 flex items-center justify-between">
+              <div className="flex items-center">
+                <span className="text-xs font-medium text-neutral-700 mr-1">Status:</span>
+                <span className={`text-xs inline-flex items-center px-2.5 py-0.5 rounded-full font-medium ${getStatusColor(payment.status)}`}>
+                  {getStatusLabel(payment.status)}
+                </span>
+              </div>
+              <div className="flex space-x-2">
+                {payment.status === EscrowStatus.FUNDED && user.id === payment.clientId && (
+                  <Button
+                    size="sm"
+                    variant="default"
+                    disabled={releasingId === payment.id}
+                    onClick={() => handleRelease(payment)}
+                  >
+                    {releasingId === payment.id ? "Releasing..." : "Release Payment"}
+                  </Button>
+                )}
               </div>
             </div>
-          );
-        })}
+          </div>
+        ))}
       </div>
     );
   };
@@ -187,15 +248,15 @@ export default function Payments() {
             <div className="px-4 sm:px-0">
               <div className="mb-6">
                 <h1 className="text-2xl font-semibold text-neutral-900">Payments</h1>
-                <p className="mt-1 text-sm text-neutral-600">Manage contract payments and transactions</p>
+                <p className="mt-1 text-sm text-neutral-600">Manage escrow deposits and releases</p>
               </div>
               
               <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mb-6">
                 <Card>
                   <CardContent className="p-6">
                     <div className="text-center">
-                      <h3 className="text-lg font-medium text-neutral-900">{formatCurrency(1500 + 2500 + 800)}</h3>
-                      <p className="text-sm text-neutral-500">Pending Payments</p>
+                      <h3 className="text-lg font-medium text-neutral-900">{sumAmounts(fundedPayments)}</h3>
+                      <p className="text-sm text-neutral-500">Held in Escrow</p>
                     </div>
                   </CardContent>
                 </Card>
@@ -203,8 +264,8 @@ export default function Payments() {
                 <Card>
                   <CardContent className="p-6">
                     <div className="text-center">
-                      <h3 className="text-lg font-medium text-neutral-900">{formatCurrency(1250 + 950)}</h3>
-                      <p className="text-sm text-neutral-500">Completed Payments</p>
+                      <h3 className="text-lg font-medium text-neutral-900">{sumAmounts(releasedPayments)}</h3>
+                      <p className="text-sm text-neutral-500">Released Payments</p>
                     </div>
                   </CardContent>
                 </Card>
@@ -212,8 +273,8 @@ export default function Payments() {
                 <Card>
                   <CardContent className="p-6">
                     <div className="text-center">
-                      <h3 className="text-lg font-medium text-neutral-900">3</h3>
-                      <p className="text-sm text-neutral-500">Pending Approvals</p>
+                      <h3 className="text-lg font-medium text-neutral-900">{fundedPayments.length}</h3>
+                      <p className="text-sm text-neutral-500">Awaiting Release</p>
                     </div>
                   </CardContent>
                 </Card>
@@ -221,8 +282,8 @@ export default function Payments() {
                 <Card>
                   <CardContent className="p-6">
                     <div className="text-center">
-                      <h3 className="text-lg font-medium text-neutral-900">7 days</h3>
-                      <p className="text-sm text-neutral-500">Average Payment Time</p>
+                      <h3 className="text-lg font-medium text-neutral-900">{sumAmounts(refundedPayments)}</h3>
+                      <p className="text-sm text-neutral-500">Refunded</p>
                     </div>
                   </CardContent>
                 </Card>
@@ -230,7 +291,7 @@ export default function Payments() {
               
               <Card>
                 <CardHeader className="p-0">
-                  <Tabs defaultValue="pending" className="w-full">
+                  <Tabs defaultValue="funded" className="w-full">
                     <TabsList className="w-full justify-start rounded-none border-b bg-transparent p-0">
                       <TabsTrigger
                         value="all"
@@ -239,22 +300,22 @@ export default function Payments() {
                         All ({allPayments.length})
                       </TabsTrigger>
                       <TabsTrigger
-                        value="pending"
+                        value="funded"
                         className="rounded-none border-b-2 border-transparent px-4 py-3 data-[state=active]:border-primary data-[state=active]:bg-transparent"
                       >
-                        Pending ({pendingPayments.length})
+                        In Escrow ({fundedPayments.length})
                       </TabsTrigger>
                       <TabsTrigger
-                        value="upcoming"
+                        value="released"
                         className="rounded-none border-b-2 border-transparent px-4 py-3 data-[state=active]:border-primary data-[state=active]:bg-transparent"
                       >
-                        Upcoming ({upcomingPayments.length})
+                        Released ({releasedPayments.length})
                       </TabsTrigger>
                       <TabsTrigger
-                        value="completed"
+                        value="refunded"
                         className="rounded-none border-b-2 border-transparent px-4 py-3 data-[state=active]:border-primary data-[state=active]:bg-transparent"
                       >
-                        Completed ({completedPayments.length})
+                        Refunded ({refundedPayments.length})
                       </TabsTrigger>
                     </TabsList>
                     
@@ -262,20 +323,22 @@ export default function Payments() {
                       {renderPaymentsList(allPayments)}
                     </TabsContent>
                     
-                    <TabsContent value="pending" className="p-6">
-                      {renderPaymentsList(pendingPayments)}
+                    <TabsContent value="funded" className="p-6">
+                      {renderPaymentsList(fundedPayments)}
                     </TabsContent>
                     
-                    <TabsContent value="upcoming" className="p-6">
-                      {renderPaymentsList(upcomingPayments)}
+                    <TabsContent value="released" className="p-6">
+                      {renderPaymentsList(releasedPayments)}
                     </TabsContent>
                     
-                    <TabsContent value="completed" className="p-6">
-                      {renderPaymentsList(completedPayments)}
+                    <TabsContent value="refunded" className="p-6">
+                      {renderPaymentsList(refundedPayments)}
                     </TabsContent>
                   </Tabs>
                 </CardHeader>
               </Card>
+              
+              {user.userType === 'freelancer' && <TaxSummaryCard />}
             </div>
           </div>
         </main>
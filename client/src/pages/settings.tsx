@@ -0,0 +1,601 @@
+import { useEffect, useState } from "react";
+import { Helmet } from "react-helmet";
+import { Redirect } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { CURRENCIES, CurrencyCode, EmailDelivery, TaxRate } from "@shared/schema";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  NOTIFICATION_TYPE_LABELS,
+  NotificationPreference,
+  updateNotificationPreferences
+} from "@/lib/notifications";
+import {
+  basisPointsToPercent,
+  fetchTaxProfile,
+  percentToBasisPoints,
+  saveTaxProfile,
+  TaxProfileChanges
+} from "@/lib/tax";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/layout/header";
+import Footer from "@/components/layout/footer";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { BellIcon, CoinsIcon, LandmarkIcon, PlusIcon, ShieldCheckIcon, TrashIcon, WalletIcon } from "lucide-react";
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  backupCodesRemaining: number;
+};
+
+type Enrollment = {
+  secret: string;
+  otpauthUri: string;
+};
+
+function CodeInput({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+const EMAIL_DELIVERY_LABELS: Record<EmailDelivery, string> = {
+  [EmailDelivery.IMMEDIATE]: "Immediately",
+  [EmailDelivery.DIGEST]: "Daily digest",
+  [EmailDelivery.OFF]: "Off",
+};
+
+function NotificationPreferencesCard() {
+  const { toast } = useToast();
+  const { data: preferences, isLoading } = useQuery<NotificationPreference[]>({
+    queryKey: ['/api/notifications/preferences'],
+  });
+
+  const save = async (preference: NotificationPreference) => {
+    try {
+      await updateNotificationPreferences([preference]);
+    } catch (error) {
+      console.error("Failed to update notification preferences", error);
+      toast({
+        title: "Could not save preferences",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <BellIcon className="h-5 w-5 mr-2 text-primary" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose how you hear about each kind of update. Digest emails are sent once a day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && <p className="text-sm text-neutral-500">Loading...</p>}
+        {preferences && (
+          <div className="divide-y divide-neutral-200">
+            <div className="grid grid-cols-[1fr_auto_10rem] gap-4 pb-2 text-xs font-medium text-neutral-500">
+              <span>Event</span>
+              <span>In-app</span>
+              <span>Email</span>
+            </div>
+            {preferences.map(preference => (
+              <div key={preference.type} className="grid grid-cols-[1fr_auto_10rem] gap-4 items-center py-3">
+                <span className="text-sm text-neutral-900">{NOTIFICATION_TYPE_LABELS[preference.type]}</span>
+                <Switch
+                  checked={preference.inApp}
+                  onCheckedChange={inApp => save({ ...preference, inApp })}
+                  aria-label={`In-app notifications for ${NOTIFICATION_TYPE_LABELS[preference.type]}`}
+                />
+                <Select
+                  value={preference.email}
+                  onValueChange={email => save({ ...preference, email: email as EmailDelivery })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(EmailDelivery).map(delivery => (
+                      <SelectItem key={delivery} value={delivery}>
+                        {EMAIL_DELIVERY_LABELS[delivery]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CurrencyCard() {
+  const { user, updateProfile } = useAuth();
+  const { toast } = useToast();
+
+  const save = async (homeCurrency: CurrencyCode) => {
+    try {
+      await updateProfile({ homeCurrency });
+    } catch (error) {
+      console.error("Failed to update home currency", error);
+      toast({
+        title: "Could not save currency",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <CoinsIcon className="h-5 w-5 mr-2 text-primary" />
+          Currency
+        </CardTitle>
+        <CardDescription>
+          Earnings from contracts in other currencies are converted to your home currency on the dashboard.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Select value={user?.homeCurrency} onValueChange={currency => save(currency as CurrencyCode)}>
+          <SelectTrigger className="w-48" aria-label="Home currency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CURRENCIES.map(currency => (
+              <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PayoutAccountsCard() {
+  const { user, updateProfile } = useAuth();
+  const { toast } = useToast();
+  const [walletAddress, setWalletAddress] = useState(user?.walletAddress ?? "");
+  const [stripeAccountId, setStripeAccountId] = useState(user?.stripeAccountId ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await updateProfile({
+        walletAddress: walletAddress.trim() || null,
+        stripeAccountId: stripeAccountId.trim() || null,
+      });
+      toast({ title: "Payout accounts saved" });
+    } catch (error) {
+      console.error("Failed to save payout accounts", error);
+      toast({
+        title: "Could not save payout accounts",
+        description: "Check the wallet address and Stripe account id, then try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <WalletIcon className="h-5 w-5 mr-2 text-primary" />
+          Payout accounts
+        </CardTitle>
+        <CardDescription>
+          Released escrow is paid out to these accounts. Crypto deposits are only accepted from your wallet address.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="wallet-address">Ethereum wallet address</Label>
+          <Input
+            id="wallet-address"
+            placeholder="0x..."
+            className="font-mono"
+            value={walletAddress}
+            onChange={e => setWalletAddress(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="stripe-account">Stripe account id</Label>
+          <Input
+            id="stripe-account"
+            placeholder="acct_..."
+            className="font-mono"
+            value={stripeAccountId}
+            onChange={e => setStripeAccountId(e.target.value)}
+          />
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button onClick={save} disabled={isSaving}>
+          Save payout accounts
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+const EMPTY_TAX_PROFILE: TaxProfileChanges = {
+  country: "",
+  registrationNumber: null,
+  taxRates: [],
+  reverseCharge: true,
+  incomeTaxRate: 0,
+  deductibleExpenseRate: 0,
+};
+
+function TaxProfileCard() {
+  const { toast } = useToast();
+  const { data: profile, isLoading } = useQuery({
+    queryKey: ['/api/tax/profile'],
+    queryFn: fetchTaxProfile,
+  });
+  const [draft, setDraft] = useState<TaxProfileChanges>(EMPTY_TAX_PROFILE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (profile) {
+      setDraft({
+        country: profile.country,
+        registrationNumber: profile.registrationNumber,
+        taxRates: profile.taxRates as TaxRate[],
+        reverseCharge: profile.reverseCharge,
+        incomeTaxRate: profile.incomeTaxRate,
+        deductibleExpenseRate: profile.deductibleExpenseRate,
+      });
+    }
+  }, [profile]);
+
+  const update = (changes: Partial<TaxProfileChanges>) => setDraft(current => ({ ...current, ...changes }));
+
+  const updateRate = (index: number, changes: Partial<TaxRate>) =>
+    update({ taxRates: draft.taxRates.map((rate, i) => (i === index ? { ...rate, ...changes } : rate)) });
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await saveTaxProfile(draft);
+      toast({ title: "Tax profile saved", description: "New invoices will use these settings." });
+    } catch (error) {
+      console.error("Failed to save tax profile", error);
+      toast({
+        title: "Could not save tax profile",
+        description: "Check the country code and rates, then try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <LandmarkIcon className="h-5 w-5 mr-2 text-primary" />
+          Tax
+        </CardTitle>
+        <CardDescription>
+          Your invoices charge these rates once you add a VAT/GST registration number. The income tax
+          rates drive the estimates in your quarterly tax summary.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-neutral-500">Loading...</p>}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="tax-country">Country</Label>
+            <Input
+              id="tax-country"
+              placeholder="e.g. GB"
+              maxLength={2}
+              value={draft.country}
+              onChange={e => update({ country: e.target.value.toUpperCase() })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="tax-registration">VAT/GST registration number</Label>
+            <Input
+              id="tax-registration"
+              placeholder="Leave empty if not registered"
+              value={draft.registrationNumber ?? ""}
+              onChange={e => update({ registrationNumber: e.target.value.trim() || null })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Rates charged on invoices</Label>
+          {draft.taxRates.map((rate, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                className="w-40"
+                placeholder="e.g. VAT"
+                aria-label="Tax name"
+                value={rate.name}
+                onChange={e => updateRate(index, { name: e.target.value })}
+              />
+              <Input
+                className="w-28"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                aria-label={`${rate.name || "Tax"} rate (%)`}
+                value={basisPointsToPercent(rate.rate)}
+                onChange={e => updateRate(index, { rate: percentToBasisPoints(Number(e.target.value)) })}
+              />
+              <span className="text-sm text-neutral-500">%</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label="Remove rate"
+                onClick={() => update({ taxRates: draft.taxRates.filter((_, i) => i !== index) })}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ taxRates: [...draft.taxRates, { name: "", rate: 0 }] })}
+            disabled={draft.taxRates.length >= 5}
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Add rate
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="tax-reverse-charge">Reverse charge</Label>
+            <p className="text-sm text-neutral-500">
+              Don&apos;t charge tax to registered business clients in another country.
+            </p>
+          </div>
+          <Switch
+            id="tax-reverse-charge"
+            checked={draft.reverseCharge}
+            onCheckedChange={reverseCharge => update({ reverseCharge })}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="tax-income-rate">Income tax rate (%)</Label>
+            <Input
+              id="tax-income-rate"
+              type="number"
+              min={0}
+              max={100}
+              step="0.01"
+              value={basisPointsToPercent(draft.incomeTaxRate)}
+              onChange={e => update({ incomeTaxRate: percentToBasisPoints(Number(e.target.value)) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="tax-deductible-rate">Deductible expenses (% of earnings)</Label>
+            <Input
+              id="tax-deductible-rate"
+              type="number"
+              min={0}
+              max={100}
+              step="0.01"
+              value={basisPointsToPercent(draft.deductibleExpenseRate)}
+              onChange={e => update({ deductibleExpenseRate: percentToBasisPoints(Number(e.target.value)) })}
+            />
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button onClick={save} disabled={isSaving || draft.country.length !== 2}>
+          Save tax profile
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+export default function Settings() {
+  const { user, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/auth/2fa'],
+    enabled: !!user,
+  });
+
+  if (authLoading) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  if (!user) {
+    return <Redirect to="/login" />;
+  }
+
+  const run = async (action: () => Promise<void>, failureTitle: string) => {
+    setIsSubmitting(true);
+
+    try {
+      await action();
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa'] });
+    } catch (error) {
+      console.error(failureTitle, error);
+      toast({
+        title: failureTitle,
+        description: "Please check the code and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startEnrollment = () => run(async () => {
+    const res = await apiRequest("POST", "/api/auth/2fa/setup");
+    setEnrollment(await res.json());
+    setBackupCodes(null);
+  }, "Could not start setup");
+
+  const confirmEnrollment = () => run(async () => {
+    const res = await apiRequest("POST", "/api/auth/2fa/verify", { code });
+    const data = await res.json();
+    setEnrollment(null);
+    setBackupCodes(data.backupCodes);
+    toast({ title: "Two-factor authentication enabled" });
+  }, "Verification failed");
+
+  const regenerateCodes = () => run(async () => {
+    const res = await apiRequest("POST", "/api/auth/2fa/backup-codes", { code });
+    const data = await res.json();
+    setBackupCodes(data.backupCodes);
+  }, "Could not regenerate backup codes");
+
+  const disable = () => run(async () => {
+    await apiRequest("POST", "/api/auth/2fa/disable", { code });
+    setBackupCodes(null);
+    toast({ title: "Two-factor authentication disabled" });
+  }, "Could not disable two-factor authentication");
+
+  return (
+    <>
+      <Helmet>
+        <title>Settings | ContractPay</title>
+      </Helmet>
+      <div className="min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-1">
+          <div className="max-w-3xl mx-auto py-6 sm:px-6 lg:px-8">
+            <div className="px-4 sm:px-0 space-y-6">
+              <h1 className="text-2xl font-semibold text-neutral-900">Settings</h1>
+
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-lg flex items-center">
+                      <ShieldCheckIcon className="h-5 w-5 mr-2 text-primary" />
+                      Two-factor authentication
+                    </CardTitle>
+                    {status && (
+                      <Badge variant={status.enabled ? "default" : "outline"}>
+                        {status.enabled ? "Enabled" : "Disabled"}
+                      </Badge>
+                    )}
+                  </div>
+                  <CardDescription>
+                    Require a code from an authenticator app in addition to your password when you log in.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {isLoading && <p className="text-sm text-neutral-500">Loading...</p>}
+
+                  {backupCodes && (
+                    <div className="rounded-lg border border-amber-200 bg-amber-50 p-4">
+                      <p className="text-sm font-medium mb-2">
+                        Save these backup codes somewhere safe. Each can be used once if you lose your device,
+                        and they won't be shown again.
+                      </p>
+                      <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                        {backupCodes.map(backupCode => <span key={backupCode}>{backupCode}</span>)}
+                      </div>
+                    </div>
+                  )}
+
+                  {status && !status.enabled && enrollment && (
+                    <div className="space-y-4">
+                      <p className="text-sm text-neutral-700">
+                        Add this account to your authenticator app, then enter the 6-digit code it shows.
+                      </p>
+                      <div>
+                        <p className="text-xs text-neutral-500 mb-1">Setup key</p>
+                        <Input readOnly value={enrollment.secret} className="font-mono" />
+                      </div>
+                      <a href={enrollment.otpauthUri} className="text-sm text-primary underline">
+                        Open in authenticator app
+                      </a>
+                      <CodeInput value={code} onChange={setCode} disabled={isSubmitting} />
+                    </div>
+                  )}
+
+                  {status?.enabled && (
+                    <div className="space-y-2">
+                      <p className="text-sm text-neutral-700">
+                        {status.backupCodesRemaining} backup code(s) remaining. Enter a current code to manage
+                        two-factor authentication.
+                      </p>
+                      <CodeInput value={code} onChange={setCode} disabled={isSubmitting} />
+                    </div>
+                  )}
+                </CardContent>
+                <CardFooter className="flex justify-end space-x-2">
+                  {status && !status.enabled && !enrollment && (
+                    <Button onClick={startEnrollment} disabled={isSubmitting}>
+                      Set up two-factor authentication
+                    </Button>
+                  )}
+                  {status && !status.enabled && enrollment && (
+                    <Button onClick={confirmEnrollment} disabled={isSubmitting || code.length !== 6}>
+                      Verify and enable
+                    </Button>
+                  )}
+                  {status?.enabled && (
+                    <>
+                      <Button variant="outline" onClick={regenerateCodes} disabled={isSubmitting || code.length !== 6}>
+                        New backup codes
+                      </Button>
+                      <Button variant="destructive" onClick={disable} disabled={isSubmitting || code.length !== 6}>
+                        Disable
+                      </Button>
+                    </>
+                  )}
+                </CardFooter>
+              </Card>
+
+              <NotificationPreferencesCard />
+
+              <CurrencyCard />
+
+              <PayoutAccountsCard />
+
+              <TaxProfileCard />
+            </div>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    </>
+  );
+}
@@ -4,6 +4,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/lib/auth";
 import { Redirect } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/contracts";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -54,6 +55,7 @@ interface Contract {
   freelancerId: number;
   status: string;
   totalAmount: number;
+  currency: string;
 }
 
 interface BlockchainContract {
@@ -228,7 +230,7 @@ export default function SmartContracts() {
                       <div>
                         <h3 className="font-medium">{contract.title}</h3>
                         <p className="text-sm text-neutral-500 mt-1">
-                          Total Value: ${contract.totalAmount.toFixed(2)}
+                          Total Value: {formatCurrency(contract.totalAmount, contract.currency)}
                         </p>
                       </div>
                       <div>
@@ -2,6 +2,8 @@ import { useState, useEffect } from "react";
 import { Helmet } from "react-helmet";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/lib/auth";
+import { TrustScoreReport, TrustTierBenefits, TrustTierName, getTrustScoreHistoryUrl, getTrustScoreUrl } from "@/lib/trust-score";
+import { TrustScoreSnapshot } from "@shared/schema";
 import { Redirect } from "wouter";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
@@ -12,6 +14,8 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
 import {
   ShieldAlertIcon,
   StarIcon,
@@ -28,98 +32,44 @@ import {
   FileTextIcon
 } from "lucide-react";
 
+// How far back the score chart goes
+const HISTORY_DAYS = 180;
+
+const historyChartConfig = {
+  overallScore: {
+    label: "Trust Score",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
 export default function TrustScore() {
   const { user, isLoading } = useAuth();
   const [activeTab, setActiveTab] = useState("myScore");
   
-  // Define types for trust score data
-  type TierType = {
-    name: string;
-    minimumScore?: number;
-    platformFeeDiscount: number;
-    payoutSpeed: number;
-    escrowRequirements?: string;
-    verificationLevel?: string;
-    prioritySupport?: boolean;
-    contractTemplateAccess?: string;
-  };
+  const { data: report, isLoading: isLoadingScore } = useQuery<TrustScoreReport>({
+    queryKey: [getTrustScoreUrl(user?.id ?? 0)],
+    enabled: !!user,
+  });
   
-  type TrustScoreDataType = {
-    overallScore: number;
-    ratingFactor: number;
-    reliabilityFactor: number;
-    disputeFactor: number;
-    tier: TierType;
-    nextTier: TierType;
-    pointsToNextTier: number;
-    history: Array<{
-      date: string;
-      score: number;
-    }>;
-    userHistory: {
-      contractsCompleted: number;
-      contractsCancelled: number;
-      averageRating: number;
-      disputesInitiated: number;
-      disputesLost: number;
-      paymentsPunctual: number;
-      paymentsLate: number;
-      deliverablesOnTime: number;
-      deliverablesLate: number;
-    };
-  };
+  const { data: snapshots } = useQuery<TrustScoreSnapshot[]>({
+    queryKey: [getTrustScoreHistoryUrl(user?.id ?? 0, HISTORY_DAYS)],
+    enabled: !!user,
+  });
   
-  // Mock trust score data (In production, this would come from an API)
-  const userTrustData: TrustScoreDataType = {
-    overallScore: 83,
-    ratingFactor: 0.86,
-    reliabilityFactor: 0.78,
-    disputeFactor: 0.92,
-    tier: {
-      name: "gold",
-      minimumScore: 75,
-      platformFeeDiscount: 20,
-      payoutSpeed: 24,
-      escrowRequirements: "partial",
-      verificationLevel: "basic",
-      prioritySupport: true,
-      contractTemplateAccess: "premium"
-    },
-    nextTier: {
-      name: "platinum",
-      minimumScore: 90,
-      platformFeeDiscount: 30,
-      payoutSpeed: 6
-    },
-    pointsToNextTier: 7,
-    history: [
-      { date: "2024-04-01", score: 81 },
-      { date: "2024-03-01", score: 78 },
-      { date: "2024-02-01", score: 75 },
-      { date: "2024-01-01", score: 72 }
-    ],
-    userHistory: {
-      contractsCompleted: 18,
-      contractsCancelled: 1,
-      averageRating: 4.8,
-      disputesInitiated: 2,
-      disputesLost: 0,
-      paymentsPunctual: 15,
-      paymentsLate: 2,
-      deliverablesOnTime: 16,
-      deliverablesLate: 2
-    }
-  };
+  const { data: tiers } = useQuery<TrustTierBenefits[]>({
+    queryKey: ['/api/trust-tiers'],
+    enabled: !!user,
+  });
   
   // Animation for progress bar
   const [progress, setProgress] = useState(0);
   
   useEffect(() => {
-    const timer = setTimeout(() => setProgress(userTrustData.overallScore), 500);
+    const timer = setTimeout(() => setProgress(report?.trustScore.overallScore ?? 0), 500);
     return () => clearTimeout(timer);
-  }, [userTrustData.overallScore]);
+  }, [report?.trustScore.overallScore]);
   
-  if (isLoading) {
+  if (isLoading || (user && isLoadingScore)) {
     return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
   }
   
@@ -127,6 +77,12 @@ export default function TrustScore() {
     return <Redirect to="/login" />;
   }
   
+  if (!report) {
+    return <div className="min-h-screen flex items-center justify-center">Your trust score could not be loaded.</div>;
+  }
+  
+  const { trustScore, tier, nextTier, pointsToNextTier, history } = report;
+  
   const getTierColorClass = (tierName: string) => {
     switch (tierName) {
       case 'platinum':
@@ -175,7 +131,7 @@ export default function TrustScore() {
                   <ShieldAlertIcon className="h-5 w-5 mr-2 text-primary" />
                   Your Trust Score
                 </CardTitle>
-                {renderTierBadge(userTrustData.tier.name)}
+                {renderTierBadge(tier.tier)}
               </div>
               <CardDescription>
                 Based on your contract history, ratings, and platform behavior
@@ -186,7 +142,7 @@ export default function TrustScore() {
               <div className="flex items-center justify-center py-4">
                 <div className="relative h-48 w-48">
                   <div className="absolute inset-0 flex flex-col items-center justify-center">
-                    <span className="text-4xl font-bold text-primary">{userTrustData.overallScore}</span>
+                    <span className="text-4xl font-bold text-primary">{trustScore.overallScore}</span>
                     <span className="text-sm text-neutral-500">out of 100</span>
                   </div>
                   <svg className="h-48 w-48" viewBox="0 0 100 100">
@@ -198,7 +154,7 @@ export default function TrustScore() {
                       fill="none"
                       stroke="url(#trustScoreGradient)"
                       strokeWidth="6"
-                      strokeDasharray={`${userTrustData.overallScore * 2.83} 283`}
+                      strokeDasharray={`${trustScore.overallScore * 2.83} 283`}
                       strokeLinecap="round"
                       transform="rotate(-90 50 50)"
                     />
@@ -217,21 +173,23 @@ export default function TrustScore() {
                   <div className="text-sm text-neutral-500">Rating</div>
                   <div className="flex items-center justify-center mt-1">
                     <StarIcon className="h-4 w-4 text-yellow-500 mr-1" />
-                    <span className="font-medium">{(userTrustData.ratingFactor * 5).toFixed(1)}</span>
+                    <span className="font-medium">
+                      {history.reviewCount > 0 ? history.averageRating.toFixed(1) : "No reviews"}
+                    </span>
                   </div>
                 </div>
                 <div className="text-center">
                   <div className="text-sm text-neutral-500">Reliability</div>
                   <div className="flex items-center justify-center mt-1">
                     <CheckCircleIcon className="h-4 w-4 text-green-500 mr-1" />
-                    <span className="font-medium">{Math.round(userTrustData.reliabilityFactor * 100)}%</span>
+                    <span className="font-medium">{Math.round(trustScore.reliabilityFactor * 100)}%</span>
                   </div>
                 </div>
                 <div className="text-center">
                   <div className="text-sm text-neutral-500">Dispute</div>
                   <div className="flex items-center justify-center mt-1">
                     <BadgeCheckIcon className="h-4 w-4 text-blue-500 mr-1" />
-                    <span className="font-medium">{Math.round(userTrustData.disputeFactor * 100)}%</span>
+                    <span className="font-medium">{Math.round(trustScore.disputeFactor * 100)}%</span>
                   </div>
                 </div>
               </div>
@@ -248,11 +206,13 @@ export default function TrustScore() {
                     Rating Factor
                   </span>
                   <span className="text-sm text-neutral-500">
-                    {Math.round(userTrustData.ratingFactor * 100)}%
+                    {Math.round(trustScore.ratingFactor * 100)}%
                   </span>
                 </div>
-                <Progress value={userTrustData.ratingFactor * 100} className="h-2" />
-                <p className="text-xs text-neutral-500">Based on client ratings and feedback</p>
+                <Progress value={trustScore.ratingFactor * 100} className="h-2" />
+                <p className="text-xs text-neutral-500">
+                  Based on {history.reviewCount} revealed {history.reviewCount === 1 ? "review" : "reviews"}; neutral until you are reviewed
+                </p>
               </div>
               
               <div className="space-y-2">
@@ -262,10 +222,10 @@ export default function TrustScore() {
                     Reliability Factor
                   </span>
                   <span className="text-sm text-neutral-500">
-                    {Math.round(userTrustData.reliabilityFactor * 100)}%
+                    {Math.round(trustScore.reliabilityFactor * 100)}%
                   </span>
                 </div>
-                <Progress value={userTrustData.reliabilityFactor * 100} className="h-2" />
+                <Progress value={trustScore.reliabilityFactor * 100} className="h-2" />
                 <p className="text-xs text-neutral-500">Based on on-time deliveries and milestones</p>
               </div>
               
@@ -276,10 +236,10 @@ export default function TrustScore() {
                     Dispute Factor
                   </span>
                   <span className="text-sm text-neutral-500">
-                    {Math.round(userTrustData.disputeFactor * 100)}%
+                    {Math.round(trustScore.disputeFactor * 100)}%
                   </span>
                 </div>
-                <Progress value={userTrustData.disputeFactor * 100} className="h-2" />
+                <Progress value={trustScore.disputeFactor * 100} className="h-2" />
                 <p className="text-xs text-neutral-500">Based on dispute history and resolutions</p>
               </div>
             </div>
@@ -294,111 +254,111 @@ export default function TrustScore() {
               Your Trust Tier Benefits
             </CardTitle>
             <CardDescription>
-              Benefits you receive based on your {userTrustData.tier.name.toUpperCase()} tier status
+              Benefits you receive based on your {tier.tier.toUpperCase()} tier status
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
               <div className="flex items-start">
-                <div className={`rounded-full p-2 ${getTierIconClass(userTrustData.tier.name)} mr-3`}>
-                  <CoinsIcon className={`h-5 w-5 ${getTierColorClass(userTrustData.tier.name)}`} />
+                <div className={`rounded-full p-2 ${getTierIconClass(tier.tier)} mr-3`}>
+                  <CoinsIcon className={`h-5 w-5 ${getTierColorClass(tier.tier)}`} />
                 </div>
                 <div>
                   <h4 className="font-medium text-sm">Platform Fee Discount</h4>
-                  <p className="text-sm text-neutral-500">{userTrustData.tier.platformFeeDiscount}% discount on platform fees</p>
+                  <p className="text-sm text-neutral-500">{tier.platformFeeDiscount}% discount on platform fees</p>
                 </div>
               </div>
               
               <div className="flex items-start">
-                <div className={`rounded-full p-2 ${getTierIconClass(userTrustData.tier.name)} mr-3`}>
-                  <ClockIcon className={`h-5 w-5 ${getTierColorClass(userTrustData.tier.name)}`} />
+                <div className={`rounded-full p-2 ${getTierIconClass(tier.tier)} mr-3`}>
+                  <ClockIcon className={`h-5 w-5 ${getTierColorClass(tier.tier)}`} />
                 </div>
                 <div>
                   <h4 className="font-medium text-sm">Fast Payouts</h4>
-                  <p className="text-sm text-neutral-500">Payouts processed within {userTrustData.tier.payoutSpeed} hours</p>
+                  <p className="text-sm text-neutral-500">Payouts processed within {tier.payoutSpeed} hours</p>
                 </div>
               </div>
               
               <div className="flex items-start">
-                <div className={`rounded-full p-2 ${getTierIconClass(userTrustData.tier.name)} mr-3`}>
-                  <CreditCardIcon className={`h-5 w-5 ${getTierColorClass(userTrustData.tier.name)}`} />
+                <div className={`rounded-full p-2 ${getTierIconClass(tier.tier)} mr-3`}>
+                  <CreditCardIcon className={`h-5 w-5 ${getTierColorClass(tier.tier)}`} />
                 </div>
                 <div>
                   <h4 className="font-medium text-sm">Escrow Requirements</h4>
                   <p className="text-sm text-neutral-500">
-                    {userTrustData.tier.escrowRequirements === "partial" ? "Reduced" : "Standard"} escrow requirements
+                    {tier.escrowRequirements === "partial" ? "Reduced" : "Standard"} escrow requirements
                   </p>
                 </div>
               </div>
               
               <div className="flex items-start">
-                <div className={`rounded-full p-2 ${getTierIconClass(userTrustData.tier.name)} mr-3`}>
-                  <FileTextIcon className={`h-5 w-5 ${getTierColorClass(userTrustData.tier.name)}`} />
+                <div className={`rounded-full p-2 ${getTierIconClass(tier.tier)} mr-3`}>
+                  <FileTextIcon className={`h-5 w-5 ${getTierColorClass(tier.tier)}`} />
                 </div>
                 <div>
                   <h4 className="font-medium text-sm">Contract Templates</h4>
                   <p className="text-sm text-neutral-500">
-                    Access to {userTrustData.tier.contractTemplateAccess} contract templates
+                    Access to {tier.contractTemplateAccess} contract templates
                   </p>
                 </div>
               </div>
               
               <div className="flex items-start">
-                <div className={`rounded-full p-2 ${getTierIconClass(userTrustData.tier.name)} mr-3`}>
-                  <BellIcon className={`h-5 w-5 ${getTierColorClass(userTrustData.tier.name)}`} />
+                <div className={`rounded-full p-2 ${getTierIconClass(tier.tier)} mr-3`}>
+                  <BellIcon className={`h-5 w-5 ${getTierColorClass(tier.tier)}`} />
                 </div>
                 <div>
                   <h4 className="font-medium text-sm">Support Priority</h4>
                   <p className="text-sm text-neutral-500">
-                    {userTrustData.tier.prioritySupport ? "Priority" : "Standard"} customer support
+                    {tier.prioritySupport ? "Priority" : "Standard"} customer support
                   </p>
                 </div>
               </div>
               
               <div className="flex items-start">
-                <div className={`rounded-full p-2 ${getTierIconClass(userTrustData.tier.name)} mr-3`}>
-                  <BadgeCheckIcon className={`h-5 w-5 ${getTierColorClass(userTrustData.tier.name)}`} />
+                <div className={`rounded-full p-2 ${getTierIconClass(tier.tier)} mr-3`}>
+                  <BadgeCheckIcon className={`h-5 w-5 ${getTierColorClass(tier.tier)}`} />
                 </div>
                 <div>
                   <h4 className="font-medium text-sm">Verification Level</h4>
                   <p className="text-sm text-neutral-500">
-                    {userTrustData.tier.verificationLevel === "basic" ? "Simplified" : "Standard"} verification process
+                    {tier.verificationLevel === "basic" ? "Simplified" : "Standard"} verification process
                   </p>
                 </div>
               </div>
             </div>
             
-            {userTrustData.nextTier && (
+            {nextTier && (
               <>
                 <Separator className="my-6" />
                 
                 <div className="bg-neutral-50 border border-neutral-200 rounded-lg p-4">
                   <h3 className="font-medium text-sm mb-2 flex items-center">
                     <TrophyIcon className="h-4 w-4 mr-2 text-primary" />
-                    Next Tier: {userTrustData.nextTier.name.toUpperCase()}
+                    Next Tier: {nextTier.tier.toUpperCase()}
                   </h3>
                   <p className="text-sm text-neutral-600 mb-3">
-                    You need {userTrustData.pointsToNextTier} more points to reach {userTrustData.nextTier.name.toUpperCase()} tier
+                    You need {pointsToNextTier} more points to reach {nextTier.tier.toUpperCase()} tier
                   </p>
                   <div className="space-y-2">
                     <div className="flex justify-between text-xs">
-                      <span>{userTrustData.tier.name.toUpperCase()}</span>
-                      <span>{userTrustData.nextTier.name.toUpperCase()}</span>
+                      <span>{tier.tier.toUpperCase()}</span>
+                      <span>{nextTier.tier.toUpperCase()}</span>
                     </div>
                     <Progress 
-                      value={((userTrustData.overallScore - (userTrustData.tier.minimumScore || 0)) / 
-                             ((userTrustData.nextTier.minimumScore || 100) - (userTrustData.tier.minimumScore || 0))) * 100} 
+                      value={((trustScore.overallScore - tier.minimumScore) / 
+                             (nextTier.minimumScore - tier.minimumScore)) * 100} 
                       className="h-2" 
                     />
                   </div>
                   <div className="mt-4 space-y-2">
                     <div className="flex items-start">
                       <ArrowUpIcon className="h-4 w-4 text-green-500 mr-1 mt-0.5" />
-                      <span className="text-xs text-neutral-700">Platform fee discount increases to {userTrustData.nextTier.platformFeeDiscount}%</span>
+                      <span className="text-xs text-neutral-700">Platform fee discount increases to {nextTier.platformFeeDiscount}%</span>
                     </div>
                     <div className="flex items-start">
                       <ArrowUpIcon className="h-4 w-4 text-green-500 mr-1 mt-0.5" />
-                      <span className="text-xs text-neutral-700">Payout time reduces to {userTrustData.nextTier.payoutSpeed} hours</span>
+                      <span className="text-xs text-neutral-700">Payout time reduces to {nextTier.payoutSpeed} hours</span>
                     </div>
                   </div>
                 </div>
@@ -412,33 +372,74 @@ export default function TrustScore() {
           <CardHeader>
             <CardTitle className="text-lg">Trust Score History</CardTitle>
             <CardDescription>
-              How your trust score has evolved over time
+              Your daily score over the last {HISTORY_DAYS} days, with the tier thresholds
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="h-48 flex items-end justify-between px-2">
-              {userTrustData.history.map((point, index) => (
-                <div key={index} className="flex flex-col items-center">
-                  <div className="flex-1 w-12 flex flex-col justify-end">
-                    <div 
-                      className="w-12 bg-primary/80 rounded-t-sm" 
-                      style={{ height: `${point.score * 0.38}%` }}
-                    ></div>
-                  </div>
-                  <div className="mt-2 text-xs text-neutral-500 w-16 text-center">
-                    {new Date(point.date).toLocaleDateString('en-US', { month: 'short', year: '2-digit' })}
-                  </div>
+            {snapshots && snapshots.length > 0 ? (
+              <ChartContainer config={historyChartConfig} className="h-56 w-full">
+                <LineChart data={snapshots} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="createdAt"
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={32}
+                    tickFormatter={(value) => new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  {(tiers ?? []).filter((option) => option.minimumScore > 0).map((option) => (
+                    <ReferenceLine key={option.tier} y={option.minimumScore} strokeDasharray="4 4" className="stroke-neutral-300" />
+                  ))}
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => new Date(payload[0]?.payload.createdAt).toLocaleDateString()}
+                      />
+                    }
+                  />
+                  <Line
+                    dataKey="overallScore"
+                    type="monotone"
+                    stroke="var(--color-overallScore)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-sm text-neutral-500 text-center py-8">
+                Your score is recorded once a day. Check back tomorrow to see it change over time.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        
+        {/* Track Record */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Track Record</CardTitle>
+            <CardDescription>
+              {trustScore.recommendation}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              {[
+                ["Contracts Completed", history.contractsCompleted],
+                ["Contracts Cancelled", history.contractsCancelled],
+                ["Reviews", history.reviewCount],
+                ["Disputes Lost", history.disputesLost],
+                ...(user.userType === "client"
+                  ? [["Payments On Time", history.paymentsPunctual], ["Payments Late", history.paymentsLate]]
+                  : [["Deliverables On Time", history.deliverablesOnTime], ["Deliverables Late", history.deliverablesLate]])
+              ].map(([label, value]) => (
+                <div key={label}>
+                  <dt className="text-neutral-500">{label}</dt>
+                  <dd className="text-lg font-medium text-neutral-900">{value}</dd>
                 </div>
               ))}
-            </div>
-            <div className="mt-6">
-              <div className="flex items-center justify-center">
-                <ArrowUpIcon className="h-4 w-4 text-green-500 mr-1" />
-                <span className="text-sm text-green-700">
-                  Improved by {userTrustData.overallScore - userTrustData.history[userTrustData.history.length - 1].score} points in the last {userTrustData.history.length} months
-                </span>
-              </div>
-            </div>
+            </dl>
           </CardContent>
         </Card>
       </div>
@@ -446,66 +447,13 @@ export default function TrustScore() {
   };
   
   const renderTierSystem = () => {
-    // Add types to tiers
-    type TierType = {
-      name: string;
-      minimumScore: number;
-      platformFeeDiscount: number;
-      payoutSpeed: number;
-      escrowRequirements: string;
-      verificationLevel: string;
-      prioritySupport: boolean;
-      contractTemplateAccess: string;
-      description: string;
+    const descriptions: Record<TrustTierName, string> = {
+      bronze: "Default tier for all new users.",
+      silver: "For users with good standing and consistent performance.",
+      gold: "For highly trusted users with excellent track records.",
+      platinum: "For our most trusted and highest-performing users."
     };
     
-    const tiers: TierType[] = [
-      {
-        name: "bronze",
-        minimumScore: 0,
-        platformFeeDiscount: 0,
-        payoutSpeed: 72,
-        escrowRequirements: "full",
-        verificationLevel: "enhanced",
-        prioritySupport: false,
-        contractTemplateAccess: "basic",
-        description: "Default tier for all new users."
-      },
-      {
-        name: "silver",
-        minimumScore: 50,
-        platformFeeDiscount: 10,
-        payoutSpeed: 48,
-        escrowRequirements: "full",
-        verificationLevel: "enhanced",
-        prioritySupport: false,
-        contractTemplateAccess: "basic",
-        description: "For users with good standing and consistent performance."
-      },
-      {
-        name: "gold",
-        minimumScore: 75,
-        platformFeeDiscount: 20,
-        payoutSpeed: 24,
-        escrowRequirements: "partial",
-        verificationLevel: "basic",
-        prioritySupport: true,
-        contractTemplateAccess: "premium",
-        description: "For highly trusted users with excellent track records."
-      },
-      {
-        name: "platinum",
-        minimumScore: 90,
-        platformFeeDiscount: 30,
-        payoutSpeed: 6,
-        escrowRequirements: "minimal",
-        verificationLevel: "simplified",
-        prioritySupport: true,
-        contractTemplateAccess: "all",
-        description: "For our most trusted and highest-performing users."
-      }
-    ];
-    
     return (
       <div className="grid grid-cols-1 gap-6">
         <Card>
@@ -521,54 +469,54 @@ export default function TrustScore() {
           <CardContent>
             <div className="flex overflow-x-auto pb-4">
               <div className="grid grid-cols-4 gap-4 min-w-[800px]">
-                {tiers.map((tier, index) => (
+                {(tiers ?? []).map((option, index) => (
                   <div 
                     key={index} 
                     className={`border rounded-lg p-4 ${
-                      tier.name === userTrustData.tier.name 
+                      option.tier === tier.tier 
                         ? 'border-primary bg-primary/5' 
                         : 'border-neutral-200'
                     }`}
                   >
                     <div className="flex justify-between items-start mb-3">
-                      <h3 className={`font-medium capitalize ${getTierColorClass(tier.name)}`}>
-                        {tier.name}
+                      <h3 className={`font-medium capitalize ${getTierColorClass(option.tier)}`}>
+                        {option.tier}
                       </h3>
-                      {tier.name === userTrustData.tier.name && (
+                      {option.tier === tier.tier && (
                         <Badge variant="outline" className="bg-primary/10 text-primary border-primary">
                           Your Tier
                         </Badge>
                       )}
                     </div>
                     <div className="space-y-2 text-sm">
-                      <p className="text-neutral-600 mb-4 text-xs">{tier.description}</p>
+                      <p className="text-neutral-600 mb-4 text-xs">{descriptions[option.tier]}</p>
                       <div className="flex justify-between">
                         <span className="text-neutral-500">Min. Score</span>
-                        <span className="font-medium">{tier.minimumScore}</span>
+                        <span className="font-medium">{option.minimumScore}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-neutral-500">Fee Discount</span>
-                        <span className="font-medium">{tier.platformFeeDiscount}%</span>
+                        <span className="font-medium">{option.platformFeeDiscount}%</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-neutral-500">Payout Speed</span>
-                        <span className="font-medium">{tier.payoutSpeed} hrs</span>
+                        <span className="font-medium">{option.payoutSpeed} hrs</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-neutral-500">Escrow</span>
-                        <span className="font-medium capitalize">{tier.escrowRequirements}</span>
+                        <span className="font-medium capitalize">{option.escrowRequirements}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-neutral-500">Verification</span>
-                        <span className="font-medium capitalize">{tier.verificationLevel}</span>
+                        <span className="font-medium capitalize">{option.verificationLevel}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-neutral-500">Priority Support</span>
-                        <span className="font-medium">{tier.prioritySupport ? 'Yes' : 'No'}</span>
+                        <span className="font-medium">{option.prioritySupport ? 'Yes' : 'No'}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-neutral-500">Templates</span>
-                        <span className="font-medium capitalize">{tier.contractTemplateAccess}</span>
+                        <span className="font-medium capitalize">{option.contractTemplateAccess}</span>
                       </div>
                     </div>
                   </div>
@@ -596,7 +544,7 @@ export default function TrustScore() {
                   Based on the ratings you receive from clients or freelancers. Higher ratings lead to a better rating factor.
                 </p>
                 <div className="flex items-center space-x-2 text-sm text-neutral-600">
-                  <span>• Average Rating: {userTrustData.userHistory.averageRating}/5</span>
+                  <span>• Average Rating: {history.averageRating}/5</span>
                 </div>
               </div>
               
@@ -609,10 +557,10 @@ export default function TrustScore() {
                   Based on how reliably you complete contracts, deliver on time, or make payments (depending on your role).
                 </p>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-neutral-600">
-                  <span>• Contracts Completed: {userTrustData.userHistory.contractsCompleted}</span>
-                  <span>• Contracts Cancelled: {userTrustData.userHistory.contractsCancelled}</span>
-                  <span>• Deliverables On Time: {userTrustData.userHistory.deliverablesOnTime}</span>
-                  <span>• Deliverables Late: {userTrustData.userHistory.deliverablesLate}</span>
+                  <span>• Contracts Completed: {history.contractsCompleted}</span>
+                  <span>• Contracts Cancelled: {history.contractsCancelled}</span>
+                  <span>• Deliverables On Time: {history.deliverablesOnTime}</span>
+                  <span>• Deliverables Late: {history.deliverablesLate}</span>
                 </div>
               </div>
               
@@ -625,8 +573,8 @@ export default function TrustScore() {
                   Based on your history of disputes, how they were resolved, and your overall conduct on the platform.
                 </p>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-neutral-600">
-                  <span>• Disputes Initiated: {userTrustData.userHistory.disputesInitiated}</span>
-                  <span>• Disputes Lost: {userTrustData.userHistory.disputesLost}</span>
+                  <span>• Disputes Initiated: {history.disputesInitiated}</span>
+                  <span>• Disputes Lost: {history.disputesLost}</span>
                 </div>
               </div>
               
@@ -0,0 +1,595 @@
+import { createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
+import {
+  apiKeys,
+  contracts,
+  contractStatusHistory,
+  disputes,
+  escrowPayments,
+  milestones,
+  notifications,
+  paymentWebhookEvents,
+  templates,
+  users,
+  insertUserSchema,
+  updateProfileSchema,
+  insertContractSchema,
+  insertMilestoneSchema,
+  insertTemplateSchema,
+  fundEscrowSchema,
+  cryptoDepositSchema,
+  openDisputeSchema,
+  disputeEvidenceSchema,
+  resolveDisputeSchema,
+  notificationPreferencesSchema,
+  createApiKeySchema,
+  updateApiKeySchema,
+  rotateApiKeySchema,
+  createWebhookSubscriptionSchema,
+  updateWebhookSubscriptionSchema,
+  webhookSubscriptions,
+  webhookDeliveries,
+  invoices,
+  invoiceItems,
+  createInvoiceSchema,
+  updateInvoiceStatusSchema,
+  taxProfiles,
+  taxRateSchema,
+  updateTaxProfileSchema,
+  taxSummaryQuerySchema,
+  trustScoreHistoryQuerySchema,
+  trustScoreSnapshots,
+  reviews,
+  createReviewSchema,
+  reviewReplySchema,
+  ContractStatus,
+  WebhookEventStatus
+} from "@shared/schema";
+import { listRoutes, toOpenApiPath, zodToOpenApi, OpenApiSchema } from "./services/openapi";
+import { TrustTier } from "./services/trust-score";
+
+type AuthMethod = "session" | "apiKey" | "none";
+
+// What a route does. Paths, path parameters and the existence of each route
+// come from the registered routes; this adds what Express can't know
+interface RouteDoc {
+  summary: string;
+  description?: string;
+  auth?: AuthMethod; // Defaults to apiKey under /v1 and session elsewhere
+  query?: z.AnyZodObject;
+  body?: SchemaName;
+  response?: SchemaName | `${SchemaName}[]`;
+  produces?: string; // Content type of a file response, instead of JSON
+  status?: number; // Success status, 200 unless set
+}
+
+const trustTierSchema = z.object({
+  tier: z.nativeEnum(TrustTier),
+  minimumScore: z.number().int(),
+  platformFeeDiscount: z.number().describe("Percentage off platform fees"),
+  payoutSpeed: z.number().int().describe("Hours"),
+  escrowRequirements: z.enum(["full", "partial", "minimal"]),
+  verificationLevel: z.enum(["basic", "enhanced", "simplified"]),
+  prioritySupport: z.boolean(),
+  contractTemplateAccess: z.enum(["basic", "premium", "all"]),
+});
+
+const publicApiKeySchema = createSelectSchema(apiKeys)
+  .omit({ encryptedSecret: true })
+  .extend({ status: z.enum(["active", "rotating", "expired"]) });
+
+const webhookSubscriptionSchema = createSelectSchema(webhookSubscriptions).omit({ encryptedSecret: true });
+
+const taxLineSchema = taxRateSchema.extend({
+  taxableAmount: z.number().int(),
+  amount: z.number().int(),
+});
+
+const invoiceSchema = createSelectSchema(invoices).extend({ taxLines: z.array(taxLineSchema) });
+
+// Named schemas, shared by the routes below. Request bodies are the schemas the
+// routes parse with, so the reference can't drift from the validation
+const SCHEMAS = {
+  Error: z.object({
+    message: z.unknown().describe("A description of the problem, or the list of validation issues"),
+  }),
+  User: createSelectSchema(users).omit({ password: true }),
+  Contract: createSelectSchema(contracts),
+  ContractStatusHistory: createSelectSchema(contractStatusHistory),
+  Milestone: createSelectSchema(milestones),
+  EscrowPayment: createSelectSchema(escrowPayments),
+  PaymentWebhookEvent: createSelectSchema(paymentWebhookEvents),
+  Dispute: createSelectSchema(disputes),
+  Template: createSelectSchema(templates),
+  Notification: createSelectSchema(notifications),
+  NotificationPreference: notificationPreferencesSchema.shape.preferences.element,
+  ApiKey: publicApiKeySchema,
+  IssuedApiKey: z.object({
+    key: publicApiKeySchema,
+    apiKey: z.string().describe("Sent in X-API-Key"),
+    secretKey: z.string().describe("Signs requests; only returned once"),
+  }),
+  RegisterRequest: insertUserSchema,
+  UpdateProfileRequest: updateProfileSchema,
+  LoginRequest: z.object({ username: z.string(), password: z.string() }),
+  TwoFactorCodeRequest: z.object({ code: z.string().min(1) }),
+  CreateContractRequest: insertContractSchema,
+  UpdateContractStatusRequest: z.object({
+    status: z.nativeEnum(ContractStatus),
+    reason: z.string().optional(),
+  }),
+  CreateMilestoneRequest: insertMilestoneSchema,
+  MilestoneActionRequest: z.object({
+    feedback: z.string().optional().describe("Notes for the freelancer when requesting changes"),
+  }),
+  FundEscrowRequest: fundEscrowSchema,
+  CryptoDepositRequest: cryptoDepositSchema,
+  OpenDisputeRequest: openDisputeSchema,
+  AddDisputeEvidenceRequest: z.object({ evidence: z.array(disputeEvidenceSchema).min(1) }),
+  ResolveDisputeRequest: resolveDisputeSchema,
+  CreateTemplateRequest: insertTemplateSchema.omit({ userId: true }),
+  NotificationPreferencesRequest: notificationPreferencesSchema,
+  CreateApiKeyRequest: createApiKeySchema,
+  UpdateApiKeyRequest: updateApiKeySchema,
+  RotateApiKeyRequest: rotateApiKeySchema,
+  WebhookSubscription: webhookSubscriptionSchema,
+  CreatedWebhookSubscription: z.object({
+    subscription: webhookSubscriptionSchema,
+    secret: z.string().describe("Signs deliveries; only returned once"),
+  }),
+  WebhookDelivery: createSelectSchema(webhookDeliveries),
+  CreateWebhookSubscriptionRequest: createWebhookSubscriptionSchema,
+  UpdateWebhookSubscriptionRequest: updateWebhookSubscriptionSchema,
+  Invoice: invoiceSchema,
+  InvoiceWithItems: invoiceSchema.extend({ items: z.array(createSelectSchema(invoiceItems)) }),
+  CreateInvoiceRequest: createInvoiceSchema,
+  UpdateInvoiceStatusRequest: updateInvoiceStatusSchema,
+  TaxProfile: createSelectSchema(taxProfiles).extend({ taxRates: z.array(taxRateSchema) }),
+  UpdateTaxProfileRequest: updateTaxProfileSchema,
+  QuarterlyTaxSummary: z.object({
+    year: z.number().int(),
+    quarter: z.number().int(),
+    from: z.string().datetime(),
+    to: z.string().datetime().describe("Exclusive"),
+    currency: z.string().describe("Your home currency; amounts are converted to its minor units"),
+    invoiceCount: z.number().int(),
+    netSales: z.number().int().describe("Invoiced before tax, including reverse-charge sales"),
+    reverseChargeSales: z.number().int(),
+    taxCollected: z.array(taxLineSchema),
+    taxCollectedTotal: z.number().int(),
+    estimatedTaxableIncome: z.number().int(),
+    estimatedTaxDue: z.number().int(),
+  }),
+  Review: createSelectSchema(reviews),
+  CreateReviewRequest: createReviewSchema,
+  ReviewReplyRequest: reviewReplySchema,
+  TrustTier: trustTierSchema,
+  TrustScore: z.object({
+    trustScore: z.object({
+      overallScore: z.number().int().describe("0-100"),
+      ratingFactor: z.number().describe("0-1"),
+      reliabilityFactor: z.number().describe("0-1"),
+      disputeFactor: z.number().describe("0-1"),
+      recommendation: z.string(),
+      modelVersion: z.number().int().describe("Version of the trust model that produced the score"),
+      modelConfig: z.object({
+        weights: z.object({ rating: z.number(), reliability: z.number(), dispute: z.number() }),
+        halfLifeDays: z.number(),
+        priorMean: z.number(),
+        priorStrength: z.number(),
+      }),
+    }),
+    tier: trustTierSchema,
+    nextTier: trustTierSchema.optional().describe("Absent at the highest tier"),
+    pointsToNextTier: z.number().int().optional(),
+    history: z.object({
+      contractsCompleted: z.number().int(),
+      contractsCancelled: z.number().int(),
+      averageRating: z.number(),
+      reviewCount: z.number().int(),
+      disputesInitiated: z.number().int(),
+      disputesLost: z.number().int(),
+      paymentsPunctual: z.number().int().describe("Clients only"),
+      paymentsLate: z.number().int().describe("Clients only"),
+      deliverablesOnTime: z.number().int().describe("Freelancers only"),
+      deliverablesLate: z.number().int().describe("Freelancers only"),
+    }),
+  }),
+  TrustScoreSnapshot: createSelectSchema(trustScoreSnapshots),
+  TrustScoreSummary: z.object({
+    userId: z.number().int(),
+    overallScore: z.number().int(),
+    tier: z.nativeEnum(TrustTier),
+    averageRating: z.number(),
+    reviewCount: z.number().int(),
+    contractsCompleted: z.number().int(),
+  }),
+} satisfies Record<string, z.ZodTypeAny>;
+
+type SchemaName = keyof typeof SCHEMAS;
+
+// Keyed by lower-case method and Express path
+const ROUTE_DOCS: Record<string, RouteDoc> = {
+  // Auth
+  "post /api/auth/register": { summary: "Create an account and log in", auth: "none", body: "RegisterRequest", response: "User", status: 201 },
+  "post /api/auth/login": {
+    summary: "Log in",
+    description: "Responds with { twoFactorRequired: true } instead of the user when a second step is needed.",
+    auth: "none",
+    body: "LoginRequest",
+    response: "User",
+  },
+  "post /api/auth/login/2fa": { summary: "Complete a login with a two-factor code", auth: "none", body: "TwoFactorCodeRequest", response: "User" },
+  "post /api/auth/logout": { summary: "Log out" },
+  "get /api/auth/me": { summary: "Get the logged-in user", response: "User" },
+  "patch /api/auth/me": {
+    summary: "Change your profile settings, such as your home currency",
+    description: "Escrow is paid out to, and crypto deposits are accepted from, the walletAddress and stripeAccountId set here.",
+    body: "UpdateProfileRequest",
+    response: "User",
+  },
+  "get /api/auth/2fa": { summary: "Get two-factor status" },
+  "post /api/auth/2fa/setup": { summary: "Start two-factor enrollment" },
+  "post /api/auth/2fa/verify": { summary: "Confirm two-factor enrollment", body: "TwoFactorCodeRequest" },
+  "post /api/auth/2fa/backup-codes": { summary: "Regenerate backup codes", body: "TwoFactorCodeRequest" },
+  "post /api/auth/2fa/disable": { summary: "Turn off two-factor authentication", body: "TwoFactorCodeRequest" },
+
+  // Contracts
+  "get /api/contracts": { summary: "List your contracts", response: "Contract[]" },
+  "get /api/contracts/:id": { summary: "Get a contract", response: "Contract" },
+  "post /api/contracts": {
+    summary: "Create a contract",
+    description: "You must be the client or the freelancer. New contracts always start as drafts.",
+    body: "CreateContractRequest",
+    response: "Contract",
+    status: 201,
+  },
+  "patch /api/contracts/:id/status": {
+    summary: "Move a contract to another status",
+    description: "A pending contract is activated by the party who didn't submit it. Contracts become disputed only by opening a dispute.",
+    body: "UpdateContractStatusRequest",
+    response: "Contract",
+  },
+  "get /api/contracts/:id/history": { summary: "List a contract's status changes", response: "ContractStatusHistory[]" },
+  "get /api/contracts/:contractId/milestones": { summary: "List a contract's milestones", response: "Milestone[]" },
+  "get /api/contracts/:contractId/payments": { summary: "List a contract's escrow payments", response: "EscrowPayment[]" },
+  "get /api/contracts/:contractId/disputes": { summary: "List a contract's disputes", response: "Dispute[]" },
+
+  // Milestones
+  "post /api/milestones": { summary: "Add a milestone to a contract", body: "CreateMilestoneRequest", response: "Milestone", status: 201 },
+  "post /api/milestones/:id/start": {
+    summary: "Start work on a milestone",
+    description: "The client must first hold the milestone's amount in escrow: all of it at bronze and silver, half at gold, a quarter at platinum.",
+    response: "Milestone",
+  },
+  "post /api/milestones/:id/submit": { summary: "Submit a milestone for review", response: "Milestone" },
+  "post /api/milestones/:id/approve": { summary: "Approve a submitted milestone", response: "Milestone" },
+  "post /api/milestones/:id/request-changes": { summary: "Send a milestone back for changes", body: "MilestoneActionRequest", response: "Milestone" },
+  "post /api/milestones/:id/mark-paid": { summary: "Mark a milestone paid once its escrow is released", response: "Milestone" },
+
+  // Payments
+  "get /api/payments": { summary: "List your escrow payments", response: "EscrowPayment[]" },
+  "get /api/payments/:id": { summary: "Get an escrow payment", response: "EscrowPayment" },
+  "post /api/payments": {
+    summary: "Fund a milestone's escrow",
+    description: "Card payments are charged in full now. Crypto payments are priced in ETH at the current rate and stay pending until the deposit is reported.",
+    body: "FundEscrowRequest",
+    response: "EscrowPayment",
+    status: 201,
+  },
+  "post /api/payments/:id/deposit": {
+    summary: "Report the transaction funding a pending crypto payment",
+    description: "The transaction must call the escrow contract's depositEscrow(paymentDetails.milestoneId) from your profile's wallet, sending paymentDetails.amountWei. The payment is funded once it is mined.",
+    body: "CryptoDepositRequest",
+    response: "EscrowPayment",
+  },
+  "post /api/payments/:id/release": {
+    summary: "Release escrowed funds to the freelancer",
+    description: "Records the platform fee less the freelancer's tier discount. The payout is made once payoutDueAt passes, per the tier's payout speed.",
+    response: "EscrowPayment",
+  },
+  "post /api/payments/:id/refund": { summary: "Refund escrowed funds to the client", response: "EscrowPayment" },
+
+  // Disputes
+  "get /api/disputes": { summary: "List disputes you are involved in, or all open ones for moderators", response: "Dispute[]" },
+  "get /api/disputes/:id": { summary: "Get a dispute", response: "Dispute" },
+  "post /api/disputes": { summary: "Open a dispute", body: "OpenDisputeRequest", response: "Dispute", status: 201 },
+  "post /api/disputes/:id/evidence": { summary: "Add evidence to a dispute", body: "AddDisputeEvidenceRequest", response: "Dispute" },
+  "post /api/disputes/:id/claim": { summary: "Claim a dispute for review (moderators)", response: "Dispute" },
+  "get /api/disputes/:id/analysis": { summary: "Get an AI analysis of a dispute" },
+  "post /api/disputes/:id/resolve": { summary: "Resolve a dispute (moderators)", body: "ResolveDisputeRequest", response: "Dispute" },
+
+  // Payment provider webhooks
+  "post /api/webhooks/:provider": {
+    summary: "Receive a payment provider event",
+    description: "Called by payment providers; the body is verified against the provider's signature.",
+    auth: "none",
+  },
+  "get /api/webhooks/events": {
+    summary: "List received provider events (moderators)",
+    query: z.object({ status: z.nativeEnum(WebhookEventStatus).default(WebhookEventStatus.UNHANDLED) }),
+    response: "PaymentWebhookEvent[]",
+  },
+  "post /api/webhooks/events/:id/replay": { summary: "Process a provider event again (moderators)", response: "PaymentWebhookEvent" },
+
+  // Templates
+  "get /api/templates": {
+    summary: "List public templates, or your own",
+    query: z.object({ mine: z.enum(["true", "false"]).optional() }),
+    response: "Template[]",
+  },
+  "post /api/templates": { summary: "Create a template", body: "CreateTemplateRequest", response: "Template", status: 201 },
+
+  "get /api/stats": { summary: "Get dashboard statistics", description: "Amounts are converted to minor units (e.g. cents) of your home currency." },
+
+  // Notifications
+  "get /api/notifications": {
+    summary: "List your notifications",
+    query: z.object({ unread: z.enum(["true", "false"]).optional() }),
+    response: "Notification[]",
+  },
+  "get /api/notifications/preferences": { summary: "Get your notification preferences", response: "NotificationPreference[]" },
+  "put /api/notifications/preferences": {
+    summary: "Change your notification preferences",
+    body: "NotificationPreferencesRequest",
+    response: "NotificationPreference[]",
+  },
+  "post /api/notifications/read-all": { summary: "Mark all notifications read" },
+  "post /api/notifications/:id/read": { summary: "Mark a notification read", response: "Notification" },
+
+  // API keys
+  "get /api/api-keys": { summary: "List your API keys", response: "ApiKey[]" },
+  "post /api/api-keys": { summary: "Create an API key", body: "CreateApiKeyRequest", response: "IssuedApiKey", status: 201 },
+  "patch /api/api-keys/:id": { summary: "Change an API key", body: "UpdateApiKeyRequest", response: "ApiKey" },
+  "post /api/api-keys/:id/rotate": {
+    summary: "Replace an API key",
+    description: "The old key keeps working for the grace period.",
+    body: "RotateApiKeyRequest",
+    response: "IssuedApiKey",
+    status: 201,
+  },
+  "delete /api/api-keys/:id": { summary: "Revoke an API key", status: 204 },
+
+  // Outgoing webhooks
+  "get /api/webhook-subscriptions": { summary: "List your webhook subscriptions", response: "WebhookSubscription[]" },
+  "post /api/webhook-subscriptions": {
+    summary: "Subscribe a URL to contract events",
+    description: "Deliveries are signed like API requests, keyed with the subscription secret, and retried with exponential backoff.",
+    body: "CreateWebhookSubscriptionRequest",
+    response: "CreatedWebhookSubscription",
+    status: 201,
+  },
+  "patch /api/webhook-subscriptions/:id": {
+    summary: "Change a webhook subscription",
+    description: "Set active to true to re-enable a subscription that was disabled after repeated failures.",
+    body: "UpdateWebhookSubscriptionRequest",
+    response: "WebhookSubscription",
+  },
+  "delete /api/webhook-subscriptions/:id": { summary: "Delete a webhook subscription and its delivery log", status: 204 },
+  "get /api/webhook-subscriptions/:id/deliveries": { summary: "List recent deliveries, newest first", response: "WebhookDelivery[]" },
+  "post /api/webhook-subscriptions/:id/deliveries/:deliveryId/redeliver": {
+    summary: "Send a delivery's event again",
+    response: "WebhookDelivery",
+    status: 201,
+  },
+
+  // Invoices
+  "get /api/invoices": { summary: "List invoices you raised or received", response: "Invoice[]" },
+  "post /api/invoices": {
+    summary: "Draft an invoice for completed milestones",
+    description: "A milestone can only be on one invoice at a time; voiding an invoice frees its milestones. Tax lines come from the freelancer's tax profile.",
+    body: "CreateInvoiceRequest",
+    response: "InvoiceWithItems",
+    status: 201,
+  },
+  "get /api/invoices/:id": { summary: "Get an invoice and its line items", response: "InvoiceWithItems" },
+  "patch /api/invoices/:id/status": {
+    summary: "Issue, pay or void an invoice",
+    description: "Freelancer only. Issuing assigns the freelancer's next sequential invoice number.",
+    body: "UpdateInvoiceStatusRequest",
+    response: "Invoice",
+  },
+  "get /api/invoices/:id/pdf": { summary: "Download an invoice as a PDF", produces: "application/pdf" },
+
+  // Tax
+  "get /api/tax/profile": { summary: "Get your tax profile", response: "TaxProfile" },
+  "put /api/tax/profile": {
+    summary: "Set up or replace your tax profile",
+    description: "Rates are in basis points. New invoices charge tax once a registration number is set.",
+    body: "UpdateTaxProfileRequest",
+    response: "TaxProfile",
+  },
+  "get /api/tax/summary": {
+    summary: "Get a quarterly summary of your invoiced sales and tax",
+    query: taxSummaryQuerySchema,
+    response: "QuarterlyTaxSummary",
+  },
+
+  // Reviews
+  "get /api/contracts/:contractId/reviews": {
+    summary: "List a contract's reviews",
+    description: "Hidden reviews are left out, except your own.",
+    response: "Review[]",
+  },
+  "post /api/contracts/:contractId/reviews": {
+    summary: "Review the other party on a completed contract",
+    description: "Each party reviews once, within 14 days of completion. Reviews stay hidden until both parties have reviewed or the window closes.",
+    body: "CreateReviewRequest",
+    response: "Review",
+    status: 201,
+  },
+  "get /api/users/:id/reviews": { summary: "List the revealed reviews a user has received", response: "Review[]" },
+  "post /api/reviews/:id/reply": {
+    summary: "Reply publicly to a review of you",
+    description: "Only once, after the review is revealed.",
+    body: "ReviewReplyRequest",
+    response: "Review",
+  },
+
+  // Trust score
+  "get /api/trust-tiers": { summary: "List the trust tiers and their benefits", response: "TrustTier[]" },
+  "get /api/users/:id/trust-score": {
+    summary: "Get a user's trust score",
+    description: "Your own score comes with its factor breakdown, tiers and history. Anyone else's is a TrustScoreSummary.",
+    response: "TrustScore",
+  },
+  "get /api/users/:id/trust-score/history": {
+    summary: "Get your daily trust score snapshots",
+    description: "Oldest first. Only available for your own user.",
+    query: trustScoreHistoryQuerySchema,
+    response: "TrustScoreSnapshot[]",
+  },
+
+  "get /api/docs/openapi.json": { summary: "Get this document", auth: "none" },
+
+  // External API
+  "get /v1/contracts": {
+    summary: "List the key owner's contracts",
+    query: z.object({ status: z.nativeEnum(ContractStatus).optional() }),
+    response: "Contract[]",
+  },
+  "get /v1/contracts/:id": { summary: "Get a contract", response: "Contract" },
+  "get /v1/milestones": {
+    summary: "List a contract's milestones",
+    query: z.object({ contractId: z.number().int() }),
+    response: "Milestone[]",
+  },
+  "get /v1/payments": { summary: "List the key owner's escrow payments", response: "EscrowPayment[]" },
+};
+
+const SIGNED_REQUEST_DESCRIPTION = [
+  "Requests to /v1 are signed with an API key. Send X-API-Key, X-Timestamp (Unix seconds),",
+  "X-Nonce (16-64 characters of [A-Za-z0-9_-], never reused) and X-Signature, the hex",
+  "HMAC-SHA256 of the canonical request keyed with the API secret. The canonical request is",
+  "the method, path, sorted query string, timestamp, nonce and hex SHA-256 of the body,",
+  "joined by newlines; see shared/api-signing.ts.",
+].join(" ");
+
+const SECURITY: Record<AuthMethod, Record<string, string[]>[]> = {
+  session: [{ SessionCookie: [] }],
+  apiKey: [{ ApiKey: [], ApiTimestamp: [], ApiNonce: [], ApiSignature: [] }],
+  none: [],
+};
+
+function schemaRef(name: string): OpenApiSchema {
+  return name.endsWith("[]")
+    ? { type: "array", items: { $ref: `#/components/schemas/${name.slice(0, -2)}` } }
+    : { $ref: `#/components/schemas/${name}` };
+}
+
+function errorResponse(description: string) {
+  return { description, content: { "application/json": { schema: schemaRef("Error") } } };
+}
+
+// e.g. "/api/api-keys/:id" -> "API keys", "/v1/contracts" -> "External API"
+function tagFor(path: string): string {
+  if (path.startsWith("/v1/")) {
+    return "External API";
+  }
+
+  const segment = path.split("/")[2] || "api";
+  const words = segment === "api-keys" ? "API keys" : segment.replace(/-/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// e.g. "get /api/contracts/:id" -> "getApiContractsById"
+function operationId(method: string, path: string): string {
+  const words = `${method} ${path.replace(/:/g, "by ")}`.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words.map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)).join("");
+}
+
+/**
+ * Build the OpenAPI document for every route registered on the given routers
+ * @param routers Routers to document, with the path each is mounted at
+ * @returns OpenAPI 3.0 document
+ */
+export function generateApiDocs(routers: { router: object; basePath?: string }[]) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const { router, basePath } of routers) {
+    for (const route of listRoutes(router, basePath)) {
+      const doc: RouteDoc = ROUTE_DOCS[`${route.method} ${route.path}`] ||
+        { summary: `${route.method.toUpperCase()} ${route.path}` };
+      const { path, params } = toOpenApiPath(route.path);
+      const auth = doc.auth || (route.path.startsWith("/v1/") ? "apiKey" : "session");
+      const status = doc.status || 200;
+
+      const parameters: { name: string; in: string; required: boolean; schema: OpenApiSchema }[] = params.map(name => ({
+        name,
+        in: "path",
+        required: true,
+        // Every path parameter is a numeric id except the webhook provider
+        schema: name === "provider" ? { type: "string" } : { type: "integer" },
+      }));
+
+      for (const [name, field] of Object.entries(doc.query?.shape || {})) {
+        const schema = field as z.ZodTypeAny;
+        parameters.push({ name, in: "query", required: !schema.isOptional(), schema: zodToOpenApi(schema) });
+      }
+
+      const responses: Record<string, unknown> = {
+        [status]: doc.response
+          ? { description: "Success", content: { "application/json": { schema: schemaRef(doc.response) } } }
+          : doc.produces
+            ? { description: "Success", content: { [doc.produces]: { schema: { type: "string", format: "binary" } } } }
+            : { description: "Success" },
+      };
+
+      if (doc.body || doc.query) {
+        responses["400"] = errorResponse("Invalid request");
+      }
+      if (auth !== "none") {
+        responses["401"] = errorResponse("Not authenticated");
+        responses["403"] = errorResponse("Not allowed");
+      }
+      if (params.length) {
+        responses["404"] = errorResponse("Not found");
+      }
+      if (auth === "apiKey") {
+        responses["429"] = errorResponse("Rate limit exceeded; retry after the Retry-After header");
+      }
+      responses["500"] = errorResponse("Unexpected error");
+
+      paths[path] = {
+        ...paths[path],
+        [route.method]: {
+          operationId: operationId(route.method, route.path),
+          tags: [tagFor(route.path)],
+          summary: doc.summary,
+          description: doc.description,
+          security: SECURITY[auth],
+          parameters: parameters.length ? parameters : undefined,
+          requestBody: doc.body
+            ? { required: true, content: { "application/json": { schema: schemaRef(doc.body) } } }
+            : undefined,
+          responses,
+        },
+      };
+    }
+  }
+
+  const schemas: Record<string, OpenApiSchema> = {};
+  for (const [name, schema] of Object.entries(SCHEMAS)) {
+    schemas[name] = zodToOpenApi(schema);
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "ContractPay API",
+      version: "1.0.0",
+      description: `API for ContractPay, a freelancer-client contract and escrow platform. ${SIGNED_REQUEST_DESCRIPTION}`,
+    },
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        SessionCookie: { type: "apiKey", in: "cookie", name: "connect.sid" },
+        ApiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        ApiTimestamp: { type: "apiKey", in: "header", name: "X-Timestamp" },
+        ApiNonce: { type: "apiKey", in: "header", name: "X-Nonce" },
+        ApiSignature: { type: "apiKey", in: "header", name: "X-Signature" },
+      },
+    },
+  };
+}
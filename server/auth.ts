@@ -0,0 +1,362 @@
+import { type Express, Request, RequestHandler, Response, NextFunction } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { verifyPassword } from "./services/password";
+import {
+  beginEnrollment,
+  confirmEnrollment,
+  disableTwoFactor,
+  getRemainingBackupCodes,
+  isTwoFactorEnabled,
+  regenerateBackupCodes,
+  verifySecondFactor,
+  TwoFactorError
+} from "./services/two-factor";
+import { insertUserSchema, updateProfileSchema, User as SelectUser } from "@shared/schema";
+import { z } from "zod";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Set after a correct password for a 2FA user, until the second step completes
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+    // Written by passport on login; read directly where passport isn't mounted
+    passport?: { user?: number };
+  }
+}
+
+const MemoryStore = createMemoryStore(session);
+
+// Prune expired sessions once a day
+const SESSION_PRUNE_PERIOD = 24 * 60 * 60 * 1000;
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+// How long, and how many tries, a user has to enter their second factor
+const TWO_FACTOR_LOGIN_WINDOW = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+const twoFactorCodeSchema = z.object({ code: z.string().min(1) });
+
+/**
+ * Rotate the session id, then log the user in
+ */
+function startSession(req: Request, user: SelectUser, done: (err?: unknown) => void) {
+  // Issue a fresh session id whenever a user becomes authenticated to prevent session fixation
+  req.session.regenerate((regenerateErr) => {
+    if (regenerateErr) return done(regenerateErr);
+
+    req.login(user, done);
+  });
+}
+
+/**
+ * Rotate the session id and log the user in
+ */
+function establishSession(req: Request, res: Response, next: NextFunction, user: SelectUser) {
+  startSession(req, user, (err) => {
+    if (err) return next(err);
+
+    // Don't send password back to the client
+    const { password: _, ...userWithoutPassword } = user;
+    return res.status(200).json({ user: userWithoutPassword });
+  });
+}
+
+/**
+ * Middleware rejecting requests without an authenticated session
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  next();
+}
+
+/**
+ * Configure session handling, passport and the auth routes
+ * @param app Express application
+ * @returns The session middleware, for authenticating WebSocket upgrades
+ */
+export function setupAuth(app: Express): RequestHandler {
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: SESSION_PRUNE_PERIOD }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE,
+    },
+  };
+
+  if (app.get("env") === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  const sessionParser = session(sessionSettings);
+
+  app.use(sessionParser);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+
+        if (!user || !(await verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userData = insertUserSchema.parse(req.body);
+
+      // Check if username or email already exists
+      const existingUsername = await storage.getUserByUsername(userData.username);
+      if (existingUsername) {
+        return res.status(400).json({ message: "Username already taken" });
+      }
+
+      const existingEmail = await storage.getUserByEmail(userData.email);
+      if (existingEmail) {
+        return res.status(400).json({ message: "Email already in use" });
+      }
+
+      const user = await storage.createUser(userData);
+
+      startSession(req, user, (err) => {
+        if (err) return next(err);
+
+        // Don't send password back to the client
+        const { password, ...userWithoutPassword } = user;
+        return res.status(201).json(userWithoutPassword);
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/login", (req: Request, res: Response, next: NextFunction) => {
+    const { username, password } = req.body;
+
+    if (!username || !password) {
+      return res.status(400).json({ message: "Username and password are required" });
+    }
+
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) {
+        return res.status(500).json({ message: "Internal server error" });
+      }
+
+      if (!user) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      isTwoFactorEnabled(user.id)
+        .then((enabled) => {
+          if (!enabled) {
+            return establishSession(req, res, next, user);
+          }
+
+          // Hold the login until the second factor has been checked
+          req.session.regenerate((regenerateErr) => {
+            if (regenerateErr) return next(regenerateErr);
+
+            req.session.pendingTwoFactor = {
+              userId: user.id,
+              expiresAt: Date.now() + TWO_FACTOR_LOGIN_WINDOW,
+              attempts: 0,
+            };
+            return res.status(200).json({ twoFactorRequired: true });
+          });
+        })
+        .catch(next);
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/login/2fa", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const pending = req.session.pendingTwoFactor;
+
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Login has expired, please sign in again" });
+      }
+
+      if (!(await verifySecondFactor(pending.userId, code))) {
+        pending.attempts += 1;
+
+        if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many invalid codes, please sign in again" });
+        }
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+
+      if (!user) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      return establishSession(req, res, next, user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((err) => {
+      if (err) return next(err);
+
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+
+        res.clearCookie("connect.sid");
+        return res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req: Request, res: Response) => {
+    // Don't send password back to the client
+    const { password, ...userWithoutPassword } = req.user!;
+
+    return res.status(200).json(userWithoutPassword);
+  });
+
+  app.patch("/api/auth/me", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const changes = updateProfileSchema.parse(req.body);
+      const user = await storage.updateUser(req.user!.id, changes);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Don't send password back to the client
+      const { password, ...userWithoutPassword } = user;
+
+      return res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Two-factor management
+  app.get("/api/auth/2fa", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const enabled = await isTwoFactorEnabled(req.user!.id);
+      const backupCodesRemaining = await getRemainingBackupCodes(req.user!.id);
+
+      return res.status(200).json({ enabled, backupCodesRemaining });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/2fa/setup", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const enrollment = await beginEnrollment(req.user!);
+
+      return res.status(200).json(enrollment);
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/2fa/verify", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const backupCodes = await confirmEnrollment(req.user!, code);
+
+      return res.status(200).json({ enabled: true, backupCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof TwoFactorError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/2fa/backup-codes", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const backupCodes = await regenerateBackupCodes(req.user!, code);
+
+      return res.status(200).json({ backupCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof TwoFactorError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      await disableTwoFactor(req.user!, code);
+
+      return res.status(200).json({ enabled: false });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof TwoFactorError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  return sessionParser;
+}
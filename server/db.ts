@@ -0,0 +1,43 @@
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePg } from 'drizzle-orm/node-postgres';
+import { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import pg from 'pg';
+import ws from 'ws';
+import * as schema from '@shared/schema';
+
+// The serverless driver talks to Postgres over WebSockets; Node needs an implementation
+neonConfig.webSocketConstructor = ws;
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Open a Drizzle connection pool for a Postgres database. DATABASE_DRIVER
+ * picks the driver: "neon" (the default) for Neon's serverless driver, or
+ * "pg" for node-postgres, e.g. against a local Postgres server.
+ * @param connectionString Postgres connection URL (DATABASE_URL)
+ * @param driver Driver to connect with
+ * @returns Drizzle database bound to the shared schema
+ */
+export function createDb(connectionString: string, driver = process.env.DATABASE_DRIVER || 'neon'): Database {
+  switch (driver) {
+    case 'neon':
+      return drizzleNeon({ client: new NeonPool({ connectionString }), schema });
+
+    case 'pg':
+      return createNodePgDb(new pg.Pool({ connectionString }));
+
+    default:
+      throw new Error(`Unknown DATABASE_DRIVER "${driver}"`);
+  }
+}
+
+/**
+ * Bind Drizzle to an existing node-postgres compatible pool, such as
+ * pg-mem's in-process adapter
+ * @param pool Connection pool
+ * @returns Drizzle database bound to the shared schema
+ */
+export function createNodePgDb(pool: pg.Pool): Database {
+  return drizzleNodePg({ client: pool, schema });
+}
@@ -1,9 +1,24 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { scheduleNotificationJobs } from "./services/notification-digest";
+import { scheduleWebhookRetries } from "./services/outgoing-webhooks";
+import { scheduleTrustScoreSnapshots } from "./services/trust-score";
+import { scheduleDepositChecks, schedulePayouts } from "./services/escrow";
+
+declare module "http" {
+  interface IncomingMessage {
+    // Unparsed body, kept so payment webhook and API request signatures can be verified
+    rawBody: unknown;
+  }
+}
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -65,6 +80,11 @@ app.use((req, res, next) => {
     "127.0.0.1",
     () => {
       log(`serving on port ${port}`);
+      scheduleNotificationJobs();
+      scheduleWebhookRetries();
+      scheduleTrustScoreSnapshots();
+      schedulePayouts();
+      scheduleDepositChecks();
     }
   );
   
@@ -0,0 +1,105 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { Notification } from "@shared/schema";
+
+export const NOTIFICATION_SOCKET_PATH = "/ws/notifications";
+
+// Drop connections that stop answering pings (e.g. a laptop that went to sleep)
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+export type NotificationSocketMessage = { type: "notification"; notification: Notification };
+
+// Open sockets per user, since a user may have several tabs open
+const connections = new Map<number, Set<WebSocket>>();
+
+/**
+ * Resolve the logged-in user for an upgrade request from its session cookie
+ */
+function getSessionUserId(req: IncomingMessage, sessionParser: RequestHandler): Promise<number | null> {
+  return new Promise((resolve) => {
+    sessionParser(req as Request, {} as Response, () => {
+      const userId = (req as Request).session?.passport?.user;
+      resolve(typeof userId === "number" ? userId : null);
+    });
+  });
+}
+
+function addConnection(userId: number, socket: WebSocket) {
+  const sockets = connections.get(userId) || new Set<WebSocket>();
+  sockets.add(socket);
+  connections.set(userId, sockets);
+
+  socket.on("close", () => {
+    sockets.delete(socket);
+    if (sockets.size === 0) {
+      connections.delete(userId);
+    }
+  });
+}
+
+/**
+ * Accept authenticated WebSocket connections on NOTIFICATION_SOCKET_PATH
+ * @param server HTTP server the app listens on
+ * @param sessionParser Session middleware, used to authenticate the upgrade
+ */
+export function attachNotificationSocket(server: Server, sessionParser: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  server.on("upgrade", async (req, socket, head) => {
+    // Other upgrades (such as the Vite HMR socket) are handled by their own listeners
+    if (new URL(req.url || "/", "http://localhost").pathname !== NOTIFICATION_SOCKET_PATH) {
+      return;
+    }
+
+    const userId = await getSessionUserId(req, sessionParser);
+
+    if (userId === null) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      alive.set(ws, true);
+      ws.on("pong", () => alive.set(ws, true));
+      addConnection(userId, ws);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  server.on("close", () => clearInterval(heartbeat));
+}
+
+/**
+ * Push a new notification to every socket the user has open
+ * @param notification Stored notification
+ */
+export function pushNotification(notification: Notification) {
+  const sockets = connections.get(notification.userId);
+
+  if (!sockets) {
+    return;
+  }
+
+  const message: NotificationSocketMessage = { type: "notification", notification };
+  const payload = JSON.stringify(message);
+
+  sockets.forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(payload);
+    }
+  });
+}
@@ -0,0 +1,80 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { Contract, User, UserType } from "@shared/schema";
+import { storage } from "./storage";
+import { authorize, CONTRACT_POLICY, ContractAction, ContractRole } from "./policy";
+
+// Which role may do what is checked against the routes in routes.test.ts;
+// these tests cover how authorize applies the policy table
+const ACTIONS = Object.keys(CONTRACT_POLICY) as ContractAction[];
+const ROLES: ContractRole[] = ["client", "freelancer", "moderator"];
+
+async function createUser(username: string, userType: UserType): Promise<User> {
+  return storage.createUser({
+    username,
+    password: "password",
+    email: `${username}@example.com`,
+    fullName: username,
+    userType,
+  });
+}
+
+describe("contract policy", () => {
+  let contract: Contract;
+  let users: Record<ContractRole, User>;
+  let outsider: User;
+  let otherModerator: User;
+
+  beforeAll(async () => {
+    const client = await createUser("policy-client", UserType.CLIENT);
+    const freelancer = await createUser("policy-freelancer", UserType.FREELANCER);
+    const moderator = await createUser("policy-moderator", UserType.MODERATOR);
+    outsider = await createUser("policy-outsider", UserType.CLIENT);
+    otherModerator = await createUser("policy-other-moderator", UserType.MODERATOR);
+
+    contract = await storage.createContract({
+      title: "Policy test",
+      description: "Contract used by the policy tests",
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      totalAmount: 100000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+    });
+
+    // Moderators reach a contract through a dispute they are assigned to
+    await storage.createDispute({
+      contractId: contract.id,
+      initiatedBy: client.id,
+      respondent: freelancer.id,
+      moderatorId: moderator.id,
+      reason: "Policy test dispute",
+    });
+
+    users = { client, freelancer, moderator };
+  });
+
+  for (const action of ACTIONS) {
+    for (const role of ROLES) {
+      const allowed = CONTRACT_POLICY[action].includes(role);
+
+      it(`${allowed ? "allows" : "denies"} the ${role} to ${action}`, async () => {
+        const decision = await authorize(users[role], action, contract);
+
+        expect(decision.role).toBe(role);
+        expect(decision.allowed).toBe(allowed);
+      });
+    }
+
+    it(`denies a non-party to ${action}`, async () => {
+      const decision = await authorize(outsider, action, contract);
+
+      expect(decision).toMatchObject({ allowed: false, role: null, reason: "You are not a party to this contract" });
+    });
+
+    it(`denies an unassigned moderator to ${action}`, async () => {
+      const decision = await authorize(otherModerator, action, contract);
+
+      expect(decision).toMatchObject({ allowed: false, role: null });
+    });
+  }
+});
@@ -0,0 +1,136 @@
+import { Response } from "express";
+import { storage } from "./storage";
+import { Contract, User, UserType } from "@shared/schema";
+
+/**
+ * The part a user plays on a specific contract
+ */
+export type ContractRole = "client" | "freelancer" | "moderator";
+
+/**
+ * Actions that can be performed against a contract or its milestones
+ */
+export type ContractAction =
+  | "contract:view"
+  | "contract:update_status"
+  | "milestone:view"
+  | "milestone:create"
+  | "milestone:start"
+  | "milestone:submit"
+  | "milestone:approve"
+  | "milestone:request_changes"
+  | "milestone:mark_paid"
+  | "payment:view"
+  | "payment:fund"
+  | "payment:release"
+  | "payment:refund"
+  | "dispute:view"
+  | "dispute:open"
+  | "dispute:add_evidence"
+  | "dispute:resolve"
+  | "invoice:view"
+  | "invoice:create"
+  | "invoice:update_status"
+  | "review:view"
+  | "review:create"
+  | "review:reply";
+
+/**
+ * Which contract roles may perform each action
+ */
+export const CONTRACT_POLICY: Record<ContractAction, ContractRole[]> = {
+  "contract:view": ["client", "freelancer", "moderator"],
+  // Per-transition roles are enforced by the contract lifecycle
+  "contract:update_status": ["client", "freelancer", "moderator"],
+  "milestone:view": ["client", "freelancer", "moderator"],
+  "milestone:create": ["client"],
+  "milestone:start": ["freelancer"],
+  "milestone:submit": ["freelancer"],
+  "milestone:approve": ["client"],
+  "milestone:request_changes": ["client"],
+  // Either party can ask the server to reconcile a milestone whose escrow was released
+  "milestone:mark_paid": ["client", "freelancer"],
+  "payment:view": ["client", "freelancer", "moderator"],
+  "payment:fund": ["client"],
+  "payment:release": ["client"],
+  // The freelancer may hand funds back voluntarily as well
+  "payment:refund": ["client", "freelancer"],
+  "dispute:view": ["client", "freelancer", "moderator"],
+  "dispute:open": ["client", "freelancer"],
+  "dispute:add_evidence": ["client", "freelancer", "moderator"],
+  "dispute:resolve": ["moderator"],
+  "invoice:view": ["client", "freelancer"],
+  "invoice:create": ["freelancer"],
+  // Per-transition roles are enforced by the invoice lifecycle
+  "invoice:update_status": ["freelancer"],
+  "review:view": ["client", "freelancer", "moderator"],
+  "review:create": ["client", "freelancer"],
+  // Only the review's receiver; checked by the reviews service
+  "review:reply": ["client", "freelancer"],
+};
+
+export interface PolicyDecision {
+  allowed: boolean;
+  action: ContractAction;
+  role: ContractRole | null;
+  reason?: string;
+}
+
+/**
+ * Determine the role a user holds on a contract
+ * @param user Authenticated user
+ * @param contract Contract to check membership of
+ * @returns The user's role, or null if they are not a party to the contract
+ */
+export async function getContractRole(user: User, contract: Contract): Promise<ContractRole | null> {
+  if (contract.clientId === user.id) {
+    return "client";
+  }
+
+  if (contract.freelancerId === user.id) {
+    return "freelancer";
+  }
+
+  // Moderators only gain access to contracts they have been assigned a dispute on
+  if (user.userType === UserType.MODERATOR) {
+    const disputes = await storage.getDisputesByContract(contract.id);
+    if (disputes.some(dispute => dispute.moderatorId === user.id)) {
+      return "moderator";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a user may perform an action on a contract
+ * @param user Authenticated user
+ * @param action Action being attempted
+ * @param contract Contract the action targets
+ * @returns Policy decision including the resolved role
+ */
+export async function authorize(user: User, action: ContractAction, contract: Contract): Promise<PolicyDecision> {
+  const role = await getContractRole(user, contract);
+
+  if (!role) {
+    return { allowed: false, action, role, reason: "You are not a party to this contract" };
+  }
+
+  if (!CONTRACT_POLICY[action].includes(role)) {
+    return { allowed: false, action, role, reason: `The ${role} cannot perform ${action}` };
+  }
+
+  return { allowed: true, action, role };
+}
+
+/**
+ * Send the standard 403 response for a denied policy decision
+ * @param res Express response
+ * @param decision The denied decision
+ */
+export function denyAccess(res: Response, decision: PolicyDecision) {
+  return res.status(403).json({
+    message: decision.reason || "Forbidden",
+    action: decision.action,
+  });
+}
@@ -0,0 +1,280 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  Contract,
+  ContractStatus,
+  Dispute,
+  DisputeStatus,
+  Milestone,
+  PaymentMethod,
+  User,
+  UserType,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { registerRoutes } from "./routes";
+import { ContractAction, ContractRole } from "./policy";
+import { configurePaymentGateways } from "./services/payment-gateways";
+
+interface Fixtures {
+  contract: Contract;
+  milestone: Milestone;
+  dispute: Dispute;
+}
+
+interface RouteCase {
+  action: ContractAction;
+  route: string;
+  request: (fixtures: Fixtures) => [method: string, path: string, body?: unknown];
+  // Written out from the product rules, not copied from CONTRACT_POLICY
+  allowed: ContractRole[];
+}
+
+const EVERYONE: ContractRole[] = ["client", "freelancer", "moderator"];
+
+const ROUTES: RouteCase[] = [
+  {
+    action: "contract:view",
+    route: "GET /api/contracts/:id",
+    request: f => ["GET", `/api/contracts/${f.contract.id}`],
+    allowed: EVERYONE,
+  },
+  {
+    action: "contract:view",
+    route: "GET /api/contracts/:id/history",
+    request: f => ["GET", `/api/contracts/${f.contract.id}/history`],
+    allowed: EVERYONE,
+  },
+  {
+    action: "milestone:view",
+    route: "GET /api/contracts/:contractId/milestones",
+    request: f => ["GET", `/api/contracts/${f.contract.id}/milestones`],
+    allowed: EVERYONE,
+  },
+  {
+    action: "milestone:start",
+    route: "POST /api/milestones/:id/start",
+    request: f => ["POST", `/api/milestones/${f.milestone.id}/start`],
+    allowed: ["freelancer"],
+  },
+  {
+    action: "milestone:approve",
+    route: "POST /api/milestones/:id/approve",
+    request: f => ["POST", `/api/milestones/${f.milestone.id}/approve`],
+    allowed: ["client"],
+  },
+  {
+    action: "payment:view",
+    route: "GET /api/contracts/:contractId/payments",
+    request: f => ["GET", `/api/contracts/${f.contract.id}/payments`],
+    allowed: EVERYONE,
+  },
+  {
+    action: "payment:fund",
+    route: "POST /api/payments",
+    request: f => [
+      "POST",
+      "/api/payments",
+      { milestoneId: f.milestone.id, amount: 1000, paymentMethod: PaymentMethod.STRIPE },
+    ],
+    allowed: ["client"],
+  },
+  {
+    action: "dispute:view",
+    route: "GET /api/contracts/:contractId/disputes",
+    request: f => ["GET", `/api/contracts/${f.contract.id}/disputes`],
+    allowed: EVERYONE,
+  },
+  {
+    action: "dispute:add_evidence",
+    route: "POST /api/disputes/:id/evidence",
+    request: f => [
+      "POST",
+      `/api/disputes/${f.dispute.id}/evidence`,
+      { evidence: [{ type: "note", description: "Route test" }] },
+    ],
+    allowed: EVERYONE,
+  },
+  {
+    action: "dispute:resolve",
+    route: "POST /api/disputes/:id/resolve",
+    request: f => [
+      "POST",
+      `/api/disputes/${f.dispute.id}/resolve`,
+      { outcome: DisputeStatus.RESOLVED_FOR_CLIENT, resolution: "Route test" },
+    ],
+    allowed: ["moderator"],
+  },
+  {
+    action: "invoice:create",
+    route: "POST /api/invoices",
+    request: f => ["POST", "/api/invoices", { contractId: f.contract.id, milestoneIds: [f.milestone.id] }],
+    allowed: ["freelancer"],
+  },
+  {
+    action: "review:view",
+    route: "GET /api/contracts/:contractId/reviews",
+    request: f => ["GET", `/api/contracts/${f.contract.id}/reviews`],
+    allowed: EVERYONE,
+  },
+];
+
+const PASSWORD = "route-policy-password";
+
+describe("contract routes", () => {
+  let server: Server;
+  let baseUrl: string;
+  let fixtures: Fixtures;
+  const cookies = new Map<string, string>();
+
+  async function createUser(username: string, userType: UserType): Promise<User> {
+    return storage.createUser({
+      username,
+      password: PASSWORD,
+      email: `${username}@example.com`,
+      fullName: username,
+      userType,
+    });
+  }
+
+  async function logIn(user: User): Promise<void> {
+    const res = await fetch(`${baseUrl}/api/auth/login`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ username: user.username, password: PASSWORD }),
+    });
+
+    expect(res.status).toBe(200);
+    cookies.set(user.username, res.headers.getSetCookie().map(cookie => cookie.split(";")[0]).join("; "));
+  }
+
+  async function send(username: string, route: RouteCase): Promise<{ status: number; body: any }> {
+    const [method, path, body] = route.request(fixtures);
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "content-type": "application/json", cookie: cookies.get(username)! },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    return { status: res.status, body: await res.json().catch(() => null) };
+  }
+
+  beforeAll(async () => {
+    configurePaymentGateways({ PAYMENT_GATEWAY: "fake" });
+
+    const app = express();
+    app.use(express.json({
+      verify: (req, _res, buf) => {
+        req.rawBody = buf;
+      },
+    }));
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const client = await createUser("routes-client", UserType.CLIENT);
+    const freelancer = await createUser("routes-freelancer", UserType.FREELANCER);
+    const moderator = await createUser("routes-moderator", UserType.MODERATOR);
+    const outsider = await createUser("routes-outsider", UserType.FREELANCER);
+    const otherModerator = await createUser("routes-other-moderator", UserType.MODERATOR);
+
+    const created = await storage.createContract({
+      title: "Route policy test",
+      description: "Contract used by the route policy tests",
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      totalAmount: 100000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+    });
+    const contract = (await storage.updateContractStatus(created.id, ContractStatus.ACTIVE))!;
+    const milestone = await storage.createMilestone({
+      contractId: contract.id,
+      title: "Everything",
+      description: "The whole job",
+      amount: 100000,
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    });
+    // Moderators reach a contract through a dispute they are assigned to
+    const dispute = await storage.createDispute({
+      contractId: contract.id,
+      initiatedBy: client.id,
+      respondent: freelancer.id,
+      moderatorId: moderator.id,
+      reason: "Route policy test dispute",
+    });
+
+    fixtures = { contract, milestone, dispute };
+
+    for (const user of [client, freelancer, moderator, outsider, otherModerator]) {
+      await logIn(user);
+    }
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  for (const route of ROUTES) {
+    describe(route.route, () => {
+      for (const party of EVERYONE) {
+        const allowed = route.allowed.includes(party);
+
+        it(`${allowed ? "lets" : "stops"} the ${party}`, async () => {
+          const { status, body } = await send(`routes-${party}`, route);
+          // Other checks may still refuse an allowed request, but never as a policy denial
+          const deniedByPolicy = status === 403 && body?.action === route.action;
+
+          expect(deniedByPolicy).toBe(!allowed);
+        });
+      }
+
+      it("stops users who are not a party to the contract", async () => {
+        for (const username of ["routes-outsider", "routes-other-moderator"]) {
+          const { status, body } = await send(username, route);
+
+          expect(status).toBe(403);
+          expect(body).toMatchObject({ action: route.action, message: "You are not a party to this contract" });
+        }
+      });
+    });
+  }
+
+  describe("GET /api/users/:id/trust-score", () => {
+    async function getTrustScore(username: string, userId: number): Promise<{ status: number; body: any }> {
+      const res = await fetch(`${baseUrl}/api/users/${userId}/trust-score`, {
+        headers: { cookie: cookies.get(username)! },
+      });
+
+      return { status: res.status, body: await res.json() };
+    }
+
+    it("shows users their own full report", async () => {
+      const { status, body } = await getTrustScore("routes-freelancer", fixtures.contract.freelancerId);
+
+      expect(status).toBe(200);
+      expect(body).toHaveProperty("trustScore.ratingFactor");
+      expect(body).toHaveProperty("history");
+    });
+
+    it("shows anyone else only the summary", async () => {
+      const { status, body } = await getTrustScore("routes-outsider", fixtures.contract.freelancerId);
+
+      expect(status).toBe(200);
+      expect(Object.keys(body).sort()).toEqual(
+        ["averageRating", "contractsCompleted", "overallScore", "reviewCount", "tier", "userId"],
+      );
+    });
+
+    it("404s for an unknown user", async () => {
+      expect((await getTrustScore("routes-client", 999999)).status).toBe(404);
+    });
+  });
+
+  it("requires a session", async () => {
+    const res = await fetch(`${baseUrl}/api/contracts/${fixtures.contract.id}`);
+
+    expect(res.status).toBe(401);
+  });
+});
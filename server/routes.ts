@@ -1,188 +1,1262 @@
 import express, { type Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth, requireAuth } from "./auth";
+import { attachNotificationSocket } from "./notification-socket";
+import { generateApiDocs } from "./api-docs";
+import { authorize, denyAccess } from "./policy";
+import { transitionContract, recordContractCreated, ContractTransitionError } from "./services/contract-lifecycle";
+import { performMilestoneAction, markMilestonePaid, MilestoneActionError, getUnallocatedAmount } from "./services/milestone-workflow";
+import {
+  fundMilestone,
+  recordCryptoDeposit,
+  releasePayment,
+  refundPayment,
+  getContractEscrowPayments,
+  EscrowError
+} from "./services/escrow";
+import { GatewayError } from "./services/payment-gateways";
+import { ingestWebhook, replayWebhookEvent } from "./services/payment-webhooks";
+import {
+  openDispute,
+  addDisputeEvidence,
+  claimDispute,
+  resolveDispute,
+  DisputeError
+} from "./services/disputes";
+import { analyzeDispute } from "./services/ai";
+import { getNotificationPreferences, updateNotificationPreferences } from "./services/notifications";
+import {
+  authenticateApiRequest,
+  generateApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  updateApiKey,
+  ApiKeyError
+} from "./services/api-integration";
+import {
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  emitWebhookEvent,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  redeliverWebhook,
+  updateWebhookSubscription,
+  WebhookError
+} from "./services/outgoing-webhooks";
+import {
+  canViewInvoice,
+  createInvoice,
+  getInvoiceWithItems,
+  listInvoices,
+  renderInvoicePdf,
+  transitionInvoice,
+  InvoiceError
+} from "./services/invoicing";
+import { getQuarterlyTaxSummary } from "./services/tax";
+import {
+  listContractReviews,
+  listUserReviews,
+  replyToReview,
+  submitReview,
+  ReviewError
+} from "./services/reviews";
+import { calculateUserTrustScore, getTrustScoreHistory, getTrustScoreSummary, TRUST_TIERS } from "./services/trust-score";
 import { 
-  insertUserSchema, 
   insertContractSchema, 
   insertMilestoneSchema, 
   insertTemplateSchema,
+  fundEscrowSchema,
+  cryptoDepositSchema,
+  openDisputeSchema,
+  disputeEvidenceSchema,
+  resolveDisputeSchema,
+  notificationPreferencesSchema,
+  createApiKeySchema,
+  updateApiKeySchema,
+  rotateApiKeySchema,
+  createWebhookSubscriptionSchema,
+  updateWebhookSubscriptionSchema,
+  createInvoiceSchema,
+  updateInvoiceStatusSchema,
+  updateTaxProfileSchema,
+  taxSummaryQuerySchema,
+  createReviewSchema,
+  reviewReplySchema,
+  trustScoreHistoryQuerySchema,
   ContractStatus,
-  MilestoneStatus
+  DisputeEvidence,
+  DisputeStatus,
+  PaymentMethod,
+  UserType,
+  WebhookEventStatus
 } from "@shared/schema";
+import { MilestoneAction, MilestoneActor } from "@shared/milestone-workflow";
+import { formatMoney, toCurrencyCode } from "@shared/currency";
 import { z } from "zod";
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Auth Routes
-  app.post("/api/auth/register", async (req: Request, res: Response) => {
+  // Sessions, passport and the /api/auth routes
+  const sessionParser = setupAuth(app);
+
+  // Contract Routes
+  app.get("/api/contracts", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { id: userId, userType } = req.user!;
+      let contracts;
+      
+      if (userType === 'freelancer') {
+        contracts = await storage.getContractsByFreelancer(userId);
+      } else if (userType === 'client') {
+        contracts = await storage.getContractsByClient(userId);
+      } else {
+        return res.status(400).json({ message: "Invalid user type" });
+      }
+      
+      return res.status(200).json(contracts);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/contracts/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const contract = await storage.getContract(parseInt(id, 10));
+      
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      
+      const decision = await authorize(req.user!, "contract:view", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      return res.status(200).json(contract);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/contracts", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const contractData = insertContractSchema.parse(req.body);
+      
+      // Users can only create contracts they are a party to
+      if (contractData.clientId !== req.user!.id && contractData.freelancerId !== req.user!.id) {
+        return res.status(403).json({
+          message: "You must be the client or freelancer on a contract you create",
+          action: "contract:create",
+        });
+      }
+      
+      // Every contract starts its lifecycle as a draft
+      const contract = await storage.createContract({ ...contractData, status: ContractStatus.DRAFT });
+      await recordContractCreated(contract, req.user!.id);
+      
+      return res.status(201).json(contract);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/contracts/:id/status", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { status, reason } = req.body;
+      
+      if (!Object.values(ContractStatus).includes(status)) {
+        return res.status(400).json({ message: "Invalid contract status" });
+      }
+      
+      const contract = await storage.getContract(parseInt(id, 10));
+      
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      
+      const decision = await authorize(req.user!, "contract:update_status", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const updatedContract = await transitionContract(
+        contract,
+        status,
+        { userId: req.user!.id, role: decision.role! },
+        typeof reason === 'string' ? reason : undefined
+      );
+      
+      return res.status(200).json(updatedContract);
+    } catch (error) {
+      if (error instanceof ContractTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/contracts/:id/history", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const contract = await storage.getContract(parseInt(id, 10));
+      
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      
+      const decision = await authorize(req.user!, "contract:view", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const history = await storage.getContractStatusHistory(contract.id);
+      
+      return res.status(200).json(history);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Milestone Routes
+  app.get("/api/contracts/:contractId/milestones", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const contract = await storage.getContract(parseInt(contractId, 10));
+      
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      
+      const decision = await authorize(req.user!, "milestone:view", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const milestones = await storage.getMilestonesByContract(contract.id);
+      
+      return res.status(200).json(milestones);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/milestones", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const milestoneData = insertMilestoneSchema.parse(req.body);
+      const contract = await storage.getContract(milestoneData.contractId);
+      
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      
+      const decision = await authorize(req.user!, "milestone:create", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const unallocated = getUnallocatedAmount(contract, await storage.getMilestonesByContract(contract.id));
+      if (milestoneData.amount > unallocated.amount) {
+        return res.status(400).json({
+          message: `Milestone amount exceeds the ${formatMoney(Math.max(unallocated.amount, 0), contract.currency)} of the contract total not yet allocated`
+        });
+      }
+      
+      // Milestones are always priced in their contract's currency
+      const milestone = await storage.createMilestone({ ...milestoneData, currency: toCurrencyCode(contract.currency) });
+      await emitWebhookEvent("milestone.created", contract, { milestone });
+      
+      return res.status(201).json(milestone);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Milestone workflow actions, e.g. POST /api/milestones/:id/submit
+  const milestoneActionRoutes: Record<string, MilestoneAction> = {
+    "start": "start",
+    "submit": "submit",
+    "approve": "approve",
+    "request-changes": "request_changes",
+    "mark-paid": "mark_paid",
+  };
+
+  for (const [path, action] of Object.entries(milestoneActionRoutes)) {
+    app.post(`/api/milestones/:id/${path}`, requireAuth, async (req: Request, res: Response) => {
+      try {
+        const { id } = req.params;
+        const milestone = await storage.getMilestone(parseInt(id, 10));
+        const contract = milestone && await storage.getContract(milestone.contractId);
+        
+        if (!milestone || !contract) {
+          return res.status(404).json({ message: "Milestone not found" });
+        }
+        
+        const decision = await authorize(req.user!, `milestone:${action}`, contract);
+        if (!decision.allowed) {
+          return denyAccess(res, decision);
+        }
+        
+        // Payment reconciliation is a system action gated on a released escrow payment
+        const updatedMilestone = action === "mark_paid"
+          ? await markMilestonePaid(milestone, contract)
+          : await performMilestoneAction(
+              milestone,
+              contract,
+              action,
+              decision.role as MilestoneActor,
+              typeof req.body?.feedback === 'string' ? req.body.feedback : undefined
+            );
+        
+        return res.status(200).json(updatedMilestone);
+      } catch (error) {
+        if (error instanceof MilestoneActionError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        return res.status(500).json({ message: "Internal server error" });
+      }
+    });
+  }
+
+  // Escrow Payment Routes
+  const loadPaymentContext = async (paymentId: number) => {
+    const payment = await storage.getEscrowPayment(paymentId);
+    const milestone = payment && await storage.getMilestone(payment.milestoneId);
+    const contract = milestone && await storage.getContract(milestone.contractId);
+    
+    return payment && milestone && contract ? { payment, milestone, contract } : undefined;
+  };
+
+  app.get("/api/payments", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const payments = await storage.getEscrowPaymentsByUser(req.user!.id);
+      
+      return res.status(200).json(payments);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/contracts/:contractId/payments", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const contract = await storage.getContract(parseInt(contractId, 10));
+      
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      
+      const decision = await authorize(req.user!, "payment:view", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const payments = await getContractEscrowPayments(contract);
+      
+      return res.status(200).json(payments);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/payments/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const context = await loadPaymentContext(parseInt(req.params.id, 10));
+      
+      if (!context) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      const decision = await authorize(req.user!, "payment:view", context.contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      return res.status(200).json(context.payment);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/payments", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { milestoneId, amount, paymentMethod } = fundEscrowSchema.parse(req.body);
+      const milestone = await storage.getMilestone(milestoneId);
+      const contract = milestone && await storage.getContract(milestone.contractId);
+      
+      if (!milestone || !contract) {
+        return res.status(404).json({ message: "Milestone not found" });
+      }
+      
+      const decision = await authorize(req.user!, "payment:fund", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const payment = await fundMilestone(contract, milestone, amount, paymentMethod);
+      
+      return res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof EscrowError || error instanceof GatewayError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/payments/:id/deposit", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { txHash } = cryptoDepositSchema.parse(req.body);
+      const context = await loadPaymentContext(parseInt(req.params.id, 10));
+      
+      if (!context) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      const decision = await authorize(req.user!, "payment:fund", context.contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const payment = await recordCryptoDeposit(context.payment, context.contract, txHash);
+      
+      return res.status(200).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof EscrowError || error instanceof GatewayError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/payments/:id/release", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const context = await loadPaymentContext(parseInt(req.params.id, 10));
+      
+      if (!context) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      const decision = await authorize(req.user!, "payment:release", context.contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const payment = await releasePayment(context.payment, context.contract, context.milestone);
+      
+      return res.status(200).json(payment);
+    } catch (error) {
+      if (error instanceof EscrowError || error instanceof GatewayError || error instanceof MilestoneActionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/payments/:id/refund", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const context = await loadPaymentContext(parseInt(req.params.id, 10));
+      
+      if (!context) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      const decision = await authorize(req.user!, "payment:refund", context.contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const payment = await refundPayment(context.payment, context.contract);
+      
+      return res.status(200).json(payment);
+    } catch (error) {
+      if (error instanceof EscrowError || error instanceof GatewayError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Dispute Routes
+  const loadDisputeContext = async (disputeId: number) => {
+    const dispute = await storage.getDispute(disputeId);
+    const contract = dispute && await storage.getContract(dispute.contractId);
+    
+    return dispute && contract ? { dispute, contract } : undefined;
+  };
+
+  app.get("/api/disputes", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { id: userId, userType } = req.user!;
+      let disputes;
+      
+      if (userType === UserType.MODERATOR) {
+        // Moderators see the unclaimed queue plus the disputes they are reviewing
+        const queue = await storage.getDisputesByStatus(DisputeStatus.OPEN);
+        const assigned = await storage.getDisputesByModerator(userId);
+        disputes = [...queue, ...assigned.filter(d => d.status !== DisputeStatus.OPEN)];
+      } else {
+        disputes = await storage.getDisputesByUser(userId);
+      }
+      
+      return res.status(200).json(disputes);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/contracts/:contractId/disputes", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const contract = await storage.getContract(parseInt(req.params.contractId, 10));
+      
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      
+      const decision = await authorize(req.user!, "dispute:view", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const disputes = await storage.getDisputesByContract(contract.id);
+      
+      return res.status(200).json(disputes);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/disputes/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const context = await loadDisputeContext(parseInt(req.params.id, 10));
+      
+      if (!context) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+      
+      // Any moderator may look at an unclaimed dispute before claiming it
+      const inQueue = req.user!.userType === UserType.MODERATOR && context.dispute.status === DisputeStatus.OPEN;
+      
+      if (!inQueue) {
+        const decision = await authorize(req.user!, "dispute:view", context.contract);
+        if (!decision.allowed) {
+          return denyAccess(res, decision);
+        }
+      }
+      
+      return res.status(200).json(context.dispute);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/disputes", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { contractId, milestoneId, reason, evidence } = openDisputeSchema.parse(req.body);
+      const contract = await storage.getContract(contractId);
+      
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      
+      const decision = await authorize(req.user!, "dispute:open", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      let milestone;
+      if (milestoneId) {
+        milestone = await storage.getMilestone(milestoneId);
+        
+        if (!milestone) {
+          return res.status(404).json({ message: "Milestone not found" });
+        }
+      }
+      
+      const dispute = await openDispute(contract, milestone, req.user!, reason, evidence);
+      
+      return res.status(201).json(dispute);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof DisputeError || error instanceof ContractTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/disputes/:id/evidence", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const evidence = z.array(disputeEvidenceSchema).min(1).parse(req.body.evidence);
+      const context = await loadDisputeContext(parseInt(req.params.id, 10));
+      
+      if (!context) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+      
+      const decision = await authorize(req.user!, "dispute:add_evidence", context.contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const dispute = await addDisputeEvidence(context.dispute, req.user!, evidence);
+      
+      return res.status(200).json(dispute);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof DisputeError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/disputes/:id/claim", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const dispute = await storage.getDispute(parseInt(req.params.id, 10));
+      
+      if (!dispute) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+      
+      const claimed = await claimDispute(dispute, req.user!);
+      
+      return res.status(200).json(claimed);
+    } catch (error) {
+      if (error instanceof DisputeError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/disputes/:id/analysis", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const context = await loadDisputeContext(parseInt(req.params.id, 10));
+      
+      if (!context) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+      
+      const decision = await authorize(req.user!, "dispute:resolve", context.contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const { dispute, contract } = context;
+      const evidence = (dispute.evidence || []) as DisputeEvidence[];
+      const milestones = await storage.getMilestonesByContract(contract.id);
+      
+      const analysis = await analyzeDispute(
+        dispute,
+        contract,
+        evidence
+          .filter(item => item.type === "message")
+          .map(item => ({
+            sender: item.submittedBy === contract.clientId ? "client" : "freelancer",
+            content: item.description,
+            timestamp: new Date(item.submittedAt)
+          })),
+        milestones
+          .filter(m => !dispute.milestoneId || m.id === dispute.milestoneId)
+          .map(m => ({
+            description: `${m.title}: ${m.description}`,
+            submittedAt: m.completedDate || m.dueDate,
+            feedback: m.reviewFeedback || undefined
+          }))
+      );
+      
+      return res.status(200).json(analysis);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/disputes/:id/resolve", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { outcome, resolution, releaseAmount } = resolveDisputeSchema.parse(req.body);
+      const context = await loadDisputeContext(parseInt(req.params.id, 10));
+      
+      if (!context) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+      
+      const decision = await authorize(req.user!, "dispute:resolve", context.contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const dispute = await resolveDispute(
+        context.dispute,
+        context.contract,
+        req.user!,
+        outcome,
+        resolution,
+        releaseAmount
+      );
+      
+      return res.status(200).json(dispute);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (
+        error instanceof DisputeError ||
+        error instanceof ContractTransitionError ||
+        error instanceof EscrowError ||
+        error instanceof GatewayError
+      ) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Payment Gateway Webhook Routes
+  // Called by the providers themselves, so these are authenticated by signature rather than session
+  app.post("/api/webhooks/:provider", async (req: Request, res: Response) => {
+    try {
+      const provider = req.params.provider as PaymentMethod;
+      
+      if (!Object.values(PaymentMethod).includes(provider)) {
+        return res.status(404).json({ message: "Unknown payment provider" });
+      }
+      
+      if (!Buffer.isBuffer(req.rawBody)) {
+        return res.status(400).json({ message: "Webhook body must be JSON" });
+      }
+      
+      const { event, duplicate } = await ingestWebhook(provider, req.rawBody, req.headers);
+      
+      return res.status(200).json({ received: true, duplicate, status: event.status });
+    } catch (error) {
+      if (error instanceof GatewayError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/webhooks/events", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (req.user!.userType !== UserType.MODERATOR) {
+        return res.status(403).json({ message: "Only moderators can view webhook events" });
+      }
+      
+      const status = (req.query.status as string) || WebhookEventStatus.UNHANDLED;
+      const events = await storage.getPaymentWebhookEventsByStatus(status);
+      
+      return res.status(200).json(events);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/webhooks/events/:id/replay", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (req.user!.userType !== UserType.MODERATOR) {
+        return res.status(403).json({ message: "Only moderators can replay webhook events" });
+      }
+      
+      const event = await replayWebhookEvent(parseInt(req.params.id, 10));
+      
+      if (!event) {
+        return res.status(404).json({ message: "Webhook event not found" });
+      }
+      
+      return res.status(200).json(event);
+    } catch (error) {
+      if (error instanceof GatewayError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Template Routes
+  app.get("/api/templates", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { mine } = req.query;
+      
+      let templates;
+      if (mine === 'true') {
+        templates = await storage.getUserTemplates(req.user!.id);
+      } else {
+        templates = await storage.getPublicTemplates();
+      }
+      
+      return res.status(200).json(templates);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/templates", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const templateData = insertTemplateSchema.parse({ ...req.body, userId: req.user!.id });
+      const template = await storage.createTemplate(templateData);
+      
+      return res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Dashboard Stats
+  app.get("/api/stats", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const stats = await storage.getUserStats(req.user!.id);
+      
+      return res.status(200).json(stats);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Notification Routes
+  app.get("/api/notifications", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const notifications = await storage.getUserNotifications(req.user!.id);
+      const unreadOnly = req.query.unread === "true";
+      
+      return res.status(200).json(unreadOnly ? notifications.filter(n => !n.read) : notifications);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/notifications/preferences", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const preferences = await getNotificationPreferences(req.user!.id);
+      
+      return res.status(200).json(preferences);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/notifications/preferences", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { preferences } = notificationPreferencesSchema.parse(req.body);
+      const updated = await updateNotificationPreferences(req.user!.id, preferences);
+      
+      return res.status(200).json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const updated = await storage.markAllNotificationsAsRead(req.user!.id);
+      
+      return res.status(200).json({ updated });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const notification = await storage.getNotification(parseInt(req.params.id, 10));
+      
+      // Other users' notifications are reported as missing rather than forbidden
+      if (!notification || notification.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      
+      const updatedNotification = await storage.markNotificationAsRead(notification.id);
+      
+      return res.status(200).json(updatedNotification);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // API Key Routes (managed from a logged-in session)
+  const loadOwnApiKey = async (req: Request) => {
+    const key = await storage.getApiKey(parseInt(req.params.id, 10));
+    
+    // Other users' keys are reported as missing rather than forbidden
+    return key && key.userId === req.user!.id ? key : undefined;
+  };
+
+  app.get("/api/api-keys", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const keys = await listApiKeys(req.user!.id);
+      
+      return res.status(200).json(keys);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/api-keys", requireAuth, async (req: Request, res: Response) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
+      const { name, permissions, expiresAt } = createApiKeySchema.parse(req.body);
+      const issued = await generateApiKey(req.user!.id, name, permissions, expiresAt ?? null);
       
-      // Check if username or email already exists
-      const existingUsername = await storage.getUserByUsername(userData.username);
-      if (existingUsername) {
-        return res.status(400).json({ message: "Username already taken" });
+      return res.status(201).json(issued);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
       }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/api-keys/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const changes = updateApiKeySchema.parse(req.body);
+      const key = await loadOwnApiKey(req);
       
-      const existingEmail = await storage.getUserByEmail(userData.email);
-      if (existingEmail) {
-        return res.status(400).json({ message: "Email already in use" });
+      if (!key) {
+        return res.status(404).json({ message: "API key not found" });
       }
       
-      const user = await storage.createUser(userData);
-      // Don't send password back to the client
-      const { password, ...userWithoutPassword } = user;
+      const updated = await updateApiKey(key, changes);
       
-      return res.status(201).json(userWithoutPassword);
+      return res.status(200).json(updated);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
       }
+      if (error instanceof ApiKeyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/auth/login", async (req: Request, res: Response) => {
+  app.post("/api/api-keys/:id/rotate", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { username, password } = req.body;
+      const { gracePeriodHours, expiresAt } = rotateApiKeySchema.parse(req.body ?? {});
+      const key = await loadOwnApiKey(req);
       
-      if (!username || !password) {
-        return res.status(400).json({ message: "Username and password are required" });
+      if (!key) {
+        return res.status(404).json({ message: "API key not found" });
       }
       
-      const user = await storage.getUserByUsername(username);
+      const issued = await rotateApiKey(key, gracePeriodHours * 60 * 60 * 1000, expiresAt ?? null);
+      
+      return res.status(201).json(issued);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof ApiKeyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/api-keys/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const key = await loadOwnApiKey(req);
       
-      if (!user || user.password !== password) {
-        return res.status(401).json({ message: "Invalid credentials" });
+      if (!key) {
+        return res.status(404).json({ message: "API key not found" });
       }
       
-      // Don't send password back to the client
-      const { password: _, ...userWithoutPassword } = user;
+      await revokeApiKey(key);
       
-      return res.status(200).json({ user: userWithoutPassword });
+      return res.status(204).send();
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/auth/me", async (req: Request, res: Response) => {
-    // In a real application, this would use session/token for authentication
-    // Here we're simulating auth for simplicity
-    const userId = req.query.userId;
+  // Outgoing webhook subscriptions (inbound provider webhooks live under /api/webhooks)
+  const loadOwnWebhookSubscription = async (req: Request) => {
+    const subscription = await storage.getWebhookSubscription(parseInt(req.params.id, 10));
     
-    if (!userId || typeof userId !== 'string') {
-      return res.status(401).json({ message: "Unauthorized" });
+    // Other users' subscriptions are reported as missing rather than forbidden
+    return subscription && subscription.userId === req.user!.id ? subscription : undefined;
+  };
+
+  app.get("/api/webhook-subscriptions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const subscriptions = await listWebhookSubscriptions(req.user!.id);
+      
+      return res.status(200).json(subscriptions);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
     }
-    
+  });
+
+  app.post("/api/webhook-subscriptions", requireAuth, async (req: Request, res: Response) => {
     try {
-      const user = await storage.getUser(parseInt(userId, 10));
+      const options = createWebhookSubscriptionSchema.parse(req.body);
+      const created = await createWebhookSubscription(req.user!.id, options);
       
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      return res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof WebhookError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/webhook-subscriptions/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const changes = updateWebhookSubscriptionSchema.parse(req.body);
+      const subscription = await loadOwnWebhookSubscription(req);
+      
+      if (!subscription) {
+        return res.status(404).json({ message: "Webhook subscription not found" });
       }
       
-      // Don't send password back to the client
-      const { password, ...userWithoutPassword } = user;
+      const updated = await updateWebhookSubscription(subscription, changes);
       
-      return res.status(200).json(userWithoutPassword);
+      return res.status(200).json(updated);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof WebhookError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Contract Routes
-  app.get("/api/contracts", async (req: Request, res: Response) => {
+  app.delete("/api/webhook-subscriptions/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { userId, userType } = req.query;
+      const subscription = await loadOwnWebhookSubscription(req);
       
-      if (!userId || typeof userId !== 'string') {
-        return res.status(400).json({ message: "User ID is required" });
+      if (!subscription) {
+        return res.status(404).json({ message: "Webhook subscription not found" });
       }
       
-      const parsedUserId = parseInt(userId, 10);
-      let contracts;
+      await deleteWebhookSubscription(subscription);
       
-      if (userType === 'freelancer') {
-        contracts = await storage.getContractsByFreelancer(parsedUserId);
-      } else if (userType === 'client') {
-        contracts = await storage.getContractsByClient(parsedUserId);
-      } else {
-        return res.status(400).json({ message: "Invalid user type" });
+      return res.status(204).send();
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/webhook-subscriptions/:id/deliveries", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const subscription = await loadOwnWebhookSubscription(req);
+      
+      if (!subscription) {
+        return res.status(404).json({ message: "Webhook subscription not found" });
       }
       
-      return res.status(200).json(contracts);
+      const deliveries = await listWebhookDeliveries(subscription);
+      
+      return res.status(200).json(deliveries);
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/contracts/:id", async (req: Request, res: Response) => {
+  app.post("/api/webhook-subscriptions/:id/deliveries/:deliveryId/redeliver", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      const contract = await storage.getContract(parseInt(id, 10));
+      const subscription = await loadOwnWebhookSubscription(req);
+      const delivery = subscription && await storage.getWebhookDelivery(parseInt(req.params.deliveryId, 10));
+      
+      if (!subscription || !delivery || delivery.subscriptionId !== subscription.id) {
+        return res.status(404).json({ message: "Webhook delivery not found" });
+      }
+      
+      const redelivery = await redeliverWebhook(delivery, subscription);
+      
+      return res.status(201).json(redelivery);
+    } catch (error) {
+      if (error instanceof WebhookError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Invoice Routes
+  const loadInvoiceContext = async (req: Request) => {
+    const invoice = await storage.getInvoice(parseInt(req.params.id, 10));
+    const contract = invoice && await storage.getContract(invoice.contractId);
+    
+    // Clients don't learn about drafts until they are issued
+    return invoice && contract && canViewInvoice(invoice, req.user!.id) ? { invoice, contract } : undefined;
+  };
+
+  app.get("/api/invoices", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const invoices = await listInvoices(req.user!.id);
+      
+      return res.status(200).json(invoices);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/invoices", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { contractId, milestoneIds, notes } = createInvoiceSchema.parse(req.body);
+      const contract = await storage.getContract(contractId);
       
       if (!contract) {
         return res.status(404).json({ message: "Contract not found" });
       }
       
-      return res.status(200).json(contract);
+      const decision = await authorize(req.user!, "invoice:create", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const invoice = await createInvoice(contract, milestoneIds, notes);
+      
+      return res.status(201).json(invoice);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof InvoiceError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/contracts", async (req: Request, res: Response) => {
+  app.get("/api/invoices/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      const contractData = insertContractSchema.parse(req.body);
-      const contract = await storage.createContract(contractData);
+      const context = await loadInvoiceContext(req);
       
-      return res.status(201).json(contract);
+      if (!context) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      const decision = await authorize(req.user!, "invoice:view", context.contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      return res.status(200).json(await getInvoiceWithItems(context.invoice));
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/invoices/:id/status", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { status, reason } = updateInvoiceStatusSchema.parse(req.body);
+      const context = await loadInvoiceContext(req);
+      
+      if (!context) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      const decision = await authorize(req.user!, "invoice:update_status", context.contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const invoice = await transitionInvoice(context.invoice, status, decision.role!, reason);
+      
+      return res.status(200).json(invoice);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
       }
+      if (error instanceof InvoiceError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/contracts/:id/status", async (req: Request, res: Response) => {
+  app.get("/api/invoices/:id/pdf", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      const { status } = req.body;
+      const context = await loadInvoiceContext(req);
       
-      if (!Object.values(ContractStatus).includes(status)) {
-        return res.status(400).json({ message: "Invalid contract status" });
+      if (!context) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
       
-      const updatedContract = await storage.updateContractStatus(parseInt(id, 10), status);
+      const decision = await authorize(req.user!, "invoice:view", context.contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
       
-      if (!updatedContract) {
-        return res.status(404).json({ message: "Contract not found" });
+      const pdf = await renderInvoicePdf(context.invoice);
+      const filename = context.invoice.number || `draft-invoice-${context.invoice.id}`;
+      
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+      return res.status(200).send(pdf);
+    } catch (error) {
+      if (error instanceof InvoiceError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Tax Routes
+  app.get("/api/tax/profile", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const profile = await storage.getTaxProfile(req.user!.id);
       
-      return res.status(200).json(updatedContract);
+      if (!profile) {
+        return res.status(404).json({ message: "No tax profile has been set up" });
+      }
+      
+      return res.status(200).json(profile);
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Milestone Routes
-  app.get("/api/contracts/:contractId/milestones", async (req: Request, res: Response) => {
+  app.put("/api/tax/profile", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { contractId } = req.params;
-      const milestones = await storage.getMilestonesByContract(parseInt(contractId, 10));
+      const profileData = updateTaxProfileSchema.parse(req.body);
+      const profile = await storage.setTaxProfile({ ...profileData, userId: req.user!.id });
       
-      return res.status(200).json(milestones);
+      return res.status(200).json(profile);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/milestones", async (req: Request, res: Response) => {
+  app.get("/api/tax/summary", requireAuth, async (req: Request, res: Response) => {
     try {
-      const milestoneData = insertMilestoneSchema.parse(req.body);
-      const milestone = await storage.createMilestone(milestoneData);
+      const { year, quarter } = taxSummaryQuerySchema.parse(req.query);
+      const summary = await getQuarterlyTaxSummary(req.user!, year, quarter);
       
-      return res.status(201).json(milestone);
+      return res.status(200).json(summary);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
@@ -191,68 +1265,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/milestones/:id/status", async (req: Request, res: Response) => {
+  // Review Routes
+  app.get("/api/contracts/:contractId/reviews", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      const { status } = req.body;
+      const contract = await storage.getContract(parseInt(req.params.contractId, 10));
+      
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
       
-      if (!Object.values(MilestoneStatus).includes(status)) {
-        return res.status(400).json({ message: "Invalid milestone status" });
+      const decision = await authorize(req.user!, "review:view", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
       }
       
-      const updatedMilestone = await storage.updateMilestoneStatus(parseInt(id, 10), status);
+      const reviews = await listContractReviews(contract, req.user!.id);
       
-      if (!updatedMilestone) {
-        return res.status(404).json({ message: "Milestone not found" });
+      return res.status(200).json(reviews);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/contracts/:contractId/reviews", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const reviewData = createReviewSchema.parse(req.body);
+      const contract = await storage.getContract(parseInt(req.params.contractId, 10));
+      
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      
+      const decision = await authorize(req.user!, "review:create", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
       }
       
-      return res.status(200).json(updatedMilestone);
+      const review = await submitReview(contract, req.user!, decision.role!, reviewData);
+      
+      return res.status(201).json(review);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof ReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/milestones/:id/complete", async (req: Request, res: Response) => {
+  app.get("/api/users/:id/reviews", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      const completedDate = new Date();
+      const user = await storage.getUser(parseInt(req.params.id, 10));
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
       
-      const completedMilestone = await storage.completeMilestone(parseInt(id, 10), completedDate);
+      const reviews = await listUserReviews(user.id);
       
-      if (!completedMilestone) {
-        return res.status(404).json({ message: "Milestone not found" });
+      return res.status(200).json(reviews);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/reviews/:id/reply", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { reply } = reviewReplySchema.parse(req.body);
+      const review = await storage.getReview(parseInt(req.params.id, 10));
+      const contract = review && await storage.getContract(review.contractId);
+      
+      if (!review || !contract) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      const decision = await authorize(req.user!, "review:reply", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
       }
       
-      return res.status(200).json(completedMilestone);
+      const updated = await replyToReview(review, req.user!.id, reply);
+      
+      return res.status(200).json(updated);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof ReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Template Routes
-  app.get("/api/templates", async (req: Request, res: Response) => {
+  // Trust Score Routes
+  app.get("/api/trust-tiers", requireAuth, async (req: Request, res: Response) => {
+    return res.status(200).json(TRUST_TIERS);
+  });
+
+  app.get("/api/users/:id/trust-score", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { userId } = req.query;
+      const user = await storage.getUser(parseInt(req.params.id, 10));
       
-      let templates;
-      if (userId && typeof userId === 'string') {
-        templates = await storage.getUserTemplates(parseInt(userId, 10));
-      } else {
-        templates = await storage.getPublicTemplates();
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      return res.status(200).json(templates);
+      // Users see their full breakdown; anyone else gets the public summary
+      if (user.id !== req.user!.id) {
+        return res.status(200).json(await getTrustScoreSummary(user.id));
+      }
+      
+      return res.status(200).json(await calculateUserTrustScore(user.id));
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/templates", async (req: Request, res: Response) => {
+  app.get("/api/users/:id/trust-score/history", requireAuth, async (req: Request, res: Response) => {
     try {
-      const templateData = insertTemplateSchema.parse(req.body);
-      const template = await storage.createTemplate(templateData);
+      const { days } = trustScoreHistoryQuerySchema.parse(req.query);
       
-      return res.status(201).json(template);
+      // The trend stays private, like the factor breakdown
+      if (parseInt(req.params.id, 10) !== req.user!.id) {
+        return res.status(403).json({ message: "You can only see your own trust score history" });
+      }
+      
+      const snapshots = await getTrustScoreHistory(req.user!.id, days);
+      
+      return res.status(200).json(snapshots);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
@@ -261,23 +1404,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Dashboard Stats
-  app.get("/api/stats", async (req: Request, res: Response) => {
+  // External API, authenticated per request with a signed API key
+  const v1 = express.Router();
+  v1.use(authenticateApiRequest);
+
+  v1.get("/contracts", async (req: Request, res: Response) => {
+    try {
+      const { id: userId, userType } = req.user!;
+      let contracts;
+      
+      if (userType === UserType.FREELANCER) {
+        contracts = await storage.getContractsByFreelancer(userId);
+      } else if (userType === UserType.CLIENT) {
+        contracts = await storage.getContractsByClient(userId);
+      } else {
+        return res.status(400).json({ message: "Invalid user type" });
+      }
+      
+      const { status } = req.query;
+      
+      return res.status(200).json(status ? contracts.filter(c => c.status === status) : contracts);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  v1.get("/contracts/:id", async (req: Request, res: Response) => {
     try {
-      const { userId } = req.query;
+      const contract = await storage.getContract(parseInt(req.params.id, 10));
       
-      if (!userId || typeof userId !== 'string') {
-        return res.status(400).json({ message: "User ID is required" });
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
       }
       
-      const stats = await storage.getUserStats(parseInt(userId, 10));
+      const decision = await authorize(req.user!, "contract:view", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
       
-      return res.status(200).json(stats);
+      return res.status(200).json(contract);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  v1.get("/milestones", async (req: Request, res: Response) => {
+    try {
+      const contractId = parseInt(String(req.query.contractId), 10);
+      
+      if (isNaN(contractId)) {
+        return res.status(400).json({ message: "contractId query parameter is required" });
+      }
+      
+      const contract = await storage.getContract(contractId);
+      
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      
+      const decision = await authorize(req.user!, "milestone:view", contract);
+      if (!decision.allowed) {
+        return denyAccess(res, decision);
+      }
+      
+      const milestones = await storage.getMilestonesByContract(contract.id);
+      
+      return res.status(200).json(milestones);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  v1.get("/payments", async (req: Request, res: Response) => {
+    try {
+      const payments = await storage.getEscrowPaymentsByUser(req.user!.id);
+      
+      return res.status(200).json(payments);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.use("/v1", v1);
+
+  // API reference, generated from the routes registered above and the request schemas
+  app.get("/api/docs/openapi.json", (req: Request, res: Response) => {
+    try {
+      return res.status(200).json(generateApiDocs([{ router: app }, { router: v1, basePath: "/v1" }]));
     } catch (error) {
       return res.status(500).json({ message: "Internal server error" });
     }
   });
 
   const httpServer = createServer(app);
+  
+  // Live notification push, authenticated with the same session cookie
+  attachNotificationSocket(httpServer, sessionParser);
+  
   return httpServer;
 }
@@ -1,9 +1,17 @@
 import OpenAI from 'openai';
 import { Milestone, Contract, Dispute } from '@shared/schema';
+import { money, splitMoney } from '@shared/money';
 import natural from 'natural';
 
-// Initialize OpenAI client
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// OpenAI client, created on first use so the server can start without an API key
+let openai: OpenAI | null = null;
+
+function getOpenAI(): OpenAI {
+  if (!openai) {
+    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openai;
+}
 
 // Initialize natural language toolkit
 const tokenizer = new natural.WordTokenizer();
@@ -76,7 +84,7 @@ export async function analyzeMessageForRedFlags(
     if (sentiment.comparative < -0.3 || context.messageHistory.length > 5) {
       // Use OpenAI to analyze for red flags
       // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      const aiResponse = await openai.chat.completions.create({
+      const aiResponse = await getOpenAI().chat.completions.create({
         model: "gpt-4o",
         messages: [
           {
@@ -169,7 +177,7 @@ export async function analyzeDispute(
     ).join('\n\n');
     
     // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-    const aiResponse = await openai.chat.completions.create({
+    const aiResponse = await getOpenAI().chat.completions.create({
       model: "gpt-4o",
       messages: [
         {
@@ -181,7 +189,8 @@ export async function analyzeDispute(
                    2. confidenceScore: A number between 0-1 indicating your confidence
                    3. reasoning: A brief justification of your recommendation
                    4. suggestedResolution: A specific resolution proposal
-                   5. fairAmountToRelease: For compromise scenarios, suggest a fair amount to release from escrow`
+                   5. fairAmountToRelease: For compromise scenarios, suggest a fair amount to release from escrow,
+                      as a whole number of minor units (e.g. cents) like the contract's totalAmount`
         },
         {
           role: "user",
@@ -194,6 +203,9 @@ export async function analyzeDispute(
     });
     
     const result = JSON.parse(aiResponse.choices[0].message.content);
+    if (typeof result.fairAmountToRelease === 'number') {
+      result.fairAmountToRelease = Math.round(result.fairAmountToRelease);
+    }
     return result;
   } catch (error) {
     console.error('Error analyzing dispute:', error);
@@ -203,86 +215,8 @@ export async function analyzeDispute(
       confidenceScore: 0.5,
       reasoning: "Automatic analysis failed. Recommend human moderation.",
       suggestedResolution: "Unable to provide AI analysis. Please have a human moderator review the dispute.",
-      fairAmountToRelease: contractDetails.totalAmount / 2 // Suggest 50% as fallback
+      // Suggest 50% as fallback
+      fairAmountToRelease: splitMoney(money(contractDetails.totalAmount, contractDetails.currency), 2)[0].amount
     };
   }
 }
-
-/**
- * Calculate trust score based on user history
- * @param userId User ID to calculate trust score for
- * @param userType 'freelancer' or 'client'
- * @param userHistory User's history data
- * @returns Trust score and breakdown
- */
-export async function calculateTrustScore(
-  userId: number,
-  userType: 'freelancer' | 'client',
-  userHistory: {
-    contractsCompleted: number;
-    contractsCancelled: number;
-    averageRating: number;
-    disputesInitiated: number;
-    disputesLost: number;
-    paymentsPunctual: number; // For clients
-    paymentsLate: number;     // For clients
-    deliverablesOnTime: number; // For freelancers
-    deliverablesLate: number;   // For freelancers
-  }
-): Promise<{
-  overallScore: number; // 0-100
-  ratingFactor: number; // 0-1
-  reliabilityFactor: number; // 0-1
-  disputeFactor: number; // 0-1
-  recommendation: string;
-}> {
-  // Calculate overall score based on user type
-  let ratingFactor = userHistory.averageRating / 5; // Normalized to 0-1
-  
-  // Calculate reliability factor
-  let reliabilityFactor: number;
-  if (userType === 'freelancer') {
-    const deliverableTotal = userHistory.deliverablesOnTime + userHistory.deliverablesLate;
-    reliabilityFactor = deliverableTotal > 0 
-      ? userHistory.deliverablesOnTime / deliverableTotal 
-      : 0.5;
-  } else {
-    const paymentTotal = userHistory.paymentsPunctual + userHistory.paymentsLate;
-    reliabilityFactor = paymentTotal > 0 
-      ? userHistory.paymentsPunctual / paymentTotal 
-      : 0.5;
-  }
-  
-  // Calculate dispute factor (lower is better)
-  const contractTotal = userHistory.contractsCompleted + userHistory.contractsCancelled;
-  const disputeFactor = contractTotal > 0
-    ? 1 - (userHistory.disputesLost / contractTotal)
-    : 0.5;
-  
-  // Calculate overall score (0-100 scale)
-  const overallScore = Math.round(
-    (ratingFactor * 0.4 + reliabilityFactor * 0.4 + disputeFactor * 0.2) * 100
-  );
-  
-  // Generate recommendation
-  let recommendation = '';
-  if (overallScore >= 85) {
-    recommendation = 'Highly trusted user with excellent track record';
-  } else if (overallScore >= 70) {
-    recommendation = 'Good standing user with solid reliability';
-  } else if (overallScore >= 50) {
-    recommendation = 'Average trust level, proceed with normal verification';
-  } else if (overallScore >= 30) {
-    recommendation = 'Some concerns - additional verification recommended';
-  } else {
-    recommendation = 'High risk - enhanced verification strongly recommended';
-  }
-  
-  return {
-    overallScore,
-    ratingFactor,
-    reliabilityFactor,
-    disputeFactor,
-    recommendation
-  };
-}
\ No newline at end of file
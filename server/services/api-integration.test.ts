@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { UserType } from '@shared/schema';
+import {
+  API_KEY_HEADER,
+  API_NONCE_HEADER,
+  API_SIGNATURE_HEADER,
+  API_TIMESTAMP_HEADER,
+  signRequest
+} from '@shared/api-signing';
+import { storage } from '../storage';
+import { encryptSecret } from './secret-encryption';
+import { authenticateApiRequest, generateApiKey, IssuedApiKey, rotateApiKey } from './api-integration';
+
+interface SignedCall {
+  method: string;
+  url: string; // As it reaches the app, including the /v1 mount point
+  body?: string;
+  timestamp?: number;
+  nonce?: string;
+  // Values to sign instead of what is sent, to simulate a client that signs something else
+  signed?: { url?: string; body?: string };
+}
+
+interface CallResult {
+  status: number;
+  body: unknown;
+  authenticated: boolean;
+}
+
+let issued: IssuedApiKey;
+
+function splitUrl(url: string): { path: string; query: string } {
+  const queryStart = url.indexOf('?');
+  return queryStart === -1
+    ? { path: url, query: '' }
+    : { path: url.slice(0, queryStart), query: url.slice(queryStart + 1) };
+}
+
+/**
+ * Sign a request the way an API client would and pass it through the middleware
+ */
+async function call(request: SignedCall, key: IssuedApiKey = issued): Promise<CallResult> {
+  const timestamp = String(request.timestamp ?? Math.floor(Date.now() / 1000));
+  const nonce = request.nonce ?? crypto.randomBytes(16).toString('hex');
+  const signedBody = request.signed?.body ?? request.body;
+
+  const signature = signRequest(key.secretKey, {
+    method: request.method,
+    ...splitUrl(request.signed?.url ?? request.url),
+    timestamp,
+    nonce,
+    body: signedBody
+  });
+
+  const req = {
+    method: request.method,
+    originalUrl: request.url,
+    // Express strips the mount point from req.path
+    path: splitUrl(request.url).path.replace(/^\/v1/, ''),
+    headers: {
+      [API_KEY_HEADER]: key.apiKey,
+      [API_TIMESTAMP_HEADER]: timestamp,
+      [API_NONCE_HEADER]: nonce,
+      [API_SIGNATURE_HEADER]: signature
+    },
+    rawBody: request.body === undefined ? undefined : Buffer.from(request.body)
+  } as unknown as Request;
+
+  const result: CallResult = { status: 200, body: undefined, authenticated: false };
+  const res = {
+    setHeader: () => res,
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      result.body = body;
+      return res;
+    }
+  } as unknown as Response;
+
+  await authenticateApiRequest(req, res, () => {
+    result.authenticated = true;
+  });
+
+  return result;
+}
+
+let userId: number;
+
+describe('signed API requests', () => {
+  beforeAll(async () => {
+    const user = await storage.createUser({
+      username: 'api-signing',
+      password: 'password',
+      email: 'api-signing@example.com',
+      fullName: 'API Signing',
+      userType: UserType.CLIENT
+    });
+    userId = user.id;
+    issued = await generateApiKey(user.id, 'Signing test', ['read:contracts', 'write:contracts']);
+  });
+
+  it('accepts a correctly signed request', async () => {
+    const result = await call({ method: 'GET', url: '/v1/contracts' });
+
+    expect(result.authenticated).toBe(true);
+  });
+
+  it('accepts a query signed in canonical order with different encoding', async () => {
+    const result = await call({
+      method: 'GET',
+      url: '/v1/contracts?status=active&limit=10&q=a%20b',
+      signed: { url: '/v1/contracts?q=a+b&limit=10&status=active' }
+    });
+
+    expect(result.authenticated).toBe(true);
+  });
+
+  it('rejects a request whose query differs from the signed one', async () => {
+    const result = await call({
+      method: 'GET',
+      url: '/v1/contracts?limit=1000',
+      signed: { url: '/v1/contracts?limit=10' }
+    });
+
+    expect(result).toMatchObject({ status: 401, body: { error: 'Invalid signature' }, authenticated: false });
+  });
+
+  it('covers the exact body bytes', async () => {
+    const body = JSON.stringify({ title: 'Signed', totalAmount: 1000 });
+
+    expect((await call({ method: 'POST', url: '/v1/contracts', body })).authenticated).toBe(true);
+
+    // Same JSON, different bytes
+    const reformatted = await call({
+      method: 'POST',
+      url: '/v1/contracts',
+      body: JSON.stringify(JSON.parse(body), null, 2),
+      signed: { body }
+    });
+
+    expect(reformatted).toMatchObject({ status: 401, body: { error: 'Invalid signature' } });
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    const secretKey = issued.secretKey;
+    issued = { ...issued, secretKey: crypto.randomBytes(32).toString('hex') };
+
+    try {
+      const result = await call({ method: 'GET', url: '/v1/contracts' });
+      expect(result).toMatchObject({ status: 401, body: { error: 'Invalid signature' } });
+    } finally {
+      issued = { ...issued, secretKey };
+    }
+  });
+
+  it('rejects a timestamp outside the window', async () => {
+    const tenMinutesAgo = Math.floor(Date.now() / 1000) - 10 * 60;
+    const result = await call({ method: 'GET', url: '/v1/contracts', timestamp: tenMinutesAgo });
+
+    expect(result).toMatchObject({ status: 401, body: { error: 'Request expired' } });
+  });
+
+  it('rejects a replayed nonce', async () => {
+    const nonce = crypto.randomBytes(16).toString('hex');
+
+    expect((await call({ method: 'GET', url: '/v1/contracts', nonce })).authenticated).toBe(true);
+
+    const replay = await call({ method: 'GET', url: '/v1/contracts', nonce });
+
+    expect(replay).toMatchObject({ status: 401, body: { error: 'Nonce has already been used' } });
+  });
+});
+
+describe('API key lifecycle', () => {
+  it('stops accepting a key once it expires', async () => {
+    const key = await generateApiKey(userId, 'Expiring', ['read:contracts'], new Date(Date.now() + 60 * 1000));
+
+    expect((await call({ method: 'GET', url: '/v1/contracts' }, key)).authenticated).toBe(true);
+
+    await storage.updateApiKey(key.key.id, { expiresAt: new Date(Date.now() - 1000) });
+
+    expect(await call({ method: 'GET', url: '/v1/contracts' }, key))
+      .toMatchObject({ status: 401, body: { error: 'API key has expired' }, authenticated: false });
+  });
+
+  it('keeps the old key working through the rotation grace period only', async () => {
+    const old = await generateApiKey(userId, 'Rotating', ['read:contracts']);
+    const stored = (await storage.getApiKeyByKey(old.apiKey))!;
+
+    const replacement = await rotateApiKey(stored, 60 * 1000);
+
+    expect(replacement.key).toMatchObject({ name: 'Rotating', permissions: ['read:contracts'], status: 'active' });
+    expect((await call({ method: 'GET', url: '/v1/contracts' }, old)).authenticated).toBe(true);
+    expect((await call({ method: 'GET', url: '/v1/contracts' }, replacement)).authenticated).toBe(true);
+    await expect(rotateApiKey((await storage.getApiKeyByKey(old.apiKey))!, 0)).rejects.toMatchObject({ status: 409 });
+
+    await storage.updateApiKey(stored.id, { expiresAt: new Date(Date.now() - 1000) });
+
+    expect((await call({ method: 'GET', url: '/v1/contracts' }, old)).status).toBe(401);
+    expect((await call({ method: 'GET', url: '/v1/contracts' }, replacement)).authenticated).toBe(true);
+  });
+
+  it('limits the requests a key can make in its period', async () => {
+    const key = await generateApiKey(userId, 'Limited', ['read:contracts']);
+    await storage.updateApiKey(key.key.id, { rateLimitRequests: 2, rateLimitPeriod: 60 });
+
+    expect((await call({ method: 'GET', url: '/v1/contracts' }, key)).authenticated).toBe(true);
+    expect((await call({ method: 'GET', url: '/v1/contracts' }, key)).authenticated).toBe(true);
+    expect(await call({ method: 'GET', url: '/v1/contracts' }, key))
+      .toMatchObject({ status: 429, body: { error: 'Rate limit exceeded' }, authenticated: false });
+  });
+
+  it('rejects a key whose secret can no longer be decrypted', async () => {
+    const key = await generateApiKey(userId, 'Undecryptable', ['read:contracts']);
+    // Fails authentication, as if it had been encrypted under a different SECRET_ENCRYPTION_KEY
+    const [iv, , encrypted] = encryptSecret(key.secretKey).split('.');
+    const encryptedSecret = [iv, crypto.randomBytes(16).toString('base64'), encrypted].join('.');
+    await storage.updateApiKey(key.key.id, { encryptedSecret });
+
+    expect(await call({ method: 'GET', url: '/v1/contracts' }, key))
+      .toMatchObject({ status: 401, body: { error: 'Invalid API key' }, authenticated: false });
+  });
+});
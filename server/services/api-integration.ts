@@ -1,75 +1,225 @@
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
-import { Contract, Milestone, User, EscrowPayment } from '@shared/schema';
+import { ApiKey, ApiKeyPermission } from '@shared/schema';
+import {
+  API_KEY_HEADER,
+  API_NONCE_HEADER,
+  API_NONCE_PATTERN,
+  API_SIGNATURE_HEADER,
+  API_TIMESTAMP_HEADER,
+  signRequest
+} from '@shared/api-signing';
 import { storage } from '../storage';
+import { SlidingWindowRateLimiter } from './rate-limit';
+import { decryptSecret, encryptSecret } from './secret-encryption';
 
-// Interface for API key storage
-interface ApiKey {
-  id: string;
-  userId: number;
+declare global {
+  namespace Express {
+    interface Request {
+      // Key that authenticated an external API request
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+// API key as shown to its owner; the secret is only returned when a key is created
+export type PublicApiKey = Omit<ApiKey, 'encryptedSecret'> & { status: 'active' | 'rotating' | 'expired' };
+
+export interface IssuedApiKey {
+  key: PublicApiKey;
   apiKey: string;
   secretKey: string;
-  permissions: string[];
-  createdAt: Date;
-  lastUsed?: Date;
-  rateLimit: {
-    requests: number;
-    period: number; // in seconds
-  };
 }
 
-// In-memory store for API keys (in production, this would be in a database)
-const apiKeys = new Map<string, ApiKey>();
+/**
+ * Error raised when an API key operation is rejected
+ */
+export class ApiKeyError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiKeyError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_PERMISSIONS: ApiKeyPermission[] = ['read:contracts', 'read:milestones'];
+
+// How far a request's timestamp may be from the server clock
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+const rateLimiter = new SlidingWindowRateLimiter();
+
+// Nonces already used, by key id and nonce, with the time they can be forgotten
+const usedNonces = new Map<string, number>();
 
 /**
- * Generate a new API key pair for a user
- * @param userId User ID to generate API key for
- * @param permissions Array of permissions for this API key
- * @returns API key information
+ * Record a nonce, unless it has been seen before
+ * @param keyId Key the request was signed with
+ * @param nonce Nonce from the request
+ * @param forgetAt When the request's timestamp falls out of the window, in milliseconds
+ * @returns False if the nonce was already used
  */
-export function generateApiKey(
+function useNonce(keyId: number, nonce: string, forgetAt: number): boolean {
+  const now = Date.now();
+
+  // Once a timestamp is too old to pass the window check, its nonces can go
+  for (const [entry, expiresAt] of Array.from(usedNonces.entries())) {
+    if (expiresAt <= now) {
+      usedNonces.delete(entry);
+    }
+  }
+
+  const entry = `${keyId}:${nonce}`;
+
+  if (usedNonces.has(entry)) {
+    return false;
+  }
+
+  usedNonces.set(entry, forgetAt);
+  return true;
+}
+
+function signaturesMatch(signature: string, expected: string): boolean {
+  const given = Buffer.from(signature, 'utf8');
+  const wanted = Buffer.from(expected, 'utf8');
+
+  // timingSafeEqual needs equal lengths; a length mismatch says nothing about the secret
+  return given.length === wanted.length && crypto.timingSafeEqual(given, wanted);
+}
+
+function isExpired(key: ApiKey, now: Date = new Date()): boolean {
+  return !!key.expiresAt && key.expiresAt <= now;
+}
+
+/**
+ * Strip the encrypted secret and add a status for display
+ * @param key Stored API key
+ */
+export function toPublicApiKey(key: ApiKey): PublicApiKey {
+  const { encryptedSecret: _encryptedSecret, ...rest } = key;
+  const status = isExpired(key) ? 'expired' : key.replacedById ? 'rotating' : 'active';
+
+  return { ...rest, status };
+}
+
+/**
+ * Create and store a new key pair
+ */
+async function issueApiKey(
   userId: number,
-  permissions: string[] = ['read:contracts', 'read:milestones']
-): { apiKey: string; secretKey: string } {
+  name: string,
+  permissions: ApiKeyPermission[],
+  expiresAt: Date | null,
+  rateLimit?: { requests: number; period: number }
+): Promise<IssuedApiKey> {
   // Generate random keys
   const apiKey = `sk_live_${crypto.randomBytes(16).toString('hex')}`;
   const secretKey = crypto.randomBytes(32).toString('hex');
-  
-  // Hash the secret key for storage
-  const hashedSecret = crypto
-    .createHash('sha256')
-    .update(secretKey)
-    .digest('hex');
-  
-  // Store the API key in our map
-  apiKeys.set(apiKey, {
-    id: crypto.randomBytes(8).toString('hex'),
+
+  const key = await storage.createApiKey({
     userId,
+    name,
     apiKey,
-    secretKey: hashedSecret,
+    encryptedSecret: encryptSecret(secretKey),
     permissions,
-    createdAt: new Date(),
-    rateLimit: {
-      requests: 100,
-      period: 60 // 100 requests per minute
-    }
+    expiresAt,
+    rateLimitRequests: rateLimit?.requests,
+    rateLimitPeriod: rateLimit?.period
   });
-  
-  // Return the keys to the client
-  // Note: In a real application, the secretKey would never be returned again
-  return {
-    apiKey,
-    secretKey
-  };
+
+  // The secret is returned once here and is never shown to the owner again
+  return { key: toPublicApiKey(key), apiKey, secretKey };
+}
+
+/**
+ * Generate a new API key pair for a user
+ * @param userId User ID to generate API key for
+ * @param name Label to tell keys apart
+ * @param permissions Permissions granted to this API key
+ * @param expiresAt When the key stops working, if ever
+ * @returns The stored key plus the API key and secret
+ */
+export async function generateApiKey(
+  userId: number,
+  name: string,
+  permissions: ApiKeyPermission[] = DEFAULT_PERMISSIONS,
+  expiresAt: Date | null = null
+): Promise<IssuedApiKey> {
+  return issueApiKey(userId, name, permissions, expiresAt);
+}
+
+/**
+ * Change a key's name, permissions or expiry
+ * @param key Key to update
+ * @param changes New values
+ * @returns The updated key
+ */
+export async function updateApiKey(
+  key: ApiKey,
+  changes: { name?: string; permissions?: ApiKeyPermission[]; expiresAt?: Date | null }
+): Promise<PublicApiKey> {
+  if (isExpired(key)) {
+    throw new ApiKeyError('Expired API keys cannot be changed', 409);
+  }
+
+  const updated = await storage.updateApiKey(key.id, changes);
+
+  if (!updated) {
+    throw new ApiKeyError('API key not found', 404);
+  }
+
+  return toPublicApiKey(updated);
+}
+
+/**
+ * Replace a key with a new one that has the same name, permissions and rate
+ * limit. The old key keeps working for the grace period so integrations can
+ * switch over without downtime.
+ * @param key Key to rotate
+ * @param gracePeriodMs How long the old key stays valid
+ * @param expiresAt Expiry for the new key, if any
+ * @returns The new key pair
+ */
+export async function rotateApiKey(
+  key: ApiKey,
+  gracePeriodMs: number,
+  expiresAt: Date | null = null
+): Promise<IssuedApiKey> {
+  if (isExpired(key)) {
+    throw new ApiKeyError('Expired API keys cannot be rotated', 409);
+  }
+
+  if (key.replacedById) {
+    throw new ApiKeyError('This API key has already been rotated', 409);
+  }
+
+  const issued = await issueApiKey(
+    key.userId,
+    key.name,
+    key.permissions as ApiKeyPermission[],
+    expiresAt,
+    { requests: key.rateLimitRequests, period: key.rateLimitPeriod }
+  );
+
+  // Never extend an old key beyond the expiry it already had
+  const graceEndsAt = new Date(Date.now() + gracePeriodMs);
+  const oldExpiry = key.expiresAt && key.expiresAt < graceEndsAt ? key.expiresAt : graceEndsAt;
+
+  await storage.updateApiKey(key.id, { replacedById: issued.key.id, expiresAt: oldExpiry });
+
+  return issued;
 }
 
 /**
- * Revoke an API key
- * @param apiKey API key to revoke
+ * Revoke an API key immediately
+ * @param key API key to revoke
  * @returns Success status
  */
-export function revokeApiKey(apiKey: string): boolean {
-  return apiKeys.delete(apiKey);
+export async function revokeApiKey(key: ApiKey): Promise<boolean> {
+  rateLimiter.reset(String(key.id));
+  return storage.deleteApiKey(key.id);
 }
 
 /**
@@ -77,88 +227,143 @@ export function revokeApiKey(apiKey: string): boolean {
  * @param userId User ID to list API keys for
  * @returns Array of API keys (without secret keys)
  */
-export function listApiKeys(userId: number): Omit<ApiKey, 'secretKey'>[] {
-  return Array.from(apiKeys.values())
-    .filter(key => key.userId === userId)
-    .map(({ secretKey, ...rest }) => rest);
+export async function listApiKeys(userId: number): Promise<PublicApiKey[]> {
+  const keys = await storage.getApiKeysByUser(userId);
+  return keys.map(toPublicApiKey);
 }
 
 /**
- * Middleware to authenticate API requests
+ * Middleware to authenticate API requests. Requests are signed as described in
+ * shared/api-signing.ts; each nonce is accepted once per key while its
+ * timestamp is inside the window.
  * @param req Express request
  * @param res Express response
  * @param next Express next function
  */
-export function authenticateApiRequest(
+export async function authenticateApiRequest(
   req: Request,
   res: Response,
   next: NextFunction
-): void {
-  const apiKey = req.headers['x-api-key'] as string;
-  const signature = req.headers['x-signature'] as string;
-  
-  if (!apiKey || !signature) {
-    res.status(401).json({ error: 'Missing API key or signature' });
-    return;
-  }
-  
-  const keyInfo = apiKeys.get(apiKey);
-  
-  if (!keyInfo) {
-    res.status(401).json({ error: 'Invalid API key' });
-    return;
-  }
-  
-  // Check if the API key has the required permission
-  const endpoint = req.path;
-  const method = req.method.toLowerCase();
-  
-  const requiredPermission = getRequiredPermission(endpoint, method);
-  
-  if (requiredPermission && !keyInfo.permissions.includes(requiredPermission)) {
-    res.status(403).json({ error: 'Insufficient permissions' });
-    return;
-  }
-  
-  // Verify the request signature
-  const requestBody = JSON.stringify(req.body);
-  const timestamp = req.headers['x-timestamp'] as string;
-  
-  if (!timestamp) {
-    res.status(401).json({ error: 'Missing timestamp' });
-    return;
-  }
-  
-  // Prevent replay attacks by checking if the timestamp is within 5 minutes
-  const requestTime = parseInt(timestamp, 10);
-  const currentTime = Math.floor(Date.now() / 1000);
-  
-  if (Math.abs(currentTime - requestTime) > 300) {
-    res.status(401).json({ error: 'Request expired' });
-    return;
-  }
-  
-  // Construct the string to sign: HTTP method + path + timestamp + request body
-  const stringToSign = `${method}${endpoint}${timestamp}${requestBody}`;
-  
-  // Calculate expected signature
-  const expectedSignature = crypto
-    .createHmac('sha256', keyInfo.secretKey)
-    .update(stringToSign)
-    .digest('hex');
-  
-  if (signature !== expectedSignature) {
-    res.status(401).json({ error: 'Invalid signature' });
-    return;
+): Promise<void> {
+  try {
+    const apiKey = req.headers[API_KEY_HEADER] as string;
+    const signature = req.headers[API_SIGNATURE_HEADER] as string;
+
+    if (!apiKey || !signature) {
+      res.status(401).json({ error: 'Missing API key or signature' });
+      return;
+    }
+
+    const keyInfo = await storage.getApiKeyByKey(apiKey);
+
+    if (!keyInfo) {
+      res.status(401).json({ error: 'Invalid API key' });
+      return;
+    }
+
+    if (isExpired(keyInfo)) {
+      res.status(401).json({ error: 'API key has expired' });
+      return;
+    }
+
+    const timestamp = req.headers[API_TIMESTAMP_HEADER] as string;
+    const nonce = req.headers[API_NONCE_HEADER] as string;
+
+    if (!timestamp) {
+      res.status(401).json({ error: 'Missing timestamp' });
+      return;
+    }
+
+    if (!nonce || !API_NONCE_PATTERN.test(nonce)) {
+      res.status(401).json({ error: 'Missing or malformed nonce' });
+      return;
+    }
+
+    // Prevent replay attacks by checking if the timestamp is within 5 minutes
+    const requestTime = parseInt(timestamp, 10);
+    const currentTime = Math.floor(Date.now() / 1000);
+
+    if (isNaN(requestTime) || Math.abs(currentTime - requestTime) > TIMESTAMP_TOLERANCE_SECONDS) {
+      res.status(401).json({ error: 'Request expired' });
+      return;
+    }
+
+    // Sign exactly what was sent: the path and query as they appear in the URL
+    // and the body bytes before JSON parsing
+    const queryStart = req.originalUrl.indexOf('?');
+    const path = queryStart === -1 ? req.originalUrl : req.originalUrl.slice(0, queryStart);
+    const query = queryStart === -1 ? '' : req.originalUrl.slice(queryStart + 1);
+    const body = Buffer.isBuffer(req.rawBody) ? req.rawBody : undefined;
+
+    let secretKey: string;
+
+    try {
+      secretKey = decryptSecret(keyInfo.encryptedSecret);
+    } catch (error) {
+      // Usually SECRET_ENCRYPTION_KEY has changed since the key was issued
+      console.error(`Failed to decrypt the secret of API key ${keyInfo.id}:`, error);
+      res.status(401).json({ error: 'Invalid API key' });
+      return;
+    }
+
+    const expectedSignature = signRequest(secretKey, {
+      method: req.method,
+      path,
+      query,
+      timestamp,
+      nonce,
+      body
+    });
+
+    if (!signaturesMatch(signature, expectedSignature)) {
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    // Within the window the timestamp alone can't stop a captured request being resent
+    if (!useNonce(keyInfo.id, nonce, (requestTime + TIMESTAMP_TOLERANCE_SECONDS) * 1000)) {
+      res.status(401).json({ error: 'Nonce has already been used' });
+      return;
+    }
+
+    // Check if the API key has the required permission
+    const requiredPermission = getRequiredPermission(req.path, req.method.toLowerCase());
+
+    if (requiredPermission && !(keyInfo.permissions as string[]).includes(requiredPermission)) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    // Only authenticated requests count, so a stranger can't exhaust someone else's limit
+    const limit = rateLimiter.consume(String(keyInfo.id), keyInfo.rateLimitRequests, keyInfo.rateLimitPeriod * 1000);
+
+    res.setHeader('X-RateLimit-Limit', limit.limit);
+    res.setHeader('X-RateLimit-Remaining', limit.remaining);
+
+    if (!limit.allowed) {
+      res.setHeader('Retry-After', limit.retryAfter);
+      res.status(429).json({ error: 'Rate limit exceeded' });
+      return;
+    }
+
+    const user = await storage.getUser(keyInfo.userId);
+
+    if (!user) {
+      res.status(401).json({ error: 'Invalid API key' });
+      return;
+    }
+
+    // Update last used timestamp
+    await storage.updateApiKey(keyInfo.id, { lastUsedAt: new Date() });
+
+    // Attach the key owner so route handlers and policy checks work as for sessions
+    req.user = user;
+    req.apiKey = keyInfo;
+
+    next();
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
   }
-  
-  // Update last used timestamp
-  keyInfo.lastUsed = new Date();
-  
-  // Attach user ID to the request for later use
-  req.userId = keyInfo.userId;
-  
-  next();
 }
 
 /**
@@ -168,25 +373,25 @@ export function authenticateApiRequest(
  * @returns Required permission string or null if public
  */
 function getRequiredPermission(endpoint: string, method: string): string | null {
-  // Map endpoints to required permissions
+  // Map endpoints (relative to the /v1 mount point) to required permissions
   const permissionMap: Record<string, Record<string, string>> = {
-    '/api/contracts': {
+    '/contracts': {
       get: 'read:contracts',
       post: 'write:contracts',
       patch: 'write:contracts',
       delete: 'delete:contracts'
     },
-    '/api/milestones': {
+    '/milestones': {
       get: 'read:milestones',
       post: 'write:milestones',
       patch: 'write:milestones',
       delete: 'delete:milestones'
     },
-    '/api/payments': {
+    '/payments': {
       get: 'read:payments',
       post: 'write:payments'
     },
-    '/api/invoices': {
+    '/invoices': {
       get: 'read:invoices',
       post: 'write:invoices'
     }
@@ -207,183 +412,3 @@ function getRequiredPermission(endpoint: string, method: string): string | null
   // Default to null (public endpoint)
   return null;
 }
-
-/**
- * Generate API documentation for the external API
- * @returns API documentation object
- */
-export function generateApiDocs(): {
-  openapi: string;
-  info: any;
-  paths: Record<string, any>;
-  components: any;
-} {
-  return {
-    openapi: '3.0.0',
-    info: {
-      title: 'SmartFlow API',
-      version: '1.0.0',
-      description: 'API for SmartFlow - A secure freelancer-client contract management platform'
-    },
-    paths: {
-      '/api/contracts': {
-        get: {
-          summary: 'List contracts',
-          description: 'Get a list of contracts for the authenticated user',
-          parameters: [
-            {
-              name: 'status',
-              in: 'query',
-              schema: { type: 'string' },
-              description: 'Filter contracts by status'
-            }
-          ],
-          responses: {
-            '200': {
-              description: 'List of contracts',
-              content: {
-                'application/json': {
-                  schema: { 
-                    type: 'array',
-                    items: { $ref: '#/components/schemas/Contract' }
-                  }
-                }
-              }
-            }
-          }
-        },
-        post: {
-          summary: 'Create a contract',
-          description: 'Create a new contract',
-          requestBody: {
-            content: {
-              'application/json': {
-                schema: { $ref: '#/components/schemas/CreateContractRequest' }
-              }
-            }
-          },
-          responses: {
-            '201': {
-              description: 'Contract created',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/Contract' }
-                }
-              }
-            }
-          }
-        }
-      },
-      '/api/contracts/{id}': {
-        get: {
-          summary: 'Get contract',
-          description: 'Get a specific contract by ID',
-          parameters: [
-            {
-              name: 'id',
-              in: 'path',
-              required: true,
-              schema: { type: 'integer' }
-            }
-          ],
-          responses: {
-            '200': {
-              description: 'Contract details',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/Contract' }
-                }
-              }
-            }
-          }
-        },
-        patch: {
-          summary: 'Update contract',
-          description: 'Update a specific contract by ID',
-          parameters: [
-            {
-              name: 'id',
-              in: 'path',
-              required: true,
-              schema: { type: 'integer' }
-            }
-          ],
-          requestBody: {
-            content: {
-              'application/json': {
-                schema: { $ref: '#/components/schemas/UpdateContractRequest' }
-              }
-            }
-          },
-          responses: {
-            '200': {
-              description: 'Updated contract',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/Contract' }
-                }
-              }
-            }
-          }
-        }
-      },
-      // Additional endpoints would be defined here...
-    },
-    components: {
-      schemas: {
-        Contract: {
-          type: 'object',
-          properties: {
-            id: { type: 'integer' },
-            title: { type: 'string' },
-            description: { type: 'string' },
-            clientId: { type: 'integer' },
-            freelancerId: { type: 'integer' },
-            status: { type: 'string' },
-            totalAmount: { type: 'number' },
-            contractType: { type: 'string' },
-            startDate: { type: 'string', format: 'date-time' },
-            endDate: { type: 'string', format: 'date-time' },
-            termsAndConditions: { type: 'string' },
-            createdAt: { type: 'string', format: 'date-time' }
-          }
-        },
-        CreateContractRequest: {
-          type: 'object',
-          required: ['title', 'description', 'freelancerId', 'totalAmount', 'contractType', 'startDate', 'endDate', 'termsAndConditions'],
-          properties: {
-            title: { type: 'string' },
-            description: { type: 'string' },
-            freelancerId: { type: 'integer' },
-            totalAmount: { type: 'number' },
-            contractType: { type: 'string' },
-            startDate: { type: 'string', format: 'date-time' },
-            endDate: { type: 'string', format: 'date-time' },
-            termsAndConditions: { type: 'string' }
-          }
-        },
-        UpdateContractRequest: {
-          type: 'object',
-          properties: {
-            title: { type: 'string' },
-            description: { type: 'string' },
-            status: { type: 'string' },
-            endDate: { type: 'string', format: 'date-time' }
-          }
-        }
-      },
-      securitySchemes: {
-        ApiKeyAuth: {
-          type: 'apiKey',
-          in: 'header',
-          name: 'X-API-Key'
-        },
-        SignatureAuth: {
-          type: 'apiKey',
-          in: 'header',
-          name: 'X-Signature'
-        }
-      }
-    }
-  };
-}
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { ethers } from 'ethers';
+import { describe, expect, it, vi } from 'vitest';
+import { BlockchainContract } from '@shared/schema';
+import { storage } from '../storage';
+import { MILESTONE_CONTRACT_ABI, parseEscrowDeposit } from './blockchain';
+import { CryptoPaymentGateway } from './payment-gateways/crypto';
+
+const CONTRACT_ADDRESS = '0x1111111111111111111111111111111111111111';
+const CLIENT_ADDRESS = '0x2222222222222222222222222222222222222222';
+
+function deployment(abi: string[] = MILESTONE_CONTRACT_ABI): BlockchainContract {
+  return {
+    id: 1,
+    contractId: 1,
+    contractAddress: CONTRACT_ADDRESS,
+    network: 'sepolia',
+    deployerAddress: CLIENT_ADDRESS,
+    contractAbi: abi,
+    deployedAt: new Date()
+  };
+}
+
+function depositTx(abi: string[], args: unknown[], to = CONTRACT_ADDRESS) {
+  return {
+    to,
+    from: CLIENT_ADDRESS,
+    data: new ethers.Interface(abi).encodeFunctionData('depositEscrow', args),
+    value: ethers.parseEther('1')
+  };
+}
+
+describe('escrow deposits', () => {
+  it('reads the sender, milestone and amount of a deposit', () => {
+    const deposit = parseEscrowDeposit(deployment(), depositTx(MILESTONE_CONTRACT_ABI, [42]));
+
+    expect(deposit).toEqual({ from: CLIENT_ADDRESS, milestoneId: 42n, amount: ethers.parseEther('1') });
+  });
+
+  it('ignores transactions to another contract', () => {
+    const other = '0x3333333333333333333333333333333333333333';
+
+    expect(parseEscrowDeposit(deployment(), depositTx(MILESTONE_CONTRACT_ABI, [42], other))).toBeNull();
+  });
+
+  it('ignores deposits that do not name a milestone', () => {
+    const legacyAbi = ['function depositEscrow() external payable'];
+
+    expect(parseEscrowDeposit(deployment(legacyAbi), depositTx(legacyAbi, []))).toBeNull();
+  });
+});
+
+describe('crypto deposit verification', () => {
+  it('only accepts a deposit made for the payment\'s milestone', async () => {
+    const contractInfo = await storage.createBlockchainContract({
+      contractId: 9001,
+      contractAddress: CONTRACT_ADDRESS,
+      network: 'sepolia',
+      deployerAddress: CLIENT_ADDRESS,
+      contractAbi: MILESTONE_CONTRACT_ABI
+    });
+    const gateway = new CryptoPaymentGateway('http://127.0.0.1:8545', ethers.Wallet.createRandom().privateKey);
+    const provider = (gateway as unknown as { provider: ethers.JsonRpcProvider }).provider;
+    const txHash = ethers.hexlify(ethers.randomBytes(32));
+    let milestoneInTx = 7;
+
+    vi.spyOn(provider, 'getTransaction').mockImplementation(async () =>
+      depositTx(MILESTONE_CONTRACT_ABI, [milestoneInTx]) as unknown as ethers.TransactionResponse
+    );
+    vi.spyOn(provider, 'getTransactionReceipt').mockResolvedValue({ status: 1 } as ethers.TransactionReceipt);
+
+    const payment = {
+      reference: txHash,
+      amount: 1000,
+      currency: 'USD',
+      contractId: contractInfo.contractId,
+      milestoneId: 7,
+      details: { payerAddress: CLIENT_ADDRESS, amountWei: ethers.parseEther('1').toString(), heldAmount: 1000 }
+    };
+
+    await expect(gateway.getStatus(payment)).resolves.toBe('held');
+
+    milestoneInTx = 8;
+    await expect(gateway.getStatus(payment)).resolves.toBe('failed');
+  });
+});
@@ -2,9 +2,9 @@ import { ethers } from 'ethers';
 import { BlockchainContract } from '@shared/schema';
 
 // Simplified smart contract ABI for milestone-based payments
-const MILESTONE_CONTRACT_ABI = [
-  // Client deposits funds into escrow
-  "function depositEscrow() external payable",
+export const MILESTONE_CONTRACT_ABI = [
+  // Client deposits funds into escrow for a milestone
+  "function depositEscrow(uint256 milestoneId) external payable",
   // Release payment for a specific milestone
   "function releaseMilestonePayment(uint256 milestoneId, address payable freelancer, uint256 amount) external",
   // Dispute a milestone payment
@@ -14,7 +14,7 @@ const MILESTONE_CONTRACT_ABI = [
   // Get contract balance
   "function getBalance() external view returns (uint256)",
   // Events
-  "event PaymentDeposited(address client, uint256 amount)",
+  "event PaymentDeposited(uint256 milestoneId, address client, uint256 amount)",
   "event MilestoneCompleted(uint256 milestoneId, address freelancer, uint256 amount)",
   "event DisputeCreated(uint256 milestoneId, address client)",
   "event DisputeResolved(uint256 milestoneId, address recipient, uint256 amount)"
@@ -59,6 +59,7 @@ export async function deploySmartContract(
 export async function depositToEscrow(
   contractInfo: BlockchainContract,
   wallet: ethers.Wallet,
+  milestoneId: number,
   amount: bigint
 ): Promise<ethers.TransactionResponse> {
   try {
@@ -68,7 +69,7 @@ export async function depositToEscrow(
       wallet
     );
     
-    const tx = await contract.depositEscrow({
+    const tx = await contract.depositEscrow(milestoneId, {
       value: amount
     });
     
@@ -79,6 +80,29 @@ export async function depositToEscrow(
   }
 }
 
+/**
+ * Check whether a transaction is a deposit into the escrow contract
+ * @returns The depositing address, milestone and amount, or null for any other transaction
+ */
+export function parseEscrowDeposit(
+  contractInfo: BlockchainContract,
+  tx: Pick<ethers.TransactionResponse, 'to' | 'from' | 'data' | 'value'>
+): { from: string; milestoneId: bigint; amount: bigint } | null {
+  if (!tx.to || tx.to.toLowerCase() !== contractInfo.contractAddress.toLowerCase()) {
+    return null;
+  }
+
+  const contractInterface = new ethers.Interface(contractInfo.contractAbi as ethers.InterfaceAbi);
+  const call = contractInterface.parseTransaction({ data: tx.data, value: tx.value });
+
+  // Deployments made before deposits named their milestone can't be matched to one
+  if (call?.name !== 'depositEscrow' || call.args.length !== 1) {
+    return null;
+  }
+
+  return { from: tx.from, milestoneId: BigInt(call.args[0]), amount: tx.value };
+}
+
 /**
  * Release payment for a completed milestone
  */
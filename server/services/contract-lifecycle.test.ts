@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Contract, ContractStatus, User, UserType } from '@shared/schema';
+import { storage } from '../storage';
+import { ContractTransitionError, recordContractCreated, transitionContract } from './contract-lifecycle';
+import { openDispute } from './disputes';
+
+let sequence = 0;
+
+async function createUser(userType: UserType): Promise<User> {
+  const username = `lifecycle-${userType}-${++sequence}`;
+  return storage.createUser({
+    username,
+    password: 'password',
+    email: `${username}@example.com`,
+    fullName: username,
+    userType
+  });
+}
+
+describe('contract lifecycle', () => {
+  let client: User;
+  let freelancer: User;
+  let contract: Contract;
+
+  beforeEach(async () => {
+    client = await createUser(UserType.CLIENT);
+    freelancer = await createUser(UserType.FREELANCER);
+    contract = await storage.createContract({
+      title: 'Lifecycle test',
+      description: 'Contract used by the lifecycle tests',
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      totalAmount: 100000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+    });
+    await recordContractCreated(contract, client.id);
+    await storage.createMilestone({
+      contractId: contract.id,
+      title: 'Everything',
+      description: 'The whole job',
+      amount: 100000,
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+    });
+  });
+
+  it("won't let the party who submitted a contract also accept it", async () => {
+    const pending = await transitionContract(contract, ContractStatus.PENDING, { userId: client.id, role: 'client' });
+
+    await expect(
+      transitionContract(pending, ContractStatus.ACTIVE, { userId: client.id, role: 'client' })
+    ).rejects.toThrow('The other party must accept the contract before it becomes active');
+  });
+
+  it('activates once the other party accepts', async () => {
+    const pending = await transitionContract(contract, ContractStatus.PENDING, { userId: client.id, role: 'client' });
+    const active = await transitionContract(pending, ContractStatus.ACTIVE, { userId: freelancer.id, role: 'freelancer' });
+
+    expect(active.status).toBe(ContractStatus.ACTIVE);
+  });
+
+  it('only becomes disputed by opening a dispute', async () => {
+    const pending = await transitionContract(contract, ContractStatus.PENDING, { userId: freelancer.id, role: 'freelancer' });
+    const active = await transitionContract(pending, ContractStatus.ACTIVE, { userId: client.id, role: 'client' });
+
+    const attempt = transitionContract(active, ContractStatus.DISPUTED, { userId: client.id, role: 'client' });
+    await expect(attempt).rejects.toBeInstanceOf(ContractTransitionError);
+    await expect(attempt).rejects.toMatchObject({ status: 403 });
+
+    const dispute = await openDispute(active, undefined, client, 'Work was never delivered');
+    const disputed = await storage.getContract(contract.id);
+
+    expect(dispute.contractId).toBe(contract.id);
+    expect(disputed?.status).toBe(ContractStatus.DISPUTED);
+
+    const history = await storage.getContractStatusHistory(contract.id);
+    expect(history[history.length - 1]).toMatchObject({ toStatus: ContractStatus.DISPUTED, changedBy: client.id });
+  });
+});
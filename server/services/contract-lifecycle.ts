@@ -0,0 +1,200 @@
+import { Contract, ContractStatus, ContractStatusHistory, MilestoneStatus } from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { storage } from '../storage';
+import { ContractRole } from '../policy';
+import { refundContractEscrow } from './escrow';
+import { getUnallocatedAmount } from './milestone-workflow';
+import { notifyContractSigned } from './notifications';
+import { emitWebhookEvent } from './outgoing-webhooks';
+
+/**
+ * Who is triggering a transition. The system actor is used for automated
+ * transitions (e.g. a dispute being opened or resolved), with the user whose
+ * request caused it when there is one.
+ */
+export type LifecycleActor =
+  | { userId: number; role: ContractRole }
+  | { userId: number | null; role: 'system' };
+
+export const SYSTEM_ACTOR: LifecycleActor = { userId: null, role: 'system' };
+
+/**
+ * A single allowed edge in the contract lifecycle
+ */
+interface ContractTransition {
+  from: ContractStatus;
+  to: ContractStatus;
+  roles: Array<ContractRole | 'system'>;
+  // Each returns a reason string when the transition is not currently allowed
+  preconditions?: Array<(contract: Contract, actor: LifecycleActor) => Promise<string | null>>;
+}
+
+/**
+ * Error raised when a transition is rejected
+ */
+export class ContractTransitionError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ContractTransitionError';
+    this.status = status;
+  }
+}
+
+async function acceptedByOtherParty(contract: Contract, actor: LifecycleActor): Promise<string | null> {
+  const history = await storage.getContractStatusHistory(contract.id);
+  const submitted = history.filter(entry => entry.toStatus === ContractStatus.PENDING).pop();
+
+  return submitted && submitted.changedBy === actor.userId
+    ? 'The other party must accept the contract before it becomes active'
+    : null;
+}
+
+async function milestonesCoverTotal(contract: Contract): Promise<string | null> {
+  const milestones = await storage.getMilestonesByContract(contract.id);
+
+  if (milestones.length === 0) {
+    return 'Contract needs at least one milestone before it can be activated';
+  }
+
+  const unallocated = getUnallocatedAmount(contract, milestones);
+  return unallocated.amount === 0
+    ? null
+    : `Milestones must add up to the contract total of ${formatMoney(contract.totalAmount, contract.currency)} ` +
+      `(${formatMoney(Math.abs(unallocated.amount), contract.currency)} ${unallocated.amount > 0 ? 'unallocated' : 'over'})`;
+}
+
+async function allMilestonesPaid(contract: Contract): Promise<string | null> {
+  const milestones = await storage.getMilestonesByContract(contract.id);
+  const unpaid = milestones.filter(m => m.status !== MilestoneStatus.COMPLETED);
+  return unpaid.length === 0 ? null : `Contract has ${unpaid.length} unpaid milestone(s)`;
+}
+
+async function noPaymentsOutstanding(contract: Contract): Promise<string | null> {
+  const milestones = await storage.getMilestonesByContract(contract.id);
+  const awaitingPayment = milestones.filter(m =>
+    m.status === MilestoneStatus.PENDING_REVIEW || m.status === MilestoneStatus.READY_FOR_PAYMENT
+  );
+  return awaitingPayment.length === 0
+    ? null
+    : 'Milestones awaiting review or payment must be settled or disputed before cancelling';
+}
+
+/**
+ * Contract lifecycle:
+ * DRAFT -> PENDING -> ACTIVE -> COMPLETED / CANCELLED / DISPUTED
+ */
+const CONTRACT_TRANSITIONS: ContractTransition[] = [
+  { from: ContractStatus.DRAFT, to: ContractStatus.PENDING, roles: ['client', 'freelancer'] },
+  { from: ContractStatus.DRAFT, to: ContractStatus.CANCELLED, roles: ['client', 'freelancer'] },
+  { from: ContractStatus.PENDING, to: ContractStatus.DRAFT, roles: ['client', 'freelancer'] },
+  // Whoever submitted the contract for signing can't also accept it
+  {
+    from: ContractStatus.PENDING,
+    to: ContractStatus.ACTIVE,
+    roles: ['client', 'freelancer'],
+    preconditions: [acceptedByOtherParty, milestonesCoverTotal]
+  },
+  { from: ContractStatus.PENDING, to: ContractStatus.CANCELLED, roles: ['client', 'freelancer'] },
+  { from: ContractStatus.ACTIVE, to: ContractStatus.COMPLETED, roles: ['client', 'system'], preconditions: [allMilestonesPaid] },
+  { from: ContractStatus.ACTIVE, to: ContractStatus.CANCELLED, roles: ['client', 'freelancer'], preconditions: [noPaymentsOutstanding] },
+  // Only by opening a dispute, so there is always a dispute for a moderator to be assigned to
+  { from: ContractStatus.ACTIVE, to: ContractStatus.DISPUTED, roles: ['system'] },
+  { from: ContractStatus.DISPUTED, to: ContractStatus.ACTIVE, roles: ['moderator', 'system'] },
+  { from: ContractStatus.DISPUTED, to: ContractStatus.COMPLETED, roles: ['moderator', 'system'], preconditions: [allMilestonesPaid] },
+  { from: ContractStatus.DISPUTED, to: ContractStatus.CANCELLED, roles: ['moderator', 'system'] },
+];
+
+/**
+ * List the statuses a contract can move to from its current status
+ * @param from Current contract status
+ * @param role Role of the actor, to filter to transitions they may trigger
+ * @returns Reachable statuses
+ */
+export function getAvailableTransitions(from: ContractStatus, role?: ContractRole | 'system'): ContractStatus[] {
+  return CONTRACT_TRANSITIONS
+    .filter(t => t.from === from && (!role || t.roles.includes(role)))
+    .map(t => t.to);
+}
+
+/**
+ * Move a contract to a new status, enforcing the lifecycle rules and
+ * recording the transition in the status history
+ * @param contract Contract to transition
+ * @param to Target status
+ * @param actor User (with their contract role) or system triggering the change
+ * @param reason Optional note stored with the history entry
+ * @returns The updated contract
+ */
+export async function transitionContract(
+  contract: Contract,
+  to: ContractStatus,
+  actor: LifecycleActor,
+  reason?: string
+): Promise<Contract> {
+  const from = contract.status as ContractStatus;
+  const transition = CONTRACT_TRANSITIONS.find(t => t.from === from && t.to === to);
+
+  if (!transition) {
+    throw new ContractTransitionError(`Cannot move contract from ${from} to ${to}`, 409);
+  }
+
+  if (!transition.roles.includes(actor.role)) {
+    throw new ContractTransitionError(`The ${actor.role} cannot move a contract from ${from} to ${to}`, 403);
+  }
+
+  for (const precondition of transition.preconditions ?? []) {
+    const failure = await precondition(contract, actor);
+    if (failure) {
+      throw new ContractTransitionError(failure, 409);
+    }
+  }
+
+  const updatedContract = await storage.updateContractStatus(contract.id, to);
+
+  if (!updatedContract) {
+    throw new ContractTransitionError('Contract not found', 404);
+  }
+
+  await storage.createContractStatusHistory({
+    contractId: contract.id,
+    fromStatus: from,
+    toStatus: to,
+    changedBy: actor.userId,
+    reason: reason || null,
+  });
+
+  await emitWebhookEvent('contract.status_changed', updatedContract, { from, to });
+
+  // Cancelling a contract returns any escrow still held to the client
+  if (to === ContractStatus.CANCELLED) {
+    await refundContractEscrow(updatedContract);
+  }
+
+  // Both parties agreeing to a pending contract is what makes it signed
+  if (from === ContractStatus.PENDING && to === ContractStatus.ACTIVE) {
+    await notifyContractSigned(updatedContract, actor.userId);
+  }
+
+  return updatedContract;
+}
+
+/**
+ * Record the initial DRAFT entry for a newly created contract
+ * @param contract The created contract
+ * @param createdBy User who created it
+ */
+export async function recordContractCreated(contract: Contract, createdBy: number): Promise<ContractStatusHistory> {
+  const history = await storage.createContractStatusHistory({
+    contractId: contract.id,
+    fromStatus: null,
+    toStatus: contract.status,
+    changedBy: createdBy,
+    reason: 'Contract created',
+  });
+
+  await emitWebhookEvent('contract.created', contract);
+
+  return history;
+}
@@ -0,0 +1,137 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  Contract, ContractStatus, DisputeStatus, EscrowStatus, Milestone, MilestoneStatus, PaymentMethod, User, UserType
+} from '@shared/schema';
+import { storage } from '../storage';
+import { configurePaymentGateways } from './payment-gateways';
+import { fundMilestone } from './escrow';
+import { claimDispute, openDispute, resolveDispute } from './disputes';
+
+let sequence = 0;
+
+describe('disputes', () => {
+  let client: User;
+  let freelancer: User;
+  let moderator: User;
+  let contract: Contract;
+  let milestones: Milestone[];
+
+  beforeAll(() => {
+    configurePaymentGateways({ PAYMENT_GATEWAY: 'fake' });
+  });
+
+  beforeEach(async () => {
+    const suffix = ++sequence;
+    [client, freelancer, moderator] = await Promise.all(
+      [UserType.CLIENT, UserType.FREELANCER, UserType.MODERATOR].map(userType =>
+        storage.createUser({
+          username: `disputes-${userType}-${suffix}`,
+          password: 'password',
+          email: `disputes-${userType}-${suffix}@example.com`,
+          fullName: `Disputes ${userType}`,
+          userType
+        })
+      )
+    );
+    const created = await storage.createContract({
+      title: 'Dispute test',
+      description: 'Contract used by the dispute tests',
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      totalAmount: 100000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+    });
+    contract = (await storage.updateContractStatus(created.id, ContractStatus.ACTIVE))!;
+    milestones = [];
+
+    for (const amount of [60000, 40000]) {
+      const milestone = await storage.createMilestone({
+        contractId: contract.id,
+        title: `Part ${milestones.length + 1}`,
+        description: 'Half-ish of the job',
+        amount,
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+      });
+      await fundMilestone(contract, milestone, amount, PaymentMethod.STRIPE);
+      milestones.push(milestone);
+    }
+  });
+
+  async function openAndClaim() {
+    const dispute = await openDispute(contract, undefined, client, 'Work was only half done');
+    contract = (await storage.getContract(contract.id))!;
+    return claimDispute(dispute, moderator);
+  }
+
+  it('freezes the contract while the dispute is open', async () => {
+    await openDispute(contract, undefined, client, 'Work was only half done');
+    contract = (await storage.getContract(contract.id))!;
+
+    expect(contract.status).toBe(ContractStatus.DISPUTED);
+    await expect(openDispute(contract, undefined, freelancer, 'Counter-claim')).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('only lets the claiming moderator resolve, and not a party to the contract', async () => {
+    const dispute = await openDispute(contract, undefined, client, 'Work was only half done');
+    contract = (await storage.getContract(contract.id))!;
+
+    await expect(claimDispute(dispute, client)).rejects.toMatchObject({ status: 403 });
+    await expect(
+      resolveDispute(dispute, contract, moderator, DisputeStatus.RESOLVED_FOR_CLIENT, 'Not claimed yet')
+    ).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('splits a compromise across the held payments in proportion to what each holds', async () => {
+    const dispute = await openAndClaim();
+
+    const resolved = await resolveDispute(dispute, contract, moderator, DisputeStatus.RESOLVED_COMPROMISE, 'Half', 50000);
+
+    expect(resolved.status).toBe(DisputeStatus.RESOLVED_COMPROMISE);
+
+    const [first, second] = await Promise.all(milestones.map(m => storage.getEscrowPaymentsByMilestone(m.id)));
+    const amounts = (payments: typeof first, status: EscrowStatus) =>
+      payments.filter(p => p.status === status).map(p => p.amount);
+
+    expect(amounts(first, EscrowStatus.RELEASED)).toEqual([30000]);
+    expect(amounts(first, EscrowStatus.REFUNDED)).toEqual([30000]);
+    expect(amounts(second, EscrowStatus.RELEASED)).toEqual([20000]);
+    expect(amounts(second, EscrowStatus.REFUNDED)).toEqual([20000]);
+
+    // Both milestones received part of their funds, which settles them and the contract
+    for (const milestone of milestones) {
+      expect((await storage.getMilestone(milestone.id))?.status).toBe(MilestoneStatus.COMPLETED);
+    }
+    expect((await storage.getContract(contract.id))?.status).toBe(ContractStatus.COMPLETED);
+  });
+
+  it('gives a compromise\'s odd minor unit to one payment rather than losing it', async () => {
+    const dispute = await openAndClaim();
+
+    await resolveDispute(dispute, contract, moderator, DisputeStatus.RESOLVED_COMPROMISE, 'Odd split', 1);
+
+    const payments = (await Promise.all(milestones.map(m => storage.getEscrowPaymentsByMilestone(m.id)))).flat();
+    const released = payments.filter(p => p.status === EscrowStatus.RELEASED);
+
+    expect(released.reduce((sum, p) => sum + p.amount, 0)).toBe(1);
+  });
+
+  it('refunds everything and cancels the contract on a contract-wide ruling for the client', async () => {
+    const dispute = await openAndClaim();
+
+    await resolveDispute(dispute, contract, moderator, DisputeStatus.RESOLVED_FOR_CLIENT, 'Not delivered');
+
+    const payments = (await Promise.all(milestones.map(m => storage.getEscrowPaymentsByMilestone(m.id)))).flat();
+
+    expect(payments.map(p => p.status)).toEqual([EscrowStatus.REFUNDED, EscrowStatus.REFUNDED]);
+    expect((await storage.getContract(contract.id))?.status).toBe(ContractStatus.CANCELLED);
+  });
+
+  it('refuses to release more than is held', async () => {
+    const dispute = await openAndClaim();
+
+    await expect(
+      resolveDispute(dispute, contract, moderator, DisputeStatus.RESOLVED_COMPROMISE, 'Too much', 100001)
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
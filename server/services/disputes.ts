@@ -0,0 +1,271 @@
+import {
+  Contract, ContractStatus, Dispute, DisputeEvidence, DisputeEvidenceInput, DisputeStatus,
+  EscrowPayment, EscrowStatus, Milestone, MilestoneStatus, User, UserType
+} from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { allocateMoney, Money, money, sumMoney } from '@shared/money';
+import { storage } from '../storage';
+import { transitionContract } from './contract-lifecycle';
+import { settleDisputedPayment } from './escrow';
+import { notifyDisputeOpened } from './notifications';
+import { emitWebhookEvent } from './outgoing-webhooks';
+
+/**
+ * Error raised when a dispute operation is rejected
+ */
+export class DisputeError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'DisputeError';
+    this.status = status;
+  }
+}
+
+export type DisputeOutcome =
+  | DisputeStatus.RESOLVED_FOR_CLIENT
+  | DisputeStatus.RESOLVED_FOR_FREELANCER
+  | DisputeStatus.RESOLVED_COMPROMISE;
+
+const ACTIVE_DISPUTE_STATUSES = [DisputeStatus.OPEN, DisputeStatus.UNDER_REVIEW];
+
+// Escrow in these states is still held and can be handed to either party
+const HELD_ESCROW_STATUSES = [EscrowStatus.PENDING, EscrowStatus.FUNDED, EscrowStatus.DISPUTED];
+
+/**
+ * Whether a dispute is still awaiting a resolution
+ * @param dispute Dispute to check
+ */
+export function isDisputeActive(dispute: Dispute): boolean {
+  return ACTIVE_DISPUTE_STATUSES.includes(dispute.status as DisputeStatus);
+}
+
+function toEvidence(items: DisputeEvidenceInput[], submittedBy: number): DisputeEvidence[] {
+  const submittedAt = new Date().toISOString();
+  return items.map(item => ({ ...item, submittedBy, submittedAt }));
+}
+
+/**
+ * Open a dispute on an active contract, optionally scoped to one milestone.
+ * The contract (and milestone) move to DISPUTED, which freezes escrow release.
+ * @param contract Contract being disputed
+ * @param milestone Milestone the dispute is about, if any
+ * @param user Party opening the dispute
+ * @param reason Why the dispute was opened
+ * @param evidence Initial evidence
+ * @returns The created dispute
+ */
+export async function openDispute(
+  contract: Contract,
+  milestone: Milestone | undefined,
+  user: User,
+  reason: string,
+  evidence: DisputeEvidenceInput[] = []
+): Promise<Dispute> {
+  if (milestone && milestone.contractId !== contract.id) {
+    throw new DisputeError('Milestone does not belong to this contract', 400);
+  }
+
+  if (milestone?.status === MilestoneStatus.COMPLETED) {
+    throw new DisputeError('Cannot dispute a milestone that has already been paid', 409);
+  }
+
+  const existing = await storage.getDisputesByContract(contract.id);
+  if (existing.some(isDisputeActive)) {
+    throw new DisputeError('This contract already has an open dispute', 409);
+  }
+
+  // Validates the contract can be disputed before anything is written. Contracts only
+  // become disputed this way, so a moderator can always be assigned through the dispute.
+  await transitionContract(contract, ContractStatus.DISPUTED, { userId: user.id, role: 'system' }, reason);
+
+  if (milestone) {
+    await storage.updateMilestone(milestone.id, { status: MilestoneStatus.DISPUTED });
+  }
+
+  const dispute = await storage.createDispute({
+    contractId: contract.id,
+    milestoneId: milestone?.id ?? null,
+    initiatedBy: user.id,
+    respondent: user.id === contract.clientId ? contract.freelancerId : contract.clientId,
+    moderatorId: null,
+    status: DisputeStatus.OPEN,
+    reason,
+    evidence: toEvidence(evidence, user.id),
+    resolution: null,
+  });
+
+  await notifyDisputeOpened(dispute, contract);
+  await emitWebhookEvent('dispute.opened', contract, { dispute });
+
+  return dispute;
+}
+
+/**
+ * Append evidence to an unresolved dispute
+ * @param dispute Dispute to add to
+ * @param user User submitting the evidence
+ * @param evidence Evidence items
+ * @returns The updated dispute
+ */
+export async function addDisputeEvidence(
+  dispute: Dispute,
+  user: User,
+  evidence: DisputeEvidenceInput[]
+): Promise<Dispute> {
+  if (!isDisputeActive(dispute)) {
+    throw new DisputeError('Evidence cannot be added to a resolved dispute', 409);
+  }
+
+  const current = (dispute.evidence || []) as DisputeEvidence[];
+  const updated = await storage.updateDispute(dispute.id, {
+    evidence: [...current, ...toEvidence(evidence, user.id)]
+  });
+
+  if (!updated) {
+    throw new DisputeError('Dispute not found', 404);
+  }
+
+  return updated;
+}
+
+/**
+ * Assign an open dispute to the moderator claiming it
+ * @param dispute Dispute to claim
+ * @param moderator Moderator taking the dispute
+ * @returns The updated dispute, now under review
+ */
+export async function claimDispute(dispute: Dispute, moderator: User): Promise<Dispute> {
+  if (moderator.userType !== UserType.MODERATOR) {
+    throw new DisputeError('Only moderators can claim disputes', 403);
+  }
+
+  if (dispute.initiatedBy === moderator.id || dispute.respondent === moderator.id) {
+    throw new DisputeError('Moderators cannot claim disputes they are a party to', 403);
+  }
+
+  if (dispute.status !== DisputeStatus.OPEN) {
+    throw new DisputeError(
+      dispute.moderatorId === moderator.id
+        ? 'You have already claimed this dispute'
+        : 'This dispute has already been claimed',
+      409
+    );
+  }
+
+  const updated = await storage.assignModerator(dispute.id, moderator.id);
+
+  if (!updated) {
+    throw new DisputeError('Dispute not found', 404);
+  }
+
+  return updated;
+}
+
+/**
+ * Split a release amount across held payments in proportion to what each
+ * holds, so every funded milestone shares the compromise and the shares add
+ * up to the release amount exactly
+ */
+function allocateRelease(payments: EscrowPayment[], release: Money): number[] {
+  if (release.amount === 0) {
+    return payments.map(() => 0);
+  }
+
+  // Unconfirmed deposits can only be refunded
+  const weights = payments.map(p => p.status === EscrowStatus.PENDING ? 0 : p.amount);
+  return allocateMoney(release, weights).map(share => share.amount);
+}
+
+/**
+ * Resolve a dispute and apply its outcome to the held escrow: a ruling for the
+ * freelancer releases everything, a ruling for the client refunds everything,
+ * and a compromise releases releaseAmount, split pro rata across the held
+ * payments, and refunds the rest. Disputed milestones that received funds
+ * are completed; the contract returns to ACTIVE, or COMPLETED once every
+ * milestone is paid. A contract-wide ruling for the client cancels the
+ * contract.
+ * @param dispute Dispute under review
+ * @param contract Contract the dispute belongs to
+ * @param moderator Assigned moderator
+ * @param outcome Resolution status
+ * @param resolution Moderator's written resolution
+ * @param releaseAmount Minor units released to the freelancer for a compromise
+ * @returns The resolved dispute
+ */
+export async function resolveDispute(
+  dispute: Dispute,
+  contract: Contract,
+  moderator: User,
+  outcome: DisputeOutcome,
+  resolution: string,
+  releaseAmount?: number
+): Promise<Dispute> {
+  if (dispute.status !== DisputeStatus.UNDER_REVIEW || dispute.moderatorId !== moderator.id) {
+    throw new DisputeError('Only the moderator reviewing this dispute can resolve it', 403);
+  }
+
+  const actor = { userId: moderator.id, role: 'moderator' as const };
+  const contractMilestones = await storage.getMilestonesByContract(contract.id);
+  const milestones = dispute.milestoneId
+    ? contractMilestones.filter(m => m.id === dispute.milestoneId)
+    : contractMilestones.filter(m => m.status !== MilestoneStatus.COMPLETED);
+
+  const held: EscrowPayment[] = [];
+  for (const milestone of milestones) {
+    const payments = await storage.getEscrowPaymentsByMilestone(milestone.id);
+    held.push(...payments.filter(p => HELD_ESCROW_STATUSES.includes(p.status as EscrowStatus)));
+  }
+  held.sort((a, b) => a.id - b.id);
+
+  const fundedTotal = sumMoney(
+    held.filter(p => p.status !== EscrowStatus.PENDING).map(p => money(p.amount, contract.currency)),
+    contract.currency
+  ).amount;
+  const released = outcome === DisputeStatus.RESOLVED_FOR_FREELANCER
+    ? fundedTotal
+    : outcome === DisputeStatus.RESOLVED_FOR_CLIENT ? 0 : releaseAmount ?? 0;
+
+  if (released > fundedTotal) {
+    throw new DisputeError(`Only ${formatMoney(fundedTotal, contract.currency)} is held in escrow for this dispute`, 400);
+  }
+
+  // A contract-wide ruling for the client ends the contract, which refunds its escrow
+  if (!dispute.milestoneId && outcome === DisputeStatus.RESOLVED_FOR_CLIENT) {
+    await transitionContract(contract, ContractStatus.CANCELLED, actor, resolution);
+  } else {
+    const shares = allocateRelease(held, money(released, contract.currency));
+    for (let i = 0; i < held.length; i++) {
+      await settleDisputedPayment(held[i], contract, shares[i]);
+    }
+
+    for (const milestone of milestones) {
+      const received = held.some((p, i) => p.milestoneId === milestone.id && shares[i] > 0);
+
+      if (received) {
+        await storage.completeMilestone(milestone.id, new Date());
+      } else if (milestone.status === MilestoneStatus.DISPUTED) {
+        // Nothing was paid out, so the freelancer can rework it
+        await storage.updateMilestone(milestone.id, {
+          status: MilestoneStatus.IN_PROGRESS,
+          reviewFeedback: resolution
+        });
+      }
+    }
+
+    const remaining = await storage.getMilestonesByContract(contract.id);
+    const allPaid = remaining.every(m => m.status === MilestoneStatus.COMPLETED);
+    await transitionContract(contract, allPaid ? ContractStatus.COMPLETED : ContractStatus.ACTIVE, actor, resolution);
+  }
+
+  const resolved = await storage.updateDisputeStatus(dispute.id, outcome, resolution);
+
+  if (!resolved) {
+    throw new DisputeError('Dispute not found', 404);
+  }
+
+  await emitWebhookEvent('dispute.resolved', contract, { dispute: resolved });
+
+  return resolved;
+}
@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { buildMimeMessage } from './mime';
+import { EmailMessage, EmailTransport } from './types';
+
+/**
+ * Writes each message to a .eml file instead of sending it, for local
+ * testing. The files open in any mail client.
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file';
+  private directory: string;
+  private from: string;
+  private counter: number;
+
+  constructor(directory: string, from: string) {
+    this.directory = directory;
+    this.from = from;
+    this.counter = 1;
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${this.counter++}-${recipient}.eml`;
+
+    await fs.writeFile(path.join(this.directory, fileName), buildMimeMessage(this.from, message));
+  }
+}
+
+/**
+ * Prints each message's text part to the server log instead of sending it
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}\n`);
+  }
+}
@@ -0,0 +1,71 @@
+import os from 'os';
+import path from 'path';
+import { EmailMessage, EmailTransport } from './types';
+import { ConsoleEmailTransport, FileEmailTransport } from './file';
+import { SmtpEmailTransport } from './smtp';
+
+export * from './types';
+export { renderDigestEmail, renderNotificationEmail } from './templates';
+
+const DEFAULT_FROM = 'ContractPay <no-reply@contractpay.local>';
+
+let transport: EmailTransport = new ConsoleEmailTransport();
+
+/**
+ * Replace the transport used for outgoing email
+ * @param emailTransport Transport to use
+ */
+export function setEmailTransport(emailTransport: EmailTransport): void {
+  transport = emailTransport;
+}
+
+/**
+ * Send an email with the configured transport
+ * @param message Rendered email
+ * @throws EmailError when delivery fails
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  await transport.send(message);
+}
+
+/**
+ * Pick the transport from environment configuration. EMAIL_TRANSPORT may be
+ * "smtp", "file" (writes .eml files to EMAIL_FILE_DIR) or "console"; when
+ * unset, SMTP is used if SMTP_HOST is configured and the console otherwise.
+ */
+export function configureEmailTransport(env: NodeJS.ProcessEnv = process.env): void {
+  const from = env.EMAIL_FROM || DEFAULT_FROM;
+  const kind = env.EMAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'console');
+
+  switch (kind) {
+    case 'smtp': {
+      if (!env.SMTP_HOST) {
+        throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+
+      const secure = env.SMTP_SECURE === 'true';
+      transport = new SmtpEmailTransport({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT ? parseInt(env.SMTP_PORT, 10) : (secure ? 465 : 587),
+        secure,
+        username: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from
+      });
+      break;
+    }
+
+    case 'file':
+      transport = new FileEmailTransport(env.EMAIL_FILE_DIR || path.join(os.tmpdir(), 'contractpay-emails'), from);
+      break;
+
+    case 'console':
+      transport = new ConsoleEmailTransport();
+      break;
+
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+configureEmailTransport();
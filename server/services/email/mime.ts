@@ -0,0 +1,71 @@
+import { randomUUID } from 'crypto';
+import { EmailMessage } from './types';
+
+// RFC 2045 caps encoded lines at 76 characters
+const MIME_LINE_LENGTH = 76;
+
+/**
+ * Strip line breaks so a value can't inject extra headers
+ */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Encode a header as an RFC 2047 encoded-word when it isn't plain ASCII
+ */
+function encodeHeader(value: string): string {
+  const clean = headerValue(value);
+  return /^[\x20-\x7e]*$/.test(clean)
+    ? clean
+    : `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBody(body: string): string {
+  const encoded = Buffer.from(body, 'utf8').toString('base64');
+  return encoded.match(new RegExp(`.{1,${MIME_LINE_LENGTH}}`, 'g'))?.join('\r\n') || '';
+}
+
+/**
+ * Extract the bare address from a "Name <address>" mailbox
+ * @param mailbox Mailbox with or without a display name
+ */
+export function getAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return headerValue(match ? match[1] : mailbox);
+}
+
+/**
+ * Build a multipart/alternative message with text and HTML parts
+ * @param from Sender mailbox
+ * @param message Rendered email
+ * @param date Date header value
+ * @returns The message source, with CRLF line endings
+ */
+export function buildMimeMessage(from: string, message: EmailMessage, date: Date = new Date()): string {
+  const boundary = `=_${randomUUID()}`;
+  const domain = getAddress(from).split('@')[1] || 'localhost';
+
+  return [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
@@ -0,0 +1,194 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { buildMimeMessage, getAddress } from './mime';
+import { EmailError, EmailMessage, EmailTransport } from './types';
+
+// Give up on a server that stops responding mid-conversation
+const SMTP_TIMEOUT = 30 * 1000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP conversation: writes commands and reads the (possibly multi-line) replies
+ */
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new EmailError('SMTP connection closed unexpectedly')));
+    socket.setTimeout(SMTP_TIMEOUT, () => socket.destroy(new EmailError('SMTP server timed out')));
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\r\n');
+    this.buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      this.lines.push(line);
+
+      // "250-..." continues a reply; "250 ..." (or a bare code) ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.lines });
+        this.lines = [];
+      }
+    }
+
+    this.flush();
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure || error;
+    this.flush();
+  }
+
+  private flush() {
+    if (!this.waiting) {
+      return;
+    }
+
+    const { resolve, reject } = this.waiting;
+    const reply = this.replies.shift();
+
+    if (reply) {
+      this.waiting = null;
+      resolve(reply);
+    } else if (this.failure) {
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+
+  /**
+   * Wait for the next reply and check its code
+   */
+  async expect(codes: number[], label: string): Promise<SmtpReply> {
+    const reply = await new Promise<SmtpReply>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+
+    if (!codes.includes(reply.code)) {
+      throw new EmailError(`SMTP ${label} failed: ${reply.lines.join(' ')}`);
+    }
+
+    return reply;
+  }
+
+  /**
+   * Send a command and check the reply
+   * @param line Command line, without the trailing CRLF
+   * @param codes Acceptable reply codes
+   * @param label Name used in errors, so credentials never end up in logs
+   */
+  async command(line: string, codes: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, label);
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  async upgrade(servername: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners();
+
+    await new Promise<void>((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername }, () => resolve());
+      secure.once('error', reject);
+      this.attach(secure);
+    });
+  }
+
+  close() {
+    this.socket.removeAllListeners();
+    this.socket.on('error', () => {});
+    this.socket.end();
+  }
+}
+
+/**
+ * Delivers email through an SMTP relay, with STARTTLS and AUTH PLAIN support
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private options: SmtpOptions;
+
+  constructor(options: SmtpOptions) {
+    this.options = options;
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', (error) => reject(new EmailError(`Could not connect to SMTP server: ${error.message}`)));
+    });
+  }
+
+  private supports(reply: SmtpReply, extension: string): boolean {
+    return reply.lines.some(line => line.slice(4).toUpperCase().startsWith(extension));
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const { host, secure, username, password, from } = this.options;
+    const session = new SmtpSession(await this.connect());
+
+    try {
+      await session.expect([220], 'greeting');
+      const ehlo = await session.command(`EHLO ${os.hostname()}`, [250]);
+
+      if (!secure && this.supports(ehlo, 'STARTTLS')) {
+        await session.command('STARTTLS', [220]);
+        await session.upgrade(host);
+        // Capabilities must be re-read over the encrypted connection
+        await session.command(`EHLO ${os.hostname()}`, [250]);
+      }
+
+      if (username && password) {
+        const credentials = Buffer.from(`\0${username}\0${password}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      }
+
+      // Lines starting with a dot are doubled so they aren't read as the end of the data.
+      // The message already ends in CRLF, so a lone dot terminates it.
+      const body = buildMimeMessage(from, message).replace(/^\./gm, '..');
+
+      await session.command(`MAIL FROM:<${getAddress(from)}>`, [250], 'MAIL FROM');
+      await session.command(`RCPT TO:<${getAddress(message.to)}>`, [250, 251], 'RCPT TO');
+      await session.command('DATA', [354]);
+      await session.command(`${body}.`, [250], 'message');
+      await session.command('QUIT', [221]);
+    } finally {
+      session.close();
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { Notification, NotificationType, User } from '@shared/schema';
+import { EmailMessage } from './types';
+
+interface NotificationTemplate {
+  subject: string;
+  heading: string;
+  actionLabel: string;
+  path: string;
+}
+
+// Per-type wording; the body itself is the notification's message
+const NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  [NotificationType.CONTRACT_SIGNED]: {
+    subject: 'Your contract is now active',
+    heading: 'Contract signed',
+    actionLabel: 'View contract',
+    path: '/contracts'
+  },
+  [NotificationType.MILESTONE_SUBMITTED]: {
+    subject: 'A milestone is ready for your review',
+    heading: 'Milestone submitted',
+    actionLabel: 'Review milestone',
+    path: '/contracts'
+  },
+  [NotificationType.ESCROW_FUNDED]: {
+    subject: 'Escrow has been funded for your milestone',
+    heading: 'Escrow funded',
+    actionLabel: 'View payments',
+    path: '/payments'
+  },
+  [NotificationType.PAYMENT_RELEASED]: {
+    subject: 'You have been paid',
+    heading: 'Payment released',
+    actionLabel: 'View payments',
+    path: '/payments'
+  },
+  [NotificationType.DISPUTE_OPENED]: {
+    subject: 'A dispute was opened on your contract',
+    heading: 'Dispute opened',
+    actionLabel: 'Respond to the dispute',
+    path: '/ai-insights'
+  },
+  [NotificationType.MILESTONE_DUE_SOON]: {
+    subject: 'A milestone is due soon',
+    heading: 'Milestone due soon',
+    actionLabel: 'View contract',
+    path: '/contracts'
+  },
+  [NotificationType.TRUST_TIER_CHANGED]: {
+    subject: 'Your trust tier has changed',
+    heading: 'Trust tier changed',
+    actionLabel: 'View your trust score',
+    path: '/trust-score'
+  }
+};
+
+function getTemplate(notification: Notification): NotificationTemplate {
+  return NOTIFICATION_TEMPLATES[notification.type as NotificationType] || {
+    subject: notification.title,
+    heading: notification.title,
+    actionLabel: 'Open ContractPay',
+    path: '/dashboard'
+  };
+}
+
+function appUrl(path: string): string {
+  const base = (process.env.APP_BASE_URL || 'http://localhost:5000').replace(/\/$/, '');
+  return `${base}${path}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Wrap body HTML in the shared email layout
+ */
+function layout(heading: string, bodyHtml: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f5;font-family:Arial,Helvetica,sans-serif;color:#171717;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <p style="margin:0 0 16px;font-size:18px;font-weight:bold;color:#2563eb;">ContractPay</p>
+      <h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(heading)}</h1>
+      ${bodyHtml}
+      <p style="margin:24px 0 0;font-size:12px;color:#737373;">
+        You can choose which emails you receive in your <a href="${appUrl('/settings')}">settings</a>.
+      </p>
+    </div>
+  </body>
+</html>`;
+}
+
+function button(label: string, url: string): string {
+  return `<p style="margin:24px 0 0;"><a href="${url}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;border-radius:6px;text-decoration:none;">${escapeHtml(label)}</a></p>`;
+}
+
+const TEXT_FOOTER = `Choose which emails you receive: ${appUrl('/settings')}`;
+
+/**
+ * Render the email for a single notification
+ * @param notification Notification being emailed
+ * @param recipient User it is addressed to
+ */
+export function renderNotificationEmail(notification: Notification, recipient: User): EmailMessage {
+  const template = getTemplate(notification);
+  const url = appUrl(template.path);
+
+  return {
+    to: recipient.email,
+    subject: template.subject,
+    text: [
+      `Hi ${recipient.fullName},`,
+      '',
+      notification.message,
+      '',
+      `${template.actionLabel}: ${url}`,
+      '',
+      TEXT_FOOTER
+    ].join('\n'),
+    html: layout(template.heading, [
+      `<p style="margin:0 0 12px;">Hi ${escapeHtml(recipient.fullName)},</p>`,
+      `<p style="margin:0;">${escapeHtml(notification.message)}</p>`,
+      button(template.actionLabel, url)
+    ].join('\n      '))
+  };
+}
+
+/**
+ * Render the daily digest covering several notifications
+ * @param recipient User it is addressed to
+ * @param notifications Notifications batched since the last digest, oldest first
+ */
+export function renderDigestEmail(recipient: User, notifications: Notification[]): EmailMessage {
+  const count = notifications.length;
+  const subject = `Your ContractPay digest: ${count} update${count === 1 ? '' : 's'}`;
+  const url = appUrl('/dashboard');
+
+  return {
+    to: recipient.email,
+    subject,
+    text: [
+      `Hi ${recipient.fullName}, here is what happened since your last digest:`,
+      '',
+      ...notifications.map(n => `- ${n.title}: ${n.message}`),
+      '',
+      `Open ContractPay: ${url}`,
+      '',
+      TEXT_FOOTER
+    ].join('\n'),
+    html: layout('Your daily digest', [
+      `<p style="margin:0 0 12px;">Hi ${escapeHtml(recipient.fullName)}, here is what happened since your last digest:</p>`,
+      '<ul style="margin:0;padding-left:20px;">',
+      ...notifications.map(n =>
+        `<li style="margin:0 0 8px;"><strong>${escapeHtml(n.title)}</strong><br>${escapeHtml(n.message)}</li>`
+      ),
+      '</ul>',
+      button('Open ContractPay', url)
+    ].join('\n      '))
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * A rendered email ready to hand to a transport
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Common interface implemented by every way of delivering email
+ */
+export interface EmailTransport {
+  readonly name: string;
+
+  /**
+   * Deliver a message
+   * @throws EmailError when the message could not be delivered
+   */
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Error raised by email transports
+ */
+export class EmailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailError';
+  }
+}
@@ -0,0 +1,131 @@
+import dns from 'dns';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Contract, ContractStatus, EscrowStatus, Milestone, PaymentMethod, UserType } from '@shared/schema';
+import { storage } from '../storage';
+import { configurePaymentGateways, getPaymentGateway } from './payment-gateways';
+import {
+  fundMilestone, processDuePayouts, refundContractEscrow, refundPayment, releasePayment, settleDisputedPayment
+} from './escrow';
+import { performMilestoneAction } from './milestone-workflow';
+import { createWebhookSubscription } from './outgoing-webhooks';
+
+let sequence = 0;
+
+describe('escrow payouts', () => {
+  let contract: Contract;
+  let milestone: Milestone;
+
+  beforeEach(async () => {
+    configurePaymentGateways({ PAYMENT_GATEWAY: 'fake' });
+
+    const suffix = ++sequence;
+    const users = await Promise.all([UserType.CLIENT, UserType.FREELANCER].map(userType =>
+      storage.createUser({
+        username: `escrow-${userType}-${suffix}`,
+        password: 'password',
+        email: `escrow-${userType}-${suffix}@example.com`,
+        fullName: `Escrow ${userType}`,
+        userType
+      })
+    ));
+    const created = await storage.createContract({
+      title: 'Escrow test',
+      description: 'Contract used by the escrow tests',
+      clientId: users[0].id,
+      freelancerId: users[1].id,
+      totalAmount: 100000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+    });
+    contract = (await storage.updateContractStatus(created.id, ContractStatus.ACTIVE))!;
+    milestone = await storage.createMilestone({
+      contractId: contract.id,
+      title: 'Everything',
+      description: 'The whole job',
+      amount: 100000,
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+    });
+  });
+
+  it('refuses deposits beyond the unfunded balance of the milestone', async () => {
+    await fundMilestone(contract, milestone, 60000, PaymentMethod.STRIPE);
+
+    for (const amount of [40001, 0]) {
+      await expect(fundMilestone(contract, milestone, amount, PaymentMethod.STRIPE)).rejects.toMatchObject({ status: 400 });
+    }
+    await expect(fundMilestone(contract, milestone, 40000, PaymentMethod.STRIPE)).resolves
+      .toMatchObject({ status: EscrowStatus.FUNDED, amount: 40000 });
+  });
+
+  it('only releases a payment once the milestone has been approved', async () => {
+    const payment = await fundMilestone(contract, milestone, 100000, PaymentMethod.STRIPE);
+
+    await expect(releasePayment(payment, contract, milestone)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('only refunds escrow once the contract is cancelled', async () => {
+    const payment = await fundMilestone(contract, milestone, 100000, PaymentMethod.STRIPE);
+
+    await expect(refundPayment(payment, contract)).rejects.toMatchObject({ status: 409 });
+
+    const cancelled = (await storage.updateContractStatus(contract.id, ContractStatus.CANCELLED))!;
+    const [refunded] = await refundContractEscrow(cancelled);
+
+    expect(refunded).toMatchObject({ id: payment.id, status: EscrowStatus.REFUNDED });
+    await expect(refundPayment(refunded, cancelled)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('leaves gateway details out of the payment sent to webhook subscribers', async () => {
+    const lookup = vi.spyOn(dns.promises, 'lookup')
+      .mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+    const created = await createWebhookSubscription(contract.freelancerId, {
+      url: 'http://localhost/hook',
+      events: ['escrow.funded']
+    });
+    // Delivery itself resolves localhost for real, so nothing is sent
+    lookup.mockRestore();
+
+    vi.spyOn(getPaymentGateway(PaymentMethod.STRIPE), 'createHold')
+      .mockResolvedValue({ reference: 'pi_test', status: 'held', details: { clientSecret: 'pi_test_secret' } });
+
+    const payment = await fundMilestone(contract, milestone, 100000, PaymentMethod.STRIPE);
+    const [delivery] = await storage.getWebhookDeliveriesBySubscription(created.subscription.id, 10);
+
+    expect(payment.paymentDetails).toMatchObject({ clientSecret: 'pi_test_secret' });
+    expect(JSON.stringify(delivery.payload)).not.toContain('pi_test_secret');
+    expect(delivery.payload).toMatchObject({
+      type: 'escrow.funded',
+      data: { payment: { id: payment.id, amount: 100000, status: EscrowStatus.FUNDED } }
+    });
+    expect((delivery.payload as { data: { payment: object } }).data.payment).not.toHaveProperty('paymentDetails');
+  });
+
+  it('pays out the released amount less the platform fee', async () => {
+    const payment = await fundMilestone(contract, milestone, 100000, PaymentMethod.STRIPE);
+
+    for (const action of ['start', 'submit'] as const) {
+      milestone = await performMilestoneAction(milestone, contract, action, 'freelancer');
+    }
+    milestone = await performMilestoneAction(milestone, contract, 'approve', 'client');
+
+    const released = await releasePayment(payment, contract, milestone);
+    const capture = vi.spyOn(getPaymentGateway(PaymentMethod.STRIPE), 'capture');
+
+    await processDuePayouts(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000));
+
+    expect(released.payoutAmount).toBeLessThan(payment.amount);
+    expect(capture).toHaveBeenCalledWith(expect.objectContaining({ amount: released.payoutAmount }));
+  });
+
+  it('refunds the unreleased part of a disputed payment to the client', async () => {
+    const payment = await fundMilestone(contract, milestone, 100000, PaymentMethod.STRIPE);
+    const gateway = getPaymentGateway(PaymentMethod.STRIPE);
+    const refund = vi.spyOn(gateway, 'refund');
+
+    const [released, remainder] = await settleDisputedPayment(payment, contract, 60000);
+
+    expect(released).toMatchObject({ status: EscrowStatus.RELEASED, amount: 60000 });
+    expect(remainder).toMatchObject({ status: EscrowStatus.REFUNDED, amount: 40000 });
+    expect(refund).toHaveBeenCalledWith(expect.objectContaining({ amount: 40000 }));
+  });
+});
@@ -0,0 +1,548 @@
+import {
+  Contract, ContractStatus, EscrowPayment, EscrowStatus,
+  Milestone, MilestoneStatus, PaymentMethod
+} from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { storage } from '../storage';
+import { getReleasedAmount, markMilestonePaid } from './milestone-workflow';
+import { getPaymentGateway, GatewayPaymentRef } from './payment-gateways';
+import { notifyEscrowFunded, notifyPaymentReleased } from './notifications';
+import { emitWebhookEvent } from './outgoing-webhooks';
+import { runPeriodically } from './scheduling';
+import { getReleaseTerms } from './tier-benefits';
+
+/**
+ * Error raised when an escrow operation is rejected
+ */
+export class EscrowError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'EscrowError';
+    this.status = status;
+  }
+}
+
+// Contracts in these states can receive escrow deposits
+const FUNDABLE_CONTRACT_STATUSES = [ContractStatus.PENDING, ContractStatus.ACTIVE];
+
+// Escrow in these states still counts against the milestone amount
+const COMMITTED_ESCROW_STATUSES = [EscrowStatus.PENDING, EscrowStatus.FUNDED, EscrowStatus.RELEASED];
+
+// Escrow in these states can be settled by a dispute resolution
+const SETTLEABLE_ESCROW_STATUSES = [EscrowStatus.PENDING, EscrowStatus.FUNDED, EscrowStatus.DISPUTED];
+
+// How often released payments are checked for a due payout
+const PAYOUT_POLL_INTERVAL = 5 * 60 * 1000;
+
+// How often pending deposits are checked with their gateway
+const DEPOSIT_POLL_INTERVAL = 60 * 1000;
+
+// Escrow payment as sent to webhook subscribers. Gateway details such as a
+// Stripe client secret are left out, since either party may receive it.
+export type PublicEscrowPayment = Pick<EscrowPayment,
+  'id' | 'milestoneId' | 'clientId' | 'freelancerId' | 'amount' | 'currency' | 'status' | 'paymentMethod' |
+  'blockchainTxHash' | 'depositedAt' | 'releasedAt' | 'feeTier' | 'feeRate' | 'feeDiscountRate' | 'feeAmount' |
+  'feeDiscount' | 'payoutAmount' | 'payoutDueAt' | 'paidOutAt'>;
+
+/**
+ * Copy the fields of an escrow payment that are safe to send outside the platform
+ * @param payment Stored escrow payment
+ */
+export function toPublicEscrowPayment(payment: EscrowPayment): PublicEscrowPayment {
+  return {
+    id: payment.id,
+    milestoneId: payment.milestoneId,
+    clientId: payment.clientId,
+    freelancerId: payment.freelancerId,
+    amount: payment.amount,
+    currency: payment.currency,
+    status: payment.status,
+    paymentMethod: payment.paymentMethod,
+    blockchainTxHash: payment.blockchainTxHash,
+    depositedAt: payment.depositedAt,
+    releasedAt: payment.releasedAt,
+    feeTier: payment.feeTier,
+    feeRate: payment.feeRate,
+    feeDiscountRate: payment.feeDiscountRate,
+    feeAmount: payment.feeAmount,
+    feeDiscount: payment.feeDiscount,
+    payoutAmount: payment.payoutAmount,
+    payoutDueAt: payment.payoutDueAt,
+    paidOutAt: payment.paidOutAt
+  };
+}
+
+/**
+ * Sum of escrow that still counts against a milestone (pending, funded or already released)
+ * @param payments Escrow payments for a milestone
+ * @returns Total committed amount
+ */
+export function getCommittedAmount(payments: EscrowPayment[]): number {
+  return payments
+    .filter(p => COMMITTED_ESCROW_STATUSES.includes(p.status as EscrowStatus))
+    .reduce((sum, p) => sum + p.amount, 0);
+}
+
+/**
+ * Build the gateway reference for an escrow payment
+ * @param payment Escrow payment
+ * @param contract Contract the payment belongs to
+ * @returns Reference understood by the payment gateway
+ */
+export function toGatewayRef(payment: EscrowPayment, contract: Contract): GatewayPaymentRef {
+  const details = (payment.paymentDetails || {}) as Record<string, unknown>;
+
+  return {
+    reference: String(details.reference),
+    amount: payment.amount,
+    currency: payment.currency,
+    contractId: contract.id,
+    milestoneId: payment.milestoneId,
+    details
+  };
+}
+
+/**
+ * List escrow payments for every milestone of a contract
+ * @param contract Contract to list payments for
+ * @returns Escrow payments, oldest first
+ */
+export async function getContractEscrowPayments(contract: Contract): Promise<EscrowPayment[]> {
+  const milestones = await storage.getMilestonesByContract(contract.id);
+  const payments: EscrowPayment[] = [];
+
+  for (const milestone of milestones) {
+    payments.push(...await storage.getEscrowPaymentsByMilestone(milestone.id));
+  }
+
+  return payments.sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Deposit funds into escrow for a milestone
+ * @param contract Contract the milestone belongs to
+ * @param milestone Milestone being funded
+ * @param amount Amount to deposit, in minor units of the contract currency
+ * @param paymentMethod Payment method used for the deposit
+ * @returns The created escrow payment
+ */
+export async function fundMilestone(
+  contract: Contract,
+  milestone: Milestone,
+  amount: number,
+  paymentMethod: PaymentMethod
+): Promise<EscrowPayment> {
+  if (!FUNDABLE_CONTRACT_STATUSES.includes(contract.status as ContractStatus)) {
+    throw new EscrowError(`Cannot fund escrow on a ${contract.status} contract`, 409);
+  }
+
+  if (milestone.status === MilestoneStatus.COMPLETED) {
+    throw new EscrowError('Milestone has already been paid', 409);
+  }
+
+  if (!Number.isSafeInteger(amount) || amount <= 0) {
+    throw new EscrowError('Amount must be a positive whole number of minor units', 400);
+  }
+
+  const existing = await storage.getEscrowPaymentsByMilestone(milestone.id);
+  const remaining = milestone.amount - getCommittedAmount(existing);
+
+  if (amount > remaining) {
+    throw new EscrowError(`Amount exceeds the unfunded balance of ${formatMoney(remaining, contract.currency)} for this milestone`, 400);
+  }
+
+  const gateway = getPaymentGateway(paymentMethod);
+  const hold = await gateway.createHold({
+    amount,
+    currency: contract.currency,
+    contractId: contract.id,
+    milestoneId: milestone.id,
+    metadata: { clientId: String(contract.clientId) }
+  });
+
+  if (hold.status === 'failed') {
+    throw new EscrowError('Payment was declined by the payment provider', 402);
+  }
+
+  const payment = await storage.createEscrowPayment({
+    milestoneId: milestone.id,
+    clientId: contract.clientId,
+    freelancerId: contract.freelancerId,
+    amount,
+    currency: contract.currency,
+    // Holds needing payer action are funded later, by a gateway webhook or the deposit check
+    status: hold.status === 'held' ? EscrowStatus.FUNDED : EscrowStatus.PENDING,
+    paymentMethod,
+    paymentDetails: { ...hold.details, gateway: paymentMethod, reference: hold.reference },
+    stripePaymentIntentId: paymentMethod === PaymentMethod.STRIPE ? hold.reference : null,
+    // Set once the client reports their deposit transaction
+    blockchainTxHash: null,
+  });
+
+  if (payment.status === EscrowStatus.FUNDED) {
+    await notifyEscrowFunded(payment, milestone, contract);
+    await emitWebhookEvent('escrow.funded', contract, { payment: toPublicEscrowPayment(payment), milestone });
+  }
+
+  return payment;
+}
+
+/**
+ * Mark a pending payment as funded once the gateway confirms the deposit
+ * @param payment Pending escrow payment
+ * @returns The funded payment
+ */
+export async function markPaymentFunded(payment: EscrowPayment): Promise<EscrowPayment | undefined> {
+  const funded = await storage.updateEscrowPayment(payment.id, { status: EscrowStatus.FUNDED });
+  const milestone = await storage.getMilestone(payment.milestoneId);
+  const contract = milestone && await storage.getContract(milestone.contractId);
+
+  if (funded && milestone && contract) {
+    await notifyEscrowFunded(funded, milestone, contract);
+    await emitWebhookEvent('escrow.funded', contract, { payment: toPublicEscrowPayment(funded), milestone });
+  }
+
+  return funded;
+}
+
+/**
+ * Record the transaction a client sent from their wallet to deposit a
+ * pending crypto payment, and check it straight away. The deposit check
+ * keeps polling it until it is mined.
+ * @param payment Pending crypto escrow payment
+ * @param contract Contract the payment belongs to
+ * @param txHash Hash of the client's deposit transaction
+ * @returns The payment, funded if the deposit has already been mined
+ */
+export async function recordCryptoDeposit(
+  payment: EscrowPayment,
+  contract: Contract,
+  txHash: string
+): Promise<EscrowPayment> {
+  if (payment.paymentMethod !== PaymentMethod.CRYPTO) {
+    throw new EscrowError('Only crypto payments are funded by a deposit transaction', 400);
+  }
+
+  if (payment.status !== EscrowStatus.PENDING) {
+    throw new EscrowError(`Cannot record a deposit for a ${payment.status} payment`, 409);
+  }
+
+  const existing = await storage.getEscrowPaymentByGatewayReference(txHash);
+
+  if (existing && existing.id !== payment.id) {
+    throw new EscrowError('This transaction has already funded another payment', 409);
+  }
+
+  const gateway = getPaymentGateway(PaymentMethod.CRYPTO);
+  const status = await gateway.getStatus({ ...toGatewayRef(payment, contract), reference: txHash });
+
+  if (status === 'failed') {
+    throw new EscrowError('Transaction is not a deposit of this payment from your wallet into the escrow contract', 400);
+  }
+
+  const updated = await storage.updateEscrowPayment(payment.id, {
+    paymentDetails: { ...(payment.paymentDetails as Record<string, unknown>), reference: txHash },
+    blockchainTxHash: txHash
+  });
+
+  if (!updated) {
+    throw new EscrowError('Payment not found', 404);
+  }
+
+  if (status === 'held') {
+    return (await markPaymentFunded(updated)) || updated;
+  }
+
+  return updated;
+}
+
+/**
+ * Ask the gateway about every pending payment, funding those whose deposit
+ * has been confirmed and failing those it rejected. Payments still waiting
+ * on the payer are checked again on the next run.
+ * @returns Number of payments funded
+ */
+export async function confirmPendingPayments(): Promise<number> {
+  const pending = await storage.getEscrowPaymentsByStatus(EscrowStatus.PENDING);
+  let funded = 0;
+
+  for (const payment of pending) {
+    try {
+      const milestone = await storage.getMilestone(payment.milestoneId);
+      const contract = milestone && await storage.getContract(milestone.contractId);
+
+      if (!milestone || !contract) {
+        continue;
+      }
+
+      const gateway = getPaymentGateway(payment.paymentMethod as PaymentMethod);
+      const status = await gateway.getStatus(toGatewayRef(payment, contract));
+
+      if (status === 'held') {
+        await markPaymentFunded(payment);
+        funded++;
+      } else if (status === 'failed') {
+        await storage.updateEscrowPayment(payment.id, { status: EscrowStatus.FAILED });
+      }
+    } catch (error) {
+      console.error(`Failed to check escrow payment ${payment.id}:`, error);
+    }
+  }
+
+  return funded;
+}
+
+/**
+ * Release a funded escrow payment to the freelancer. The platform fee is
+ * fixed now, and the funds are captured and paid out once the freelancer's
+ * tier payout time has passed. Once the milestone's full amount has been
+ * released the milestone is marked as paid.
+ * @param payment Escrow payment to release
+ * @param contract Contract the payment belongs to
+ * @param milestone Milestone the payment funds
+ * @returns The released payment
+ */
+export async function releasePayment(
+  payment: EscrowPayment,
+  contract: Contract,
+  milestone: Milestone
+): Promise<EscrowPayment> {
+  if (payment.status !== EscrowStatus.FUNDED) {
+    throw new EscrowError(`Cannot release a ${payment.status} payment`, 409);
+  }
+
+  // Escrow stays frozen until a moderator resolves the dispute
+  if (contract.status === ContractStatus.DISPUTED) {
+    throw new EscrowError('Escrow is frozen while the contract is disputed', 409);
+  }
+
+  // Funds are only released once the client has approved the work
+  if (milestone.status !== MilestoneStatus.READY_FOR_PAYMENT) {
+    throw new EscrowError('Milestone must be approved before its payment is released', 409);
+  }
+
+  const now = new Date();
+  const released = await storage.releaseEscrowPayment(payment.id, now, await getReleaseTerms(payment, now, false));
+
+  if (!released) {
+    throw new EscrowError('Payment not found', 404);
+  }
+
+  await notifyPaymentReleased(released, milestone, contract);
+  await emitWebhookEvent('escrow.released', contract, { payment: toPublicEscrowPayment(released), milestone });
+  await markMilestonePaidIfReleased(milestone, contract);
+
+  return released;
+}
+
+/**
+ * Mark an approved milestone as paid once its full amount has been released
+ * @param milestone Milestone to check
+ * @param contract Contract the milestone belongs to
+ * @returns True if the milestone was marked as paid
+ */
+export async function markMilestonePaidIfReleased(milestone: Milestone, contract: Contract): Promise<boolean> {
+  if (milestone.status !== MilestoneStatus.READY_FOR_PAYMENT) {
+    return false;
+  }
+
+  const payments = await storage.getEscrowPaymentsByMilestone(milestone.id);
+
+  if (getReleasedAmount(payments) < milestone.amount) {
+    return false;
+  }
+
+  await markMilestonePaid(milestone, contract);
+  return true;
+}
+
+/**
+ * Return a funded escrow payment to the client
+ * @param payment Escrow payment to refund
+ * @param contract Contract the payment belongs to
+ * @returns The refunded payment
+ */
+export async function refundPayment(payment: EscrowPayment, contract: Contract): Promise<EscrowPayment> {
+  if (contract.status !== ContractStatus.CANCELLED) {
+    throw new EscrowError('Escrow can only be refunded once the contract is cancelled', 409);
+  }
+
+  if (payment.status !== EscrowStatus.FUNDED && payment.status !== EscrowStatus.PENDING) {
+    throw new EscrowError(`Cannot refund a ${payment.status} payment`, 409);
+  }
+
+  const gateway = getPaymentGateway(payment.paymentMethod as PaymentMethod);
+  const refund = await gateway.refund(toGatewayRef(payment, contract));
+
+  const refunded = await storage.updateEscrowPayment(payment.id, {
+    status: EscrowStatus.REFUNDED,
+    paymentDetails: { ...(payment.paymentDetails as Record<string, unknown>), ...refund.details }
+  });
+
+  if (!refunded) {
+    throw new EscrowError('Payment not found', 404);
+  }
+
+  await emitWebhookEvent('escrow.refunded', contract, { payment: toPublicEscrowPayment(refunded) });
+
+  return refunded;
+}
+
+/**
+ * Settle a held payment as part of a dispute resolution, releasing part (or
+ * all) of it to the freelancer and returning the rest to the client. A
+ * partial release is recorded as a released payment plus a refunded remainder.
+ * @param payment Funded, pending or charged-back escrow payment
+ * @param contract Contract the payment belongs to
+ * @param releaseAmount Portion released to the freelancer (0 refunds it all)
+ * @returns The payment records after settlement
+ */
+export async function settleDisputedPayment(
+  payment: EscrowPayment,
+  contract: Contract,
+  releaseAmount: number
+): Promise<EscrowPayment[]> {
+  if (!SETTLEABLE_ESCROW_STATUSES.includes(payment.status as EscrowStatus)) {
+    throw new EscrowError(`Cannot settle a ${payment.status} payment`, 409);
+  }
+
+  if (!Number.isSafeInteger(releaseAmount) || releaseAmount < 0 || releaseAmount > payment.amount) {
+    throw new EscrowError(`Release amount must be between 0 and ${formatMoney(payment.amount, payment.currency)}`, 400);
+  }
+
+  // Unconfirmed deposits never reached escrow, so there is nothing to release
+  if (payment.status === EscrowStatus.PENDING && releaseAmount > 0) {
+    throw new EscrowError('Cannot release a payment that was never funded', 409);
+  }
+
+  const gateway = getPaymentGateway(payment.paymentMethod as PaymentMethod);
+  const ref = toGatewayRef(payment, contract);
+  const details = payment.paymentDetails as Record<string, unknown>;
+
+  if (releaseAmount === 0) {
+    const refund = await gateway.refund(ref);
+    const refunded = await storage.updateEscrowPayment(payment.id, {
+      status: EscrowStatus.REFUNDED,
+      paymentDetails: { ...details, ...refund.details }
+    });
+
+    if (refunded) {
+      await emitWebhookEvent('escrow.refunded', contract, { payment: toPublicEscrowPayment(refunded) });
+    }
+    return refunded ? [refunded] : [];
+  }
+
+  // A moderator's settlement is paid out straight away rather than on the
+  // payout schedule. The fee is kept and the rest goes back to the client.
+  const now = new Date();
+  const terms = await getReleaseTerms({ ...payment, amount: releaseAmount }, now, true);
+  const capture = await gateway.capture({ ...ref, amount: terms.payoutAmount ?? releaseAmount });
+  await storage.updateEscrowPayment(payment.id, {
+    amount: releaseAmount,
+    paymentDetails: { ...details, ...capture.details }
+  });
+  const released = await storage.releaseEscrowPayment(payment.id, now, terms);
+  const settled = released ? [released] : [];
+  const remainder = payment.amount - releaseAmount;
+
+  if (remainder > 0) {
+    const refund = await gateway.refund({ ...ref, amount: remainder });
+    settled.push(await storage.createEscrowPayment({
+      milestoneId: payment.milestoneId,
+      clientId: payment.clientId,
+      freelancerId: payment.freelancerId,
+      amount: remainder,
+      currency: payment.currency,
+      status: EscrowStatus.REFUNDED,
+      paymentMethod: payment.paymentMethod,
+      paymentDetails: { ...details, ...refund.details, splitFrom: payment.id },
+      stripePaymentIntentId: payment.stripePaymentIntentId,
+      blockchainTxHash: payment.blockchainTxHash,
+    }));
+  }
+
+  for (const record of settled) {
+    await emitWebhookEvent(
+      record.status === EscrowStatus.RELEASED ? 'escrow.released' : 'escrow.refunded',
+      contract,
+      { payment: toPublicEscrowPayment(record) }
+    );
+  }
+
+  return settled;
+}
+
+/**
+ * Refund every funded or pending escrow payment on a cancelled contract
+ * @param contract The cancelled contract
+ * @returns Refunded payments
+ */
+export async function refundContractEscrow(contract: Contract): Promise<EscrowPayment[]> {
+  const payments = await getContractEscrowPayments(contract);
+  const refunded: EscrowPayment[] = [];
+
+  for (const payment of payments) {
+    if (payment.status === EscrowStatus.FUNDED || payment.status === EscrowStatus.PENDING) {
+      refunded.push(await refundPayment(payment, contract));
+    }
+  }
+
+  return refunded;
+}
+
+/**
+ * Pay out released payments whose payout time has come, less the platform
+ * fee. A payout that fails stays due and is retried on the next run.
+ * @param now Time the check runs
+ * @returns Number of payments paid out
+ */
+export async function processDuePayouts(now: Date = new Date()): Promise<number> {
+  const due = await storage.getDueEscrowPayouts(now);
+  let paidOut = 0;
+
+  for (const payment of due) {
+    try {
+      const milestone = await storage.getMilestone(payment.milestoneId);
+      const contract = milestone && await storage.getContract(milestone.contractId);
+
+      if (!milestone || !contract) {
+        continue;
+      }
+
+      const gateway = getPaymentGateway(payment.paymentMethod as PaymentMethod);
+      const capture = await gateway.capture({
+        ...toGatewayRef(payment, contract),
+        amount: payment.payoutAmount ?? payment.amount
+      });
+      const updated = await storage.updateEscrowPayment(payment.id, {
+        paidOutAt: now,
+        paymentDetails: { ...(payment.paymentDetails as Record<string, unknown>), ...capture.details }
+      });
+
+      if (updated) {
+        await emitWebhookEvent('escrow.paid_out', contract, { payment: toPublicEscrowPayment(updated), milestone });
+        paidOut++;
+      }
+    } catch (error) {
+      console.error(`Failed to pay out escrow payment ${payment.id}:`, error);
+    }
+  }
+
+  return paidOut;
+}
+
+/**
+ * Check for due payouts periodically
+ */
+export function schedulePayouts(): void {
+  runPeriodically('Payout', () => processDuePayouts(), PAYOUT_POLL_INTERVAL);
+}
+
+/**
+ * Check pending deposits with their gateway periodically
+ */
+export function scheduleDepositChecks(): void {
+  runPeriodically('Deposit check', confirmPendingPayments, DEPOSIT_POLL_INTERVAL);
+}
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { money } from '@shared/money';
+import {
+  configureExchangeRates, convertMoney, convertToCrypto, ExchangeRateError, getExchangeRates,
+  setExchangeRateProvider, StaticExchangeRateProvider
+} from './exchange-rates';
+import { HttpExchangeRateProvider } from './exchange-rates/http';
+
+function respondWith(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('exchange rates', () => {
+  afterEach(() => {
+    configureExchangeRates({});
+    vi.restoreAllMocks();
+  });
+
+  it('converts through the dollar and rounds to the target currency\'s minor units', async () => {
+    setExchangeRateProvider(new StaticExchangeRateProvider({ USD: 1, EUR: 0.9, GBP: 0.8, INR: 80 }));
+
+    expect(await convertMoney(money(1000, 'USD'), 'INR')).toEqual(money(80000, 'INR'));
+    // 10 EUR = 11.111... USD
+    expect(await convertMoney(money(1000, 'EUR'), 'USD')).toEqual(money(1111, 'USD'));
+    expect((await getExchangeRates('GBP')).EUR).toBeCloseTo(1.125);
+  });
+
+  it('returns the same amount when the currency doesn\'t change', async () => {
+    expect(await convertMoney(money(1234, 'GBP'), 'gbp')).toEqual(money(1234, 'GBP'));
+  });
+
+  it('reads static rates and crypto prices from EXCHANGE_RATES', async () => {
+    configureExchangeRates({ EXCHANGE_RATES: '{"EUR": 0.5, "ETH": 0.0004}' });
+
+    expect(await convertMoney(money(1000, 'USD'), 'EUR')).toEqual(money(500, 'EUR'));
+    expect(await convertToCrypto(money(250000, 'USD'), 'ETH')).toBeCloseTo(1);
+
+    configureExchangeRates({});
+    await expect(convertToCrypto(money(100, 'USD'), 'ETH')).rejects.toThrow(ExchangeRateError);
+  });
+
+  it('rejects bad configuration', () => {
+    expect(() => configureExchangeRates({ EXCHANGE_RATES: 'not json' })).toThrow(/EXCHANGE_RATES/);
+    expect(() => configureExchangeRates({ EXCHANGE_RATES: '{"EUR": 0}' })).toThrow(ExchangeRateError);
+    expect(() => configureExchangeRates({ EXCHANGE_RATE_PROVIDER: 'guess' })).toThrow(/guess/);
+  });
+
+  it('keeps using the last fetched rates while a refresh fails', async () => {
+    const provider = new HttpExchangeRateProvider('https://rates.test/latest', 0, 'https://crypto.test/rates', 0);
+    const fetch = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(respondWith({ rates: { EUR: 0.9, GBP: 0.8, INR: 80 } }))
+      .mockResolvedValue(respondWith({ error: 'down' }, 503));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const first = await provider.getRates('USD');
+    const second = await provider.getRates('USD');
+
+    expect(second).toEqual(first);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await expect(provider.getRates('EUR')).rejects.toThrow(ExchangeRateError);
+  });
+
+  it('never uses a stale crypto price', async () => {
+    const provider = new HttpExchangeRateProvider('https://rates.test/latest', 0, 'https://crypto.test/rates', 0);
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(respondWith({ data: { rates: { ETH: '0.0004' } } }))
+      .mockResolvedValue(respondWith({ error: 'down' }, 503));
+
+    expect(await provider.getCryptoRate('ETH', 'USD')).toBe(0.0004);
+    await expect(provider.getCryptoRate('ETH', 'USD')).rejects.toThrow(ExchangeRateError);
+  });
+});
@@ -0,0 +1,133 @@
+import { CURRENCIES, CurrencyCode } from '@shared/schema';
+import { CryptoAsset, ExchangeRateError, ExchangeRateProvider, ExchangeRates } from './types';
+
+const REQUEST_TIMEOUT = 10 * 1000;
+
+interface CachedRates {
+  rates: ExchangeRates;
+  fetchedAt: number;
+}
+
+interface CachedCryptoRate {
+  rate: number;
+  fetchedAt: number;
+}
+
+/**
+ * Fetches rates from a Frankfurter-compatible API
+ * (GET <url>?from=EUR&to=USD,GBP responding with { rates: { USD: 1.08, ... } })
+ * and caches them. When a refresh fails the last rates are used until a
+ * later refresh succeeds.
+ *
+ * Crypto prices come from a Coinbase-compatible API
+ * (GET <cryptoUrl>?currency=EUR responding with { data: { rates: { ETH: "0.0004" } } }).
+ * They are cached briefly and never used once stale, since escrow is priced with them.
+ */
+export class HttpExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'http';
+  private url: string;
+  private ttl: number;
+  private cache: Map<CurrencyCode, CachedRates>;
+  private cryptoUrl: string;
+  private cryptoTtl: number;
+  private cryptoCache: Map<string, CachedCryptoRate>;
+
+  /**
+   * @param url Endpoint returning the latest rates
+   * @param ttl How long fetched rates are reused, in milliseconds
+   * @param cryptoUrl Endpoint returning the latest crypto prices
+   * @param cryptoTtl How long fetched crypto prices are reused, in milliseconds
+   */
+  constructor(url: string, ttl: number, cryptoUrl: string, cryptoTtl: number) {
+    this.url = url;
+    this.ttl = ttl;
+    this.cache = new Map();
+    this.cryptoUrl = cryptoUrl;
+    this.cryptoTtl = cryptoTtl;
+    this.cryptoCache = new Map();
+  }
+
+  async getRates(base: CurrencyCode): Promise<ExchangeRates> {
+    const cached = this.cache.get(base);
+
+    if (cached && Date.now() - cached.fetchedAt < this.ttl) {
+      return cached.rates;
+    }
+
+    try {
+      const rates = await this.fetchRates(base);
+      this.cache.set(base, { rates, fetchedAt: Date.now() });
+      return rates;
+    } catch (error) {
+      if (cached) {
+        console.error(`Refreshing ${base} exchange rates failed; using rates from ${new Date(cached.fetchedAt).toISOString()}:`, error);
+        return cached.rates;
+      }
+      throw error instanceof ExchangeRateError ? error : new ExchangeRateError(`Could not fetch ${base} exchange rates`);
+    }
+  }
+
+  async getCryptoRate(asset: CryptoAsset, base: CurrencyCode): Promise<number> {
+    const key = `${asset}/${base}`;
+    const cached = this.cryptoCache.get(key);
+
+    if (cached && Date.now() - cached.fetchedAt < this.cryptoTtl) {
+      return cached.rate;
+    }
+
+    try {
+      const rate = await this.fetchCryptoRate(asset, base);
+      this.cryptoCache.set(key, { rate, fetchedAt: Date.now() });
+      return rate;
+    } catch (error) {
+      throw error instanceof ExchangeRateError ? error : new ExchangeRateError(`Could not fetch the ${base} price of ${asset}`);
+    }
+  }
+
+  private async fetchRates(base: CurrencyCode): Promise<ExchangeRates> {
+    const url = new URL(this.url);
+    url.searchParams.set('from', base);
+    url.searchParams.set('to', CURRENCIES.filter(currency => currency !== base).join(','));
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+
+    if (!response.ok) {
+      throw new ExchangeRateError(`Exchange rate API responded with ${response.status}`);
+    }
+
+    const body = await response.json() as { rates?: Record<string, unknown> };
+    const rates = {} as ExchangeRates;
+
+    for (const currency of CURRENCIES) {
+      const rate = currency === base ? 1 : body.rates?.[currency];
+
+      if (typeof rate !== 'number' || !(rate > 0)) {
+        throw new ExchangeRateError(`Exchange rate API returned no ${base}/${currency} rate`);
+      }
+
+      rates[currency] = rate;
+    }
+
+    return rates;
+  }
+
+  private async fetchCryptoRate(asset: CryptoAsset, base: CurrencyCode): Promise<number> {
+    const url = new URL(this.cryptoUrl);
+    url.searchParams.set('currency', base);
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+
+    if (!response.ok) {
+      throw new ExchangeRateError(`Crypto price API responded with ${response.status}`);
+    }
+
+    const body = await response.json() as { data?: { rates?: Record<string, unknown> } };
+    const rate = Number(body.data?.rates?.[asset]);
+
+    if (!(rate > 0)) {
+      throw new ExchangeRateError(`Crypto price API returned no ${base}/${asset} rate`);
+    }
+
+    return rate;
+  }
+}
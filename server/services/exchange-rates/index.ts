@@ -0,0 +1,125 @@
+import { CURRENCIES, CurrencyCode } from '@shared/schema';
+import { toCurrencyCode } from '@shared/currency';
+import { Money, money, toMajorUnits, toMinorUnits } from '@shared/money';
+import { CRYPTO_ASSETS, CryptoAsset, ExchangeRateProvider, ExchangeRates } from './types';
+import { DEFAULT_USD_RATES, StaticExchangeRateProvider } from './static';
+import { HttpExchangeRateProvider } from './http';
+
+export * from './types';
+export { StaticExchangeRateProvider } from './static';
+
+const DEFAULT_RATES_URL = 'https://api.frankfurter.app/latest';
+const DEFAULT_RATES_TTL = 60 * 60 * 1000; // One hour
+const DEFAULT_CRYPTO_RATES_URL = 'https://api.coinbase.com/v2/exchange-rates';
+const DEFAULT_CRYPTO_RATES_TTL = 60 * 1000; // One minute
+
+let provider: ExchangeRateProvider = new StaticExchangeRateProvider();
+
+/**
+ * Replace the provider used for currency conversion
+ * @param exchangeRateProvider Provider to use
+ */
+export function setExchangeRateProvider(exchangeRateProvider: ExchangeRateProvider): void {
+  provider = exchangeRateProvider;
+}
+
+/**
+ * Current rates from a currency to every supported currency
+ * @param base Currency to convert from
+ * @throws ExchangeRateError when no rates are available
+ */
+export async function getExchangeRates(base: CurrencyCode): Promise<ExchangeRates> {
+  return provider.getRates(base);
+}
+
+/**
+ * Convert money between currencies at the current rate
+ * @param amount Money to convert
+ * @param to Currency to convert to
+ * @returns The converted money, rounded to the nearest minor unit of the target currency
+ * @throws ExchangeRateError when no rate is available
+ */
+export async function convertMoney(amount: Money, to: string): Promise<Money> {
+  const fromCode = toCurrencyCode(amount.currency);
+  const toCode = toCurrencyCode(to);
+
+  if (fromCode === toCode) {
+    return money(amount.amount, toCode);
+  }
+
+  const rates = await provider.getRates(fromCode);
+  const converted = toMajorUnits(amount.amount, fromCode) * rates[toCode];
+  return money(toMinorUnits(converted, toCode), toCode);
+}
+
+/**
+ * Convert money into a crypto asset at the current price
+ * @param amount Money to convert
+ * @param asset Crypto asset to convert to
+ * @returns Whole units of the asset (e.g. ether, not wei)
+ * @throws ExchangeRateError when no price is available
+ */
+export async function convertToCrypto(amount: Money, asset: CryptoAsset): Promise<number> {
+  const fromCode = toCurrencyCode(amount.currency);
+  const rate = await provider.getCryptoRate(asset, fromCode);
+
+  return toMajorUnits(amount.amount, fromCode) * rate;
+}
+
+function parseStaticRates(json: string): StaticExchangeRateProvider {
+  let parsed: Record<string, unknown>;
+
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('EXCHANGE_RATES must be a JSON object of rates per US dollar');
+  }
+
+  const rates = { ...DEFAULT_USD_RATES };
+  for (const currency of CURRENCIES) {
+    if (parsed[currency] !== undefined) {
+      rates[currency] = Number(parsed[currency]);
+    }
+  }
+
+  const cryptoRates: Partial<Record<CryptoAsset, number>> = {};
+  for (const asset of CRYPTO_ASSETS) {
+    if (parsed[asset] !== undefined) {
+      cryptoRates[asset] = Number(parsed[asset]);
+    }
+  }
+
+  return new StaticExchangeRateProvider(rates, cryptoRates);
+}
+
+/**
+ * Pick the provider from environment configuration. EXCHANGE_RATE_PROVIDER
+ * may be "static" (the default; built-in rates, or EXCHANGE_RATES as JSON
+ * rates per US dollar, which is also the only source of crypto prices,
+ * e.g. {"ETH": 0.0003}) or "http" (fetches EXCHANGE_RATE_URL, cached for
+ * EXCHANGE_RATE_TTL seconds, and crypto prices from CRYPTO_RATE_URL,
+ * cached for CRYPTO_RATE_TTL seconds).
+ */
+export function configureExchangeRates(env: NodeJS.ProcessEnv = process.env): void {
+  const kind = env.EXCHANGE_RATE_PROVIDER || 'static';
+
+  switch (kind) {
+    case 'static':
+      provider = env.EXCHANGE_RATES ? parseStaticRates(env.EXCHANGE_RATES) : new StaticExchangeRateProvider();
+      break;
+
+    case 'http':
+      provider = new HttpExchangeRateProvider(
+        env.EXCHANGE_RATE_URL || DEFAULT_RATES_URL,
+        env.EXCHANGE_RATE_TTL ? parseInt(env.EXCHANGE_RATE_TTL, 10) * 1000 : DEFAULT_RATES_TTL,
+        env.CRYPTO_RATE_URL || DEFAULT_CRYPTO_RATES_URL,
+        env.CRYPTO_RATE_TTL ? parseInt(env.CRYPTO_RATE_TTL, 10) * 1000 : DEFAULT_CRYPTO_RATES_TTL
+      );
+      break;
+
+    default:
+      throw new Error(`Unknown EXCHANGE_RATE_PROVIDER "${kind}"`);
+  }
+}
+
+configureExchangeRates();
@@ -0,0 +1,57 @@
+import { CURRENCIES, CurrencyCode } from '@shared/schema';
+import { CryptoAsset, ExchangeRateError, ExchangeRateProvider, ExchangeRates } from './types';
+
+// Approximate mid-market rates per US dollar; good enough for reporting
+// without network access, and overridable through EXCHANGE_RATES
+export const DEFAULT_USD_RATES: ExchangeRates = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  INR: 83.2,
+};
+
+/**
+ * Converts with a fixed table of rates, for offline use and tests. Crypto
+ * prices move too fast for a built-in default, so they must be given.
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'static';
+  private usdRates: ExchangeRates;
+  private cryptoUsdRates: Partial<Record<CryptoAsset, number>>;
+
+  /**
+   * @param usdRates Units of each currency per US dollar
+   * @param cryptoUsdRates Units of each crypto asset per US dollar
+   */
+  constructor(usdRates: ExchangeRates = DEFAULT_USD_RATES, cryptoUsdRates: Partial<Record<CryptoAsset, number>> = {}) {
+    for (const currency of CURRENCIES) {
+      if (!(usdRates[currency] > 0)) {
+        throw new ExchangeRateError(`No positive rate for ${currency}`);
+      }
+    }
+
+    this.usdRates = usdRates;
+    this.cryptoUsdRates = cryptoUsdRates;
+  }
+
+  async getRates(base: CurrencyCode): Promise<ExchangeRates> {
+    // Cross rates through the dollar
+    const rates = {} as ExchangeRates;
+
+    for (const currency of CURRENCIES) {
+      rates[currency] = currency === base ? 1 : this.usdRates[currency] / this.usdRates[base];
+    }
+
+    return rates;
+  }
+
+  async getCryptoRate(asset: CryptoAsset, base: CurrencyCode): Promise<number> {
+    const usdRate = this.cryptoUsdRates[asset];
+
+    if (usdRate === undefined || !(usdRate > 0)) {
+      throw new ExchangeRateError(`No ${asset} rate is configured`);
+    }
+
+    return usdRate / this.usdRates[base];
+  }
+}
@@ -0,0 +1,46 @@
+import { CurrencyCode } from '@shared/schema';
+
+/**
+ * Units of each currency worth one unit of the base currency
+ */
+export type ExchangeRates = Record<CurrencyCode, number>;
+
+export const CRYPTO_ASSETS = ['ETH'] as const;
+
+/**
+ * Crypto assets that escrow can be priced in
+ */
+export type CryptoAsset = typeof CRYPTO_ASSETS[number];
+
+/**
+ * Common interface implemented by every source of exchange rates
+ */
+export interface ExchangeRateProvider {
+  readonly name: string;
+
+  /**
+   * Current rates from a base currency to every supported currency
+   * @param base Currency to convert from
+   * @throws ExchangeRateError when no rates are available
+   */
+  getRates(base: CurrencyCode): Promise<ExchangeRates>;
+
+  /**
+   * Current price of a currency in a crypto asset
+   * @param asset Crypto asset to price in
+   * @param base Currency to convert from
+   * @returns Units of the asset worth one unit of the currency
+   * @throws ExchangeRateError when no rate is available
+   */
+  getCryptoRate(asset: CryptoAsset, base: CurrencyCode): Promise<number>;
+}
+
+/**
+ * Error raised by exchange rate providers
+ */
+export class ExchangeRateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExchangeRateError';
+  }
+}
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Contract, ContractStatus, InvoiceStatus, Milestone, MilestoneStatus, User, UserType } from '@shared/schema';
+import { storage } from '../storage';
+import { canViewInvoice, createInvoice, listInvoices, transitionInvoice } from './invoicing';
+
+let sequence = 0;
+
+describe('invoicing', () => {
+  let client: User;
+  let freelancer: User;
+  let contract: Contract;
+  let milestones: Milestone[];
+
+  beforeEach(async () => {
+    const suffix = ++sequence;
+    [client, freelancer] = await Promise.all([UserType.CLIENT, UserType.FREELANCER].map(userType =>
+      storage.createUser({
+        username: `invoicing-${userType}-${suffix}`,
+        password: 'password',
+        email: `invoicing-${userType}-${suffix}@example.com`,
+        fullName: `Invoicing ${userType}`,
+        userType
+      })
+    ));
+    const created = await storage.createContract({
+      title: 'Invoicing test',
+      description: 'Contract used by the invoicing tests',
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      totalAmount: 90000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+    });
+    contract = (await storage.updateContractStatus(created.id, ContractStatus.ACTIVE))!;
+    milestones = [];
+
+    for (const title of ['Design', 'Build', 'Launch']) {
+      const milestone = await storage.createMilestone({
+        contractId: contract.id,
+        title,
+        description: `${title} phase`,
+        amount: 30000,
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+      });
+      milestones.push((await storage.updateMilestoneStatus(milestone.id, MilestoneStatus.COMPLETED))!);
+    }
+  });
+
+  it('bills completed milestones once', async () => {
+    const invoice = await createInvoice(contract, [milestones[0].id, milestones[1].id]);
+
+    expect(invoice).toMatchObject({ status: InvoiceStatus.DRAFT, subtotal: 60000, total: 60000, number: null });
+    expect(invoice.items.map(item => item.title)).toEqual(['Design', 'Build']);
+    await expect(createInvoice(contract, [milestones[1].id])).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('refuses milestones that are unfinished or from another contract', async () => {
+    await storage.updateMilestoneStatus(milestones[2].id, MilestoneStatus.IN_PROGRESS);
+
+    await expect(createInvoice(contract, [milestones[2].id])).rejects.toMatchObject({ status: 409 });
+    await expect(createInvoice(contract, [-1])).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('numbers issued invoices without gaps, skipping drafts that were voided', async () => {
+    const first = await createInvoice(contract, [milestones[0].id]);
+    const discarded = await createInvoice(contract, [milestones[1].id]);
+    const second = await createInvoice(contract, [milestones[2].id]);
+
+    const issuedFirst = await transitionInvoice(first, InvoiceStatus.ISSUED, 'freelancer');
+    await transitionInvoice(discarded, InvoiceStatus.VOID, 'freelancer', 'Duplicate');
+    const issuedSecond = await transitionInvoice(second, InvoiceStatus.ISSUED, 'freelancer');
+
+    expect([issuedFirst.sequence, issuedSecond.sequence]).toEqual([1, 2]);
+    expect(issuedSecond.number).toMatch(new RegExp(`^INV-${freelancer.id}-0*2$`));
+  });
+
+  it('frees a voided invoice\'s milestones to be invoiced again', async () => {
+    const invoice = await createInvoice(contract, [milestones[0].id]);
+    const issued = await transitionInvoice(invoice, InvoiceStatus.ISSUED, 'freelancer');
+
+    await transitionInvoice(issued, InvoiceStatus.VOID, 'freelancer', 'Wrong amount');
+
+    await expect(createInvoice(contract, [milestones[0].id])).resolves.toMatchObject({ status: InvoiceStatus.DRAFT });
+  });
+
+  it('only lets the freelancer move an invoice along, and only forwards', async () => {
+    const invoice = await createInvoice(contract, [milestones[0].id]);
+
+    await expect(transitionInvoice(invoice, InvoiceStatus.ISSUED, 'client')).rejects.toMatchObject({ status: 403 });
+
+    const issued = await transitionInvoice(invoice, InvoiceStatus.ISSUED, 'freelancer');
+
+    await expect(transitionInvoice(issued, InvoiceStatus.PAID, 'client')).rejects.toMatchObject({ status: 403 });
+
+    const paid = await transitionInvoice(issued, InvoiceStatus.PAID, 'freelancer');
+
+    expect(paid.paidAt).toBeInstanceOf(Date);
+    await expect(transitionInvoice(paid, InvoiceStatus.VOID, 'freelancer')).rejects.toMatchObject({ status: 409 });
+    await expect(transitionInvoice(issued, InvoiceStatus.DRAFT, 'freelancer')).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('keeps drafts private to the freelancer', async () => {
+    const invoice = await createInvoice(contract, [milestones[0].id]);
+
+    expect(canViewInvoice(invoice, freelancer.id)).toBe(true);
+    expect(canViewInvoice(invoice, client.id)).toBe(false);
+    expect(await listInvoices(client.id)).toHaveLength(0);
+
+    const issued = await transitionInvoice(invoice, InvoiceStatus.ISSUED, 'freelancer');
+
+    expect(canViewInvoice(issued, client.id)).toBe(true);
+    expect((await listInvoices(client.id)).map(i => i.id)).toEqual([invoice.id]);
+  });
+});
@@ -1,36 +1,265 @@
 import { jsPDF } from "jspdf";
-import { Contract, Milestone, User, EscrowPayment } from '@shared/schema';
+import {
+  Contract,
+  Milestone,
+  User,
+  EscrowPayment,
+  Invoice,
+  InvoiceStatus,
+  InvoiceWithItems,
+  MilestoneStatus,
+  TaxLine
+} from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { money, sumMoney } from '@shared/money';
+import { storage } from '../storage';
+import { ContractRole } from '../policy';
+import { convertMoney } from './exchange-rates';
+import { getInvoiceTax } from './tax';
 
 /**
- * Generate an invoice for completed milestones
+ * Error raised when an invoice can't be created or changed
+ */
+export class InvoiceError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'InvoiceError';
+    this.status = status;
+  }
+}
+
+/**
+ * A single allowed edge in the invoice lifecycle
+ */
+interface InvoiceTransition {
+  from: InvoiceStatus;
+  to: InvoiceStatus;
+  roles: ContractRole[];
+}
+
+/**
+ * Invoice lifecycle:
+ * DRAFT -> ISSUED -> PAID, with DRAFT and ISSUED invoices voidable.
+ * Paid invoices are final; mistakes are corrected with a new invoice.
+ * Only the freelancer confirms payment, since the client saying they paid
+ * is not the freelancer receiving it.
+ */
+const INVOICE_TRANSITIONS: InvoiceTransition[] = [
+  { from: InvoiceStatus.DRAFT, to: InvoiceStatus.ISSUED, roles: ['freelancer'] },
+  { from: InvoiceStatus.DRAFT, to: InvoiceStatus.VOID, roles: ['freelancer'] },
+  { from: InvoiceStatus.ISSUED, to: InvoiceStatus.PAID, roles: ['freelancer'] },
+  { from: InvoiceStatus.ISSUED, to: InvoiceStatus.VOID, roles: ['freelancer'] },
+];
+
+/**
+ * Whether a user can see an invoice. Drafts stay private to the freelancer,
+ * including drafts voided without ever being issued.
+ * @param invoice Invoice to check
+ * @param userId User asking
+ */
+export function canViewInvoice(invoice: Invoice, userId: number): boolean {
+  if (invoice.freelancerId === userId) {
+    return true;
+  }
+
+  return invoice.clientId === userId && invoice.issuedAt !== null;
+}
+
+/**
+ * List the invoices a user raised or received, newest first
+ * @param userId Freelancer or client
+ * @returns Invoices visible to the user
+ */
+export async function listInvoices(userId: number): Promise<Invoice[]> {
+  const invoices = await storage.getInvoicesByUser(userId);
+  return invoices.filter(invoice => canViewInvoice(invoice, userId));
+}
+
+/**
+ * Load an invoice with its line items
+ * @param invoice Invoice to expand
+ * @returns The invoice and its items
+ */
+export async function getInvoiceWithItems(invoice: Invoice): Promise<InvoiceWithItems> {
+  return { ...invoice, items: await storage.getInvoiceItems(invoice.id) };
+}
+
+/**
+ * Create a draft invoice billing completed milestones of a contract, with tax
+ * lines from the freelancer's tax profile
+ * @param contract Contract the milestones belong to
+ * @param milestoneIds Milestones to bill
+ * @param notes Optional notes printed on the invoice
+ * @returns The draft invoice with its items
+ */
+export async function createInvoice(
+  contract: Contract,
+  milestoneIds: number[],
+  notes?: string
+): Promise<InvoiceWithItems> {
+  const ids = Array.from(new Set(milestoneIds));
+  const contractMilestones = await storage.getMilestonesByContract(contract.id);
+  const milestones = ids.map(id => contractMilestones.find(m => m.id === id));
+
+  if (milestones.some(m => !m)) {
+    throw new InvoiceError('Every milestone must belong to the contract', 400);
+  }
+
+  const selected = milestones as Milestone[];
+  const incomplete = selected.filter(m => m.status !== MilestoneStatus.COMPLETED);
+
+  if (incomplete.length > 0) {
+    throw new InvoiceError(`Only completed milestones can be invoiced (milestone ${incomplete[0].id} is ${incomplete[0].status})`, 409);
+  }
+
+  const alreadyInvoiced = await storage.getActiveInvoiceItemsByMilestones(ids);
+
+  if (alreadyInvoiced.length > 0) {
+    throw new InvoiceError(`Milestone ${alreadyInvoiced[0].milestoneId} is already on invoice ${alreadyInvoiced[0].invoiceId}`, 409);
+  }
+
+  const subtotal = sumMoney(selected.map(m => money(m.amount, contract.currency)), contract.currency);
+  const tax = await getInvoiceTax(subtotal, contract.freelancerId, contract.clientId);
+
+  const invoice = await storage.createInvoice(
+    {
+      contractId: contract.id,
+      freelancerId: contract.freelancerId,
+      clientId: contract.clientId,
+      subtotal: subtotal.amount,
+      total: subtotal.amount + tax.taxTotal,
+      currency: contract.currency,
+      ...tax,
+      notes: notes || null,
+    },
+    selected.map(m => ({ milestoneId: m.id, title: m.title, amount: m.amount }))
+  );
+
+  // Another request invoiced one of the milestones since the check above
+  if (!invoice) {
+    throw new InvoiceError('One of the milestones has already been invoiced', 409);
+  }
+
+  return invoice;
+}
+
+/**
+ * Move an invoice to a new status, enforcing the lifecycle rules.
+ * Issuing assigns the freelancer's next invoice number.
+ * @param invoice Invoice to transition
+ * @param to Target status
+ * @param role Contract role of the user making the change
+ * @param reason Optional note, stored when voiding
+ * @returns The updated invoice
+ */
+export async function transitionInvoice(
+  invoice: Invoice,
+  to: InvoiceStatus,
+  role: ContractRole,
+  reason?: string
+): Promise<Invoice> {
+  const from = invoice.status as InvoiceStatus;
+  const transition = INVOICE_TRANSITIONS.find(t => t.from === from && t.to === to);
+
+  if (!transition) {
+    throw new InvoiceError(`Cannot move invoice from ${from} to ${to}`, 409);
+  }
+
+  if (!transition.roles.includes(role)) {
+    throw new InvoiceError(`The ${role} cannot move an invoice from ${from} to ${to}`, 403);
+  }
+
+  let updatedInvoice: Invoice | undefined;
+
+  if (to === InvoiceStatus.ISSUED) {
+    updatedInvoice = await storage.issueInvoice(invoice.id, new Date());
+
+    // Lost a race with another status change
+    if (!updatedInvoice) {
+      throw new InvoiceError('Invoice is no longer a draft', 409);
+    }
+  } else if (to === InvoiceStatus.VOID) {
+    updatedInvoice = await storage.voidInvoice(invoice.id, new Date(), reason || null);
+  } else {
+    updatedInvoice = await storage.updateInvoice(invoice.id, { status: to, paidAt: new Date() });
+  }
+
+  if (!updatedInvoice) {
+    throw new InvoiceError('Invoice not found', 404);
+  }
+
+  return updatedInvoice;
+}
+
+/**
+ * Render an invoice as a PDF
+ * @param invoice Invoice to render
+ * @returns PDF bytes
+ */
+export async function renderInvoicePdf(invoice: Invoice): Promise<Buffer> {
+  const { items } = await getInvoiceWithItems(invoice);
+  const contract = await storage.getContract(invoice.contractId);
+  const client = await storage.getUser(invoice.clientId);
+  const freelancer = await storage.getUser(invoice.freelancerId);
+
+  if (!contract || !client || !freelancer) {
+    throw new InvoiceError('Invoice contract or parties no longer exist', 404);
+  }
+
+  const milestones: Milestone[] = [];
+  const payments: EscrowPayment[] = [];
+
+  for (const item of items) {
+    const milestone = await storage.getMilestone(item.milestoneId);
+    if (milestone) {
+      // Bill the title and amount as invoiced, even if the milestone changed since
+      milestones.push({ ...milestone, title: item.title, amount: item.amount });
+      payments.push(...await storage.getEscrowPaymentsByMilestone(milestone.id));
+    }
+  }
+
+  return generateInvoice(invoice, contract, milestones, client, freelancer, payments);
+}
+
+/**
+ * Generate an invoice PDF for completed milestones
+ * @param invoice The invoice record, for its number, dates and status
  * @param contract The contract for which to generate an invoice
  * @param milestones Completed milestones to include in the invoice
  * @param client Client information
  * @param freelancer Freelancer information
  * @param payments Associated escrow payments
- * @returns Base64 encoded PDF invoice
+ * @returns PDF bytes
  */
 export async function generateInvoice(
+  invoice: Invoice,
   contract: Contract,
   milestones: Milestone[],
   client: User,
   freelancer: User,
   payments: EscrowPayment[]
-): Promise<string> {
+): Promise<Buffer> {
   try {
     // Create a new PDF document
     const doc = new jsPDF();
     
+    // The built-in PDF fonts have no glyph for symbols such as the rupee sign,
+    // so amounts are labelled with the currency code instead
+    const formatPdfAmount = (amount: number) => formatMoney(amount, invoice.currency, { display: 'code' });
+    
     // Add company/platform logo and header
     doc.setFontSize(20);
     doc.text("SmartFlow Invoice", 105, 15, { align: "center" });
     
-    // Add invoice number and date
+    // Add invoice number and date; drafts have no number yet
     doc.setFontSize(10);
-    const invoiceNumber = `INV-${Date.now().toString().substring(0, 10)}`;
-    const today = new Date().toLocaleDateString();
+    const invoiceNumber = invoice.number || "DRAFT";
+    const invoiceDate = (invoice.issuedAt || new Date()).toLocaleDateString();
     doc.text(`Invoice Number: ${invoiceNumber}`, 150, 30, { align: "right" });
-    doc.text(`Date: ${today}`, 150, 35, { align: "right" });
+    doc.text(`Date: ${invoiceDate}`, 150, 35, { align: "right" });
+    doc.text(`Status: ${invoice.status.toUpperCase()}`, 150, 40, { align: "right" });
     
     // Add freelancer information
     doc.setFontSize(12);
@@ -39,6 +268,9 @@ export async function generateInvoice(
     doc.text(`${freelancer.fullName}`, 20, 55);
     doc.text(`ID: ${freelancer.id}`, 20, 60);
     doc.text(`Email: ${freelancer.email}`, 20, 65);
+    if (invoice.freelancerTaxId) {
+      doc.text(`Tax ID: ${invoice.freelancerTaxId}`, 20, 70);
+    }
     
     // Add client information
     doc.setFontSize(12);
@@ -47,6 +279,9 @@ export async function generateInvoice(
     doc.text(`${client.fullName}`, 20, 85);
     doc.text(`ID: ${client.id}`, 20, 90);
     doc.text(`Email: ${client.email}`, 20, 95);
+    if (invoice.clientTaxId) {
+      doc.text(`Tax ID: ${invoice.clientTaxId}`, 20, 100);
+    }
     
     // Add contract information
     doc.setFontSize(12);
@@ -69,7 +304,7 @@ export async function generateInvoice(
     
     // Add milestone details
     let y = 158;
-    let total = 0;
+    const subtotal = sumMoney(milestones.map(m => money(m.amount, invoice.currency)), invoice.currency);
     
     milestones.forEach((milestone, index) => {
       // Alternate row colors for readability
@@ -92,19 +327,42 @@ export async function generateInvoice(
         : "Not completed";
       
       doc.text(completionDate, 110, y);
-      doc.text(`$${milestone.amount.toFixed(2)}`, 160, y, { align: "right" });
-      
-      total += milestone.amount;
+      doc.text(formatPdfAmount(milestone.amount), 160, y, { align: "right" });
       y += 10;
     });
     
-    // Add total
+    // Add subtotal and tax lines
     doc.setDrawColor(200, 200, 200);
     doc.line(20, y, 190, y);
+    y += 8;
+    doc.text("Subtotal:", 120, y);
+    doc.text(formatPdfAmount(subtotal.amount), 160, y, { align: "right" });
+    
+    for (const line of invoice.taxLines as TaxLine[]) {
+      y += 6;
+      doc.text(`${line.name} (${line.rate / 100}%):`, 120, y);
+      doc.text(formatPdfAmount(line.amount), 160, y, { align: "right" });
+    }
+    
+    if (invoice.reverseCharge) {
+      y += 6;
+      doc.text("Reverse charge: the customer accounts for the tax", 20, y);
+    }
+    
+    // Add total
     y += 10;
     doc.setFontSize(12);
     doc.text("Total Amount:", 120, y);
-    doc.text(`$${total.toFixed(2)}`, 160, y, { align: "right" });
+    doc.text(formatPdfAmount(subtotal.amount + invoice.taxTotal), 160, y, { align: "right" });
+    
+    // Add notes
+    if (invoice.notes) {
+      const lines: string[] = doc.splitTextToSize(invoice.notes, 170);
+      y += 15;
+      doc.setFontSize(10);
+      doc.text(lines, 20, y);
+      y += 5 * lines.length;
+    }
     
     // Add payment information
     y += 20;
@@ -143,8 +401,7 @@ export async function generateInvoice(
       doc.text(`Page ${i} of ${pageCount}`, 105, 285, { align: "center" });
     }
     
-    // Return the PDF as base64 string
-    return doc.output('datauristring');
+    return Buffer.from(doc.output('arraybuffer'));
   } catch (error) {
     console.error('Error generating invoice:', error);
     throw new Error('Failed to generate invoice');
@@ -158,15 +415,18 @@ export async function generateInvoice(
  * @param endDate End date for the report period
  * @param contracts Completed contracts in the period
  * @param milestones Completed milestones in the period
- * @returns Earnings insights object
+ * @param currency Currency to report in, usually the freelancer's home currency
+ * @returns Earnings insights object, with amounts in minor units of currency
  */
-export function generateEarningsInsights(
+export async function generateEarningsInsights(
   freelancerId: number,
   startDate: Date,
   endDate: Date,
   contracts: Contract[],
-  milestones: Milestone[]
-): {
+  milestones: Milestone[],
+  currency: string
+): Promise<{
+  currency: string;
   totalEarned: number;
   averagePerContract: number;
   monthlyBreakdown: Array<{ month: string; earned: number }>;
@@ -181,20 +441,26 @@ export function generateEarningsInsights(
     milestonesCompleted: number;
     averageMilestoneValue: number;
   };
-} {
+}> {
   // Filter milestones to include only those completed in the date range
-  const periodMilestones = milestones.filter(milestone => {
+  const completedInPeriod = milestones.filter(milestone => {
     if (!milestone.completedDate) return false;
     const completionDate = new Date(milestone.completedDate);
     return completionDate >= startDate && completionDate <= endDate;
   });
   
+  // Convert every amount to the reporting currency so they can be summed
+  const periodMilestones = await Promise.all(completedInPeriod.map(async milestone => ({
+    ...milestone,
+    amount: (await convertMoney(money(milestone.amount, milestone.currency), currency)).amount
+  })));
+  
   // Calculate total earned
-  const totalEarned = periodMilestones.reduce((sum, milestone) => sum + milestone.amount, 0);
+  const totalEarned = sumMoney(periodMilestones.map(m => money(m.amount, currency)), currency).amount;
   
-  // Calculate average per contract
+  // Calculate average per contract, rounded to whole minor units like every other amount
   const contractIds = new Set(periodMilestones.map(m => m.contractId));
-  const averagePerContract = contractIds.size > 0 ? totalEarned / contractIds.size : 0;
+  const averagePerContract = contractIds.size > 0 ? Math.round(totalEarned / contractIds.size) : 0;
   
   // Generate monthly breakdown
   const monthlyData: Record<string, number> = {};
@@ -242,8 +508,8 @@ export function generateEarningsInsights(
   }));
   
   // Simple tax estimation (very simplified, not financial advice)
-  const estimatedTaxableIncome = totalEarned * 0.8; // Assuming 20% deductible expenses
-  const estimatedTaxDue = estimatedTaxableIncome * 0.25; // Simple 25% tax rate assumption
+  const estimatedTaxableIncome = Math.round(totalEarned * 0.8); // Assuming 20% deductible expenses
+  const estimatedTaxDue = Math.round(estimatedTaxableIncome * 0.25); // Simple 25% tax rate assumption
   
   // Performance metrics
   const performanceMetrics = {
@@ -251,11 +517,12 @@ export function generateEarningsInsights(
     contractsCompleted: contractIds.size,
     milestonesCompleted: periodMilestones.length,
     averageMilestoneValue: periodMilestones.length > 0 
-      ? totalEarned / periodMilestones.length 
+      ? Math.round(totalEarned / periodMilestones.length)
       : 0
   };
   
   return {
+    currency,
     totalEarned,
     averagePerContract,
     monthlyBreakdown,
@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Contract, ContractStatus, Milestone, MilestoneStatus, PaymentMethod, UserType } from '@shared/schema';
+import { storage } from '../storage';
+import { configurePaymentGateways } from './payment-gateways';
+import { fundMilestone, releasePayment } from './escrow';
+import { markMilestonePaid, performMilestoneAction } from './milestone-workflow';
+
+describe('marking a milestone paid', () => {
+  let contract: Contract;
+  let milestone: Milestone;
+
+  beforeAll(async () => {
+    configurePaymentGateways({ PAYMENT_GATEWAY: 'fake' });
+
+    const users = await Promise.all([UserType.CLIENT, UserType.FREELANCER].map(userType =>
+      storage.createUser({
+        username: `workflow-${userType}`,
+        password: 'password',
+        email: `workflow-${userType}@example.com`,
+        fullName: `Workflow ${userType}`,
+        userType
+      })
+    ));
+    const created = await storage.createContract({
+      title: 'Workflow test',
+      description: 'Contract used by the milestone workflow tests',
+      clientId: users[0].id,
+      freelancerId: users[1].id,
+      totalAmount: 100000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+    });
+    contract = (await storage.updateContractStatus(created.id, ContractStatus.ACTIVE))!;
+    milestone = await storage.createMilestone({
+      contractId: contract.id,
+      title: 'Everything',
+      description: 'The whole job',
+      amount: 100000,
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+    });
+  });
+
+  it('waits until the full amount has been released', async () => {
+    const cent = await fundMilestone(contract, milestone, 1, PaymentMethod.STRIPE);
+    const rest = await fundMilestone(contract, milestone, 99999, PaymentMethod.STRIPE);
+
+    for (const action of ['start', 'submit'] as const) {
+      milestone = await performMilestoneAction(milestone, contract, action, 'freelancer');
+    }
+    milestone = await performMilestoneAction(milestone, contract, 'approve', 'client');
+
+    await releasePayment(cent, contract, milestone);
+    await expect(markMilestonePaid(milestone, contract)).rejects.toMatchObject({ status: 409 });
+    expect((await storage.getMilestone(milestone.id))?.status).toBe(MilestoneStatus.READY_FOR_PAYMENT);
+
+    await releasePayment(rest, contract, milestone);
+    expect((await storage.getMilestone(milestone.id))?.status).toBe(MilestoneStatus.COMPLETED);
+  });
+});
@@ -0,0 +1,137 @@
+import { Contract, ContractStatus, EscrowPayment, EscrowStatus, Milestone, MilestoneStatus } from '@shared/schema';
+import { MILESTONE_WORKFLOW, MilestoneAction, MilestoneActor } from '@shared/milestone-workflow';
+import { formatMoney } from '@shared/currency';
+import { Money, money, subtractMoney, sumMoney } from '@shared/money';
+import { storage } from '../storage';
+import { notifyMilestoneSubmitted } from './notifications';
+import { emitWebhookEvent } from './outgoing-webhooks';
+import { getDepositRequirement } from './tier-benefits';
+
+/**
+ * Error raised when a milestone action is rejected
+ */
+export class MilestoneActionError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'MilestoneActionError';
+    this.status = status;
+  }
+}
+
+/**
+ * Apply a workflow action to a milestone after validating its current
+ * status, the actor's role and the contract state
+ * @param milestone Milestone to act on
+ * @param contract Contract the milestone belongs to
+ * @param action Workflow action
+ * @param actor Role of the acting party
+ * @param note Optional note (feedback for change requests)
+ * @returns The updated milestone
+ */
+export async function performMilestoneAction(
+  milestone: Milestone,
+  contract: Contract,
+  action: MilestoneAction,
+  actor: MilestoneActor,
+  note?: string
+): Promise<Milestone> {
+  const rule = MILESTONE_WORKFLOW[action];
+  const status = milestone.status as MilestoneStatus;
+
+  if (!rule.actors.includes(actor)) {
+    throw new MilestoneActionError(`The ${actor} cannot ${rule.label.toLowerCase()} a milestone`, 403);
+  }
+
+  if (!rule.from.includes(status)) {
+    throw new MilestoneActionError(`Cannot ${rule.label.toLowerCase()} a milestone that is ${status}`, 409);
+  }
+
+  // Party-driven work only happens while the contract is running
+  if (actor !== 'system' && contract.status !== ContractStatus.ACTIVE) {
+    throw new MilestoneActionError('Milestones can only be worked on while the contract is active', 409);
+  }
+
+  // How much must be in escrow up front depends on the client's trust tier
+  if (action === 'start') {
+    const payments = await storage.getEscrowPaymentsByMilestone(milestone.id);
+    const deposit = await getDepositRequirement(milestone, contract.clientId, payments);
+
+    if (deposit.funded < deposit.required) {
+      throw new MilestoneActionError(
+        `The client must hold at least ${formatMoney(deposit.required, contract.currency)} of this milestone in escrow before work starts`,
+        409
+      );
+    }
+  }
+
+  let updatedMilestone: Milestone | undefined;
+
+  switch (action) {
+    case 'request_changes':
+      updatedMilestone = await storage.updateMilestone(milestone.id, {
+        status: rule.to,
+        reviewFeedback: note || null
+      });
+      break;
+
+    case 'mark_paid':
+      updatedMilestone = await storage.completeMilestone(milestone.id, new Date());
+      break;
+
+    default:
+      updatedMilestone = await storage.updateMilestoneStatus(milestone.id, rule.to);
+  }
+
+  if (!updatedMilestone) {
+    throw new MilestoneActionError('Milestone not found', 404);
+  }
+
+  if (action === 'submit') {
+    await notifyMilestoneSubmitted(updatedMilestone, contract);
+  }
+
+  await emitWebhookEvent('milestone.status_changed', contract, { milestone: updatedMilestone, from: status, action });
+
+  return updatedMilestone;
+}
+
+/**
+ * Total released to the freelancer across a milestone's escrow payments
+ * @param payments Escrow payments on the milestone
+ */
+export function getReleasedAmount(payments: EscrowPayment[]): number {
+  return payments
+    .filter(p => p.status === EscrowStatus.RELEASED)
+    .reduce((sum, p) => sum + p.amount, 0);
+}
+
+/**
+ * Mark a milestone as paid once its full amount has been released from escrow
+ * @param milestone Milestone whose escrow payments were released
+ * @param contract Contract the milestone belongs to
+ * @returns The completed milestone
+ */
+export async function markMilestonePaid(milestone: Milestone, contract: Contract): Promise<Milestone> {
+  const payments = await storage.getEscrowPaymentsByMilestone(milestone.id);
+
+  // Completing early would strand whatever is still held in escrow
+  if (getReleasedAmount(payments) < milestone.amount) {
+    throw new MilestoneActionError('The full milestone amount has not been released from escrow yet', 409);
+  }
+
+  return performMilestoneAction(milestone, contract, 'mark_paid', 'system');
+}
+
+/**
+ * Part of a contract's total not yet assigned to a milestone. Milestones must
+ * add up to the total exactly before the contract can be activated.
+ * @param contract Contract to check
+ * @param milestones The contract's milestones
+ * @returns Unallocated amount; negative when the milestones exceed the total
+ */
+export function getUnallocatedAmount(contract: Contract, milestones: Milestone[]): Money {
+  const allocated = sumMoney(milestones.map(m => money(m.amount, contract.currency)), contract.currency);
+  return subtractMoney(money(contract.totalAmount, contract.currency), allocated);
+}
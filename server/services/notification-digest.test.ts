@@ -0,0 +1,124 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Contract, ContractStatus, MilestoneStatus, NotificationType, User, UserType } from '@shared/schema';
+import { storage } from '../storage';
+import { EmailError, EmailMessage, setEmailTransport } from './email';
+import { notifyContractSigned } from './notifications';
+import { sendDailyDigests, sendDeadlineReminders } from './notification-digest';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let sequence = 0;
+let sent: EmailMessage[] = [];
+let failing = false;
+
+describe('daily notification jobs', () => {
+  let client: User;
+  let freelancer: User;
+  let contract: Contract;
+
+  beforeAll(() => {
+    setEmailTransport({
+      name: 'test',
+      send: async message => {
+        if (failing) {
+          throw new EmailError('Mail server unavailable');
+        }
+        sent.push(message);
+      }
+    });
+  });
+
+  beforeEach(async () => {
+    sent = [];
+    failing = false;
+    // Empty the queue other tests left behind
+    await sendDailyDigests();
+    sent = [];
+
+    const suffix = ++sequence;
+    [client, freelancer] = await Promise.all([UserType.CLIENT, UserType.FREELANCER].map(userType =>
+      storage.createUser({
+        username: `digest-${userType}-${suffix}`,
+        password: 'password',
+        email: `digest-${userType}-${suffix}@example.com`,
+        fullName: `Digest ${userType}`,
+        userType
+      })
+    ));
+    const created = await storage.createContract({
+      title: 'Digest test',
+      description: 'Contract used by the digest tests',
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      totalAmount: 100000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * DAY)
+    });
+    contract = (await storage.updateContractStatus(created.id, ContractStatus.ACTIVE))!;
+  });
+
+  it('sends each user one digest of everything queued for them, once', async () => {
+    const now = new Date();
+
+    await notifyContractSigned(contract, client.id);
+    await notifyContractSigned(contract, client.id);
+
+    expect(await sendDailyDigests(now)).toBe(1);
+    expect(sent.map(message => message.to)).toEqual([freelancer.email]);
+    expect(await storage.getUserNotifications(freelancer.id)).toEqual([
+      expect.objectContaining({ digestPending: false, emailedAt: now }),
+      expect.objectContaining({ digestPending: false, emailedAt: now })
+    ]);
+
+    expect(await sendDailyDigests()).toBe(0);
+  });
+
+  it('keeps notifications queued when their digest can\'t be sent', async () => {
+    await notifyContractSigned(contract, client.id);
+
+    failing = true;
+    expect(await sendDailyDigests()).toBe(0);
+
+    failing = false;
+    expect(await sendDailyDigests()).toBe(1);
+  });
+
+  it('reminds both parties of an unfinished milestone due soon, once', async () => {
+    const now = new Date();
+    const milestone = await storage.createMilestone({
+      contractId: contract.id,
+      title: 'Due tomorrow',
+      description: 'Nearly due',
+      amount: 50000,
+      dueDate: new Date(now.getTime() + DAY)
+    });
+    // Finished milestones and ones further out are left alone
+    const finished = await storage.createMilestone({
+      contractId: contract.id,
+      title: 'Done',
+      description: 'Already approved',
+      amount: 25000,
+      dueDate: new Date(now.getTime() + DAY)
+    });
+    await storage.updateMilestoneStatus(finished.id, MilestoneStatus.COMPLETED);
+    await storage.createMilestone({
+      contractId: contract.id,
+      title: 'Next week',
+      description: 'Not due yet',
+      amount: 25000,
+      dueDate: new Date(now.getTime() + 7 * DAY)
+    });
+
+    expect(await sendDeadlineReminders(now)).toBe(1);
+    expect(await sendDeadlineReminders(now)).toBe(0);
+
+    for (const user of [client, freelancer]) {
+      expect(await storage.getUserNotifications(user.id)).toEqual([
+        expect.objectContaining({
+          type: NotificationType.MILESTONE_DUE_SOON,
+          data: expect.objectContaining({ milestoneId: milestone.id })
+        })
+      ]);
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import { ContractStatus, MilestoneStatus, Notification, NotificationType } from '@shared/schema';
+import { storage } from '../storage';
+import { renderDigestEmail, sendEmail } from './email';
+import { notifyMilestoneDueSoon } from './notifications';
+import { parseHourOfDay, runDailyAt } from './scheduling';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Milestones due within this window get a reminder
+const DEADLINE_REMINDER_WINDOW = 2 * DAY;
+
+// Hour of the day (UTC) the daily jobs run, unless NOTIFICATION_DIGEST_HOUR overrides it
+const DEFAULT_DIGEST_HOUR = 8;
+
+const FINISHED_MILESTONE_STATUSES = [MilestoneStatus.READY_FOR_PAYMENT, MilestoneStatus.COMPLETED];
+
+/**
+ * Email each user one digest of their pending low-priority notifications.
+ * Notifications stay queued if their digest can't be sent, so they go out
+ * with the next one.
+ * @param now Time the digest is sent
+ * @returns Number of digests sent
+ */
+export async function sendDailyDigests(now: Date = new Date()): Promise<number> {
+  const pending = await storage.getPendingDigestNotifications();
+  const byUser = new Map<number, Notification[]>();
+
+  for (const notification of pending) {
+    byUser.set(notification.userId, [...(byUser.get(notification.userId) || []), notification]);
+  }
+
+  let sent = 0;
+
+  for (const [userId, notifications] of Array.from(byUser.entries())) {
+    try {
+      const user = await storage.getUser(userId);
+
+      if (user) {
+        await sendEmail(renderDigestEmail(user, notifications));
+        sent++;
+      }
+
+      // Users that no longer exist are dropped from the queue too
+      for (const notification of notifications) {
+        await storage.updateNotification(notification.id, {
+          digestPending: false,
+          emailedAt: user ? now : null
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to send digest to user ${userId}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Remind both parties about unfinished milestones on active contracts that
+ * are due soon. Each party is reminded once per milestone.
+ * @param now Time the check runs
+ * @returns Number of milestones reminders were sent for
+ */
+export async function sendDeadlineReminders(now: Date = new Date()): Promise<number> {
+  const milestones = await storage.getMilestonesDueBetween(now, new Date(now.getTime() + DEADLINE_REMINDER_WINDOW));
+  let reminded = 0;
+
+  for (const milestone of milestones) {
+    if (FINISHED_MILESTONE_STATUSES.includes(milestone.status as MilestoneStatus)) {
+      continue;
+    }
+
+    const contract = await storage.getContract(milestone.contractId);
+
+    if (!contract || contract.status !== ContractStatus.ACTIVE) {
+      continue;
+    }
+
+    let sentAny = false;
+
+    for (const userId of [contract.freelancerId, contract.clientId]) {
+      const existing = await storage.getUserNotifications(userId);
+      const alreadyReminded = existing.some(n =>
+        n.type === NotificationType.MILESTONE_DUE_SOON &&
+        (n.data as Record<string, unknown> | null)?.milestoneId === milestone.id
+      );
+
+      if (!alreadyReminded) {
+        await notifyMilestoneDueSoon(userId, milestone, contract);
+        sentAny = true;
+      }
+    }
+
+    if (sentAny) {
+      reminded++;
+    }
+  }
+
+  return reminded;
+}
+
+/**
+ * Run the deadline reminders and then the digest once a day
+ * @throws Error when NOTIFICATION_DIGEST_HOUR isn't an hour of the day
+ */
+export function scheduleNotificationJobs(env: NodeJS.ProcessEnv = process.env): void {
+  const hour = parseHourOfDay(env.NOTIFICATION_DIGEST_HOUR, 'NOTIFICATION_DIGEST_HOUR', DEFAULT_DIGEST_HOUR);
+
+  runDailyAt('Daily notification jobs', hour, async () => {
+    // Reminders first, so any that are set to digest go out today
+    await sendDeadlineReminders();
+    await sendDailyDigests();
+  });
+}
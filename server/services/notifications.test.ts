@@ -0,0 +1,157 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  Contract, ContractStatus, EmailDelivery, Milestone, NotificationType, PaymentMethod, User, UserType
+} from '@shared/schema';
+import { storage } from '../storage';
+import { pushNotification } from '../notification-socket';
+import { configurePaymentGateways } from './payment-gateways';
+import { EmailMessage, setEmailTransport } from './email';
+import { fundMilestone } from './escrow';
+import {
+  getNotificationPreferences, notifyContractSigned, notifyMilestoneSubmitted, updateNotificationPreferences
+} from './notifications';
+
+vi.mock('../notification-socket', () => ({ pushNotification: vi.fn() }));
+
+let sequence = 0;
+const sent: EmailMessage[] = [];
+
+describe('notifications', () => {
+  let client: User;
+  let freelancer: User;
+  let contract: Contract;
+  let milestone: Milestone;
+
+  beforeAll(() => {
+    configurePaymentGateways({ PAYMENT_GATEWAY: 'fake' });
+    setEmailTransport({ name: 'test', send: async message => { sent.push(message); } });
+  });
+
+  beforeEach(async () => {
+    vi.mocked(pushNotification).mockClear();
+    sent.length = 0;
+
+    const suffix = ++sequence;
+    [client, freelancer] = await Promise.all([UserType.CLIENT, UserType.FREELANCER].map(userType =>
+      storage.createUser({
+        username: `notifications-${userType}-${suffix}`,
+        password: 'password',
+        email: `notifications-${userType}-${suffix}@example.com`,
+        fullName: `Notifications ${userType}`,
+        userType
+      })
+    ));
+    const created = await storage.createContract({
+      title: 'Notification test',
+      description: 'Contract used by the notification tests',
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      totalAmount: 100000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+    });
+    contract = (await storage.updateContractStatus(created.id, ContractStatus.ACTIVE))!;
+    milestone = await storage.createMilestone({
+      contractId: contract.id,
+      title: 'Everything',
+      description: 'The whole job',
+      amount: 100000,
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+    });
+  });
+
+  it('tells only the other party when one of them signs', async () => {
+    await notifyContractSigned(contract, client.id);
+
+    expect(await storage.getUserNotifications(client.id)).toHaveLength(0);
+    expect(await storage.getUserNotifications(freelancer.id)).toEqual([
+      expect.objectContaining({ type: NotificationType.CONTRACT_SIGNED, data: { contractId: contract.id }, read: false })
+    ]);
+  });
+
+  it('tells both parties when the system activates a contract', async () => {
+    await notifyContractSigned(contract, null);
+
+    expect(await storage.getUserNotifications(client.id)).toHaveLength(1);
+    expect(await storage.getUserNotifications(freelancer.id)).toHaveLength(1);
+  });
+
+  it('stores and pushes a notification to the freelancer when escrow is funded', async () => {
+    const payment = await fundMilestone(contract, milestone, 100000, PaymentMethod.STRIPE);
+
+    const [notification] = await storage.getUserNotifications(freelancer.id);
+
+    expect(notification).toMatchObject({
+      type: NotificationType.ESCROW_FUNDED,
+      data: { contractId: contract.id, milestoneId: milestone.id, paymentId: payment.id }
+    });
+    expect(pushNotification).toHaveBeenCalledWith(notification);
+    expect(await storage.getUserNotifications(client.id)).toHaveLength(0);
+  });
+
+  it('marks one or all of a user\'s notifications as read', async () => {
+    await notifyContractSigned(contract, null);
+    await notifyContractSigned(contract, null);
+
+    const [first] = await storage.getUserNotifications(freelancer.id);
+
+    expect((await storage.markNotificationAsRead(first.id))?.read).toBe(true);
+    expect(await storage.markAllNotificationsAsRead(freelancer.id)).toBe(1);
+    expect((await storage.getUserNotifications(freelancer.id)).every(n => n.read)).toBe(true);
+    // The other party's are untouched
+    expect((await storage.getUserNotifications(client.id)).some(n => !n.read)).toBe(true);
+  });
+
+  describe('preferences', () => {
+    it('emails urgent types straight away and batches the rest for the digest by default', async () => {
+      await notifyMilestoneSubmitted(milestone, contract);
+      await notifyContractSigned(contract, client.id);
+
+      // Immediate email isn't awaited by the action that triggered it
+      await vi.waitFor(() => expect(sent).toHaveLength(1));
+
+      expect(sent[0]).toMatchObject({ to: client.email, subject: 'A milestone is ready for your review' });
+      expect(await storage.getUserNotifications(freelancer.id)).toEqual([
+        expect.objectContaining({ type: NotificationType.CONTRACT_SIGNED, digestPending: true, emailedAt: null })
+      ]);
+    });
+
+    it('falls back to the defaults for types the user has not changed', async () => {
+      await updateNotificationPreferences(client.id, [
+        { type: NotificationType.MILESTONE_SUBMITTED, inApp: false, email: EmailDelivery.DIGEST }
+      ]);
+
+      const preferences = await getNotificationPreferences(client.id);
+
+      expect(preferences).toHaveLength(Object.values(NotificationType).length);
+      expect(preferences.find(p => p.type === NotificationType.MILESTONE_SUBMITTED))
+        .toEqual({ type: NotificationType.MILESTONE_SUBMITTED, inApp: false, email: EmailDelivery.DIGEST });
+      expect(preferences.find(p => p.type === NotificationType.DISPUTE_OPENED))
+        .toEqual({ type: NotificationType.DISPUTE_OPENED, inApp: true, email: EmailDelivery.IMMEDIATE });
+    });
+
+    it('keeps a notification muted in the app as read, and still emails it', async () => {
+      await updateNotificationPreferences(client.id, [
+        { type: NotificationType.MILESTONE_SUBMITTED, inApp: false, email: EmailDelivery.IMMEDIATE }
+      ]);
+
+      await notifyMilestoneSubmitted(milestone, contract);
+      await vi.waitFor(() => expect(sent).toHaveLength(1));
+
+      expect(await storage.getUserNotifications(client.id)).toEqual([expect.objectContaining({ read: true })]);
+      expect(pushNotification).not.toHaveBeenCalled();
+    });
+
+    it('drops a notification turned off on every channel', async () => {
+      await updateNotificationPreferences(client.id, [
+        { type: NotificationType.MILESTONE_SUBMITTED, inApp: false, email: EmailDelivery.OFF }
+      ]);
+
+      await notifyMilestoneSubmitted(milestone, contract);
+
+      expect(await storage.getUserNotifications(client.id)).toHaveLength(0);
+      expect(pushNotification).not.toHaveBeenCalled();
+      expect(sent).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import {
+  Contract, Dispute, EmailDelivery, EscrowPayment, Milestone, Notification, NotificationType, TrustScoreSnapshot
+} from '@shared/schema';
+import { formatMoney } from '@shared/currency';
+import { storage } from '../storage';
+import { pushNotification } from '../notification-socket';
+import { renderNotificationEmail, sendEmail } from './email';
+
+export interface NotificationPreferenceSettings {
+  type: NotificationType;
+  inApp: boolean;
+  email: EmailDelivery;
+}
+
+// Low-priority types are batched into the daily digest; the rest are emailed straight away
+const DEFAULT_EMAIL_DELIVERY: Record<NotificationType, EmailDelivery> = {
+  [NotificationType.CONTRACT_SIGNED]: EmailDelivery.DIGEST,
+  [NotificationType.MILESTONE_SUBMITTED]: EmailDelivery.IMMEDIATE,
+  [NotificationType.ESCROW_FUNDED]: EmailDelivery.DIGEST,
+  [NotificationType.PAYMENT_RELEASED]: EmailDelivery.IMMEDIATE,
+  [NotificationType.DISPUTE_OPENED]: EmailDelivery.IMMEDIATE,
+  [NotificationType.MILESTONE_DUE_SOON]: EmailDelivery.IMMEDIATE,
+  [NotificationType.TRUST_TIER_CHANGED]: EmailDelivery.DIGEST,
+};
+
+function formatAmount(payment: EscrowPayment): string {
+  return formatMoney(payment.amount, payment.currency);
+}
+
+/**
+ * What the freelancer receives from a released payment, and when
+ */
+function describePayout(payment: EscrowPayment): string {
+  if (payment.payoutAmount === null) {
+    return '';
+  }
+
+  const payout = formatMoney(payment.payoutAmount, payment.currency);
+  if (payment.paidOutAt || !payment.payoutDueAt) {
+    return ` ${payout} has been paid out after the platform fee.`;
+  }
+
+  return ` ${payout} will be paid out after the platform fee by ${payment.payoutDueAt.toUTCString()}.`;
+}
+
+/**
+ * A user's delivery settings for every notification type, falling back to
+ * the defaults for types they haven't changed
+ * @param userId User to look up
+ */
+export async function getNotificationPreferences(userId: number): Promise<NotificationPreferenceSettings[]> {
+  const stored = await storage.getNotificationPreferences(userId);
+
+  return Object.values(NotificationType).map(type => {
+    const preference = stored.find(p => p.type === type);
+
+    return preference
+      ? { type, inApp: preference.inApp, email: preference.email as EmailDelivery }
+      : { type, inApp: true, email: DEFAULT_EMAIL_DELIVERY[type] };
+  });
+}
+
+/**
+ * Save delivery settings for one or more notification types
+ * @param userId User changing their settings
+ * @param preferences New settings per type
+ * @returns The user's settings for every type
+ */
+export async function updateNotificationPreferences(
+  userId: number,
+  preferences: NotificationPreferenceSettings[]
+): Promise<NotificationPreferenceSettings[]> {
+  for (const { type, inApp, email } of preferences) {
+    await storage.setNotificationPreference({ userId, type, inApp, email });
+  }
+
+  return getNotificationPreferences(userId);
+}
+
+/**
+ * Email a single notification now and record when it was sent
+ */
+async function emailNotification(notification: Notification): Promise<void> {
+  try {
+    const user = await storage.getUser(notification.userId);
+
+    if (!user) {
+      return;
+    }
+
+    await sendEmail(renderNotificationEmail(notification, user));
+    await storage.updateNotification(notification.id, { emailedAt: new Date() });
+  } catch (error) {
+    console.error(`Failed to email notification ${notification.id}:`, error);
+  }
+}
+
+/**
+ * Store a notification and deliver it on the channels the user chose:
+ * pushed to their open sockets, and emailed now or queued for the digest.
+ * Failures are logged rather than thrown, so they never undo the action
+ * being reported.
+ * @param userId Recipient
+ * @param type Notification type
+ * @param title Short headline
+ * @param message Body text
+ * @param data Ids of the records involved, for linking from the client
+ * @returns The stored notification, if it could be created
+ */
+async function notify(
+  userId: number,
+  type: NotificationType,
+  title: string,
+  message: string,
+  data: Record<string, number | null>
+): Promise<Notification | undefined> {
+  try {
+    const preferences = await getNotificationPreferences(userId);
+    const preference = preferences.find(p => p.type === type)!;
+
+    if (!preference.inApp && preference.email === EmailDelivery.OFF) {
+      return undefined;
+    }
+
+    // With in-app muted the notification is still kept (and emailed), but as already read
+    const notification = await storage.createNotification({
+      userId,
+      type,
+      title,
+      message,
+      data,
+      read: !preference.inApp,
+      digestPending: preference.email === EmailDelivery.DIGEST
+    });
+
+    if (preference.inApp) {
+      pushNotification(notification);
+    }
+
+    // Not awaited: a slow mail server shouldn't hold up the request that triggered this
+    if (preference.email === EmailDelivery.IMMEDIATE) {
+      void emailNotification(notification);
+    }
+
+    return notification;
+  } catch (error) {
+    console.error(`Failed to send ${type} notification to user ${userId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Tell the other party (or both, for system changes) that a contract was
+ * agreed and is now active
+ * @param contract The activated contract
+ * @param signedBy User whose action activated it, if any
+ */
+export async function notifyContractSigned(contract: Contract, signedBy: number | null): Promise<void> {
+  const recipients = [contract.clientId, contract.freelancerId].filter(id => id !== signedBy);
+
+  for (const userId of recipients) {
+    await notify(
+      userId,
+      NotificationType.CONTRACT_SIGNED,
+      'Contract signed',
+      `"${contract.title}" has been signed by both parties and is now active.`,
+      { contractId: contract.id }
+    );
+  }
+}
+
+/**
+ * Tell the client that a milestone is waiting for their review
+ * @param milestone The submitted milestone
+ * @param contract Contract the milestone belongs to
+ */
+export async function notifyMilestoneSubmitted(milestone: Milestone, contract: Contract): Promise<void> {
+  await notify(
+    contract.clientId,
+    NotificationType.MILESTONE_SUBMITTED,
+    'Milestone submitted for review',
+    `"${milestone.title}" on "${contract.title}" is ready for your review.`,
+    { contractId: contract.id, milestoneId: milestone.id }
+  );
+}
+
+/**
+ * Tell the freelancer that funds for a milestone are held in escrow
+ * @param payment The funded escrow payment
+ * @param milestone Milestone the payment funds
+ * @param contract Contract the milestone belongs to
+ */
+export async function notifyEscrowFunded(
+  payment: EscrowPayment,
+  milestone: Milestone,
+  contract: Contract
+): Promise<void> {
+  await notify(
+    contract.freelancerId,
+    NotificationType.ESCROW_FUNDED,
+    'Escrow funded',
+    `${formatAmount(payment)} is held in escrow for "${milestone.title}" on "${contract.title}".`,
+    { contractId: contract.id, milestoneId: milestone.id, paymentId: payment.id }
+  );
+}
+
+/**
+ * Tell the freelancer that an escrow payment was released to them
+ * @param payment The released escrow payment
+ * @param milestone Milestone the payment funded
+ * @param contract Contract the milestone belongs to
+ */
+export async function notifyPaymentReleased(
+  payment: EscrowPayment,
+  milestone: Milestone,
+  contract: Contract
+): Promise<void> {
+  await notify(
+    contract.freelancerId,
+    NotificationType.PAYMENT_RELEASED,
+    'Payment released',
+    `${formatAmount(payment)} for "${milestone.title}" on "${contract.title}" has been released to you.${describePayout(payment)}`,
+    { contractId: contract.id, milestoneId: milestone.id, paymentId: payment.id }
+  );
+}
+
+/**
+ * Tell the respondent that a dispute was opened against them
+ * @param dispute The opened dispute
+ * @param contract Disputed contract
+ */
+export async function notifyDisputeOpened(dispute: Dispute, contract: Contract): Promise<void> {
+  await notify(
+    dispute.respondent,
+    NotificationType.DISPUTE_OPENED,
+    'Dispute opened',
+    `A dispute was opened on "${contract.title}": ${dispute.reason}`,
+    { contractId: contract.id, milestoneId: dispute.milestoneId, disputeId: dispute.id }
+  );
+}
+
+/**
+ * Remind a party that a milestone is due soon
+ * @param userId Party to remind
+ * @param milestone Milestone nearing its due date
+ * @param contract Contract the milestone belongs to
+ */
+export async function notifyMilestoneDueSoon(userId: number, milestone: Milestone, contract: Contract): Promise<void> {
+  await notify(
+    userId,
+    NotificationType.MILESTONE_DUE_SOON,
+    'Milestone due soon',
+    `"${milestone.title}" on "${contract.title}" is due ${milestone.dueDate.toDateString()}.`,
+    { contractId: contract.id, milestoneId: milestone.id }
+  );
+}
+
+/**
+ * Tell a user their trust score moved them into a different tier
+ * @param snapshot The snapshot that crossed the boundary
+ * @param previousTier Tier of the snapshot before it
+ * @param promoted Whether the new tier is higher
+ */
+export async function notifyTrustTierChanged(
+  snapshot: TrustScoreSnapshot,
+  previousTier: string,
+  promoted: boolean
+): Promise<void> {
+  const capitalize = (tier: string) => tier.charAt(0).toUpperCase() + tier.slice(1);
+
+  await notify(
+    snapshot.userId,
+    NotificationType.TRUST_TIER_CHANGED,
+    promoted ? 'Trust tier upgraded' : 'Trust tier lowered',
+    `Your trust score is now ${snapshot.overallScore}, which ${promoted ? 'moves you up' : 'moves you down'} from ${capitalize(previousTier)} to ${capitalize(snapshot.tier)}.`,
+    { snapshotId: snapshot.id }
+  );
+}
@@ -0,0 +1,230 @@
+import { z } from 'zod';
+
+// A JSON schema object as used by OpenAPI 3.0
+export type OpenApiSchema = Record<string, unknown>;
+
+export interface RegisteredRoute {
+  method: string; // Lower case, e.g. 'get'
+  path: string; // Express path, e.g. '/api/contracts/:id'
+}
+
+// Minimal view of Express's routing internals used to list routes
+interface RouteLayer {
+  route?: {
+    path: unknown;
+    methods: Record<string, boolean>;
+  };
+}
+
+// Database column bounds that drizzle-zod adds to every integer; they say nothing to API users
+const STORAGE_NUMBER_LIMIT = 2147483647;
+
+function isStorageBound(value: number): boolean {
+  return Math.abs(value) >= STORAGE_NUMBER_LIMIT;
+}
+
+function stringSchema(schema: z.ZodString): OpenApiSchema {
+  const result: OpenApiSchema = { type: 'string' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result.minLength = check.value;
+        break;
+      case 'max':
+        result.maxLength = check.value;
+        break;
+      case 'length':
+        result.minLength = check.value;
+        result.maxLength = check.value;
+        break;
+      case 'email':
+        result.format = 'email';
+        break;
+      case 'url':
+        result.format = 'uri';
+        break;
+      case 'uuid':
+        result.format = 'uuid';
+        break;
+      case 'datetime':
+        result.format = 'date-time';
+        break;
+      case 'regex':
+        result.pattern = check.regex.source;
+        break;
+    }
+  }
+
+  return result;
+}
+
+function numberSchema(schema: z.ZodNumber): OpenApiSchema {
+  const result: OpenApiSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    if (check.kind === 'int') {
+      result.type = 'integer';
+    } else if (check.kind === 'min' && !isStorageBound(check.value)) {
+      result.minimum = check.value;
+      if (!check.inclusive) {
+        result.exclusiveMinimum = true;
+      }
+    } else if (check.kind === 'max' && !isStorageBound(check.value)) {
+      result.maximum = check.value;
+      if (!check.inclusive) {
+        result.exclusiveMaximum = true;
+      }
+    }
+  }
+
+  return result;
+}
+
+function objectSchema(schema: z.AnyZodObject): OpenApiSchema {
+  const properties: Record<string, OpenApiSchema> = {};
+  const required: string[] = [];
+
+  for (const [name, field] of Object.entries(schema.shape as z.ZodRawShape)) {
+    properties[name] = zodToOpenApi(field);
+
+    // Defaulted fields are optional to send even though they are always present after parsing
+    if (!field.isOptional()) {
+      required.push(name);
+    }
+  }
+
+  const result: OpenApiSchema = { type: 'object', properties };
+
+  if (required.length) {
+    result.required = required;
+  }
+
+  return result;
+}
+
+function enumSchema(values: unknown[]): OpenApiSchema {
+  return { type: typeof values[0] === 'number' ? 'number' : 'string', enum: values };
+}
+
+/**
+ * Describe a zod schema as an OpenAPI 3.0 schema object. Refinements and
+ * transforms can't be expressed, so they are described by their input type.
+ * @param schema Zod schema, as used to parse requests
+ * @returns OpenAPI schema object
+ */
+export function zodToOpenApi(schema: z.ZodTypeAny): OpenApiSchema {
+  const result = convert(schema);
+
+  if (schema.description) {
+    result.description = schema.description;
+  }
+
+  return result;
+}
+
+function convert(schema: z.ZodTypeAny): OpenApiSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return stringSchema(schema as z.ZodString);
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return numberSchema(schema as z.ZodNumber);
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer', format: 'int64' };
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      // Dates travel as ISO 8601 strings in JSON
+      return { type: 'string', format: 'date-time' };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return enumSchema([def.value]);
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return enumSchema(def.values);
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      // Numeric TypeScript enums also map names to values; keep only the values
+      return enumSchema(Object.entries(def.values)
+        .filter(([key]) => isNaN(Number(key)))
+        .map(([, value]) => value));
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return objectSchema(schema as z.AnyZodObject);
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const result: OpenApiSchema = { type: 'array', items: zodToOpenApi(def.type) };
+      if (def.minLength) {
+        result.minItems = def.minLength.value;
+      }
+      if (def.maxLength) {
+        result.maxItems = def.maxLength.value;
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodTuple:
+      return { type: 'array', items: { oneOf: def.items.map(zodToOpenApi) } };
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToOpenApi(def.valueType) };
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { anyOf: Array.from(def.options as z.ZodTypeAny[]).map(zodToOpenApi) };
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [zodToOpenApi(def.left), zodToOpenApi(def.right)] };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToOpenApi(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { ...zodToOpenApi(def.innerType), nullable: true };
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToOpenApi(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToOpenApi(def.schema);
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return zodToOpenApi(def.type);
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToOpenApi(def.in);
+    default:
+      // z.any(), z.unknown() and recursive (lazy) types such as JSON columns accept anything
+      return {};
+  }
+}
+
+/**
+ * List the routes registered directly on an app or router
+ * @param router Express app or router
+ * @param basePath Path the router is mounted at
+ * @returns Registered routes in registration order
+ */
+export function listRoutes(router: object, basePath: string = ''): RegisteredRoute[] {
+  // An app keeps its routes on an internal router, created on first use
+  const internal = router as { stack?: RouteLayer[]; _router?: { stack: RouteLayer[] } };
+  const stack = internal.stack || internal._router?.stack || [];
+  const routes: RegisteredRoute[] = [];
+
+  for (const layer of stack) {
+    // Only string paths can be documented; regular expression routes are skipped
+    if (!layer.route || typeof layer.route.path !== 'string') {
+      continue;
+    }
+
+    for (const method of Object.keys(layer.route.methods)) {
+      if (method !== '_all') {
+        routes.push({ method, path: `${basePath}${layer.route.path}` });
+      }
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Convert an Express path to OpenAPI form
+ * @param path Express path, e.g. '/api/contracts/:id'
+ * @returns OpenAPI path and its parameter names, e.g. '/api/contracts/{id}' and ['id']
+ */
+export function toOpenApiPath(path: string): { path: string; params: string[] } {
+  const params: string[] = [];
+  const converted = path.replace(/:(\w+)/g, (_match, name: string) => {
+    params.push(name);
+    return `{${name}}`;
+  });
+
+  return { path: converted, params };
+}
@@ -0,0 +1,92 @@
+import dns from 'dns';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { UserType } from '@shared/schema';
+import { storage } from '../storage';
+import { createWebhookSubscription, redeliverWebhook } from './outgoing-webhooks';
+
+describe('webhook destinations', () => {
+  let userId: number;
+  let receiver: http.Server;
+  let port: number;
+  let received = 0;
+
+  beforeAll(async () => {
+    const user = await storage.createUser({
+      username: 'webhook-destinations',
+      password: 'password',
+      email: 'webhook-destinations@example.com',
+      fullName: 'Webhook Destinations',
+      userType: UserType.CLIENT
+    });
+    userId = user.id;
+
+    // Stands in for an internal service that must never be reached
+    receiver = http.createServer((_req, res) => {
+      received++;
+      res.end('internal data');
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    port = (receiver.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => receiver.close(resolve));
+  });
+
+  it.each([
+    'http://127.0.0.1/hook',
+    'http://localhost/hook',
+    'http://10.1.2.3/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'http://[::ffff:a9fe:a9fe]/hook',
+    'http://[fd00::1]/hook',
+    'ftp://example.com/hook'
+  ])('refuses to subscribe %s', async url => {
+    await expect(
+      createWebhookSubscription(userId, { url, events: ['contract.created'] })
+    ).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('subscribes a public address', async () => {
+    const created = await createWebhookSubscription(userId, {
+      url: 'https://93.184.216.34/hook',
+      events: ['contract.created']
+    });
+
+    expect(created.subscription.url).toBe('https://93.184.216.34/hook');
+  });
+
+  it('does not send to a host that has started resolving to an internal address', async () => {
+    // The host passed the check when subscribing, then its DNS was changed
+    const url = `http://localhost:${port}/hook`;
+    const lookup = vi.spyOn(dns.promises, 'lookup')
+      .mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+
+    try {
+      const created = await createWebhookSubscription(userId, { url, events: ['contract.created'] });
+      const subscription = (await storage.getWebhookSubscription(created.subscription.id))!;
+
+      const delivery = await storage.createWebhookDelivery({
+        subscriptionId: subscription.id,
+        eventId: 'evt_rebinding',
+        eventType: 'contract.created',
+        payload: {},
+        nextAttemptAt: new Date()
+      });
+
+      // Passes the pre-send check too; only the lookup made when connecting sees localhost
+      const attempted = await redeliverWebhook(delivery, subscription);
+
+      expect(attempted.responseStatus).toBeNull();
+      expect(attempted.error).toBe('localhost resolves to an internal address');
+    } finally {
+      lookup.mockRestore();
+    }
+
+    expect(received).toBe(0);
+  });
+});
@@ -0,0 +1,489 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import {
+  Contract,
+  InsertWebhookDelivery,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscription
+} from '@shared/schema';
+import {
+  API_NONCE_HEADER,
+  API_SIGNATURE_HEADER,
+  API_TIMESTAMP_HEADER,
+  signRequest
+} from '@shared/api-signing';
+import { storage } from '../storage';
+import { runPeriodically } from './scheduling';
+import { decryptSecret, encryptSecret } from './secret-encryption';
+
+// Subscription as shown to its owner; the secret is only returned when it is created
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'encryptedSecret'>;
+
+export interface CreatedWebhookSubscription {
+  subscription: PublicWebhookSubscription;
+  secret: string;
+}
+
+/**
+ * Error raised when a webhook subscription operation is rejected
+ */
+export class WebhookError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'WebhookError';
+    this.status = status;
+  }
+}
+
+// Attempts per delivery, including the first; retries wait 1, 2, 4 ... 64 minutes
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY = 60 * 1000;
+
+// Consecutive failed attempts after which a subscription is turned off
+const DISABLE_AFTER_FAILURES = 20;
+
+const REQUEST_TIMEOUT = 10 * 1000;
+
+// How often the retry queue is checked
+const RETRY_POLL_INTERVAL = 15 * 1000;
+
+const DELIVERY_LOG_LIMIT = 100;
+
+export const WEBHOOK_EVENT_HEADER = 'x-webhook-event';
+export const WEBHOOK_ID_HEADER = 'x-webhook-id';
+export const WEBHOOK_DELIVERY_HEADER = 'x-webhook-delivery';
+
+/**
+ * Strip the encrypted secret for display
+ * @param subscription Stored subscription
+ */
+export function toPublicWebhookSubscription(subscription: WebhookSubscription): PublicWebhookSubscription {
+  const { encryptedSecret: _encryptedSecret, ...rest } = subscription;
+  return rest;
+}
+
+// Loopback, private, link-local (including cloud metadata endpoints), shared,
+// reserved and multicast ranges. Deliveries are made from inside our network,
+// so a URL pointing at any of these could be used to reach internal services.
+const INTERNAL_ADDRESSES = new net.BlockList();
+
+for (const [prefix, length] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(prefix, length, 'ipv4');
+}
+
+// BlockList applies the IPv4 rules to IPv4-mapped addresses (::ffff:a.b.c.d) itself.
+// IPv4-compatible and NAT64 addresses would otherwise smuggle those ranges through.
+for (const [prefix, length] of [
+  ['::', 96], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64],
+  ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(prefix, length, 'ipv6');
+}
+INTERNAL_ADDRESSES.addAddress('::1', 'ipv6');
+
+function isInternalAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family === 0 || INTERNAL_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * dns.lookup that fails when any address the host resolves to is internal.
+ * Passed to http(s).request so the address connected to is the one checked,
+ * even if the host's DNS answer changes between checking and sending.
+ */
+const lookupPublicAddress = ((hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '', 0);
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address))) {
+      return callback(new WebhookError(`${hostname} resolves to an internal address`, 400), '', 0);
+    }
+
+    // net.connect asks for every address when it will try them in turn
+    if (options.all) {
+      return (callback as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    }
+
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as net.LookupFunction;
+
+/**
+ * Reject webhook URLs that aren't http(s), or whose host is or resolves to an
+ * internal address
+ * @param url Target URL
+ * @returns The parsed URL
+ */
+async function checkUrl(url: string): Promise<URL> {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookError('Webhook URL is not valid', 400);
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new WebhookError('Webhook URL must use http or https', 400);
+  }
+
+  // Payloads carry contract details, so they shouldn't travel in the clear outside development
+  if (process.env.NODE_ENV === 'production' && parsed.protocol !== 'https:') {
+    throw new WebhookError('Webhook URL must use https', 400);
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: dns.LookupAddress[];
+
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    throw new WebhookError(`Webhook URL host ${hostname} could not be resolved`, 400);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address))) {
+    throw new WebhookError('Webhook URL must not point to an internal address', 400);
+  }
+
+  return parsed;
+}
+
+/**
+ * Subscribe a user to contract events
+ * @param userId Subscribing user
+ * @param options Target URL, events to send, an optional description and secret
+ * @returns The subscription and its signing secret
+ */
+export async function createWebhookSubscription(
+  userId: number,
+  options: { url: string; events: WebhookEventType[]; description?: string; secret?: string }
+): Promise<CreatedWebhookSubscription> {
+  await checkUrl(options.url);
+
+  const secret = options.secret || `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+  const subscription = await storage.createWebhookSubscription({
+    userId,
+    url: options.url,
+    events: options.events,
+    description: options.description ?? null,
+    encryptedSecret: encryptSecret(secret)
+  });
+
+  return { subscription: toPublicWebhookSubscription(subscription), secret };
+}
+
+/**
+ * Change a subscription. Re-activating it clears its failure count.
+ * @param subscription Subscription to update
+ * @param changes New values
+ * @returns The updated subscription
+ */
+export async function updateWebhookSubscription(
+  subscription: WebhookSubscription,
+  changes: { url?: string; events?: WebhookEventType[]; description?: string | null; active?: boolean }
+): Promise<PublicWebhookSubscription> {
+  if (changes.url) {
+    await checkUrl(changes.url);
+  }
+
+  const { active, ...rest } = changes;
+  const updates: Partial<WebhookSubscription> = { ...rest };
+
+  if (active === true && !subscription.active) {
+    Object.assign(updates, { active: true, consecutiveFailures: 0, disabledAt: null });
+  } else if (active === false) {
+    updates.active = false;
+  }
+
+  const updated = await storage.updateWebhookSubscription(subscription.id, updates);
+
+  if (!updated) {
+    throw new WebhookError('Webhook subscription not found', 404);
+  }
+
+  return toPublicWebhookSubscription(updated);
+}
+
+/**
+ * Delete a subscription and its delivery log
+ * @param subscription Subscription to delete
+ */
+export async function deleteWebhookSubscription(subscription: WebhookSubscription): Promise<boolean> {
+  return storage.deleteWebhookSubscription(subscription.id);
+}
+
+/**
+ * List a user's subscriptions
+ * @param userId Owner
+ */
+export async function listWebhookSubscriptions(userId: number): Promise<PublicWebhookSubscription[]> {
+  const subscriptions = await storage.getWebhookSubscriptionsByUser(userId);
+  return subscriptions.map(toPublicWebhookSubscription);
+}
+
+/**
+ * Recent deliveries for a subscription, newest first
+ * @param subscription Subscription to list deliveries for
+ */
+export async function listWebhookDeliveries(subscription: WebhookSubscription): Promise<WebhookDelivery[]> {
+  return storage.getWebhookDeliveriesBySubscription(subscription.id, DELIVERY_LOG_LIMIT);
+}
+
+/**
+ * Queue an event for every active subscription of either contract party that
+ * listens for it, and attempt the deliveries straight away. Failures are
+ * logged rather than thrown, so they never undo the action being reported.
+ * @param type Event type
+ * @param contract Contract the event concerns
+ * @param data Other records involved, e.g. the milestone or payment
+ */
+export async function emitWebhookEvent(
+  type: WebhookEventType,
+  contract: Contract,
+  data: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    const eventId = `evt_${crypto.randomBytes(12).toString('hex')}`;
+    const payload = { id: eventId, type, createdAt: new Date().toISOString(), data: { contract, ...data } };
+
+    for (const userId of Array.from(new Set([contract.clientId, contract.freelancerId]))) {
+      const subscriptions = await storage.getWebhookSubscriptionsByUser(userId);
+
+      for (const subscription of subscriptions) {
+        if (!subscription.active || !(subscription.events as WebhookEventType[]).includes(type)) {
+          continue;
+        }
+
+        const delivery = await storage.createWebhookDelivery({
+          subscriptionId: subscription.id,
+          eventId,
+          eventType: type,
+          payload,
+          // Keeps the retry poller off it while the first attempt is in flight
+          nextAttemptAt: new Date(Date.now() + 2 * REQUEST_TIMEOUT)
+        });
+
+        // Not awaited: a slow receiver shouldn't hold up the request that triggered this
+        void attemptDelivery(delivery, subscription).catch(error =>
+          console.error(`Failed to deliver webhook ${delivery.id}:`, error)
+        );
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to queue ${type} webhook for contract ${contract.id}:`, error);
+  }
+}
+
+/**
+ * Send an event again as a new delivery, e.g. after fixing the receiving end
+ * @param delivery Delivery to resend
+ * @param subscription Subscription it belongs to
+ * @returns The new delivery after its first attempt
+ */
+export async function redeliverWebhook(
+  delivery: WebhookDelivery,
+  subscription: WebhookSubscription
+): Promise<WebhookDelivery> {
+  if (!subscription.active) {
+    throw new WebhookError('Re-enable the subscription before redelivering', 409);
+  }
+
+  const redelivery = await storage.createWebhookDelivery({
+    subscriptionId: subscription.id,
+    eventId: delivery.eventId,
+    eventType: delivery.eventType,
+    payload: delivery.payload as InsertWebhookDelivery['payload'],
+    nextAttemptAt: new Date(Date.now() + 2 * REQUEST_TIMEOUT),
+    redeliveryOf: delivery.id
+  });
+
+  return attemptDelivery(redelivery, subscription);
+}
+
+/**
+ * Headers for one delivery attempt. The signature uses the same canonical
+ * request and HMAC-SHA256 as signed API requests (see shared/api-signing.ts),
+ * keyed with the subscription secret, so receivers can verify it with
+ * signRequest. The event id stays the same across retries and redeliveries,
+ * so receivers can use it to skip events they have already handled.
+ */
+function signedDeliveryHeaders(
+  delivery: WebhookDelivery,
+  url: URL,
+  secret: string,
+  body: string
+): Record<string, string> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = crypto.randomBytes(16).toString('hex');
+
+  return {
+    'content-type': 'application/json',
+    'user-agent': 'ContractPay-Webhooks/1.0',
+    [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+    [WEBHOOK_ID_HEADER]: delivery.eventId,
+    [WEBHOOK_DELIVERY_HEADER]: String(delivery.id),
+    [API_TIMESTAMP_HEADER]: timestamp,
+    [API_NONCE_HEADER]: nonce,
+    [API_SIGNATURE_HEADER]: signRequest(secret, {
+      method: 'POST',
+      path: url.pathname,
+      query: url.search,
+      timestamp,
+      nonce,
+      body
+    })
+  };
+}
+
+/**
+ * POST a body and return the response status. Redirects are not followed,
+ * and the response body is discarded unread: receivers only need to
+ * acknowledge, and whatever they send back must not be relayed to the
+ * subscriber.
+ */
+function post(url: URL, headers: Record<string, string>, body: string): Promise<number> {
+  const request = url.protocol === 'https:' ? https.request : http.request;
+
+  return new Promise((resolve, reject) => {
+    const req = request(url, { method: 'POST', headers, lookup: lookupPublicAddress }, res => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+
+    req.setTimeout(REQUEST_TIMEOUT, () => req.destroy(new Error('Receiver did not respond in time')));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * POST a delivery to its subscription and record the outcome. Failed
+ * attempts are rescheduled with exponential backoff until they run out, and
+ * too many failures in a row disable the subscription.
+ */
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  subscription: WebhookSubscription
+): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // Checked again on every attempt, since the host's DNS may have changed since subscribing
+    const url = await checkUrl(subscription.url);
+    const body = JSON.stringify(delivery.payload);
+    const headers = signedDeliveryHeaders(delivery, url, decryptSecret(subscription.encryptedSecret), body);
+
+    responseStatus = await post(url, headers, body);
+
+    // A redirect is treated as a failure rather than followed with the signed payload
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `Receiver responded with ${responseStatus}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = error === null;
+  const outOfAttempts = attempts >= MAX_ATTEMPTS;
+
+  const updated = await storage.updateWebhookDelivery(delivery.id, {
+    attempts,
+    lastAttemptAt: now,
+    responseStatus,
+    error,
+    status: succeeded
+      ? WebhookDeliveryStatus.SUCCEEDED
+      : outOfAttempts ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING,
+    nextAttemptAt: succeeded || outOfAttempts
+      ? null
+      : new Date(now.getTime() + BASE_RETRY_DELAY * 2 ** (attempts - 1))
+  });
+
+  await recordAttemptOutcome(subscription.id, succeeded);
+
+  return updated || delivery;
+}
+
+async function recordAttemptOutcome(subscriptionId: number, succeeded: boolean): Promise<void> {
+  // Reload, since other deliveries may have been attempted meanwhile
+  const subscription = await storage.getWebhookSubscription(subscriptionId);
+
+  if (!subscription) {
+    return;
+  }
+
+  if (succeeded) {
+    if (subscription.consecutiveFailures > 0) {
+      await storage.updateWebhookSubscription(subscription.id, { consecutiveFailures: 0 });
+    }
+    return;
+  }
+
+  const consecutiveFailures = subscription.consecutiveFailures + 1;
+
+  if (subscription.active && consecutiveFailures >= DISABLE_AFTER_FAILURES) {
+    console.warn(`Disabling webhook subscription ${subscription.id} after ${consecutiveFailures} failed attempts`);
+    await storage.updateWebhookSubscription(subscription.id, {
+      consecutiveFailures,
+      active: false,
+      disabledAt: new Date()
+    });
+    return;
+  }
+
+  await storage.updateWebhookSubscription(subscription.id, { consecutiveFailures });
+}
+
+/**
+ * Attempt every delivery whose retry is due. Deliveries for subscriptions
+ * that were disabled or deleted meanwhile are failed without sending.
+ * @param now Current time
+ * @returns Number of deliveries attempted
+ */
+export async function retryDueWebhookDeliveries(now: Date = new Date()): Promise<number> {
+  const due = await storage.getDueWebhookDeliveries(now);
+  let attempted = 0;
+
+  for (const delivery of due) {
+    const subscription = await storage.getWebhookSubscription(delivery.subscriptionId);
+
+    if (!subscription || !subscription.active) {
+      await storage.updateWebhookDelivery(delivery.id, {
+        status: WebhookDeliveryStatus.FAILED,
+        nextAttemptAt: null,
+        error: 'Subscription is disabled'
+      });
+      continue;
+    }
+
+    await attemptDelivery(delivery, subscription);
+    attempted++;
+  }
+
+  return attempted;
+}
+
+/**
+ * Check the retry queue periodically
+ */
+export function scheduleWebhookRetries(): void {
+  runPeriodically('Webhook retry', () => retryDueWebhookDeliveries(), RETRY_POLL_INTERVAL);
+}
@@ -0,0 +1,36 @@
+import { scrypt, randomBytes, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a plaintext password with a random salt
+ * @param password Plaintext password
+ * @returns Hash in the form `<hex hash>.<hex salt>`
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const derivedKey = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${derivedKey.toString('hex')}.${salt}`;
+}
+
+/**
+ * Compare a plaintext password against a stored hash
+ * @param supplied Plaintext password supplied by the user
+ * @param stored Hash previously produced by hashPassword
+ * @returns Whether the password matches
+ */
+export async function verifyPassword(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split('.');
+
+  if (!hashed || !salt) {
+    return false;
+  }
+
+  const storedKey = Buffer.from(hashed, 'hex');
+  const suppliedKey = (await scryptAsync(supplied, salt, storedKey.length)) as Buffer;
+
+  return storedKey.length === suppliedKey.length && timingSafeEqual(storedKey, suppliedKey);
+}
@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { IncomingHttpHeaders } from 'http';
+import { BlockchainContract, PaymentMethod } from '@shared/schema';
+import { money } from '@shared/money';
+import { storage } from '../../storage';
+import { parseEscrowDeposit, releaseMilestonePayment, resolveDispute } from '../blockchain';
+import { convertToCrypto, ExchangeRateError } from '../exchange-rates';
+import { getPaymentParties } from './parties';
+import {
+  GatewayError, GatewayEvent, GatewayEventKind, GatewayHoldRequest, GatewayPaymentRef,
+  GatewayPaymentStatus, GatewayResult, PaymentGateway
+} from './types';
+
+// Ether has 18 decimal places
+const ETHER_DECIMALS = 18;
+
+/**
+ * Crypto adapter for the milestone smart contract deployed for the app
+ * contract (see services/blockchain.ts). The client deposits from the
+ * wallet on their profile: a hold is priced in ether at the current
+ * exchange rate and stays pending until the client's deposit transaction
+ * is reported and mined. The platform wallet only pays out, to the
+ * freelancer's wallet, and refunds, to the client's.
+ */
+export class CryptoPaymentGateway implements PaymentGateway {
+  readonly method = PaymentMethod.CRYPTO;
+  private provider: ethers.JsonRpcProvider;
+  private wallet: ethers.Wallet;
+
+  constructor(rpcUrl: string, privateKey: string) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.wallet = new ethers.Wallet(privateKey, this.provider);
+  }
+
+  async createHold(request: GatewayHoldRequest): Promise<GatewayResult> {
+    const contractInfo = await this.getDeployedContract(request.contractId);
+    const { client } = await getPaymentParties(request.contractId);
+
+    if (!client.walletAddress) {
+      throw new GatewayError('Add a wallet address to your profile before paying with crypto', 400);
+    }
+
+    const amountWei = await this.priceInWei(request.amount, request.currency);
+
+    return {
+      // Replaced by the deposit transaction hash once the client reports it
+      reference: `crypto_${crypto.randomUUID()}`,
+      status: 'requires_action',
+      details: {
+        contractAddress: contractInfo.contractAddress,
+        network: contractInfo.network,
+        payerAddress: client.walletAddress,
+        // Passed to depositEscrow, so one deposit can't be claimed for another milestone
+        milestoneId: request.milestoneId,
+        // The price is fixed now; later payouts and refunds are shares of it
+        amountWei: amountWei.toString(),
+        heldAmount: request.amount
+      }
+    };
+  }
+
+  async capture(payment: GatewayPaymentRef): Promise<GatewayResult> {
+    const { freelancer } = await getPaymentParties(payment.contractId);
+
+    if (!freelancer.walletAddress) {
+      throw new GatewayError('The freelancer has no wallet address to be paid out to', 409);
+    }
+
+    const contractInfo = await this.getDeployedContract(payment.contractId);
+    const tx = await releaseMilestonePayment(
+      contractInfo,
+      this.wallet,
+      payment.milestoneId,
+      freelancer.walletAddress,
+      this.shareOfDeposit(payment)
+    );
+
+    return { reference: payment.reference, status: 'captured', details: { releaseTxHash: tx.hash } };
+  }
+
+  async refund(payment: GatewayPaymentRef): Promise<GatewayResult> {
+    // Nothing reached escrow if the deposit was never made
+    if (!this.hasDepositTransaction(payment)) {
+      return { reference: payment.reference, status: 'refunded' };
+    }
+
+    const { client } = await getPaymentParties(payment.contractId);
+
+    if (!client.walletAddress) {
+      throw new GatewayError('The client has no wallet address to be refunded to', 409);
+    }
+
+    // The escrow contract returns funds through its dispute resolution path
+    const contractInfo = await this.getDeployedContract(payment.contractId);
+    const tx = await resolveDispute(
+      contractInfo,
+      this.wallet,
+      payment.milestoneId,
+      client.walletAddress,
+      this.shareOfDeposit(payment)
+    );
+
+    return { reference: payment.reference, status: 'refunded', details: { refundTxHash: tx.hash } };
+  }
+
+  async getStatus(payment: GatewayPaymentRef): Promise<GatewayPaymentStatus> {
+    if (!this.hasDepositTransaction(payment)) {
+      return 'requires_action';
+    }
+
+    const tx = await this.provider.getTransaction(payment.reference);
+
+    // Not yet seen by our node
+    if (!tx) {
+      return 'requires_action';
+    }
+
+    const contractInfo = await this.getDeployedContract(payment.contractId);
+    const deposit = parseEscrowDeposit(contractInfo, tx);
+    const payerAddress = String(payment.details?.payerAddress);
+
+    if (
+      !deposit ||
+      deposit.from.toLowerCase() !== payerAddress.toLowerCase() ||
+      deposit.milestoneId !== BigInt(payment.milestoneId) ||
+      deposit.amount < BigInt(String(payment.details?.amountWei))
+    ) {
+      return 'failed';
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(payment.reference);
+
+    if (!receipt) {
+      return 'requires_action';
+    }
+
+    return receipt.status === 1 ? 'held' : 'failed';
+  }
+
+  verifyWebhook(_rawBody: Buffer, _headers: IncomingHttpHeaders): GatewayEvent {
+    throw new GatewayError('Crypto payments are confirmed by polling the chain, not by webhook', 404);
+  }
+
+  classifyEvent(_type: string): GatewayEventKind | null {
+    return null;
+  }
+
+  private async getDeployedContract(contractId: number): Promise<BlockchainContract> {
+    const [contractInfo] = await storage.getBlockchainContractsByAppContract(contractId);
+
+    if (!contractInfo) {
+      throw new GatewayError('No smart contract has been deployed for this contract', 409);
+    }
+
+    return contractInfo;
+  }
+
+  private hasDepositTransaction(payment: GatewayPaymentRef): boolean {
+    return ethers.isHexString(payment.reference, 32);
+  }
+
+  private async priceInWei(amount: number, currency: string): Promise<bigint> {
+    try {
+      const ether = await convertToCrypto(money(amount, currency), 'ETH');
+      return ethers.parseEther(ether.toFixed(ETHER_DECIMALS));
+    } catch (error) {
+      if (error instanceof ExchangeRateError) {
+        throw new GatewayError(`Crypto payments are unavailable: ${error.message}`, 503);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The part of the deposit, in wei, that an amount of the held payment corresponds to
+   */
+  private shareOfDeposit(payment: GatewayPaymentRef): bigint {
+    const amountWei = payment.details?.amountWei;
+    const heldAmount = payment.details?.heldAmount;
+
+    if (typeof amountWei !== 'string' || typeof heldAmount !== 'number' || heldAmount <= 0) {
+      throw new GatewayError('Payment has no recorded deposit price', 409);
+    }
+
+    return BigInt(amountWei) * BigInt(payment.amount) / BigInt(heldAmount);
+  }
+}
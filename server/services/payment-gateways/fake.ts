@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { PaymentMethod } from '@shared/schema';
+import {
+  GatewayError, GatewayEvent, GatewayEventKind, GatewayHoldRequest, GatewayPaymentRef,
+  GatewayPaymentStatus, GatewayResult, PaymentGateway
+} from './types';
+
+// Holds above this many minor units are declined, to exercise failure paths offline
+export const FAKE_DECLINE_THRESHOLD = 100_000_000;
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+// The fake provider names its events after the normalised kinds, e.g. "payment.held"
+const FAKE_EVENT_KINDS: Record<string, GatewayEventKind> = {
+  'payment.held': 'payment_held',
+  'payment.succeeded': 'payment_succeeded',
+  'payment.failed': 'payment_failed',
+  'payment.refunded': 'payment_refunded',
+  'payment.disputed': 'payment_disputed'
+};
+
+interface FakePayment {
+  status: GatewayPaymentStatus;
+  held: number; // Minor units still in escrow
+}
+
+/**
+ * Deterministic in-process gateway used for local development and tests.
+ * References are sequential and every operation settles immediately.
+ * A payment stays held until its whole amount has been paid out or refunded.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly method: PaymentMethod;
+  private webhookSecret: string;
+  private payments: Map<string, FakePayment>;
+  private counter: number;
+
+  constructor(method: PaymentMethod, webhookSecret = 'whsec_fake') {
+    this.method = method;
+    this.webhookSecret = webhookSecret;
+    this.payments = new Map();
+    this.counter = 1;
+  }
+
+  async createHold(request: GatewayHoldRequest): Promise<GatewayResult> {
+    const reference = `fake_${this.method}_${this.counter++}`;
+    const status: GatewayPaymentStatus = request.amount > FAKE_DECLINE_THRESHOLD ? 'failed' : 'held';
+
+    this.payments.set(reference, { status, held: status === 'held' ? request.amount : 0 });
+    return { reference, status };
+  }
+
+  async capture(payment: GatewayPaymentRef): Promise<GatewayResult> {
+    return this.settle(payment, 'captured');
+  }
+
+  async refund(payment: GatewayPaymentRef): Promise<GatewayResult> {
+    return this.settle(payment, 'refunded');
+  }
+
+  async getStatus(payment: GatewayPaymentRef): Promise<GatewayPaymentStatus> {
+    const stored = this.payments.get(payment.reference);
+
+    if (!stored) {
+      throw new GatewayError(`Unknown payment ${payment.reference}`, 404);
+    }
+
+    return stored.status;
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent {
+    const signature = headers[FAKE_SIGNATURE_HEADER];
+
+    if (typeof signature !== 'string' || !this.isValidSignature(rawBody, signature)) {
+      throw new GatewayError('Invalid webhook signature', 400);
+    }
+
+    const event = JSON.parse(rawBody.toString('utf8'));
+    return {
+      id: event.id,
+      type: event.type,
+      reference: event.reference,
+      data: event.data || {}
+    };
+  }
+
+  classifyEvent(type: string): GatewayEventKind | null {
+    return FAKE_EVENT_KINDS[type] || null;
+  }
+
+  /**
+   * Sign a webhook payload the way the fake provider would
+   * @param rawBody Serialised event body
+   * @returns Hex signature for the x-fake-signature header
+   */
+  sign(rawBody: string | Buffer): string {
+    return crypto.createHmac('sha256', this.webhookSecret).update(rawBody).digest('hex');
+  }
+
+  private isValidSignature(rawBody: Buffer, signature: string): boolean {
+    const expected = Buffer.from(this.sign(rawBody), 'hex');
+    const supplied = Buffer.from(signature, 'hex');
+    return expected.length === supplied.length && crypto.timingSafeEqual(expected, supplied);
+  }
+
+  private settle(payment: GatewayPaymentRef, to: GatewayPaymentStatus): GatewayResult {
+    const { reference, amount } = payment;
+    const stored = this.payments.get(reference);
+
+    if (!stored) {
+      throw new GatewayError(`Unknown payment ${reference}`, 404);
+    }
+
+    if (stored.status !== 'held') {
+      throw new GatewayError(`Cannot move payment from ${stored.status} to ${to}`, 409);
+    }
+
+    if (amount > stored.held) {
+      throw new GatewayError(`Only ${stored.held} of payment ${reference} is still held`, 409);
+    }
+
+    const held = stored.held - amount;
+    this.payments.set(reference, { status: held > 0 ? 'held' : to, held });
+    return { reference, status: to };
+  }
+}
@@ -0,0 +1,59 @@
+import { PaymentMethod } from '@shared/schema';
+import { GatewayError, PaymentGateway } from './types';
+import { FakePaymentGateway } from './fake';
+import { StripePaymentGateway } from './stripe';
+import { CryptoPaymentGateway } from './crypto';
+
+export * from './types';
+export { FakePaymentGateway } from './fake';
+
+const gateways = new Map<PaymentMethod, PaymentGateway>();
+
+/**
+ * Register (or replace) the gateway used for a payment method
+ * @param gateway Gateway adapter
+ */
+export function registerPaymentGateway(gateway: PaymentGateway): void {
+  gateways.set(gateway.method, gateway);
+}
+
+/**
+ * Get the gateway that handles a payment method
+ * @param method Payment method
+ * @returns The registered gateway
+ * @throws GatewayError when no gateway is configured for the method
+ */
+export function getPaymentGateway(method: PaymentMethod): PaymentGateway {
+  const gateway = gateways.get(method);
+
+  if (!gateway) {
+    throw new GatewayError(`Payment method ${method} is not configured`, 400);
+  }
+
+  return gateway;
+}
+
+/**
+ * Register gateways from environment configuration. Setting
+ * PAYMENT_GATEWAY=fake uses the offline fake gateway for every method.
+ */
+export function configurePaymentGateways(env: NodeJS.ProcessEnv = process.env): void {
+  gateways.clear();
+
+  if (env.PAYMENT_GATEWAY === 'fake') {
+    for (const method of Object.values(PaymentMethod)) {
+      registerPaymentGateway(new FakePaymentGateway(method, env.FAKE_GATEWAY_WEBHOOK_SECRET));
+    }
+    return;
+  }
+
+  if (env.STRIPE_SECRET_KEY) {
+    registerPaymentGateway(new StripePaymentGateway(env.STRIPE_SECRET_KEY, env.STRIPE_WEBHOOK_SECRET));
+  }
+
+  if (env.BLOCKCHAIN_RPC_URL && env.ESCROW_WALLET_PRIVATE_KEY) {
+    registerPaymentGateway(new CryptoPaymentGateway(env.BLOCKCHAIN_RPC_URL, env.ESCROW_WALLET_PRIVATE_KEY));
+  }
+}
+
+configurePaymentGateways();
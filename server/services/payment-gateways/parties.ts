@@ -0,0 +1,29 @@
+import { User } from '@shared/schema';
+import { storage } from '../../storage';
+import { GatewayError } from './types';
+
+/**
+ * The users on either side of a contract's escrow
+ */
+export interface PaymentParties {
+  client: User; // Pays into escrow and receives refunds
+  freelancer: User; // Receives payouts
+}
+
+/**
+ * Load the client and freelancer of a contract. Payout and refund
+ * destinations always come from their stored profiles, never from the
+ * request that moves the money.
+ * @param contractId Contract the payment belongs to
+ */
+export async function getPaymentParties(contractId: number): Promise<PaymentParties> {
+  const contract = await storage.getContract(contractId);
+  const client = contract && await storage.getUser(contract.clientId);
+  const freelancer = contract && await storage.getUser(contract.freelancerId);
+
+  if (!client || !freelancer) {
+    throw new GatewayError('Contract parties not found', 404);
+  }
+
+  return { client, freelancer };
+}
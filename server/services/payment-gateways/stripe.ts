@@ -0,0 +1,183 @@
+import Stripe from 'stripe';
+import { IncomingHttpHeaders } from 'http';
+import { PaymentMethod } from '@shared/schema';
+import { getPaymentParties } from './parties';
+import {
+  GatewayError, GatewayEvent, GatewayEventKind, GatewayHoldRequest, GatewayPaymentRef,
+  GatewayPaymentStatus, GatewayResult, PaymentGateway
+} from './types';
+
+const STRIPE_EVENT_KINDS: Record<string, GatewayEventKind> = {
+  'payment_intent.succeeded': 'payment_held',
+  'payment_intent.payment_failed': 'payment_failed',
+  'payment_intent.canceled': 'payment_refunded',
+  'charge.refunded': 'payment_refunded',
+  'charge.dispute.created': 'payment_disputed'
+};
+
+/**
+ * Map a Stripe PaymentIntent status onto the gateway status
+ */
+function mapIntentStatus(intent: Stripe.PaymentIntent): GatewayPaymentStatus {
+  switch (intent.status) {
+    // Escrow is charged up front and sits in the platform balance until paid out
+    case 'succeeded':
+      return 'held';
+    case 'canceled':
+      return 'refunded';
+    case 'requires_payment_method':
+      // A declined confirmation drops the intent back to requires_payment_method
+      return intent.last_payment_error ? 'failed' : 'requires_action';
+    default:
+      return 'requires_action';
+  }
+}
+
+/**
+ * Stripe adapter using separate charges and transfers. The client is
+ * charged in full when escrow is funded, since card authorisations lapse
+ * after about a week, and the funds stay in the platform's balance. A
+ * payout is a transfer to the freelancer's connected account; a refund
+ * returns the client's charge.
+ */
+export class StripePaymentGateway implements PaymentGateway {
+  readonly method = PaymentMethod.STRIPE;
+  private stripe: Stripe;
+  private webhookSecret?: string;
+
+  constructor(secretKey: string, webhookSecret?: string) {
+    this.stripe = new Stripe(secretKey);
+    this.webhookSecret = webhookSecret;
+  }
+
+  async createHold(request: GatewayHoldRequest): Promise<GatewayResult> {
+    try {
+      const intent = await this.stripe.paymentIntents.create({
+        // Stripe also takes amounts in minor units
+        amount: request.amount,
+        currency: request.currency.toLowerCase(),
+        // Groups the charge with the transfers that later pay it out
+        transfer_group: `milestone_${request.milestoneId}`,
+        metadata: {
+          ...request.metadata,
+          contractId: String(request.contractId),
+          milestoneId: String(request.milestoneId)
+        }
+      });
+
+      return {
+        reference: intent.id,
+        status: mapIntentStatus(intent),
+        // The client confirms the card payment with this secret
+        details: { clientSecret: intent.client_secret }
+      };
+    } catch (error) {
+      console.error('Error creating Stripe payment intent:', error);
+      throw new GatewayError('Failed to create Stripe payment');
+    }
+  }
+
+  async capture(payment: GatewayPaymentRef): Promise<GatewayResult> {
+    const { freelancer } = await getPaymentParties(payment.contractId);
+
+    if (!freelancer.stripeAccountId) {
+      throw new GatewayError('The freelancer has not connected a Stripe account to be paid out to', 409);
+    }
+
+    try {
+      const intent = await this.stripe.paymentIntents.retrieve(payment.reference);
+      const charge = typeof intent.latest_charge === 'string' ? intent.latest_charge : intent.latest_charge?.id;
+      const transfer = await this.stripe.transfers.create({
+        amount: payment.amount,
+        currency: payment.currency.toLowerCase(),
+        destination: freelancer.stripeAccountId,
+        // Paid from the escrow charge, even before it is available in the balance
+        source_transaction: charge,
+        transfer_group: `milestone_${payment.milestoneId}`,
+        metadata: {
+          contractId: String(payment.contractId),
+          milestoneId: String(payment.milestoneId)
+        }
+      }, {
+        // Each escrow payment is paid out once, so a retried payout can't transfer twice
+        idempotencyKey: `payout_${payment.reference}`
+      });
+
+      return { reference: payment.reference, status: 'captured', details: { transferId: transfer.id } };
+    } catch (error) {
+      console.error('Error transferring Stripe payout:', error);
+      throw new GatewayError('Failed to pay out Stripe payment');
+    }
+  }
+
+  async refund(payment: GatewayPaymentRef): Promise<GatewayResult> {
+    try {
+      const intent = await this.stripe.paymentIntents.retrieve(payment.reference);
+
+      // Payments the client never completed are cancelled rather than refunded
+      if (intent.status !== 'succeeded') {
+        const cancelled = await this.stripe.paymentIntents.cancel(payment.reference);
+        return { reference: cancelled.id, status: mapIntentStatus(cancelled) };
+      }
+
+      const refund = await this.stripe.refunds.create({
+        payment_intent: payment.reference,
+        amount: payment.amount
+      });
+
+      return {
+        reference: payment.reference,
+        status: 'refunded',
+        details: { refundId: refund.id }
+      };
+    } catch (error) {
+      console.error('Error refunding Stripe payment:', error);
+      throw new GatewayError('Failed to refund Stripe payment');
+    }
+  }
+
+  async getStatus(payment: GatewayPaymentRef): Promise<GatewayPaymentStatus> {
+    try {
+      const intent = await this.stripe.paymentIntents.retrieve(payment.reference);
+      return mapIntentStatus(intent);
+    } catch (error) {
+      console.error('Error retrieving Stripe payment intent:', error);
+      throw new GatewayError('Failed to retrieve Stripe payment');
+    }
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent {
+    const signature = headers['stripe-signature'];
+
+    if (!this.webhookSecret) {
+      throw new GatewayError('Stripe webhook secret is not configured', 500);
+    }
+
+    if (typeof signature !== 'string') {
+      throw new GatewayError('Missing Stripe signature', 400);
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(rawBody, signature, this.webhookSecret);
+    } catch (error) {
+      throw new GatewayError('Invalid webhook signature', 400);
+    }
+
+    const object = event.data.object as { id?: string; object?: string; payment_intent?: string | null };
+    const reference = object.object === 'payment_intent'
+      ? object.id
+      : object.payment_intent || undefined;
+
+    return {
+      id: event.id,
+      type: event.type,
+      reference,
+      data: event.data.object as unknown as Record<string, unknown>
+    };
+  }
+
+  classifyEvent(type: string): GatewayEventKind | null {
+    return STRIPE_EVENT_KINDS[type] || null;
+  }
+}
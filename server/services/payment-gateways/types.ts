@@ -0,0 +1,108 @@
+import { IncomingHttpHeaders } from 'http';
+import { PaymentMethod } from '@shared/schema';
+
+/**
+ * Normalised status of a payment at the gateway
+ */
+export type GatewayPaymentStatus =
+  | 'requires_action' // Waiting on the payer (e.g. card confirmation)
+  | 'held'            // Funds in escrow, not yet paid out
+  | 'captured'        // Funds paid out to the payee
+  | 'refunded'        // Funds returned to the payer
+  | 'failed';
+
+/**
+ * Request to place funds on hold for a milestone
+ */
+export interface GatewayHoldRequest {
+  amount: number; // Integer minor units of the currency
+  currency: string;
+  contractId: number;
+  milestoneId: number;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Reference to a payment previously created at the gateway
+ */
+export interface GatewayPaymentRef {
+  reference: string;
+  amount: number; // Integer minor units of the currency
+  currency: string;
+  contractId: number;
+  milestoneId: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Result of a gateway operation
+ */
+export interface GatewayResult {
+  reference: string;
+  status: GatewayPaymentStatus;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Provider-independent meaning of a webhook event
+ */
+export type GatewayEventKind =
+  | 'payment_held'
+  | 'payment_succeeded'
+  | 'payment_failed'
+  | 'payment_refunded'
+  | 'payment_disputed';
+
+/**
+ * Verified event received from a gateway webhook
+ */
+export interface GatewayEvent {
+  id: string;
+  type: string;
+  reference?: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Common interface implemented by every payment provider adapter
+ */
+export interface PaymentGateway {
+  readonly method: PaymentMethod;
+
+  createHold(request: GatewayHoldRequest): Promise<GatewayResult>;
+
+  /**
+   * Pay the payment's amount out of escrow to the freelancer's stored payout account
+   */
+  capture(payment: GatewayPaymentRef): Promise<GatewayResult>;
+
+  /**
+   * Return the payment's amount from escrow to the client
+   */
+  refund(payment: GatewayPaymentRef): Promise<GatewayResult>;
+  getStatus(payment: GatewayPaymentRef): Promise<GatewayPaymentStatus>;
+
+  /**
+   * Verify a webhook signature and parse the event
+   * @throws GatewayError when the signature is invalid
+   */
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent;
+
+  /**
+   * Map a provider event type onto its meaning, or null for types we don't handle
+   */
+  classifyEvent(type: string): GatewayEventKind | null;
+}
+
+/**
+ * Error raised by gateway adapters
+ */
+export class GatewayError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = 'GatewayError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,102 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  Contract, ContractStatus, DisputeStatus, EscrowPayment, EscrowStatus, Milestone, MilestoneStatus,
+  PaymentMethod, UserType, WebhookEventStatus
+} from '@shared/schema';
+import { storage } from '../storage';
+import { configurePaymentGateways, FakePaymentGateway, getPaymentGateway } from './payment-gateways';
+import { FAKE_SIGNATURE_HEADER } from './payment-gateways/fake';
+import { fundMilestone } from './escrow';
+import { ingestWebhook } from './payment-webhooks';
+
+let sequence = 0;
+
+describe('payment webhooks', () => {
+  let contract: Contract;
+  let milestone: Milestone;
+  let payment: EscrowPayment;
+
+  function send(type: string, id = `evt_${++sequence}`, signature?: string) {
+    const gateway = getPaymentGateway(PaymentMethod.STRIPE) as FakePaymentGateway;
+    const body = Buffer.from(JSON.stringify({
+      id,
+      type,
+      reference: (payment.paymentDetails as Record<string, unknown>).reference
+    }));
+
+    return ingestWebhook(PaymentMethod.STRIPE, body, { [FAKE_SIGNATURE_HEADER]: signature ?? gateway.sign(body) });
+  }
+
+  // Once, so gateway references stay unique across the tests
+  beforeAll(() => {
+    configurePaymentGateways({ PAYMENT_GATEWAY: 'fake' });
+  });
+
+  beforeEach(async () => {
+    const suffix = ++sequence;
+    const users = await Promise.all([UserType.CLIENT, UserType.FREELANCER].map(userType =>
+      storage.createUser({
+        username: `webhooks-${userType}-${suffix}`,
+        password: 'password',
+        email: `webhooks-${userType}-${suffix}@example.com`,
+        fullName: `Webhooks ${userType}`,
+        userType
+      })
+    ));
+    const created = await storage.createContract({
+      title: 'Webhook test',
+      description: 'Contract used by the payment webhook tests',
+      clientId: users[0].id,
+      freelancerId: users[1].id,
+      totalAmount: 100000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+    });
+    contract = (await storage.updateContractStatus(created.id, ContractStatus.ACTIVE))!;
+    milestone = await storage.createMilestone({
+      contractId: contract.id,
+      title: 'Everything',
+      description: 'The whole job',
+      amount: 100000,
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+    });
+    payment = await fundMilestone(contract, milestone, 100000, PaymentMethod.STRIPE);
+  });
+
+  it('rejects an event whose signature does not match', async () => {
+    await expect(send('payment.refunded', undefined, 'ab'.repeat(32))).rejects.toMatchObject({ status: 400 });
+
+    expect((await storage.getEscrowPayment(payment.id))?.status).toBe(EscrowStatus.FUNDED);
+  });
+
+  it('applies a redelivered event only once', async () => {
+    const first = await send('payment.disputed', 'evt_redelivered');
+    const second = await send('payment.disputed', 'evt_redelivered');
+
+    expect(first.duplicate).toBe(false);
+    expect(second).toMatchObject({ duplicate: true, event: { id: first.event.id } });
+    expect(await storage.getDisputesByContract(contract.id)).toHaveLength(1);
+  });
+
+  it('opens a dispute for a chargeback on held escrow', async () => {
+    const { event } = await send('payment.disputed');
+
+    expect(event.status).toBe(WebhookEventStatus.PROCESSED);
+    expect((await storage.getEscrowPayment(payment.id))?.status).toBe(EscrowStatus.DISPUTED);
+    expect((await storage.getMilestone(milestone.id))?.status).toBe(MilestoneStatus.DISPUTED);
+    expect((await storage.getContract(contract.id))?.status).toBe(ContractStatus.DISPUTED);
+    expect(await storage.getDisputesByContract(contract.id)).toEqual([
+      expect.objectContaining({ status: DisputeStatus.OPEN, initiatedBy: contract.clientId, milestoneId: milestone.id })
+    ]);
+  });
+
+  it('ignores a chargeback on escrow that is no longer held', async () => {
+    await storage.updateEscrowPayment(payment.id, { status: EscrowStatus.REFUNDED });
+
+    await send('payment.disputed');
+
+    expect((await storage.getEscrowPayment(payment.id))?.status).toBe(EscrowStatus.REFUNDED);
+    expect((await storage.getContract(contract.id))?.status).toBe(ContractStatus.ACTIVE);
+    expect(await storage.getDisputesByContract(contract.id)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,216 @@
+import { IncomingHttpHeaders } from 'http';
+import {
+  Contract, EscrowPayment, EscrowStatus, Milestone, PaymentMethod,
+  PaymentWebhookEvent, WebhookEventStatus
+} from '@shared/schema';
+import { storage } from '../storage';
+import { isDisputeActive, openDispute } from './disputes';
+import { markMilestonePaidIfReleased, markPaymentFunded, toPublicEscrowPayment } from './escrow';
+import { GatewayError, GatewayEvent, GatewayEventKind, getPaymentGateway } from './payment-gateways';
+import { notifyPaymentReleased } from './notifications';
+import { emitWebhookEvent } from './outgoing-webhooks';
+import { getReleaseTerms } from './tier-benefits';
+
+// Escrow in these states is still held, so a refund from the provider's side applies to it
+const REFUNDABLE_ESCROW_STATUSES = [EscrowStatus.PENDING, EscrowStatus.FUNDED, EscrowStatus.DISPUTED];
+
+export interface WebhookIngestResult {
+  event: PaymentWebhookEvent;
+  duplicate: boolean;
+}
+
+/**
+ * Verify, record and process an inbound gateway webhook. Events are
+ * deduplicated on the provider's event id, so gateway retries are harmless.
+ * @param provider Payment method the webhook was sent for
+ * @param rawBody Unparsed request body, as signed by the provider
+ * @param headers Request headers carrying the signature
+ * @returns The stored event and whether it had already been received
+ */
+export async function ingestWebhook(
+  provider: PaymentMethod,
+  rawBody: Buffer,
+  headers: IncomingHttpHeaders
+): Promise<WebhookIngestResult> {
+  const gateway = getPaymentGateway(provider);
+  const verified = gateway.verifyWebhook(rawBody, headers);
+
+  if (!verified.id || !verified.type) {
+    throw new GatewayError('Webhook event is missing an id or type', 400);
+  }
+
+  const existing = await storage.getPaymentWebhookEventByEventId(provider, verified.id);
+
+  if (existing) {
+    return { event: existing, duplicate: true };
+  }
+
+  const stored = await storage.createPaymentWebhookEvent({
+    provider,
+    eventId: verified.id,
+    type: verified.type,
+    reference: verified.reference || null,
+    payload: verified.data,
+    status: WebhookEventStatus.UNHANDLED,
+    error: null
+  });
+
+  return { event: await processWebhookEvent(stored), duplicate: false };
+}
+
+/**
+ * Re-run a stored event, e.g. one that failed or arrived before support for its type
+ * @param id Stored webhook event id
+ * @returns The reprocessed event, or undefined if it doesn't exist
+ */
+export async function replayWebhookEvent(id: number): Promise<PaymentWebhookEvent | undefined> {
+  const event = await storage.getPaymentWebhookEvent(id);
+  return event && processWebhookEvent(event);
+}
+
+/**
+ * Apply a stored event to its escrow payment and record the outcome
+ * @param event Stored webhook event
+ * @returns The event with its processing status updated
+ */
+async function processWebhookEvent(event: PaymentWebhookEvent): Promise<PaymentWebhookEvent> {
+  const gateway = getPaymentGateway(event.provider as PaymentMethod);
+  const kind = gateway.classifyEvent(event.type);
+  let status = WebhookEventStatus.PROCESSED;
+  let error: string | null = null;
+
+  try {
+    if (!kind) {
+      status = WebhookEventStatus.UNHANDLED;
+    } else {
+      await applyEvent(kind, {
+        id: event.eventId,
+        type: event.type,
+        reference: event.reference || undefined,
+        data: event.payload as Record<string, unknown>
+      });
+    }
+  } catch (err) {
+    console.error(`Error processing ${event.provider} webhook ${event.eventId}:`, err);
+    status = WebhookEventStatus.FAILED;
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const updated = await storage.updatePaymentWebhookEvent(event.id, {
+    status,
+    error,
+    processedAt: status === WebhookEventStatus.UNHANDLED ? null : new Date()
+  });
+
+  return updated || event;
+}
+
+/**
+ * Move the escrow payment to match the event, opening a dispute for a chargeback.
+ * Events that arrive after the payment has already moved on are ignored.
+ */
+async function applyEvent(kind: GatewayEventKind, event: GatewayEvent): Promise<void> {
+  if (!event.reference) {
+    throw new Error('Event does not reference a payment');
+  }
+
+  const payment = await storage.getEscrowPaymentByGatewayReference(event.reference);
+
+  if (!payment) {
+    throw new Error(`No escrow payment found for reference ${event.reference}`);
+  }
+
+  switch (kind) {
+    case 'payment_held':
+      if (payment.status === EscrowStatus.PENDING) {
+        await markPaymentFunded(payment);
+      }
+      break;
+
+    case 'payment_succeeded':
+      if (payment.status === EscrowStatus.FUNDED) {
+        await settleCapturedPayment(payment);
+      }
+      break;
+
+    case 'payment_failed':
+      if (payment.status === EscrowStatus.PENDING) {
+        await storage.updateEscrowPayment(payment.id, { status: EscrowStatus.FAILED });
+      }
+      break;
+
+    case 'payment_refunded':
+      // Refunding the rest of a partly released payment doesn't undo the release
+      if (REFUNDABLE_ESCROW_STATUSES.includes(payment.status as EscrowStatus)) {
+        await storage.updateEscrowPayment(payment.id, { status: EscrowStatus.REFUNDED });
+      }
+      break;
+
+    case 'payment_disputed':
+      // Payments already paid out or returned are no longer held, so there is nothing to freeze
+      if (payment.status === EscrowStatus.FUNDED) {
+        await disputeChargedBackPayment(payment);
+      }
+      break;
+  }
+}
+
+/**
+ * Load the milestone and contract an escrow payment belongs to
+ */
+async function getPaymentMilestone(
+  payment: EscrowPayment
+): Promise<{ milestone: Milestone; contract: Contract } | undefined> {
+  const milestone = await storage.getMilestone(payment.milestoneId);
+  const contract = milestone && await storage.getContract(milestone.contractId);
+
+  return milestone && contract ? { milestone, contract } : undefined;
+}
+
+/**
+ * Freeze a payment the client has charged back with their provider. Unless
+ * the contract is already in dispute, a dispute is opened on the client's
+ * behalf, which moves the contract and milestone to DISPUTED so a moderator
+ * can settle the payment.
+ */
+async function disputeChargedBackPayment(payment: EscrowPayment): Promise<void> {
+  const owner = await getPaymentMilestone(payment);
+
+  if (!owner) {
+    throw new Error(`Escrow payment ${payment.id} has no milestone or contract`);
+  }
+
+  const disputes = await storage.getDisputesByContract(owner.contract.id);
+
+  if (!disputes.some(isDisputeActive)) {
+    const client = await storage.getUser(owner.contract.clientId);
+
+    if (!client) {
+      throw new Error(`Client ${owner.contract.clientId} not found`);
+    }
+
+    const reason = 'The client disputed the payment with their payment provider';
+    await openDispute(owner.contract, owner.milestone, client, reason);
+  }
+
+  await storage.updateEscrowPayment(payment.id, { status: EscrowStatus.DISPUTED });
+}
+
+/**
+ * Record a capture made outside our release flow (e.g. from the provider's dashboard)
+ */
+async function settleCapturedPayment(payment: EscrowPayment): Promise<void> {
+  // The provider has already paid the funds out, so only the fee is left to record
+  const now = new Date();
+  const released = await storage.releaseEscrowPayment(payment.id, now, await getReleaseTerms(payment, now, true));
+  const owner = await getPaymentMilestone(payment);
+
+  if (released && owner) {
+    await notifyPaymentReleased(released, owner.milestone, owner.contract);
+    await emitWebhookEvent('escrow.released', owner.contract, {
+      payment: toPublicEscrowPayment(released),
+      milestone: owner.milestone
+    });
+    await markMilestonePaidIfReleased(owner.milestone, owner.contract);
+  }
+}
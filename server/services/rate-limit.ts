@@ -0,0 +1,56 @@
+/**
+ * Outcome of counting a request against a limit
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfter: number; // Seconds until another request would be allowed (0 when allowed)
+}
+
+/**
+ * Sliding-window rate limiter. Each key keeps the timestamps of its requests
+ * inside the window, so a burst at the end of one minute can't be followed by
+ * a full allowance at the start of the next, as it could with fixed windows.
+ * State is per process.
+ */
+export class SlidingWindowRateLimiter {
+  private hits: Map<string, number[]>;
+
+  constructor() {
+    this.hits = new Map();
+  }
+
+  /**
+   * Count a request against a key's limit
+   * @param key Identity being limited (e.g. an API key id)
+   * @param limit Requests allowed per window
+   * @param windowMs Window length in milliseconds
+   * @param now Current time in milliseconds
+   * @returns Whether the request is allowed, and when to retry if not
+   */
+  consume(key: string, limit: number, windowMs: number, now: number = Date.now()): RateLimitResult {
+    const recent = (this.hits.get(key) || []).filter(time => time > now - windowMs);
+
+    if (recent.length >= limit) {
+      this.hits.set(key, recent);
+
+      // A slot frees up once enough of the oldest requests have left the window
+      const freedAt = recent[recent.length - limit] + windowMs;
+      return { allowed: false, limit, remaining: 0, retryAfter: Math.max(1, Math.ceil((freedAt - now) / 1000)) };
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+
+    return { allowed: true, limit, remaining: limit - recent.length, retryAfter: 0 };
+  }
+
+  /**
+   * Forget a key's history, e.g. after it is revoked
+   * @param key Identity to reset
+   */
+  reset(key: string): void {
+    this.hits.delete(key);
+  }
+}
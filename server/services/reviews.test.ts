@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Contract, ContractStatus, User, UserType } from '@shared/schema';
+import { storage } from '../storage';
+import {
+  getReviewWindowEnd, listContractReviews, listUserReviews, replyToReview, REVIEW_WINDOW_MS, submitReview
+} from './reviews';
+
+const COMPLETED_AT = Date.UTC(2024, 2, 1, 9, 0, 0);
+
+let sequence = 0;
+
+describe('reviews', () => {
+  let client: User;
+  let freelancer: User;
+  let contract: Contract;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(COMPLETED_AT);
+
+    const suffix = ++sequence;
+    [client, freelancer] = await Promise.all([UserType.CLIENT, UserType.FREELANCER].map(userType =>
+      storage.createUser({
+        username: `reviews-${userType}-${suffix}`,
+        password: 'password',
+        email: `reviews-${userType}-${suffix}@example.com`,
+        fullName: `Reviews ${userType}`,
+        userType
+      })
+    ));
+    const created = await storage.createContract({
+      title: 'Review test',
+      description: 'Contract used by the review tests',
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      totalAmount: 100000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+    });
+    contract = (await storage.updateContractStatus(created.id, ContractStatus.COMPLETED))!;
+    await storage.createContractStatusHistory({
+      contractId: contract.id,
+      fromStatus: ContractStatus.ACTIVE,
+      toStatus: ContractStatus.COMPLETED
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('only opens once the contract is completed', async () => {
+    const active = (await storage.updateContractStatus(contract.id, ContractStatus.ACTIVE))!;
+
+    expect(await getReviewWindowEnd(active)).toBeUndefined();
+    await expect(submitReview(active, client, 'client', { rating: 5 })).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('closes 14 days after completion', async () => {
+    expect(await getReviewWindowEnd(contract)).toEqual(new Date(COMPLETED_AT + REVIEW_WINDOW_MS));
+
+    vi.setSystemTime(COMPLETED_AT + REVIEW_WINDOW_MS - 1);
+    await expect(submitReview(contract, client, 'client', { rating: 4 })).resolves.toBeDefined();
+
+    vi.setSystemTime(COMPLETED_AT + REVIEW_WINDOW_MS);
+    await expect(submitReview(contract, freelancer, 'freelancer', { rating: 4 }))
+      .rejects.toMatchObject({ status: 409, message: 'The review window for this contract has closed' });
+  });
+
+  it('keeps the first review hidden from the other party until they review too', async () => {
+    const first = await submitReview(contract, client, 'client', { rating: 2, comment: 'Late' });
+
+    expect(first).toMatchObject({ receiverId: freelancer.id, revealedAt: new Date(COMPLETED_AT + REVIEW_WINDOW_MS) });
+    expect(await listContractReviews(contract, client.id)).toHaveLength(1);
+    expect(await listContractReviews(contract, freelancer.id)).toHaveLength(0);
+    expect(await listUserReviews(freelancer.id)).toHaveLength(0);
+    await expect(replyToReview(first, freelancer.id, 'Not fair')).rejects.toMatchObject({ status: 409 });
+
+    vi.setSystemTime(COMPLETED_AT + 60 * 1000);
+    const second = await submitReview(contract, freelancer, 'freelancer', { rating: 5 });
+
+    expect(second.revealedAt).toEqual(new Date(COMPLETED_AT + 60 * 1000));
+    expect(await listContractReviews(contract, freelancer.id)).toHaveLength(2);
+    expect((await listUserReviews(freelancer.id)).map(review => review.id)).toEqual([first.id]);
+  });
+
+  it('reveals a lone review once the window closes', async () => {
+    const review = await submitReview(contract, client, 'client', { rating: 3 });
+
+    vi.setSystemTime(COMPLETED_AT + REVIEW_WINDOW_MS);
+
+    expect((await listContractReviews(contract, freelancer.id)).map(r => r.id)).toEqual([review.id]);
+  });
+
+  it('takes one review per party and one reply from the reviewed party', async () => {
+    await submitReview(contract, client, 'client', { rating: 4 });
+    const review = await submitReview(contract, freelancer, 'freelancer', { rating: 5 });
+
+    await expect(submitReview(contract, client, 'client', { rating: 1 })).rejects.toMatchObject({ status: 409 });
+    await expect(replyToReview(review, freelancer.id, 'Thanks')).rejects.toMatchObject({ status: 403 });
+
+    expect(await replyToReview(review, client.id, 'Thanks')).toMatchObject({ reply: 'Thanks' });
+    await expect(replyToReview(review, client.id, 'Again')).rejects.toMatchObject({ status: 409 });
+  });
+});
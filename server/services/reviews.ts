@@ -0,0 +1,140 @@
+import { Contract, ContractStatus, Review, User } from '@shared/schema';
+import { storage } from '../storage';
+import { ContractRole } from '../policy';
+
+// How long the parties have to review each other once a contract completes
+export const REVIEW_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * Error raised when a review or reply can't be accepted
+ */
+export class ReviewError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ReviewError';
+    this.status = status;
+  }
+}
+
+/**
+ * When a completed contract's review window closes, counted from the
+ * latest transition to COMPLETED
+ * @param contract Contract to check
+ * @returns End of the window, or undefined if the contract isn't completed
+ */
+export async function getReviewWindowEnd(contract: Contract): Promise<Date | undefined> {
+  if (contract.status !== ContractStatus.COMPLETED) {
+    return undefined;
+  }
+
+  const history = await storage.getContractStatusHistory(contract.id);
+  const completed = history.filter(entry => entry.toStatus === ContractStatus.COMPLETED).pop();
+  const completedAt = completed?.createdAt ?? contract.createdAt ?? new Date();
+
+  return new Date(completedAt.getTime() + REVIEW_WINDOW_MS);
+}
+
+/**
+ * Whether a review can be seen by everyone yet
+ */
+export function isRevealed(review: Review, now: Date = new Date()): boolean {
+  return review.revealedAt <= now;
+}
+
+/**
+ * Leave a review of the other party on a completed contract. Reviews stay
+ * hidden until both parties have reviewed or the window closes, so neither
+ * side can answer the other's rating in kind.
+ * @param contract Contract being reviewed
+ * @param reviewer User leaving the review
+ * @param role The reviewer's role on the contract
+ * @param data Rating and optional comment
+ * @returns The stored review
+ */
+export async function submitReview(
+  contract: Contract,
+  reviewer: User,
+  role: ContractRole,
+  data: { rating: number; comment?: string }
+): Promise<Review> {
+  const windowEnd = await getReviewWindowEnd(contract);
+
+  if (!windowEnd) {
+    throw new ReviewError('Reviews open once the contract is completed', 409);
+  }
+
+  const now = new Date();
+  if (windowEnd <= now) {
+    throw new ReviewError('The review window for this contract has closed', 409);
+  }
+
+  const review = await storage.createReview({
+    contractId: contract.id,
+    reviewerId: reviewer.id,
+    receiverId: role === 'client' ? contract.freelancerId : contract.clientId,
+    rating: data.rating,
+    comment: data.comment || null,
+    revealedAt: windowEnd
+  });
+
+  if (!review) {
+    throw new ReviewError('You have already reviewed this contract', 409);
+  }
+
+  // Both parties are in, so there's nothing left to keep blind
+  const reviews = await storage.getReviewsByContract(contract.id);
+  if (reviews.length > 1) {
+    await storage.revealReviews(contract.id, now);
+    return { ...review, revealedAt: now };
+  }
+
+  return review;
+}
+
+/**
+ * Reviews on a contract as a party sees them: everything revealed, plus
+ * their own review while it is still hidden
+ * @param contract Contract to list reviews for
+ * @param userId User asking
+ */
+export async function listContractReviews(contract: Contract, userId: number): Promise<Review[]> {
+  const now = new Date();
+  const reviews = await storage.getReviewsByContract(contract.id);
+
+  return reviews.filter(review => isRevealed(review, now) || review.reviewerId === userId);
+}
+
+/**
+ * Public reviews a user has received
+ * @param userId User the reviews are about
+ */
+export async function listUserReviews(userId: number): Promise<Review[]> {
+  return storage.getRevealedReviewsByUser(userId, new Date());
+}
+
+/**
+ * Add the receiver's one public reply to a revealed review
+ * @param review Review being replied to
+ * @param userId User replying
+ * @param reply Reply text
+ * @returns The review with its reply
+ */
+export async function replyToReview(review: Review, userId: number, reply: string): Promise<Review> {
+  if (review.receiverId !== userId) {
+    throw new ReviewError('Only the reviewed party can reply to a review', 403);
+  }
+
+  if (!isRevealed(review)) {
+    throw new ReviewError('You can reply once the review is revealed', 409);
+  }
+
+  const updated = await storage.setReviewReply(review.id, reply, new Date());
+
+  if (!updated) {
+    throw new ReviewError('This review already has a reply', 409);
+  }
+
+  return updated;
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { msUntilHour, parseHourOfDay, runDailyAt, runPeriodically } from './scheduling';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('scheduling', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads a configured hour of the day', () => {
+    expect(parseHourOfDay(undefined, 'TEST_HOUR', 2)).toBe(2);
+    expect(parseHourOfDay('', 'TEST_HOUR', 2)).toBe(2);
+    expect(parseHourOfDay('0', 'TEST_HOUR', 2)).toBe(0);
+    expect(parseHourOfDay('23', 'TEST_HOUR', 2)).toBe(23);
+
+    for (const value of ['24', '-1', '2.5', '2am', 'noon']) {
+      expect(() => parseHourOfDay(value, 'TEST_HOUR', 2)).toThrow('TEST_HOUR must be a whole hour from 0 to 23');
+    }
+  });
+
+  it('counts to the next occurrence of an hour, tomorrow once it has passed', () => {
+    const now = new Date('2024-03-10T08:30:00Z');
+
+    expect(msUntilHour(9, now)).toBe(HOUR / 2);
+    expect(msUntilHour(8, now)).toBe(23.5 * HOUR);
+    expect(msUntilHour(8, new Date('2024-03-10T08:00:00Z'))).toBe(24 * HOUR);
+  });
+
+  it('runs a daily task at its hour, and again the next day after a failure', async () => {
+    vi.setSystemTime(new Date('2024-03-10T08:30:00Z'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const task = vi.fn().mockRejectedValueOnce(new Error('Down')).mockResolvedValue(undefined);
+
+    runDailyAt('Test', 9, task);
+
+    await vi.advanceTimersByTimeAsync(HOUR / 2 - 1);
+    expect(task).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalledWith('Test run failed:', expect.any(Error));
+
+    await vi.advanceTimersByTimeAsync(24 * HOUR);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips a periodic run while the previous one is still going', async () => {
+    let finish = () => {};
+    const task = vi.fn(() => new Promise<void>(resolve => {
+      finish = resolve;
+    }));
+
+    runPeriodically('Test', task, 1000);
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    finish();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,87 @@
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Read an hour of the day (UTC) from configuration
+ * @param value Configured value, if any
+ * @param name Setting the value came from, for the error message
+ * @param fallback Hour used when the setting is unset
+ * @throws Error when the value isn't a whole hour from 0 to 23
+ */
+export function parseHourOfDay(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const hour = Number(value);
+
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    throw new Error(`${name} must be a whole hour from 0 to 23`);
+  }
+
+  return hour;
+}
+
+/**
+ * Time until the next occurrence of an hour of the day (UTC)
+ */
+export function msUntilHour(hour: number, now: Date = new Date()): number {
+  const next = new Date(now);
+  next.setUTCHours(hour, 0, 0, 0);
+
+  if (next <= now) {
+    next.setTime(next.getTime() + DAY);
+  }
+
+  return next.getTime() - now.getTime();
+}
+
+/**
+ * Run a task once a day at an hour of the day (UTC)
+ * @param name Label for the task in error logs
+ * @param hour Hour to run at, 0-23
+ * @param task Work to run
+ */
+export function runDailyAt(name: string, hour: number, task: () => Promise<unknown>): void {
+  const run = async () => {
+    try {
+      await task();
+    } catch (error) {
+      console.error(`${name} run failed:`, error);
+    }
+
+    schedule();
+  };
+
+  const schedule = () => {
+    // Don't keep the process alive just for the next run
+    setTimeout(run, msUntilHour(hour)).unref();
+  };
+
+  schedule();
+}
+
+/**
+ * Run a task periodically, skipping a tick rather than overlapping a slow run
+ * @param name Label for the task in error logs
+ * @param task Work to run
+ * @param interval Milliseconds between runs
+ */
+export function runPeriodically(name: string, task: () => Promise<unknown>, interval: number): void {
+  let running = false;
+
+  // Don't keep the process alive just for the next run
+  setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      console.error(`${name} run failed:`, error);
+    } finally {
+      running = false;
+    }
+  }, interval).unref();
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createEncryptionKey, decryptSecret, encryptSecret } from './secret-encryption';
+
+describe('secret encryption', () => {
+  it('round-trips a secret', () => {
+    const encrypted = encryptSecret('webhook signing secret');
+
+    expect(encrypted).not.toContain('webhook');
+    expect(decryptSecret(encrypted)).toBe('webhook signing secret');
+  });
+
+  it('refuses to decrypt an altered value', () => {
+    const [iv, authTag, encrypted] = encryptSecret('webhook signing secret').split('.');
+    const altered = Buffer.from(encrypted, 'base64');
+    altered[0] ^= 1;
+
+    expect(() => decryptSecret([iv, authTag, altered.toString('base64')].join('.'))).toThrow();
+  });
+
+  it('derives the same key from the same SECRET_ENCRYPTION_KEY', () => {
+    const env = { SECRET_ENCRYPTION_KEY: 'configured' };
+
+    expect(createEncryptionKey(env)).toEqual(createEncryptionKey(env));
+    expect(createEncryptionKey(env)).not.toEqual(createEncryptionKey({ SECRET_ENCRYPTION_KEY: 'other' }));
+  });
+
+  it('only falls back to a per-process key for in-memory development', () => {
+    expect(createEncryptionKey({ STORAGE_DRIVER: 'memory' })).toHaveLength(32);
+    expect(createEncryptionKey({ STORAGE_DRIVER: 'memory', DATABASE_URL: 'postgres://db/app' })).toHaveLength(32);
+
+    expect(() => createEncryptionKey({ DATABASE_URL: 'postgres://db/app' })).toThrow(/SECRET_ENCRYPTION_KEY/);
+    expect(() => createEncryptionKey({ NODE_ENV: 'production', STORAGE_DRIVER: 'memory' }))
+      .toThrow(/SECRET_ENCRYPTION_KEY/);
+  });
+});
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { usesPersistentStorage } from '../storage';
+
+/**
+ * Derive the key secrets are encrypted with from SECRET_ENCRYPTION_KEY.
+ * Signing secrets (API keys, webhook subscriptions) are encrypted rather than
+ * hashed at rest, because computing an HMAC needs the secret itself. Without a
+ * configured key a per-process one is used, so stored secrets only stay usable
+ * until the server restarts; that is refused in production and whenever they
+ * are stored in a database.
+ * @throws Error when the key is required but not set
+ */
+export function createEncryptionKey(env: NodeJS.ProcessEnv = process.env): Buffer {
+  if (!env.SECRET_ENCRYPTION_KEY && (env.NODE_ENV === 'production' || usesPersistentStorage(env))) {
+    throw new Error('SECRET_ENCRYPTION_KEY must be set in production and when using a database');
+  }
+
+  return crypto
+    .createHash('sha256')
+    .update(env.SECRET_ENCRYPTION_KEY || crypto.randomBytes(32))
+    .digest();
+}
+
+const encryptionKey = createEncryptionKey();
+
+/**
+ * Encrypt a secret for storage with AES-256-GCM
+ * @param secret Plain-text secret
+ * @returns IV, auth tag and ciphertext, base64 encoded and joined with "."
+ */
+export function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+/**
+ * Decrypt a secret stored by encryptSecret
+ * @param encryptedSecret Stored value
+ * @returns Plain-text secret
+ * @throws Error when the value was encrypted with a different key or has been altered
+ */
+export function decryptSecret(encryptedSecret: string): string {
+  const [iv, authTag, encrypted] = encryptedSecret.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
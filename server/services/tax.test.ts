@@ -0,0 +1,174 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { InsertInvoice, TaxProfile, User, UserType } from '@shared/schema';
+import { money } from '@shared/money';
+import { storage } from '../storage';
+import { configureExchangeRates, setExchangeRateProvider, StaticExchangeRateProvider } from './exchange-rates';
+import { calculateInvoiceTax, estimateIncomeTax, getQuarterlyTaxSummary } from './tax';
+
+function profile(overrides: Partial<TaxProfile> = {}): TaxProfile {
+  return {
+    id: 1,
+    userId: 1,
+    country: 'GB',
+    registrationNumber: 'GB123456789',
+    taxRates: [{ name: 'VAT', rate: 2000 }],
+    reverseCharge: true,
+    incomeTaxRate: 0,
+    deductibleExpenseRate: 0,
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
+describe('invoice tax', () => {
+  it('charges every rate in the freelancer\'s profile', () => {
+    const indian = profile({
+      country: 'IN',
+      registrationNumber: '29ABCDE1234F1Z5',
+      taxRates: [{ name: 'CGST', rate: 900 }, { name: 'SGST', rate: 900 }]
+    });
+    const tax = calculateInvoiceTax(money(100005, 'INR'), indian, undefined);
+
+    expect(tax.taxLines).toEqual([
+      { name: 'CGST', rate: 900, taxableAmount: 100005, amount: 9000 },
+      { name: 'SGST', rate: 900, taxableAmount: 100005, amount: 9000 }
+    ]);
+    expect(tax).toMatchObject({ taxTotal: 18000, reverseCharge: false, freelancerTaxId: '29ABCDE1234F1Z5' });
+  });
+
+  it('charges nothing until the freelancer is registered', () => {
+    expect(calculateInvoiceTax(money(10000, 'GBP'), undefined, profile()).taxTotal).toBe(0);
+    expect(calculateInvoiceTax(money(10000, 'GBP'), profile({ registrationNumber: null }), undefined))
+      .toMatchObject({ taxLines: [], taxTotal: 0, freelancerTaxId: null });
+  });
+
+  it('reverse charges a registered client in another country', () => {
+    const client = profile({ country: 'DE', registrationNumber: 'DE987654321' });
+
+    expect(calculateInvoiceTax(money(10000, 'EUR'), profile(), client)).toEqual({
+      taxLines: [],
+      taxTotal: 0,
+      reverseCharge: true,
+      freelancerTaxId: 'GB123456789',
+      clientTaxId: 'DE987654321'
+    });
+  });
+
+  it('charges tax when reverse charge doesn\'t apply', () => {
+    const sameCountry = profile({ registrationNumber: 'GB000000000' });
+    const unregisteredAbroad = profile({ country: 'DE', registrationNumber: null });
+    const optedOut = profile({ reverseCharge: false });
+    const abroad = profile({ country: 'DE', registrationNumber: 'DE987654321' });
+
+    const pairs = [[profile(), sameCountry], [profile(), unregisteredAbroad], [optedOut, abroad]];
+
+    for (const [freelancer, client] of pairs) {
+      expect(calculateInvoiceTax(money(10000, 'GBP'), freelancer, client))
+        .toMatchObject({ taxTotal: 2000, reverseCharge: false });
+    }
+  });
+
+  it('estimates income tax after deductible expenses', () => {
+    expect(estimateIncomeTax(100000, profile({ deductibleExpenseRate: 2000, incomeTaxRate: 2500 })))
+      .toEqual({ estimatedTaxableIncome: 80000, estimatedTaxDue: 20000 });
+    expect(estimateIncomeTax(100000, undefined)).toEqual({ estimatedTaxableIncome: 0, estimatedTaxDue: 0 });
+  });
+});
+
+describe('quarterly tax summary', () => {
+  let freelancer: User;
+  let client: User;
+  let milestoneId = 0;
+
+  async function issueInvoice(issuedAt: Date, invoice: Partial<InsertInvoice>, voided = false): Promise<void> {
+    const subtotal = invoice.subtotal ?? 0;
+    const created = await storage.createInvoice(
+      {
+        contractId: 1,
+        freelancerId: freelancer.id,
+        clientId: client.id,
+        subtotal,
+        total: subtotal + (invoice.taxTotal ?? 0),
+        ...invoice
+      },
+      [{ milestoneId: --milestoneId, title: 'Work', amount: subtotal }]
+    );
+
+    await storage.issueInvoice(created!.id, issuedAt);
+
+    if (voided) {
+      await storage.voidInvoice(created!.id, issuedAt, 'Mistake');
+    }
+  }
+
+  beforeAll(async () => {
+    setExchangeRateProvider(new StaticExchangeRateProvider({ USD: 1, EUR: 0.5, GBP: 0.8, INR: 80 }));
+
+    freelancer = await storage.createUser({
+      username: 'tax-freelancer',
+      password: 'password',
+      email: 'tax-freelancer@example.com',
+      fullName: 'Tax Freelancer',
+      userType: UserType.FREELANCER,
+      homeCurrency: 'GBP'
+    });
+    client = await storage.createUser({
+      username: 'tax-client',
+      password: 'password',
+      email: 'tax-client@example.com',
+      fullName: 'Tax Client',
+      userType: UserType.CLIENT
+    });
+    await storage.setTaxProfile({
+      userId: freelancer.id,
+      country: 'GB',
+      registrationNumber: 'GB123456789',
+      taxRates: [{ name: 'VAT', rate: 2000 }],
+      reverseCharge: true,
+      incomeTaxRate: 2000,
+      deductibleExpenseRate: 1000
+    });
+
+    const vat = (amount: number) => [{ name: 'VAT', rate: 2000, taxableAmount: amount, amount: amount / 5 }];
+
+    await issueInvoice(new Date('2024-04-01T00:00:00Z'), {
+      subtotal: 10000, taxTotal: 2000, currency: 'GBP', taxLines: vat(10000)
+    });
+    // Converted to pounds: 20000 EUR cents at 0.5 EUR per dollar is 32000 pence
+    await issueInvoice(new Date('2024-06-30T23:59:59Z'), {
+      subtotal: 20000, taxTotal: 4000, currency: 'EUR', taxLines: vat(20000)
+    });
+    await issueInvoice(new Date('2024-05-15T00:00:00Z'), { subtotal: 8000, currency: 'GBP', reverseCharge: true });
+    // Left out: voided, and issued in the next quarter
+    await issueInvoice(new Date('2024-05-01T00:00:00Z'), { subtotal: 99999, currency: 'GBP' }, true);
+    await issueInvoice(new Date('2024-07-01T00:00:00Z'), { subtotal: 99999, currency: 'GBP' });
+  });
+
+  afterAll(() => {
+    configureExchangeRates({});
+  });
+
+  it('sums the quarter\'s issued invoices in the freelancer\'s home currency', async () => {
+    const summary = await getQuarterlyTaxSummary(freelancer, 2024, 2);
+
+    expect(summary).toMatchObject({
+      year: 2024,
+      quarter: 2,
+      from: new Date('2024-04-01T00:00:00Z'),
+      to: new Date('2024-07-01T00:00:00Z'),
+      currency: 'GBP',
+      invoiceCount: 3,
+      netSales: 50000,
+      reverseChargeSales: 8000,
+      taxCollected: [{ name: 'VAT', rate: 2000, taxableAmount: 42000, amount: 8400 }],
+      taxCollectedTotal: 8400,
+      estimatedTaxableIncome: 45000,
+      estimatedTaxDue: 9000
+    });
+  });
+
+  it('is empty for a quarter without invoices', async () => {
+    expect(await getQuarterlyTaxSummary(freelancer, 2024, 1))
+      .toMatchObject({ invoiceCount: 0, netSales: 0, taxCollected: [], taxCollectedTotal: 0 });
+  });
+});
@@ -0,0 +1,197 @@
+import { Invoice, InvoiceStatus, TaxLine, TaxProfile, TaxRate, User } from '@shared/schema';
+import { Money, money, sumMoney } from '@shared/money';
+import { storage } from '../storage';
+import { convertMoney } from './exchange-rates';
+
+const BASIS_POINTS = 10000;
+
+/**
+ * Tax charged on an invoice, as stored on it
+ */
+export interface InvoiceTax {
+  taxLines: TaxLine[];
+  taxTotal: number;
+  reverseCharge: boolean;
+  freelancerTaxId: string | null;
+  clientTaxId: string | null;
+}
+
+/**
+ * Estimated income tax on earnings
+ */
+export interface IncomeTaxEstimate {
+  estimatedTaxableIncome: number;
+  estimatedTaxDue: number;
+}
+
+/**
+ * A freelancer's invoiced sales and tax for one calendar quarter, converted
+ * to their home currency at current rates
+ */
+export interface QuarterlyTaxSummary extends IncomeTaxEstimate {
+  year: number;
+  quarter: number;
+  from: Date;
+  to: Date; // Exclusive
+  currency: string;
+  invoiceCount: number;
+  netSales: number; // Invoiced before tax, including reverse-charge sales
+  reverseChargeSales: number;
+  taxCollected: TaxLine[]; // One line per tax name and rate
+  taxCollectedTotal: number;
+}
+
+/**
+ * A rate in basis points applied to an amount, rounded to the nearest minor unit
+ */
+function applyRate(amount: number, rate: number): number {
+  return Math.round(amount * rate / BASIS_POINTS);
+}
+
+/**
+ * Work out the tax on an invoice. Only a freelancer with a registration
+ * number charges tax. When their profile applies reverse charge and the
+ * client is registered in another country, the invoice carries no tax lines
+ * and the client accounts for the tax instead.
+ * @param subtotal Invoice amount before tax
+ * @param freelancer The freelancer's tax profile, if set up
+ * @param client The client's tax profile, if set up
+ * @returns Tax lines and totals to store on the invoice
+ */
+export function calculateInvoiceTax(
+  subtotal: Money,
+  freelancer: TaxProfile | undefined,
+  client: TaxProfile | undefined
+): InvoiceTax {
+  const freelancerTaxId = freelancer?.registrationNumber ?? null;
+  const clientTaxId = client?.registrationNumber ?? null;
+  const none = { taxLines: [], taxTotal: 0, reverseCharge: false, freelancerTaxId, clientTaxId };
+
+  if (!freelancer || !freelancerTaxId) {
+    return none;
+  }
+
+  if (freelancer.reverseCharge && clientTaxId && client!.country !== freelancer.country) {
+    return { ...none, reverseCharge: true };
+  }
+
+  const taxLines = (freelancer.taxRates as TaxRate[]).map((rate): TaxLine => ({
+    name: rate.name,
+    rate: rate.rate,
+    taxableAmount: subtotal.amount,
+    amount: applyRate(subtotal.amount, rate.rate)
+  }));
+
+  return {
+    ...none,
+    taxLines,
+    taxTotal: sumMoney(taxLines.map(line => money(line.amount, subtotal.currency)), subtotal.currency).amount
+  };
+}
+
+/**
+ * Tax for a new invoice between a freelancer and a client, from their current profiles
+ * @param subtotal Invoice amount before tax
+ * @param freelancerId Freelancer raising the invoice
+ * @param clientId Client being invoiced
+ */
+export async function getInvoiceTax(subtotal: Money, freelancerId: number, clientId: number): Promise<InvoiceTax> {
+  const [freelancer, client] = await Promise.all([
+    storage.getTaxProfile(freelancerId),
+    storage.getTaxProfile(clientId)
+  ]);
+
+  return calculateInvoiceTax(subtotal, freelancer, client);
+}
+
+/**
+ * Estimate income tax from the deductible expense and income tax rates in a
+ * tax profile. Without a profile nothing is estimated.
+ * @param earnings Earnings in minor units
+ * @param profile The earner's tax profile, if set up
+ */
+export function estimateIncomeTax(earnings: number, profile: TaxProfile | undefined): IncomeTaxEstimate {
+  if (!profile) {
+    return { estimatedTaxableIncome: 0, estimatedTaxDue: 0 };
+  }
+
+  const estimatedTaxableIncome = earnings - applyRate(earnings, profile.deductibleExpenseRate);
+  return {
+    estimatedTaxableIncome,
+    estimatedTaxDue: applyRate(estimatedTaxableIncome, profile.incomeTaxRate)
+  };
+}
+
+/**
+ * First day of a calendar quarter and of the one after it, in UTC
+ */
+export function getQuarterRange(year: number, quarter: number): { from: Date; to: Date } {
+  return {
+    from: new Date(Date.UTC(year, (quarter - 1) * 3, 1)),
+    to: new Date(Date.UTC(year, quarter * 3, 1))
+  };
+}
+
+/**
+ * Summarise the invoices a freelancer issued in a quarter: net sales, tax
+ * collected per rate, and estimated income tax. Voided invoices are left out.
+ * @param user Freelancer to summarise
+ * @param year Calendar year
+ * @param quarter Quarter of the year, 1 to 4
+ */
+export async function getQuarterlyTaxSummary(user: User, year: number, quarter: number): Promise<QuarterlyTaxSummary> {
+  const { from, to } = getQuarterRange(year, quarter);
+  const currency = user.homeCurrency;
+
+  const issued = (await storage.getInvoicesByUser(user.id)).filter((invoice: Invoice) =>
+    invoice.freelancerId === user.id &&
+    invoice.status !== InvoiceStatus.VOID &&
+    invoice.issuedAt !== null &&
+    invoice.issuedAt >= from &&
+    invoice.issuedAt < to
+  );
+
+  const convert = async (amount: number, invoiceCurrency: string) =>
+    (await convertMoney(money(amount, invoiceCurrency), currency)).amount;
+
+  const sales: Money[] = [];
+  const reverseChargeSales: Money[] = [];
+  const taxByRate = new Map<string, TaxLine>();
+
+  for (const invoice of issued) {
+    const net = money(await convert(invoice.subtotal, invoice.currency), currency);
+    sales.push(net);
+
+    if (invoice.reverseCharge) {
+      reverseChargeSales.push(net);
+    }
+
+    for (const line of invoice.taxLines as TaxLine[]) {
+      const key = `${line.name}:${line.rate}`;
+      const total = taxByRate.get(key) ?? { name: line.name, rate: line.rate, taxableAmount: 0, amount: 0 };
+
+      taxByRate.set(key, {
+        ...total,
+        taxableAmount: total.taxableAmount + await convert(line.taxableAmount, invoice.currency),
+        amount: total.amount + await convert(line.amount, invoice.currency)
+      });
+    }
+  }
+
+  const taxCollected = Array.from(taxByRate.values());
+  const netSales = sumMoney(sales, currency).amount;
+
+  return {
+    year,
+    quarter,
+    from,
+    to,
+    currency,
+    invoiceCount: issued.length,
+    netSales,
+    reverseChargeSales: sumMoney(reverseChargeSales, currency).amount,
+    taxCollected,
+    taxCollectedTotal: sumMoney(taxCollected.map(line => money(line.amount, currency)), currency).amount,
+    ...estimateIncomeTax(netSales, await storage.getTaxProfile(user.id))
+  };
+}
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ContractStatus, EscrowPayment, EscrowStatus, Milestone, User, UserType } from '@shared/schema';
+import { storage } from '../storage';
+import { calculatePlatformFee, getDepositRequirement, getPlatformFeeRate, getReleaseTerms } from './tier-benefits';
+import { TRUST_TIERS, TrustTier } from './trust-score';
+
+const HOUR = 60 * 60 * 1000;
+
+function tier(name: TrustTier) {
+  return TRUST_TIERS.find(t => t.tier === name)!;
+}
+
+let sequence = 0;
+
+describe('platform fee', () => {
+  it('takes the fee rate in basis points and discounts it by tier', () => {
+    expect(calculatePlatformFee(100000, 500, tier(TrustTier.BRONZE))).toEqual({
+      feeRate: 500,
+      feeDiscountRate: 0,
+      feeAmount: 5000,
+      feeDiscount: 0,
+      payoutAmount: 95000
+    });
+    // Platinum takes 30% off the fee
+    expect(calculatePlatformFee(100000, 500, tier(TrustTier.PLATINUM))).toEqual({
+      feeRate: 500,
+      feeDiscountRate: 3000,
+      feeAmount: 5000,
+      feeDiscount: 1500,
+      payoutAmount: 96500
+    });
+  });
+
+  it('rounds the fee and discount to whole minor units', () => {
+    // 2.5% of 333 is 8.325; 10% of the 8 is 0.8
+    expect(calculatePlatformFee(333, 250, tier(TrustTier.SILVER)))
+      .toMatchObject({ feeAmount: 8, feeDiscount: 1, payoutAmount: 326 });
+  });
+
+  it('reads the rate from PLATFORM_FEE_RATE', () => {
+    expect(getPlatformFeeRate({})).toBe(500);
+    expect(getPlatformFeeRate({ PLATFORM_FEE_RATE: '0' })).toBe(0);
+    expect(getPlatformFeeRate({ PLATFORM_FEE_RATE: '750' })).toBe(750);
+
+    for (const value of ['10001', '-1', 'five']) {
+      expect(() => getPlatformFeeRate({ PLATFORM_FEE_RATE: value })).toThrow(/PLATFORM_FEE_RATE/);
+    }
+  });
+});
+
+describe('tier terms for users', () => {
+  let client: User;
+  let freelancer: User;
+
+  beforeEach(async () => {
+    const suffix = ++sequence;
+    [client, freelancer] = await Promise.all([UserType.CLIENT, UserType.FREELANCER].map(userType =>
+      storage.createUser({
+        username: `tiers-${userType}-${suffix}`,
+        password: 'password',
+        email: `tiers-${userType}-${suffix}@example.com`,
+        fullName: `Tiers ${userType}`,
+        userType
+      })
+    ));
+  });
+
+  function payment(overrides: Partial<EscrowPayment>): EscrowPayment {
+    return {
+      id: 1,
+      milestoneId: 1,
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      amount: 100000,
+      currency: 'USD',
+      status: EscrowStatus.FUNDED,
+      paymentMethod: 'stripe',
+      paymentDetails: null,
+      stripePaymentIntentId: null,
+      blockchainTxHash: null,
+      depositedAt: new Date(),
+      releasedAt: null,
+      feeTier: null,
+      feeRate: null,
+      feeDiscountRate: null,
+      feeAmount: null,
+      feeDiscount: null,
+      payoutAmount: null,
+      payoutDueAt: null,
+      paidOutAt: null,
+      ...overrides
+    };
+  }
+
+  it('holds a newcomer\'s payout for the Bronze payout time', async () => {
+    const releasedAt = new Date('2024-03-10T12:00:00Z');
+
+    expect(await getReleaseTerms(payment({}), releasedAt, false)).toMatchObject({
+      feeTier: TrustTier.BRONZE,
+      feeAmount: 5000,
+      payoutAmount: 95000,
+      payoutDueAt: new Date(releasedAt.getTime() + 72 * HOUR),
+      paidOutAt: null
+    });
+  });
+
+  it('counts funds captured by the provider as paid out on release', async () => {
+    const releasedAt = new Date('2024-03-10T12:00:00Z');
+
+    expect(await getReleaseTerms(payment({}), releasedAt, true))
+      .toMatchObject({ payoutDueAt: releasedAt, paidOutAt: releasedAt });
+  });
+
+  it('requires a newcomer client to fund the whole milestone before work starts', async () => {
+    const created = await storage.createContract({
+      title: 'Tier test',
+      description: 'Contract used by the tier tests',
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      totalAmount: 100000,
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 30 * 24 * HOUR)
+    });
+    await storage.updateContractStatus(created.id, ContractStatus.ACTIVE);
+    const milestone: Milestone = await storage.createMilestone({
+      contractId: created.id,
+      title: 'Everything',
+      description: 'The whole job',
+      amount: 100001,
+      dueDate: new Date(Date.now() + 7 * 24 * HOUR)
+    });
+    const payments = [
+      payment({ amount: 40000 }),
+      payment({ amount: 30000, status: EscrowStatus.RELEASED }),
+      payment({ amount: 30001, status: EscrowStatus.PENDING })
+    ];
+
+    expect(await getDepositRequirement(milestone, client.id, payments))
+      .toEqual({ requirement: 'full', required: 100001, funded: 70000 });
+  });
+});
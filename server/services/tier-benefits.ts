@@ -0,0 +1,116 @@
+import { EscrowPayment, EscrowReleaseTerms, EscrowStatus, Milestone } from '@shared/schema';
+import { calculateUserTrustScore, TrustTierBenefits } from './trust-score';
+
+const BASIS_POINTS = 10000;
+const HOUR = 60 * 60 * 1000;
+
+// Platform fee on each escrow release, unless PLATFORM_FEE_RATE overrides it
+const DEFAULT_PLATFORM_FEE_RATE = 500; // Basis points
+
+// Share of a milestone the client must have in escrow before work starts
+const ESCROW_DEPOSIT_RATES: Record<TrustTierBenefits['escrowRequirements'], number> = {
+  full: 10000,
+  partial: 5000,
+  minimal: 2500
+};
+
+/**
+ * Platform fee charged on an escrow release
+ */
+export interface PlatformFee {
+  feeRate: number;
+  feeDiscountRate: number;
+  feeAmount: number;
+  feeDiscount: number;
+  payoutAmount: number;
+}
+
+/**
+ * Escrow a client must deposit on a milestone before work on it starts
+ */
+export interface DepositRequirement {
+  requirement: TrustTierBenefits['escrowRequirements'];
+  required: number; // Minor units of the contract currency
+  funded: number;
+}
+
+/**
+ * The configured platform fee rate in basis points
+ */
+export function getPlatformFeeRate(env: NodeJS.ProcessEnv = process.env): number {
+  const rate = env.PLATFORM_FEE_RATE ? parseInt(env.PLATFORM_FEE_RATE, 10) : DEFAULT_PLATFORM_FEE_RATE;
+
+  if (!Number.isInteger(rate) || rate < 0 || rate > BASIS_POINTS) {
+    throw new Error('PLATFORM_FEE_RATE must be a whole number of basis points between 0 and 10000');
+  }
+
+  return rate;
+}
+
+/**
+ * Work out the fee on a released amount, less the tier's discount on the fee
+ * @param amount Released amount in minor units
+ * @param feeRate Fee in basis points
+ * @param tier The freelancer's trust tier
+ */
+export function calculatePlatformFee(amount: number, feeRate: number, tier: TrustTierBenefits): PlatformFee {
+  const feeDiscountRate = tier.platformFeeDiscount * 100;
+  const feeAmount = Math.round(amount * feeRate / BASIS_POINTS);
+  const feeDiscount = Math.round(feeAmount * feeDiscountRate / BASIS_POINTS);
+
+  return {
+    feeRate,
+    feeDiscountRate,
+    feeAmount,
+    feeDiscount,
+    payoutAmount: amount - feeAmount + feeDiscount
+  };
+}
+
+/**
+ * Fix the fee and payout time for a payment being released, from the
+ * freelancer's current tier. Funds already captured elsewhere count as paid out.
+ * @param payment Payment being released, with its final amount
+ * @param releasedAt Time of release
+ * @param paidOut Whether the funds have already reached the freelancer
+ */
+export async function getReleaseTerms(
+  payment: EscrowPayment,
+  releasedAt: Date,
+  paidOut: boolean
+): Promise<EscrowReleaseTerms> {
+  const { tier } = await calculateUserTrustScore(payment.freelancerId);
+  const payoutDueAt = paidOut ? releasedAt : new Date(releasedAt.getTime() + tier.payoutSpeed * HOUR);
+
+  return {
+    feeTier: tier.tier,
+    ...calculatePlatformFee(payment.amount, getPlatformFeeRate(), tier),
+    payoutDueAt,
+    paidOutAt: paidOut ? releasedAt : null
+  };
+}
+
+/**
+ * How much of a milestone the client must hold in escrow before work starts,
+ * according to the client's trust tier, and how much they have
+ * @param milestone Milestone about to start
+ * @param clientId Client funding it
+ * @param payments Escrow payments on the milestone
+ */
+export async function getDepositRequirement(
+  milestone: Milestone,
+  clientId: number,
+  payments: EscrowPayment[]
+): Promise<DepositRequirement> {
+  const { tier } = await calculateUserTrustScore(clientId);
+  const rate = ESCROW_DEPOSIT_RATES[tier.escrowRequirements];
+
+  return {
+    requirement: tier.escrowRequirements,
+    // Rounded up so a partial deposit is never short by a minor unit
+    required: Math.ceil(milestone.amount * rate / BASIS_POINTS),
+    funded: payments
+      .filter(p => p.status === EscrowStatus.FUNDED || p.status === EscrowStatus.RELEASED)
+      .reduce((sum, p) => sum + p.amount, 0)
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { base32Decode, base32Encode, generateHotp, generateTotp, getTimeStep, verifyTotp } from './totp';
+
+// The RFC 6238 test key, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    const bytes = Buffer.from('any carnal pleas');
+
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Decode('gezd gnbv gy3t qojq====')).toEqual(Buffer.from('1234567890'));
+  });
+
+  it('matches the RFC 4226 and RFC 6238 test vectors', () => {
+    expect(generateHotp(RFC_SECRET, 0)).toBe('755224');
+    expect(generateHotp(RFC_SECRET, 9)).toBe('520489');
+    // The RFC lists eight digits; six is the last six of them
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+  });
+
+  it('accepts a code from one step either side of now', () => {
+    const now = Date.UTC(2024, 0, 1, 12, 0, 15);
+    const step = getTimeStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step + 1), now)).toBe(step + 1);
+  });
+
+  it('rejects a code from further away', () => {
+    const now = Date.UTC(2024, 0, 1, 12, 0, 15);
+    const step = getTimeStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step - 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateHotp(RFC_SECRET, step + 2), now)).toBeNull();
+  });
+
+  it('rejects malformed codes without comparing them', () => {
+    expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345a')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '')).toBeNull();
+  });
+});
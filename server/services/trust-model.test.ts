@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_TRUST_MODEL_CONFIG, scoreTrustEvidence, scoreWithTrustModel, TRUST_MODEL_VERSION, TrustModelInput
+} from './trust-model';
+import { getTierForScore, TrustTier } from './trust-score';
+
+describe('trust model', () => {
+  it('starts a user with no history in the lowest tier', () => {
+    const score = scoreTrustEvidence({ rating: [], reliability: [], dispute: [] }, DEFAULT_TRUST_MODEL_CONFIG);
+
+    expect(getTierForScore(score.overallScore).tier).toBe(TrustTier.BRONZE);
+  });
+
+  it('moves a user with a good record out of the lowest tier', () => {
+    const now = new Date();
+    const good = Array.from({ length: 10 }, () => ({ value: 1, weight: 1, at: now }));
+    const score = scoreTrustEvidence(
+      { rating: good, reliability: good, dispute: good },
+      DEFAULT_TRUST_MODEL_CONFIG,
+      now
+    );
+
+    expect(getTierForScore(score.overallScore).tier).not.toBe(TrustTier.BRONZE);
+  });
+
+  describe('versions', () => {
+    const now = new Date();
+    const input: TrustModelInput = {
+      userType: 'freelancer',
+      history: {
+        contractsCompleted: 3,
+        contractsCancelled: 1,
+        averageRating: 4,
+        reviewCount: 2,
+        disputesInitiated: 0,
+        disputesLost: 1,
+        paymentsPunctual: 0,
+        paymentsLate: 5,
+        deliverablesOnTime: 3,
+        deliverablesLate: 1
+      },
+      evidence: { rating: [], reliability: [], dispute: [] }
+    };
+
+    it('reproduces version 1 from the lifetime history', () => {
+      const score = scoreWithTrustModel(1, input);
+
+      // 0.4 * 0.8 + 0.4 * 0.75 + 0.2 * 0.75
+      expect(score).toMatchObject({
+        overallScore: 77,
+        ratingFactor: 0.8,
+        reliabilityFactor: 0.75,
+        disputeFactor: 0.75,
+        modelVersion: 1,
+        modelConfig: null
+      });
+    });
+
+    it('scores a client\'s version 1 reliability on payments, and 0.5 without data', () => {
+      const client = scoreWithTrustModel(1, { ...input, userType: 'client' });
+      const newcomer = scoreWithTrustModel(1, {
+        ...input,
+        history: {
+          ...input.history,
+          contractsCompleted: 0,
+          contractsCancelled: 0,
+          reviewCount: 0,
+          deliverablesOnTime: 0,
+          deliverablesLate: 0
+        }
+      });
+
+      expect(client.reliabilityFactor).toBe(0);
+      expect(newcomer)
+        .toMatchObject({ overallScore: 50, ratingFactor: 0.5, reliabilityFactor: 0.5, disputeFactor: 0.5 });
+    });
+
+    it('reproduces version 2, which started newcomers at 0.5', () => {
+      expect(scoreWithTrustModel(2, input, undefined, now)).toMatchObject({ overallScore: 50, modelVersion: 2 });
+    });
+
+    it('scores the current version the same as scoreTrustEvidence', () => {
+      expect(scoreWithTrustModel(TRUST_MODEL_VERSION, input, DEFAULT_TRUST_MODEL_CONFIG, now))
+        .toEqual(scoreTrustEvidence(input.evidence, DEFAULT_TRUST_MODEL_CONFIG, now));
+    });
+
+    it('rejects an unknown version', () => {
+      expect(() => scoreWithTrustModel(99, input)).toThrow('Unknown trust model version 99');
+    });
+  });
+});
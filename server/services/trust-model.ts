@@ -0,0 +1,275 @@
+// Bump whenever the scoring below changes, so stored scores can be traced to the model that made them
+export const TRUST_MODEL_VERSION = 3;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Tunable parameters of the trust model. TRUST_MODEL_CONFIG may override
+ * any of them as JSON, e.g. {"halfLifeDays": 365}.
+ */
+export interface TrustModelConfig {
+  weights: {
+    rating: number;
+    reliability: number;
+    dispute: number;
+  };
+  halfLifeDays: number; // Age at which an event counts half as much as a new one
+  priorMean: number; // 0-1, what each factor is assumed to be with no evidence
+  priorStrength: number; // How many small contracts' worth of evidence the prior counts as
+}
+
+export const DEFAULT_TRUST_MODEL_CONFIG: TrustModelConfig = {
+  weights: { rating: 0.4, reliability: 0.4, dispute: 0.2 },
+  halfLifeDays: 180,
+  // Below the Silver threshold, so newcomers start in Bronze and earn their way up
+  priorMean: 0.4,
+  priorStrength: 3
+};
+
+/**
+ * One piece of evidence about a user, e.g. a review or a milestone delivered on time
+ */
+export interface TrustObservation {
+  value: number; // 0-1, where 1 is the best outcome
+  weight: number; // Relative importance, from contractValueWeight
+  at: Date;
+}
+
+/**
+ * Everything a user's trust score is calculated from
+ */
+export interface TrustEvidence {
+  rating: TrustObservation[];
+  reliability: TrustObservation[];
+  dispute: TrustObservation[];
+}
+
+/**
+ * The track record a trust score is calculated from
+ */
+export interface TrustHistory {
+  contractsCompleted: number;
+  contractsCancelled: number;
+  averageRating: number;
+  reviewCount: number;
+  disputesInitiated: number;
+  disputesLost: number;
+  paymentsPunctual: number; // For clients
+  paymentsLate: number;     // For clients
+  deliverablesOnTime: number; // For freelancers
+  deliverablesLate: number;   // For freelancers
+}
+
+/**
+ * What any version of the trust model may score a user on
+ */
+export interface TrustModelInput {
+  userType: 'freelancer' | 'client';
+  history: TrustHistory; // Version 1
+  evidence: TrustEvidence; // Version 2 onwards
+}
+
+/**
+ * A calculated trust score, with the model that produced it
+ */
+export interface TrustScore {
+  overallScore: number; // 0-100
+  ratingFactor: number; // 0-1
+  reliabilityFactor: number; // 0-1
+  disputeFactor: number; // 0-1
+  recommendation: string;
+  modelVersion: number;
+  modelConfig: TrustModelConfig | null; // Null for version 1, which had no configuration
+}
+
+/**
+ * The model configuration, with any TRUST_MODEL_CONFIG overrides applied.
+ * Factor weights are normalized to add up to 1.
+ */
+export function getTrustModelConfig(env: NodeJS.ProcessEnv = process.env): TrustModelConfig {
+  let overrides: Partial<TrustModelConfig> = {};
+
+  if (env.TRUST_MODEL_CONFIG) {
+    try {
+      overrides = JSON.parse(env.TRUST_MODEL_CONFIG);
+    } catch {
+      throw new Error('TRUST_MODEL_CONFIG must be a JSON object');
+    }
+  }
+
+  const config: TrustModelConfig = {
+    ...DEFAULT_TRUST_MODEL_CONFIG,
+    ...overrides,
+    weights: { ...DEFAULT_TRUST_MODEL_CONFIG.weights, ...overrides.weights }
+  };
+  const weights = Object.values(config.weights);
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+
+  if (weights.some(weight => !(weight >= 0)) || !(weightTotal > 0)) {
+    throw new Error('TRUST_MODEL_CONFIG weights must be non-negative and not all zero');
+  }
+  if (!(config.halfLifeDays > 0)) {
+    throw new Error('TRUST_MODEL_CONFIG halfLifeDays must be positive');
+  }
+  if (!(config.priorMean >= 0 && config.priorMean <= 1)) {
+    throw new Error('TRUST_MODEL_CONFIG priorMean must be between 0 and 1');
+  }
+  if (!(config.priorStrength > 0)) {
+    throw new Error('TRUST_MODEL_CONFIG priorStrength must be positive');
+  }
+
+  return {
+    ...config,
+    weights: {
+      rating: config.weights.rating / weightTotal,
+      reliability: config.weights.reliability / weightTotal,
+      dispute: config.weights.dispute / weightTotal
+    }
+  };
+}
+
+/**
+ * How much an event on a contract of a given value counts. Grows with the
+ * logarithm of the value, so a $10,000 contract counts about twice as
+ * much as a $100 one rather than a hundred times.
+ * @param usdAmount Value in US cents
+ */
+export function contractValueWeight(usdAmount: number): number {
+  return Math.log10(10 + Math.max(0, usdAmount) / 10000);
+}
+
+/**
+ * Recommendation shown alongside a score
+ * @param overallScore Score, 0-100
+ */
+export function getTrustRecommendation(overallScore: number): string {
+  if (overallScore >= 85) {
+    return 'Highly trusted user with excellent track record';
+  } else if (overallScore >= 70) {
+    return 'Good standing user with solid reliability';
+  } else if (overallScore >= 50) {
+    return 'Average trust level, proceed with normal verification';
+  } else if (overallScore >= 30) {
+    return 'Some concerns - additional verification recommended';
+  }
+  return 'High risk - enhanced verification strongly recommended';
+}
+
+/**
+ * Weighted average of the observations, each decayed by its age and
+ * smoothed towards the prior. With little evidence the factor stays near
+ * the prior; as evidence builds up it moves towards the user's record.
+ */
+function smoothedFactor(observations: TrustObservation[], config: TrustModelConfig, now: Date): number {
+  let weightTotal = config.priorStrength;
+  let valueTotal = config.priorMean * config.priorStrength;
+
+  for (const observation of observations) {
+    const age = Math.max(0, now.getTime() - observation.at.getTime());
+    const weight = observation.weight * Math.pow(0.5, age / (config.halfLifeDays * DAY));
+
+    weightTotal += weight;
+    valueTotal += weight * observation.value;
+  }
+
+  return valueTotal / weightTotal;
+}
+
+/**
+ * Score a user's evidence. The same evidence, configuration and time
+ * always give the same score.
+ * @param evidence Reviews, delivery or payment timeliness, and dispute outcomes
+ * @param config Model configuration
+ * @param now Time to measure event ages from
+ */
+export function scoreTrustEvidence(
+  evidence: TrustEvidence,
+  config: TrustModelConfig = getTrustModelConfig(),
+  now: Date = new Date()
+): TrustScore {
+  const ratingFactor = smoothedFactor(evidence.rating, config, now);
+  const reliabilityFactor = smoothedFactor(evidence.reliability, config, now);
+  const disputeFactor = smoothedFactor(evidence.dispute, config, now);
+
+  const overallScore = Math.round(
+    (ratingFactor * config.weights.rating +
+      reliabilityFactor * config.weights.reliability +
+      disputeFactor * config.weights.dispute) * 100
+  );
+
+  return {
+    overallScore,
+    ratingFactor,
+    reliabilityFactor,
+    disputeFactor,
+    recommendation: getTrustRecommendation(overallScore),
+    modelVersion: TRUST_MODEL_VERSION,
+    modelConfig: config
+  };
+}
+
+/**
+ * Version 1 of the trust model, which weighs a user's whole history
+ * equally. Each factor is a plain ratio, or 0.5 until there is data for it.
+ * @param userType Reliability is on-time delivery for freelancers and punctual payment for clients
+ * @param history User's lifetime track record
+ */
+export function scoreTrustHistoryV1(userType: 'freelancer' | 'client', history: TrustHistory): TrustScore {
+  const ratingFactor = history.reviewCount > 0 ? history.averageRating / 5 : 0.5;
+
+  const [onTime, late] = userType === 'freelancer'
+    ? [history.deliverablesOnTime, history.deliverablesLate]
+    : [history.paymentsPunctual, history.paymentsLate];
+  const reliabilityFactor = onTime + late > 0 ? onTime / (onTime + late) : 0.5;
+
+  const contractTotal = history.contractsCompleted + history.contractsCancelled;
+  const disputeFactor = contractTotal > 0 ? 1 - history.disputesLost / contractTotal : 0.5;
+
+  const overallScore = Math.round((ratingFactor * 0.4 + reliabilityFactor * 0.4 + disputeFactor * 0.2) * 100);
+
+  return {
+    overallScore,
+    ratingFactor,
+    reliabilityFactor,
+    disputeFactor,
+    recommendation: getTrustRecommendation(overallScore),
+    modelVersion: 1,
+    modelConfig: null
+  };
+}
+
+type TrustModel = (input: TrustModelInput, config: TrustModelConfig | undefined, now: Date) => TrustScore;
+
+// Every version stored scores may have come from, so any of them can be reproduced
+const TRUST_MODELS: Record<number, TrustModel> = {
+  1: input => scoreTrustHistoryV1(input.userType, input.history),
+  // Version 2 differed only in starting each factor at an even 0.5
+  2: (input, config = { ...DEFAULT_TRUST_MODEL_CONFIG, priorMean: 0.5 }, now) => ({
+    ...scoreTrustEvidence(input.evidence, config, now),
+    modelVersion: 2
+  }),
+  3: (input, config, now) => scoreTrustEvidence(input.evidence, config, now)
+};
+
+/**
+ * Score a user with a given version of the trust model, e.g. to reproduce
+ * a stored snapshot from its model_version and model_config
+ * @param version Trust model version
+ * @param input What the user is scored on
+ * @param config Configuration the score was made with; ignored by version 1
+ * @param now Time to measure event ages from
+ */
+export function scoreWithTrustModel(
+  version: number,
+  input: TrustModelInput,
+  config?: TrustModelConfig,
+  now: Date = new Date()
+): TrustScore {
+  const model = TRUST_MODELS[version];
+
+  if (!model) {
+    throw new Error(`Unknown trust model version ${version}`);
+  }
+
+  return model(input, config, now);
+}
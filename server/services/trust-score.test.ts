@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ContractStatus, DisputeStatus, User, UserType } from '@shared/schema';
+import { storage } from '../storage';
+import {
+  calculateUserTrustScore, getTierForScore, getTrustScoreSummary, getUserTrustHistory, TrustTier
+} from './trust-score';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let sequence = 0;
+
+describe('trust scores', () => {
+  let client: User;
+  let freelancer: User;
+
+  beforeEach(async () => {
+    const suffix = ++sequence;
+    [client, freelancer] = await Promise.all([UserType.CLIENT, UserType.FREELANCER].map(userType =>
+      storage.createUser({
+        username: `trust-${userType}-${suffix}`,
+        password: 'password',
+        email: `trust-${userType}-${suffix}@example.com`,
+        fullName: `Trust ${userType}`,
+        userType
+      })
+    ));
+  });
+
+  /**
+   * A finished contract with one milestone delivered on time or late, a
+   * revealed review of the freelancer and optionally a dispute they lost
+   */
+  async function completeContract(options: { onTime: boolean; rating: number; lostDispute?: boolean }) {
+    const created = await storage.createContract({
+      title: 'Trust test',
+      description: 'Contract used by the trust score tests',
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      totalAmount: 100000,
+      startDate: new Date(Date.now() - 30 * DAY),
+      endDate: new Date()
+    });
+    const contract = (await storage.updateContractStatus(created.id, ContractStatus.COMPLETED))!;
+    const milestone = await storage.createMilestone({
+      contractId: contract.id,
+      title: 'Everything',
+      description: 'The whole job',
+      amount: 100000,
+      dueDate: new Date(Date.now() - 2 * DAY)
+    });
+    await storage.completeMilestone(milestone.id, new Date(Date.now() - (options.onTime ? 3 : 1) * DAY));
+    await storage.createReview({
+      contractId: contract.id,
+      reviewerId: client.id,
+      receiverId: freelancer.id,
+      rating: options.rating,
+      comment: null,
+      revealedAt: new Date(Date.now() - DAY)
+    });
+
+    if (options.lostDispute) {
+      const dispute = await storage.createDispute({
+        contractId: contract.id,
+        initiatedBy: client.id,
+        respondent: freelancer.id,
+        reason: 'Late'
+      });
+      await storage.updateDispute(dispute.id, { status: DisputeStatus.RESOLVED_FOR_CLIENT, resolvedAt: new Date() });
+    }
+  }
+
+  it('places scores in the highest tier they reach', () => {
+    expect(getTierForScore(0).tier).toBe(TrustTier.BRONZE);
+    expect(getTierForScore(49).tier).toBe(TrustTier.BRONZE);
+    expect(getTierForScore(50).tier).toBe(TrustTier.SILVER);
+    expect(getTierForScore(75).tier).toBe(TrustTier.GOLD);
+    expect(getTierForScore(89).tier).toBe(TrustTier.GOLD);
+    expect(getTierForScore(100).tier).toBe(TrustTier.PLATINUM);
+  });
+
+  it('reports how far a newcomer is from the next tier', async () => {
+    const report = await calculateUserTrustScore(freelancer.id);
+
+    expect(report.tier.tier).toBe(TrustTier.BRONZE);
+    expect(report.nextTier?.tier).toBe(TrustTier.SILVER);
+    expect(report.pointsToNextTier).toBe(50 - report.trustScore.overallScore);
+    expect(report.history).toMatchObject({ contractsCompleted: 0, reviewCount: 0 });
+  });
+
+  it('counts the track record behind the score', async () => {
+    await completeContract({ onTime: true, rating: 5 });
+    await completeContract({ onTime: false, rating: 3, lostDispute: true });
+
+    expect(await getUserTrustHistory(freelancer.id)).toMatchObject({
+      contractsCompleted: 2,
+      averageRating: 4,
+      reviewCount: 2,
+      disputesInitiated: 0,
+      disputesLost: 1,
+      deliverablesOnTime: 1,
+      deliverablesLate: 1
+    });
+  });
+
+  it('scores a good record above a bad one', async () => {
+    await completeContract({ onTime: true, rating: 5 });
+    const good = await calculateUserTrustScore(freelancer.id);
+
+    await completeContract({ onTime: false, rating: 1, lostDispute: true });
+    const mixed = await calculateUserTrustScore(freelancer.id);
+
+    expect(mixed.trustScore.overallScore).toBeLessThan(good.trustScore.overallScore);
+    expect(mixed.trustScore.disputeFactor).toBeLessThan(good.trustScore.disputeFactor);
+  });
+
+  it('shows others only the headline figures', async () => {
+    await completeContract({ onTime: true, rating: 5 });
+
+    const report = await calculateUserTrustScore(freelancer.id);
+
+    expect(await getTrustScoreSummary(freelancer.id)).toEqual({
+      userId: freelancer.id,
+      overallScore: report.trustScore.overallScore,
+      tier: report.tier.tier,
+      averageRating: 5,
+      reviewCount: 1,
+      contractsCompleted: 1
+    });
+  });
+});
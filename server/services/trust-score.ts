@@ -1,6 +1,24 @@
-import { User, Contract, Milestone, Dispute, Review } from '@shared/schema';
+import { User, Contract, Milestone, Dispute, Review, TrustScoreSnapshot, UserType, DisputeStatus, ContractStatus, MilestoneStatus } from '@shared/schema';
+import { money } from '@shared/money';
 import { storage } from '../storage';
-import { calculateTrustScore } from './ai';
+import { convertMoney, ExchangeRateError } from './exchange-rates';
+import { notifyTrustTierChanged } from './notifications';
+import { parseHourOfDay, runDailyAt } from './scheduling';
+import {
+  contractValueWeight,
+  DEFAULT_TRUST_MODEL_CONFIG,
+  scoreTrustEvidence,
+  TRUST_MODEL_VERSION,
+  TrustEvidence,
+  TrustHistory,
+  TrustScore
+} from './trust-model';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Hour of the day (UTC) every user's score is snapshotted, unless TRUST_SNAPSHOT_HOUR overrides it.
+// A fixed hour keeps snapshots a day apart however often the server restarts.
+const DEFAULT_SNAPSHOT_HOUR = 2;
 
 /**
  * Trust Score Tiers with benefits
@@ -15,7 +33,7 @@ export enum TrustTier {
 /**
  * Trust Score benefits by tier
  */
-interface TrustTierBenefits {
+export interface TrustTierBenefits {
   tier: TrustTier;
   minimumScore: number;
   platformFeeDiscount: number; // Percentage discount on platform fees
@@ -72,22 +90,37 @@ export const TRUST_TIERS: TrustTierBenefits[] = [
   }
 ];
 
+/**
+ * What a counterparty sees of another user's trust score
+ */
+export interface TrustScoreSummary {
+  userId: number;
+  overallScore: number;
+  tier: TrustTier;
+  averageRating: number;
+  reviewCount: number;
+  contractsCompleted: number;
+}
+
+const EMPTY_TRUST_HISTORY: TrustHistory = {
+  contractsCompleted: 0,
+  contractsCancelled: 0,
+  averageRating: 0,
+  reviewCount: 0,
+  disputesInitiated: 0,
+  disputesLost: 0,
+  paymentsPunctual: 0,
+  paymentsLate: 0,
+  deliverablesOnTime: 0,
+  deliverablesLate: 0
+};
+
 /**
  * Get user trust history data
  * @param userId User ID to get history for
  * @returns User's trust history data
  */
-export async function getUserTrustHistory(userId: number): Promise<{
-  contractsCompleted: number;
-  contractsCancelled: number;
-  averageRating: number;
-  disputesInitiated: number;
-  disputesLost: number;
-  paymentsPunctual: number; // For clients
-  paymentsLate: number;     // For clients
-  deliverablesOnTime: number; // For freelancers
-  deliverablesLate: number;   // For freelancers
-}> {
+export async function getUserTrustHistory(userId: number): Promise<TrustHistory> {
   try {
     const user = await storage.getUser(userId);
     
@@ -108,8 +141,9 @@ export async function getUserTrustHistory(userId: number): Promise<{
     // Count cancelled contracts
     const contractsCancelled = contracts.filter(c => c.status === 'cancelled').length;
     
-    // Get average rating
+    // Get average rating, counting only reviews that have been revealed
     const averageRating = await storage.getUserRating(userId);
+    const reviewCount = (await storage.getRevealedReviewsByUser(userId, new Date())).length;
     
     // Get disputes
     const disputes = await storage.getDisputesByUser(userId);
@@ -176,6 +210,7 @@ export async function getUserTrustHistory(userId: number): Promise<{
       contractsCompleted,
       contractsCancelled,
       averageRating,
+      reviewCount,
       disputesInitiated,
       disputesLost,
       paymentsPunctual,
@@ -187,37 +222,166 @@ export async function getUserTrustHistory(userId: number): Promise<{
     console.error('Error retrieving user trust history:', error);
     
     // Return default values if data can't be retrieved
-    return {
-      contractsCompleted: 0,
-      contractsCancelled: 0,
-      averageRating: 0,
-      disputesInitiated: 0,
-      disputesLost: 0,
-      paymentsPunctual: 0,
-      paymentsLate: 0,
-      deliverablesOnTime: 0,
-      deliverablesLate: 0
-    };
+    return EMPTY_TRUST_HISTORY;
   }
 }
 
 /**
- * Calculate a user's trust score and determine their tier
- * @param userId User ID to calculate score for
- * @returns Trust score details and tier benefits
+ * How much an event on a contract counts, by the contract's value in US
+ * dollars. Counts as a small contract if the currency can't be converted.
  */
-export async function calculateUserTrustScore(userId: number): Promise<{
-  trustScore: {
-    overallScore: number;
-    ratingFactor: number;
-    reliabilityFactor: number;
-    disputeFactor: number;
-    recommendation: string;
-  };
+async function getValueWeight(amount: number, currency: string): Promise<number> {
+  try {
+    const usd = await convertMoney(money(amount, currency), 'USD');
+    return contractValueWeight(usd.amount);
+  } catch (error) {
+    if (error instanceof ExchangeRateError) {
+      return contractValueWeight(0);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Collect the dated, value-weighted evidence the trust model scores a user on
+ * @param user User to collect evidence for
+ * @param now Reviews revealed after this are left out
+ */
+async function getUserTrustEvidence(user: User, now: Date): Promise<TrustEvidence> {
+  const evidence: TrustEvidence = { rating: [], reliability: [], dispute: [] };
+
+  let contracts: Contract[] = [];
+  if (user.userType === UserType.FREELANCER) {
+    contracts = await storage.getContractsByFreelancer(user.id);
+  } else if (user.userType === UserType.CLIENT) {
+    contracts = await storage.getContractsByClient(user.id);
+  }
+
+  const contractWeights = new Map<number, number>();
+  for (const contract of contracts) {
+    contractWeights.set(contract.id, await getValueWeight(contract.totalAmount, contract.currency));
+  }
+
+  // Reviews received, dated from when they became public
+  for (const review of await storage.getRevealedReviewsByUser(user.id, now)) {
+    evidence.rating.push({
+      value: review.rating / 5,
+      weight: contractWeights.get(review.contractId) ?? contractValueWeight(0),
+      at: review.revealedAt
+    });
+  }
+
+  const lostStatus = user.userType === UserType.FREELANCER
+    ? DisputeStatus.RESOLVED_FOR_CLIENT
+    : DisputeStatus.RESOLVED_FOR_FREELANCER;
+  const disputesLost = (await storage.getDisputesByUser(user.id)).filter(d => d.status === lostStatus);
+
+  for (const contract of contracts) {
+    const weight = contractWeights.get(contract.id)!;
+
+    // One dispute outcome per finished contract: clean, or lost
+    if (contract.status === ContractStatus.COMPLETED || contract.status === ContractStatus.CANCELLED) {
+      const lost = disputesLost.find(d => d.contractId === contract.id);
+      const history = await storage.getContractStatusHistory(contract.id);
+      const endedAt = history[history.length - 1]?.createdAt ?? contract.createdAt ?? now;
+
+      evidence.dispute.push({ value: lost ? 0 : 1, weight, at: lost?.resolvedAt ?? endedAt });
+    }
+
+    for (const milestone of await storage.getMilestonesByContract(contract.id)) {
+      if (milestone.status !== MilestoneStatus.COMPLETED || !milestone.completedDate) continue;
+
+      const completedAt = new Date(milestone.completedDate);
+
+      if (user.userType === UserType.FREELANCER) {
+        // Deliverables, weighted by the milestone's share of the contract value
+        const share = contract.totalAmount > 0 ? milestone.amount / contract.totalAmount : 1;
+        evidence.reliability.push({
+          value: completedAt <= new Date(milestone.dueDate) ? 1 : 0,
+          weight: weight * share,
+          at: completedAt
+        });
+      } else {
+        // Payments count as punctual if released within 3 days of completion
+        const deadline = new Date(completedAt.getTime() + 3 * DAY);
+
+        for (const payment of await storage.getEscrowPaymentsByMilestone(milestone.id)) {
+          if (!payment.releasedAt) continue;
+
+          const releasedAt = new Date(payment.releasedAt);
+          const share = contract.totalAmount > 0 ? payment.amount / contract.totalAmount : 1;
+          evidence.reliability.push({ value: releasedAt <= deadline ? 1 : 0, weight: weight * share, at: releasedAt });
+        }
+      }
+    }
+  }
+
+  return evidence;
+}
+
+/**
+ * A user's trust score with its tier and the history behind it
+ */
+export interface TrustScoreReport {
+  trustScore: TrustScore;
   tier: TrustTierBenefits;
   nextTier?: TrustTierBenefits;
   pointsToNextTier?: number;
-}> {
+  history: TrustHistory;
+}
+
+/**
+ * The highest tier a score qualifies for
+ * @param score Overall score, 0-100
+ */
+export function getTierForScore(score: number): TrustTierBenefits {
+  return TRUST_TIERS.reduce((highest, tier) => {
+    if (score >= tier.minimumScore && tier.minimumScore >= highest.minimumScore) {
+      return tier;
+    }
+    return highest;
+  }, TRUST_TIERS[0]);
+}
+
+/**
+ * Score a user and determine their tier, letting any failure through
+ * @param user User to score
+ */
+async function scoreUser(user: User): Promise<TrustScoreReport> {
+  const now = new Date();
+  const userHistory = await getUserTrustHistory(user.id);
+  const trustScore = scoreTrustEvidence(await getUserTrustEvidence(user, now), undefined, now);
+  
+  // Determine current tier based on score
+  const currentTier = getTierForScore(trustScore.overallScore);
+  
+  // Find next tier if not at the highest
+  let nextTier: TrustTierBenefits | undefined;
+  let pointsToNextTier: number | undefined;
+  
+  if (currentTier.tier !== TrustTier.PLATINUM) {
+    const tierIndex = TRUST_TIERS.findIndex(t => t.tier === currentTier.tier);
+    if (tierIndex >= 0 && tierIndex < TRUST_TIERS.length - 1) {
+      nextTier = TRUST_TIERS[tierIndex + 1];
+      pointsToNextTier = nextTier.minimumScore - trustScore.overallScore;
+    }
+  }
+  
+  return {
+    trustScore,
+    tier: currentTier,
+    nextTier,
+    pointsToNextTier,
+    history: userHistory
+  };
+}
+
+/**
+ * Calculate a user's trust score and determine their tier
+ * @param userId User ID to calculate score for
+ * @returns Trust score details and tier benefits
+ */
+export async function calculateUserTrustScore(userId: number): Promise<TrustScoreReport> {
   try {
     const user = await storage.getUser(userId);
     
@@ -225,41 +389,7 @@ export async function calculateUserTrustScore(userId: number): Promise<{
       throw new Error('User not found');
     }
     
-    const userHistory = await getUserTrustHistory(userId);
-    
-    // Calculate trust score using AI service
-    const trustScore = await calculateTrustScore(
-      userId,
-      user.userType as 'freelancer' | 'client',
-      userHistory
-    );
-    
-    // Determine current tier based on score
-    const currentTier = TRUST_TIERS.reduce((highest, tier) => {
-      if (trustScore.overallScore >= tier.minimumScore && tier.minimumScore >= highest.minimumScore) {
-        return tier;
-      }
-      return highest;
-    }, TRUST_TIERS[0]);
-    
-    // Find next tier if not at the highest
-    let nextTier: TrustTierBenefits | undefined;
-    let pointsToNextTier: number | undefined;
-    
-    if (currentTier.tier !== TrustTier.PLATINUM) {
-      const tierIndex = TRUST_TIERS.findIndex(t => t.tier === currentTier.tier);
-      if (tierIndex >= 0 && tierIndex < TRUST_TIERS.length - 1) {
-        nextTier = TRUST_TIERS[tierIndex + 1];
-        pointsToNextTier = nextTier.minimumScore - trustScore.overallScore;
-      }
-    }
-    
-    return {
-      trustScore,
-      tier: currentTier,
-      nextTier,
-      pointsToNextTier
-    };
+    return await scoreUser(user);
   } catch (error) {
     console.error('Error calculating trust score:', error);
     
@@ -270,53 +400,92 @@ export async function calculateUserTrustScore(userId: number): Promise<{
         ratingFactor: 0,
         reliabilityFactor: 0,
         disputeFactor: 0,
-        recommendation: 'Unable to calculate trust score'
+        recommendation: 'Unable to calculate trust score',
+        modelVersion: TRUST_MODEL_VERSION,
+        modelConfig: DEFAULT_TRUST_MODEL_CONFIG
       },
-      tier: TRUST_TIERS[0] // Default to Bronze tier
+      tier: TRUST_TIERS[0], // Default to Bronze tier
+      history: EMPTY_TRUST_HISTORY
     };
   }
 }
 
 /**
- * Apply trust tier benefits to a transaction or operation
- * @param userId User ID to apply benefits for
- * @param operation Type of operation ('fee', 'payout', 'escrow', etc.)
- * @param value Original value to modify based on benefits
- * @returns Modified value based on user's trust tier
+ * The parts of a user's trust score shown to other users. The factor
+ * breakdown and tier benefits stay private to the user.
+ * @param userId User ID to summarise
+ * @returns Score, tier and headline track record
  */
-export async function applyTrustBenefits(
-  userId: number,
-  operation: 'fee' | 'payout' | 'escrow' | 'verification',
-  value: number | string
-): Promise<number | string> {
-  try {
-    const { tier } = await calculateUserTrustScore(userId);
-    
-    switch (operation) {
-      case 'fee':
-        // Apply fee discount
-        if (typeof value === 'number') {
-          return value * (1 - tier.platformFeeDiscount / 100);
-        }
-        return value;
-        
-      case 'payout':
-        // Return payout speed in hours
-        return tier.payoutSpeed;
-        
-      case 'escrow':
-        // Return escrow requirements level
-        return tier.escrowRequirements;
-        
-      case 'verification':
-        // Return verification level
-        return tier.verificationLevel;
-        
-      default:
-        return value;
+export async function getTrustScoreSummary(userId: number): Promise<TrustScoreSummary> {
+  const { trustScore, tier, history } = await calculateUserTrustScore(userId);
+
+  return {
+    userId,
+    overallScore: trustScore.overallScore,
+    tier: tier.tier,
+    averageRating: history.averageRating,
+    reviewCount: history.reviewCount,
+    contractsCompleted: history.contractsCompleted
+  };
+}
+
+/**
+ * Record every client's and freelancer's current trust score, and tell
+ * users whose tier changed since their last snapshot. A user whose score
+ * can't be calculated is skipped, so a failure never reads as a drop.
+ * @returns Number of snapshots taken
+ */
+export async function snapshotTrustScores(): Promise<number> {
+  const users = [
+    ...await storage.getUsersByType(UserType.FREELANCER),
+    ...await storage.getUsersByType(UserType.CLIENT)
+  ];
+  let taken = 0;
+
+  for (const user of users) {
+    try {
+      const { trustScore, tier } = await scoreUser(user);
+      const previous = await storage.getLatestTrustScoreSnapshot(user.id);
+      const snapshot = await storage.createTrustScoreSnapshot({
+        userId: user.id,
+        overallScore: trustScore.overallScore,
+        ratingFactor: trustScore.ratingFactor,
+        reliabilityFactor: trustScore.reliabilityFactor,
+        disputeFactor: trustScore.disputeFactor,
+        tier: tier.tier,
+        modelVersion: trustScore.modelVersion,
+        modelConfig: trustScore.modelConfig
+      });
+      taken++;
+
+      // The first snapshot has nothing to compare against
+      if (previous && previous.tier !== snapshot.tier) {
+        const rank = (name: string) => TRUST_TIERS.findIndex(t => t.tier === name);
+        await notifyTrustTierChanged(snapshot, previous.tier, rank(snapshot.tier) > rank(previous.tier));
+      }
+    } catch (error) {
+      console.error(`Failed to snapshot trust score for user ${user.id}:`, error);
     }
-  } catch (error) {
-    console.error('Error applying trust benefits:', error);
-    return value; // Return original value if there's an error
   }
-}
\ No newline at end of file
+
+  return taken;
+}
+
+/**
+ * A user's snapshots over the last number of days, oldest first
+ * @param userId User the snapshots belong to
+ * @param days How far back to go
+ */
+export async function getTrustScoreHistory(userId: number, days: number): Promise<TrustScoreSnapshot[]> {
+  return storage.getTrustScoreSnapshots(userId, new Date(Date.now() - days * DAY));
+}
+
+/**
+ * Snapshot trust scores once a day
+ * @throws Error when TRUST_SNAPSHOT_HOUR isn't an hour of the day
+ */
+export function scheduleTrustScoreSnapshots(env: NodeJS.ProcessEnv = process.env): void {
+  const hour = parseHourOfDay(env.TRUST_SNAPSHOT_HOUR, 'TRUST_SNAPSHOT_HOUR', DEFAULT_SNAPSHOT_HOUR);
+
+  runDailyAt('Trust score snapshot', hour, snapshotTrustScores);
+}
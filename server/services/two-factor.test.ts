@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { User, UserType } from '@shared/schema';
+import { storage } from '../storage';
+import { generateTotp } from './totp';
+import {
+  beginEnrollment, confirmEnrollment, getRemainingBackupCodes, isTwoFactorEnabled, verifySecondFactor
+} from './two-factor';
+
+let sequence = 0;
+
+describe('two-factor authentication', () => {
+  let user: User;
+
+  beforeEach(async () => {
+    const suffix = ++sequence;
+    user = await storage.createUser({
+      username: `two-factor-${suffix}`,
+      password: 'password',
+      email: `two-factor-${suffix}@example.com`,
+      fullName: 'Two Factor',
+      userType: UserType.FREELANCER
+    });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2024, 0, 1, 12, 0, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function enrol(): Promise<{ secret: string; backupCodes: string[] }> {
+    const { secret } = await beginEnrollment(user);
+    const backupCodes = await confirmEnrollment(user, generateTotp(secret));
+    return { secret, backupCodes };
+  }
+
+  it('stays off until a code from the app is confirmed', async () => {
+    await beginEnrollment(user);
+
+    expect(await isTwoFactorEnabled(user.id)).toBe(false);
+    await expect(confirmEnrollment(user, '000000')).rejects.toMatchObject({ status: 400 });
+    expect(await isTwoFactorEnabled(user.id)).toBe(false);
+  });
+
+  it('rejects the code used to enrol and accepts the next one', async () => {
+    const { secret } = await enrol();
+
+    expect(await verifySecondFactor(user.id, generateTotp(secret))).toBe(false);
+
+    vi.setSystemTime(Date.now() + 30 * 1000);
+
+    expect(await verifySecondFactor(user.id, generateTotp(secret))).toBe(true);
+    // A second sign-in in the same step can't reuse it
+    expect(await verifySecondFactor(user.id, generateTotp(secret))).toBe(false);
+  });
+
+  it('accepts each backup code once', async () => {
+    const { backupCodes } = await enrol();
+
+    expect(await verifySecondFactor(user.id, backupCodes[0].toUpperCase())).toBe(true);
+    expect(await verifySecondFactor(user.id, backupCodes[0])).toBe(false);
+    expect(await getRemainingBackupCodes(user.id)).toBe(backupCodes.length - 1);
+  });
+
+  it('refuses to enrol again while enabled', async () => {
+    await enrol();
+
+    await expect(beginEnrollment(user)).rejects.toMatchObject({ status: 409 });
+  });
+});
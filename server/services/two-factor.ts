@@ -0,0 +1,206 @@
+import { randomBytes } from 'crypto';
+import { TwoFactorAuth, User } from '@shared/schema';
+import { storage } from '../storage';
+import { hashPassword, verifyPassword } from './password';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from './totp';
+
+/**
+ * Error raised when a two-factor operation is rejected
+ */
+export class TwoFactorError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'TwoFactorError';
+    this.status = status;
+  }
+}
+
+// Shown as the account issuer in authenticator apps
+const TOTP_ISSUER = 'ContractPay';
+
+const BACKUP_CODE_COUNT = 10;
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Generate plaintext single-use backup codes, formatted as xxxxx-xxxxx
+ */
+function generateBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+function normaliseBackupCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[^0-9a-f]/g, '');
+}
+
+/**
+ * Replace a user's backup codes, storing only their hashes
+ * @returns The new plaintext codes, which can't be recovered later
+ */
+async function issueBackupCodes(userId: number): Promise<string[]> {
+  const codes = generateBackupCodes();
+  const hashed = await Promise.all(codes.map(code => hashPassword(normaliseBackupCode(code))));
+
+  await storage.updateTwoFactorAuth(userId, { backupCodes: hashed });
+  return codes;
+}
+
+/**
+ * Whether the user has completed two-factor enrolment
+ * @param userId User to check
+ */
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  const tfa = await storage.getTwoFactorAuthByUser(userId);
+  return !!tfa?.verified;
+}
+
+/**
+ * Start (or restart) enrolment with a fresh secret. Two-factor stays off
+ * until the user proves their app works with confirmEnrollment.
+ * @param user User enrolling
+ * @returns The secret and the otpauth URI to show as a QR code
+ */
+export async function beginEnrollment(user: User): Promise<TwoFactorEnrollment> {
+  const existing = await storage.getTwoFactorAuthByUser(user.id);
+
+  if (existing?.verified) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+  }
+
+  const secret = generateTotpSecret();
+
+  if (existing) {
+    await storage.updateTwoFactorAuth(user.id, { secret, backupCodes: [], lastUsedStep: null });
+  } else {
+    await storage.setupTwoFactorAuth({ userId: user.id, secret, verified: false, backupCodes: [] });
+  }
+
+  return { secret, otpauthUri: buildOtpAuthUri(secret, user.username, TOTP_ISSUER) };
+}
+
+/**
+ * Finish enrolment by checking a code from the authenticator app
+ * @param user User enrolling
+ * @param token Current TOTP code
+ * @returns Plaintext backup codes, shown to the user once
+ */
+export async function confirmEnrollment(user: User, token: string): Promise<string[]> {
+  const tfa = await storage.getTwoFactorAuthByUser(user.id);
+
+  if (!tfa) {
+    throw new TwoFactorError('Two-factor enrolment has not been started', 400);
+  }
+
+  if (tfa.verified) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+  }
+
+  const step = verifyTotp(tfa.secret, token);
+
+  if (step === null) {
+    throw new TwoFactorError('Invalid authentication code', 400);
+  }
+
+  await storage.updateTwoFactorAuth(user.id, { verified: true, lastUsedStep: step });
+  return issueBackupCodes(user.id);
+}
+
+/**
+ * Check a TOTP code, rejecting codes from a step that was already used
+ */
+async function consumeTotp(tfa: TwoFactorAuth, token: string): Promise<boolean> {
+  const step = verifyTotp(tfa.secret, token);
+
+  if (step === null || (tfa.lastUsedStep !== null && step <= tfa.lastUsedStep)) {
+    return false;
+  }
+
+  await storage.updateTwoFactorAuth(tfa.userId, { lastUsedStep: step });
+  return true;
+}
+
+/**
+ * Check a backup code and remove it so it can't be used again
+ */
+async function consumeBackupCode(tfa: TwoFactorAuth, code: string): Promise<boolean> {
+  const hashes = (tfa.backupCodes || []) as string[];
+  const normalised = normaliseBackupCode(code);
+
+  for (let i = 0; i < hashes.length; i++) {
+    if (await verifyPassword(normalised, hashes[i])) {
+      await storage.updateTwoFactorAuth(tfa.userId, {
+        backupCodes: hashes.filter((_, index) => index !== i)
+      });
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Verify a second factor for an enrolled user: either a current TOTP code
+ * or one of their unused backup codes
+ * @param userId User signing in
+ * @param code TOTP or backup code
+ * @returns Whether the code was accepted
+ */
+export async function verifySecondFactor(userId: number, code: string): Promise<boolean> {
+  const tfa = await storage.getTwoFactorAuthByUser(userId);
+
+  if (!tfa?.verified) {
+    return false;
+  }
+
+  const trimmed = code.trim();
+
+  if (/^\d{6}$/.test(trimmed)) {
+    return consumeTotp(tfa, trimmed);
+  }
+
+  return consumeBackupCode(tfa, trimmed);
+}
+
+/**
+ * Turn two-factor authentication off after re-checking a code
+ * @param user User disabling two-factor
+ * @param code TOTP or backup code
+ */
+export async function disableTwoFactor(user: User, code: string): Promise<void> {
+  if (!(await verifySecondFactor(user.id, code))) {
+    throw new TwoFactorError('Invalid authentication code', 400);
+  }
+
+  await storage.deleteTwoFactorAuth(user.id);
+}
+
+/**
+ * Replace all backup codes after re-checking a code
+ * @param user Enrolled user
+ * @param code TOTP or backup code
+ * @returns The new plaintext backup codes
+ */
+export async function regenerateBackupCodes(user: User, code: string): Promise<string[]> {
+  if (!(await verifySecondFactor(user.id, code))) {
+    throw new TwoFactorError('Invalid authentication code', 400);
+  }
+
+  return issueBackupCodes(user.id);
+}
+
+/**
+ * Number of unused backup codes a user has left
+ * @param userId Enrolled user
+ */
+export async function getRemainingBackupCodes(userId: number): Promise<number> {
+  const tfa = await storage.getTwoFactorAuthByUser(userId);
+  return tfa?.verified ? ((tfa.backupCodes || []) as string[]).length : 0;
+}
@@ -0,0 +1,459 @@
+import { createRequire } from "module";
+import { beforeEach, describe, expect, it } from "vitest";
+import { newDb } from "pg-mem";
+import * as schema from "@shared/schema";
+import {
+  Contract,
+  ContractStatus,
+  DisputeStatus,
+  EscrowStatus,
+  InvoiceStatus,
+  Milestone,
+  PaymentMethod,
+  User,
+  UserType,
+  WebhookDeliveryStatus,
+  WebhookEventStatus,
+} from "@shared/schema";
+import { createNodePgDb } from "./db";
+import { DbStorage, IStorage, MemStorage } from "./storage";
+
+// drizzle-kit's ESM build can't load under Node, so use its CommonJS one
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let schemaStatements: string[] | undefined;
+
+/**
+ * DbStorage over an in-process Postgres (pg-mem), with tables created from shared/schema.ts
+ */
+async function createPgMemStorage(): Promise<IStorage> {
+  schemaStatements ??= (await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) as string[];
+
+  const db = newDb();
+  for (const statement of schemaStatements) {
+    db.public.none(statement);
+  }
+
+  const { Pool } = db.adapters.createPg();
+  return new DbStorage(createNodePgDb(adaptForPgMem(new Pool())));
+}
+
+/**
+ * pg-mem supports neither the per-query type parsers nor the array row
+ * mode Drizzle asks node-postgres for, so drop the parsers (pg-mem already
+ * returns typed values) and turn rows into arrays here
+ */
+function adaptForPgMem<T extends { query: Function; connect: Function }>(target: T): T {
+  const query = target.query.bind(target);
+  const connect = target.connect.bind(target);
+
+  target.query = async (config: unknown, ...rest: unknown[]) => {
+    if (!config || typeof config !== "object") {
+      return query(config, ...rest);
+    }
+
+    const { types: _types, rowMode, ...plain } = config as { types?: unknown; rowMode?: string };
+    const result = await query(plain, ...rest);
+
+    // pg-mem reports no fields, but keeps each row's columns in select order
+    if (rowMode === "array") {
+      result.rows = result.rows.map((row: Record<string, unknown>) => Object.values(row));
+    }
+
+    return result;
+  };
+  target.connect = async (...args: unknown[]) => {
+    const client = await connect(...args);
+    return client && adaptForPgMem(client);
+  };
+
+  return target;
+}
+
+const BACKENDS: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DbStorage (pg-mem)", createPgMemStorage],
+];
+
+describe.each(BACKENDS)("%s", (_name, createBackend) => {
+  let storage: IStorage;
+  let client: User;
+  let freelancer: User;
+  let contract: Contract;
+  let milestone: Milestone;
+
+  beforeEach(async () => {
+    storage = await createBackend();
+
+    client = await storage.createUser({
+      username: "client",
+      password: "password",
+      email: "client@example.com",
+      fullName: "Client",
+      userType: UserType.CLIENT,
+    });
+    freelancer = await storage.createUser({
+      username: "freelancer",
+      password: "password",
+      email: "freelancer@example.com",
+      fullName: "Freelancer",
+      userType: UserType.FREELANCER,
+      homeCurrency: "EUR",
+    });
+    contract = await storage.createContract({
+      title: "Parity",
+      description: "Contract used by the storage parity tests",
+      clientId: client.id,
+      freelancerId: freelancer.id,
+      totalAmount: 100000,
+      currency: "GBP",
+      contractType: "fixed",
+      startDate: new Date("2026-01-01T00:00:00Z"),
+      endDate: new Date("2026-03-01T00:00:00Z"),
+      termsAndConditions: "Standard terms",
+    });
+    milestone = await storage.createMilestone({
+      contractId: contract.id,
+      title: "Everything",
+      description: "The whole job",
+      amount: 100000,
+      currency: "GBP",
+      dueDate: new Date("2026-02-01T00:00:00Z"),
+    });
+  });
+
+  describe("users", () => {
+    it("fills in defaults and hashes the password", async () => {
+      expect(client).toMatchObject({
+        bio: null,
+        profileImage: null,
+        homeCurrency: "USD",
+        walletAddress: null,
+        stripeAccountId: null,
+      });
+      expect(client.password).not.toBe("password");
+      expect(freelancer.homeCurrency).toBe("EUR");
+    });
+
+    it("looks users up by username, email and type", async () => {
+      expect((await storage.getUserByUsername("client"))?.id).toBe(client.id);
+      expect((await storage.getUserByEmail("freelancer@example.com"))?.id).toBe(freelancer.id);
+      expect((await storage.getUsersByType(UserType.FREELANCER)).map(user => user.id)).toEqual([freelancer.id]);
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+
+    it("updates a user", async () => {
+      const updated = await storage.updateUser(client.id, { walletAddress: "0x0000000000000000000000000000000000000001" });
+
+      expect(updated?.walletAddress).toBe("0x0000000000000000000000000000000000000001");
+      expect(await storage.updateUser(9999, { bio: "Missing" })).toBeUndefined();
+    });
+  });
+
+  describe("contracts and milestones", () => {
+    it("creates contracts as drafts in their own currency", async () => {
+      expect(contract).toMatchObject({ status: ContractStatus.DRAFT, currency: "GBP" });
+      expect((await storage.getContractsByClient(client.id)).map(c => c.id)).toEqual([contract.id]);
+      expect((await storage.getContractsByFreelancer(freelancer.id)).map(c => c.id)).toEqual([contract.id]);
+      expect((await storage.updateContractStatus(contract.id, ContractStatus.ACTIVE))?.status).toBe(ContractStatus.ACTIVE);
+    });
+
+    it("records status history in order", async () => {
+      await storage.createContractStatusHistory({ contractId: contract.id, fromStatus: null, toStatus: ContractStatus.DRAFT, changedBy: client.id });
+      await storage.createContractStatusHistory({ contractId: contract.id, fromStatus: ContractStatus.DRAFT, toStatus: ContractStatus.PENDING, changedBy: client.id, reason: "Ready" });
+
+      const history = await storage.getContractStatusHistory(contract.id);
+      expect(history.map(entry => entry.toStatus)).toEqual([ContractStatus.DRAFT, ContractStatus.PENDING]);
+      expect(history[1]).toMatchObject({ fromStatus: ContractStatus.DRAFT, reason: "Ready" });
+    });
+
+    it("finds milestones due in a window", async () => {
+      const inWindow = await storage.getMilestonesDueBetween(new Date("2026-01-31T00:00:00Z"), new Date("2026-02-02T00:00:00Z"));
+      const outside = await storage.getMilestonesDueBetween(new Date("2026-02-02T00:00:00Z"), new Date("2026-02-03T00:00:00Z"));
+
+      expect(inWindow.map(m => m.id)).toEqual([milestone.id]);
+      expect(outside).toEqual([]);
+    });
+
+    it("completes a milestone", async () => {
+      const completedDate = new Date("2026-02-01T12:00:00Z");
+      const completed = await storage.completeMilestone(milestone.id, completedDate);
+
+      expect(completed?.status).toBe(schema.MilestoneStatus.COMPLETED);
+      expect(completed?.completedDate?.getTime()).toBe(completedDate.getTime());
+    });
+  });
+
+  describe("escrow payments", () => {
+    const createPayment = (reference: string, status = EscrowStatus.FUNDED) =>
+      storage.createEscrowPayment({
+        milestoneId: milestone.id,
+        clientId: client.id,
+        freelancerId: freelancer.id,
+        amount: 50000,
+        currency: "GBP",
+        status,
+        paymentMethod: PaymentMethod.STRIPE,
+        paymentDetails: { reference },
+        stripePaymentIntentId: reference,
+        blockchainTxHash: null,
+      });
+
+    it("finds payments by gateway reference and status", async () => {
+      const funded = await createPayment("pi_funded");
+      const pending = await createPayment("pi_pending", EscrowStatus.PENDING);
+
+      expect((await storage.getEscrowPaymentByGatewayReference("pi_funded"))?.id).toBe(funded.id);
+      expect(await storage.getEscrowPaymentByGatewayReference("pi_missing")).toBeUndefined();
+      expect((await storage.getEscrowPaymentsByStatus(EscrowStatus.PENDING)).map(p => p.id)).toEqual([pending.id]);
+      expect((await storage.getEscrowPaymentsByMilestone(milestone.id)).map(p => p.id)).toEqual([funded.id, pending.id]);
+      expect((await storage.getEscrowPaymentsByUser(freelancer.id)).map(p => p.id)).toEqual([funded.id, pending.id]);
+    });
+
+    it("lists released payments whose payout is due", async () => {
+      const due = await createPayment("pi_due");
+      const later = await createPayment("pi_later");
+      const paid = await createPayment("pi_paid");
+      const now = new Date("2026-02-10T00:00:00Z");
+      const terms = {
+        feeTier: "bronze",
+        feeRate: 500,
+        feeDiscountRate: 0,
+        feeAmount: 2500,
+        feeDiscount: 0,
+        payoutAmount: 47500,
+        paidOutAt: null,
+      };
+
+      await storage.releaseEscrowPayment(due.id, now, { ...terms, payoutDueAt: new Date(now.getTime() - DAY) });
+      await storage.releaseEscrowPayment(later.id, now, { ...terms, payoutDueAt: new Date(now.getTime() + DAY) });
+      await storage.releaseEscrowPayment(paid.id, now, { ...terms, payoutDueAt: now, paidOutAt: now });
+
+      const payouts = await storage.getDueEscrowPayouts(now);
+      expect(payouts.map(p => p.id)).toEqual([due.id]);
+      expect(payouts[0]).toMatchObject({ status: EscrowStatus.RELEASED, payoutAmount: 47500 });
+    });
+  });
+
+  describe("payment webhook events", () => {
+    it("finds events by provider event id and status", async () => {
+      const event = await storage.createPaymentWebhookEvent({
+        provider: PaymentMethod.STRIPE,
+        eventId: "evt_1",
+        type: "payment_intent.succeeded",
+        reference: "pi_1",
+        payload: { id: "pi_1" },
+        status: WebhookEventStatus.UNHANDLED,
+        error: null,
+      });
+
+      expect((await storage.getPaymentWebhookEventByEventId(PaymentMethod.STRIPE, "evt_1"))?.id).toBe(event.id);
+      expect(await storage.getPaymentWebhookEventByEventId(PaymentMethod.CRYPTO, "evt_1")).toBeUndefined();
+
+      await storage.updatePaymentWebhookEvent(event.id, { status: WebhookEventStatus.PROCESSED, processedAt: new Date() });
+      expect(await storage.getPaymentWebhookEventsByStatus(WebhookEventStatus.UNHANDLED)).toEqual([]);
+      expect((await storage.getPaymentWebhookEventsByStatus(WebhookEventStatus.PROCESSED)).map(e => e.id)).toEqual([event.id]);
+    });
+  });
+
+  describe("disputes", () => {
+    it("opens, assigns and resolves a dispute", async () => {
+      const dispute = await storage.createDispute({
+        contractId: contract.id,
+        initiatedBy: client.id,
+        respondent: freelancer.id,
+        reason: "Late delivery",
+      });
+      const moderator = await storage.createUser({
+        username: "moderator",
+        password: "password",
+        email: "moderator@example.com",
+        fullName: "Moderator",
+        userType: UserType.MODERATOR,
+      });
+
+      expect(dispute).toMatchObject({ status: DisputeStatus.OPEN, moderatorId: null, resolvedAt: null });
+      expect((await storage.getDisputesByStatus(DisputeStatus.OPEN)).map(d => d.id)).toEqual([dispute.id]);
+      expect((await storage.getDisputesByUser(freelancer.id)).map(d => d.id)).toEqual([dispute.id]);
+
+      await storage.assignModerator(dispute.id, moderator.id);
+      expect((await storage.getDisputesByModerator(moderator.id)).map(d => d.id)).toEqual([dispute.id]);
+
+      const resolved = await storage.updateDisputeStatus(dispute.id, DisputeStatus.RESOLVED_FOR_CLIENT, "Refunded");
+      expect(resolved).toMatchObject({ status: DisputeStatus.RESOLVED_FOR_CLIENT, resolution: "Refunded" });
+      expect(resolved?.resolvedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe("reviews", () => {
+    it("allows one review per reviewer and contract, and one reply", async () => {
+      const past = new Date(Date.now() - DAY);
+      const review = await storage.createReview({
+        contractId: contract.id,
+        reviewerId: client.id,
+        receiverId: freelancer.id,
+        rating: 4,
+        comment: "Good",
+        revealedAt: past,
+      });
+
+      expect(review).toBeDefined();
+      await storage.createReview({
+        contractId: contract.id,
+        reviewerId: client.id,
+        receiverId: freelancer.id,
+        rating: 1,
+        revealedAt: past,
+      });
+      // Checked through what was stored: pg-mem returns the existing row from
+      // ON CONFLICT DO NOTHING ... RETURNING, where Postgres returns none
+      expect((await storage.getReviewsByContract(contract.id)).map(r => r.rating)).toEqual([4]);
+
+      expect((await storage.setReviewReply(review!.id, "Thanks", new Date()))?.reply).toBe("Thanks");
+      expect(await storage.setReviewReply(review!.id, "Again", new Date())).toBeUndefined();
+      expect(await storage.getUserRating(freelancer.id)).toBe(4);
+    });
+
+    it("hides reviews until they are revealed", async () => {
+      const now = new Date();
+      await storage.createReview({
+        contractId: contract.id,
+        reviewerId: freelancer.id,
+        receiverId: client.id,
+        rating: 5,
+        revealedAt: new Date(now.getTime() + 14 * DAY),
+      });
+
+      expect(await storage.getRevealedReviewsByUser(client.id, now)).toEqual([]);
+      expect(await storage.getUserRating(client.id)).toBe(0);
+
+      const revealed = await storage.revealReviews(contract.id, now);
+      expect(revealed).toHaveLength(1);
+      expect(await storage.getRevealedReviewsByUser(client.id, now)).toHaveLength(1);
+    });
+  });
+
+  describe("notifications", () => {
+    it("marks notifications read and lists pending digests", async () => {
+      const first = await storage.createNotification({ userId: client.id, type: "payment", title: "Funded", message: "Escrow funded", digestPending: true });
+      await storage.createNotification({ userId: client.id, type: "payment", title: "Released", message: "Escrow released" });
+
+      expect(first).toMatchObject({ read: false, digestPending: true, emailedAt: null });
+      expect((await storage.getPendingDigestNotifications()).map(n => n.id)).toEqual([first.id]);
+      expect(await storage.markAllNotificationsAsRead(client.id)).toBe(2);
+      expect((await storage.getUserNotifications(client.id)).every(n => n.read)).toBe(true);
+    });
+
+    it("replaces a preference for the same type", async () => {
+      await storage.setNotificationPreference({ userId: client.id, type: "payment", inApp: true, email: "immediate" });
+      await storage.setNotificationPreference({ userId: client.id, type: "payment", inApp: false, email: "off" });
+
+      const preferences = await storage.getNotificationPreferences(client.id);
+      expect(preferences).toHaveLength(1);
+      expect(preferences[0]).toMatchObject({ inApp: false, email: "off" });
+    });
+  });
+
+  describe("webhooks", () => {
+    it("lists due deliveries and deletes subscriptions", async () => {
+      const subscription = await storage.createWebhookSubscription({
+        userId: client.id,
+        url: "https://example.com/hooks",
+        events: ["escrow.funded"],
+        encryptedSecret: "secret",
+      });
+      const now = new Date("2026-02-10T00:00:00Z");
+      const due = await storage.createWebhookDelivery({
+        subscriptionId: subscription.id,
+        eventId: "evt_due",
+        eventType: "escrow.funded",
+        payload: {},
+        nextAttemptAt: new Date(now.getTime() - 1000),
+      });
+      await storage.createWebhookDelivery({
+        subscriptionId: subscription.id,
+        eventId: "evt_later",
+        eventType: "escrow.funded",
+        payload: {},
+        nextAttemptAt: new Date(now.getTime() + 1000),
+      });
+
+      expect(subscription).toMatchObject({ active: true, consecutiveFailures: 0 });
+      expect(due).toMatchObject({ status: WebhookDeliveryStatus.PENDING, attempts: 0 });
+      expect((await storage.getDueWebhookDeliveries(now)).map(d => d.id)).toEqual([due.id]);
+      expect(await storage.getWebhookDeliveriesBySubscription(subscription.id, 1)).toHaveLength(1);
+      expect(await storage.deleteWebhookSubscription(subscription.id)).toBe(true);
+      expect(await storage.deleteWebhookSubscription(subscription.id)).toBe(false);
+    });
+  });
+
+  describe("invoices", () => {
+    const createInvoice = () =>
+      storage.createInvoice(
+        {
+          contractId: contract.id,
+          freelancerId: freelancer.id,
+          clientId: client.id,
+          subtotal: 100000,
+          taxTotal: 0,
+          total: 100000,
+          currency: "GBP",
+        },
+        [{ milestoneId: milestone.id, title: milestone.title, amount: 100000 }]
+      );
+
+    it("invoices a milestone only once until the invoice is voided", async () => {
+      const invoice = await createInvoice();
+
+      expect(invoice).toMatchObject({ status: InvoiceStatus.DRAFT, number: null });
+      expect(invoice?.items).toHaveLength(1);
+      expect(await createInvoice()).toBeUndefined();
+
+      await storage.voidInvoice(invoice!.id, new Date(), "Wrong amount");
+      expect(await storage.getActiveInvoiceItemsByMilestones([milestone.id])).toEqual([]);
+      expect(await createInvoice()).toBeDefined();
+    });
+
+    it("numbers issued invoices per freelancer without gaps", async () => {
+      const first = await createInvoice();
+      await storage.voidInvoice(first!.id, new Date(), null);
+      const second = await createInvoice();
+
+      expect(await storage.issueInvoice(first!.id, new Date())).toBeUndefined();
+
+      const issued = await storage.issueInvoice(second!.id, new Date());
+      expect(issued).toMatchObject({ status: InvoiceStatus.ISSUED, sequence: 1, number: `INV-${freelancer.id}-00001` });
+      expect(await storage.issueInvoice(second!.id, new Date())).toBeUndefined();
+      expect((await storage.getInvoicesByUser(client.id)).map(i => i.id)).toEqual([second!.id, first!.id]);
+    });
+  });
+
+  describe("tax profiles and trust snapshots", () => {
+    it("replaces a user's tax profile", async () => {
+      await storage.setTaxProfile({ userId: freelancer.id, country: "GB" });
+      const updated = await storage.setTaxProfile({ userId: freelancer.id, country: "DE", incomeTaxRate: 2000 });
+
+      expect(updated).toMatchObject({ country: "DE", incomeTaxRate: 2000, reverseCharge: true });
+      expect((await storage.getTaxProfile(freelancer.id))?.country).toBe("DE");
+    });
+
+    it("returns the latest trust score snapshot", async () => {
+      const snapshot = {
+        userId: freelancer.id,
+        ratingFactor: 0.5,
+        reliabilityFactor: 0.5,
+        disputeFactor: 0.5,
+        tier: "bronze",
+        modelVersion: 2,
+      };
+      await storage.createTrustScoreSnapshot({ ...snapshot, overallScore: 40 });
+      const latest = await storage.createTrustScoreSnapshot({ ...snapshot, overallScore: 45 });
+
+      expect((await storage.getLatestTrustScoreSnapshot(freelancer.id))?.id).toBe(latest.id);
+      expect(await storage.getTrustScoreSnapshots(freelancer.id, new Date(Date.now() - DAY))).toHaveLength(2);
+      expect(await storage.getLatestTrustScoreSnapshot(client.id)).toBeUndefined();
+    });
+  });
+});
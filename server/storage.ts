@@ -1,22 +1,50 @@
 import { 
   users, User, InsertUser, 
   contracts, Contract, InsertContract, 
+  contractStatusHistory, ContractStatusHistory, InsertContractStatusHistory,
   milestones, Milestone, InsertMilestone,
   templates, Template, InsertTemplate,
-  escrowPayments, EscrowPayment, InsertEscrowPayment,
+  escrowPayments, EscrowPayment, InsertEscrowPayment, EscrowReleaseTerms,
+  paymentWebhookEvents, PaymentWebhookEvent, InsertPaymentWebhookEvent,
   disputes, Dispute, InsertDispute,
   reviews, Review, InsertReview,
   blockchainContracts, BlockchainContract, InsertBlockchainContract,
   twoFactorAuth, TwoFactorAuth, InsertTwoFactorAuth,
+  apiKeys, ApiKey, InsertApiKey,
   notifications, Notification, InsertNotification,
-  ContractStatus, MilestoneStatus, PaymentMethod, DisputeStatus, UserType
+  notificationPreferences, NotificationPreference, InsertNotificationPreference,
+  webhookSubscriptions, WebhookSubscription, InsertWebhookSubscription,
+  webhookDeliveries, WebhookDelivery, InsertWebhookDelivery,
+  invoices, Invoice, InsertInvoice,
+  invoiceItems, InvoiceItem, InsertInvoiceItem, InvoiceWithItems,
+  invoiceCounters,
+  taxProfiles, TaxProfile, InsertTaxProfile,
+  trustScoreSnapshots, TrustScoreSnapshot, InsertTrustScoreSnapshot,
+  ContractStatus, MilestoneStatus, PaymentMethod, DisputeStatus, UserType, EscrowStatus, WebhookDeliveryStatus, InvoiceStatus,
+  DEFAULT_CURRENCY
 } from "@shared/schema";
+import { and, asc, avg, desc, eq, gt, gte, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { createDb, Database } from "./db";
+import { hashPassword } from "./services/password";
+import { convertMoney } from "./services/exchange-rates";
+import { Money, money, sumMoney } from "@shared/money";
+
+export interface UserStats {
+  activeContracts: number;
+  pendingPayments: number;
+  totalEarned: number;
+  templateCount: number;
+  disputesCount: number;
+  averageRating: number;
+  currency: string; // The user's home currency; amounts are converted to its minor units
+}
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUsersByType(userType: UserType): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, userData: Partial<User>): Promise<User | undefined>;
   
@@ -27,11 +55,17 @@ export interface IStorage {
   createContract(contract: InsertContract): Promise<Contract>;
   updateContractStatus(id: number, status: ContractStatus): Promise<Contract | undefined>;
   
+  // Contract status history operations
+  createContractStatusHistory(entry: InsertContractStatusHistory): Promise<ContractStatusHistory>;
+  getContractStatusHistory(contractId: number): Promise<ContractStatusHistory[]>;
+  
   // Milestone operations
   getMilestone(id: number): Promise<Milestone | undefined>;
   getMilestonesByContract(contractId: number): Promise<Milestone[]>;
+  getMilestonesDueBetween(from: Date, to: Date): Promise<Milestone[]>;
   createMilestone(milestone: InsertMilestone): Promise<Milestone>;
   updateMilestoneStatus(id: number, status: MilestoneStatus): Promise<Milestone | undefined>;
+  updateMilestone(id: number, milestoneData: Partial<Milestone>): Promise<Milestone | undefined>;
   completeMilestone(id: number, completedDate: Date): Promise<Milestone | undefined>;
   
   // Template operations
@@ -44,21 +78,43 @@ export interface IStorage {
   createEscrowPayment(payment: InsertEscrowPayment): Promise<EscrowPayment>;
   getEscrowPayment(id: number): Promise<EscrowPayment | undefined>;
   getEscrowPaymentsByMilestone(milestoneId: number): Promise<EscrowPayment[]>;
-  releaseEscrowPayment(id: number, releaseDate: Date): Promise<EscrowPayment | undefined>;
+  getEscrowPaymentsByUser(userId: number): Promise<EscrowPayment[]>;
+  updateEscrowPayment(id: number, paymentData: Partial<EscrowPayment>): Promise<EscrowPayment | undefined>;
+  releaseEscrowPayment(id: number, releaseDate: Date, terms: EscrowReleaseTerms): Promise<EscrowPayment | undefined>;
+  getDueEscrowPayouts(now: Date): Promise<EscrowPayment[]>; // Released, not yet paid out, payout due
+  getEscrowPaymentsByStatus(status: EscrowStatus): Promise<EscrowPayment[]>;
+  getEscrowPaymentByGatewayReference(reference: string): Promise<EscrowPayment | undefined>;
+  
+  // Payment webhook event operations
+  createPaymentWebhookEvent(event: InsertPaymentWebhookEvent): Promise<PaymentWebhookEvent>;
+  getPaymentWebhookEvent(id: number): Promise<PaymentWebhookEvent | undefined>;
+  getPaymentWebhookEventByEventId(provider: string, eventId: string): Promise<PaymentWebhookEvent | undefined>;
+  getPaymentWebhookEventsByStatus(status: string): Promise<PaymentWebhookEvent[]>;
+  updatePaymentWebhookEvent(id: number, eventData: Partial<PaymentWebhookEvent>): Promise<PaymentWebhookEvent | undefined>;
   
   // Dispute operations
   createDispute(dispute: InsertDispute): Promise<Dispute>;
   getDispute(id: number): Promise<Dispute | undefined>;
   getDisputesByContract(contractId: number): Promise<Dispute[]>;
   getDisputesByUser(userId: number): Promise<Dispute[]>;
+  getDisputesByStatus(status: DisputeStatus): Promise<Dispute[]>;
+  getDisputesByModerator(moderatorId: number): Promise<Dispute[]>;
+  updateDispute(id: number, disputeData: Partial<Dispute>): Promise<Dispute | undefined>;
   updateDisputeStatus(id: number, status: DisputeStatus, resolution?: string): Promise<Dispute | undefined>;
   assignModerator(disputeId: number, moderatorId: number): Promise<Dispute | undefined>;
   
   // Review operations
-  createReview(review: InsertReview): Promise<Review>;
-  getReviewsByUser(userId: number): Promise<Review[]>;
+  // Returns undefined when the reviewer has already reviewed the contract
+  createReview(review: InsertReview): Promise<Review | undefined>;
+  getReview(id: number): Promise<Review | undefined>;
+  getReviewsByUser(userId: number): Promise<Review[]>; // Received, including hidden ones
+  getRevealedReviewsByUser(userId: number, now: Date): Promise<Review[]>;
   getReviewsByContract(contractId: number): Promise<Review[]>;
-  getUserRating(userId: number): Promise<number>; // Average rating
+  // Brings forward the reveal of a contract's hidden reviews
+  revealReviews(contractId: number, revealedAt: Date): Promise<Review[]>;
+  // Returns undefined when the review already has a reply
+  setReviewReply(id: number, reply: string, repliedAt: Date): Promise<Review | undefined>;
+  getUserRating(userId: number): Promise<number>; // Average of revealed reviews
   
   // Blockchain Contract operations
   createBlockchainContract(contract: InsertBlockchainContract): Promise<BlockchainContract>;
@@ -69,67 +125,245 @@ export interface IStorage {
   // 2FA operations
   setupTwoFactorAuth(twoFactorData: InsertTwoFactorAuth): Promise<TwoFactorAuth>;
   getTwoFactorAuthByUser(userId: number): Promise<TwoFactorAuth | undefined>;
-  verifyTwoFactorAuth(userId: number, token: string): Promise<boolean>;
+  updateTwoFactorAuth(userId: number, twoFactorData: Partial<TwoFactorAuth>): Promise<TwoFactorAuth | undefined>;
+  deleteTwoFactorAuth(userId: number): Promise<boolean>;
+  
+  // API key operations
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKey(id: number): Promise<ApiKey | undefined>;
+  getApiKeyByKey(apiKey: string): Promise<ApiKey | undefined>;
+  getApiKeysByUser(userId: number): Promise<ApiKey[]>;
+  updateApiKey(id: number, apiKeyData: Partial<ApiKey>): Promise<ApiKey | undefined>;
+  deleteApiKey(id: number): Promise<boolean>;
   
   // Notification operations
   createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotification(id: number): Promise<Notification | undefined>;
   getUserNotifications(userId: number): Promise<Notification[]>;
   markNotificationAsRead(id: number): Promise<Notification | undefined>;
+  markAllNotificationsAsRead(userId: number): Promise<number>;
+  updateNotification(id: number, notificationData: Partial<Notification>): Promise<Notification | undefined>;
+  getPendingDigestNotifications(): Promise<Notification[]>;
+  
+  // Notification preference operations
+  getNotificationPreferences(userId: number): Promise<NotificationPreference[]>;
+  setNotificationPreference(preference: InsertNotificationPreference): Promise<NotificationPreference>;
+  
+  // Webhook subscription operations
+  createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription>;
+  getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined>;
+  getWebhookSubscriptionsByUser(userId: number): Promise<WebhookSubscription[]>;
+  updateWebhookSubscription(id: number, subscriptionData: Partial<WebhookSubscription>): Promise<WebhookSubscription | undefined>;
+  deleteWebhookSubscription(id: number): Promise<boolean>;
+  
+  // Webhook delivery operations
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveriesBySubscription(subscriptionId: number, limit: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: number, deliveryData: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]>;
+  
+  // Invoice operations
+  // Returns undefined when a milestone is already on an invoice that hasn't been voided
+  createInvoice(invoice: InsertInvoice, items: Omit<InsertInvoiceItem, 'invoiceId'>[]): Promise<InvoiceWithItems | undefined>;
+  getInvoice(id: number): Promise<Invoice | undefined>;
+  getInvoicesByUser(userId: number): Promise<Invoice[]>; // As freelancer or client
+  getInvoiceItems(invoiceId: number): Promise<InvoiceItem[]>;
+  getActiveInvoiceItemsByMilestones(milestoneIds: number[]): Promise<InvoiceItem[]>;
+  // Assigns the freelancer's next number; returns undefined unless the invoice is a draft
+  issueInvoice(id: number, issuedAt: Date): Promise<Invoice | undefined>;
+  updateInvoice(id: number, invoiceData: Partial<Invoice>): Promise<Invoice | undefined>;
+  voidInvoice(id: number, voidedAt: Date, reason: string | null): Promise<Invoice | undefined>;
+  
+  // Tax profile operations
+  getTaxProfile(userId: number): Promise<TaxProfile | undefined>;
+  setTaxProfile(profile: InsertTaxProfile): Promise<TaxProfile>; // Creates or replaces the user's profile
+  
+  // Trust score snapshot operations
+  createTrustScoreSnapshot(snapshot: InsertTrustScoreSnapshot): Promise<TrustScoreSnapshot>;
+  getTrustScoreSnapshots(userId: number, since: Date): Promise<TrustScoreSnapshot[]>; // Oldest first
+  getLatestTrustScoreSnapshot(userId: number): Promise<TrustScoreSnapshot | undefined>;
   
   // Dashboard stats
-  getUserStats(userId: number): Promise<{
-    activeContracts: number;
-    pendingPayments: number;
-    totalEarned: number;
-    templateCount: number;
-    disputesCount: number;
-    averageRating: number;
-  }>;
+  getUserStats(userId: number): Promise<UserStats>;
+}
+
+/**
+ * Invoice number shown to clients, e.g. INV-12-00003 for freelancer 12's third invoice
+ */
+function formatInvoiceNumber(freelancerId: number, sequence: number): string {
+  return `INV-${freelancerId}-${String(sequence).padStart(5, '0')}`;
+}
+
+const RESOLVED_DISPUTE_STATUSES = [
+  DisputeStatus.RESOLVED_FOR_CLIENT,
+  DisputeStatus.RESOLVED_FOR_FREELANCER,
+  DisputeStatus.RESOLVED_COMPROMISE
+];
+
+/**
+ * Dashboard stats derived from the other storage operations, shared by
+ * every IStorage implementation
+ */
+async function computeUserStats(store: IStorage, userId: number): Promise<UserStats> {
+  const user = await store.getUser(userId);
+
+  if (!user) {
+    return {
+      activeContracts: 0,
+      pendingPayments: 0,
+      totalEarned: 0,
+      templateCount: 0,
+      disputesCount: 0,
+      averageRating: 0,
+      currency: DEFAULT_CURRENCY
+    };
+  }
+
+  let userContracts: Contract[] = [];
+  if (user.userType === 'freelancer') {
+    userContracts = await store.getContractsByFreelancer(userId);
+  } else {
+    userContracts = await store.getContractsByClient(userId);
+  }
+
+  const activeContracts = userContracts.filter(c => 
+    c.status === ContractStatus.ACTIVE
+  ).length;
+
+  const earned: Money[] = [];
+  const pending: Money[] = [];
+
+  for (const contract of userContracts) {
+    const contractMilestones = await store.getMilestonesByContract(contract.id);
+
+    const completedMilestones = contractMilestones.filter(
+      m => m.status === MilestoneStatus.COMPLETED
+    );
+
+    const pendingMilestones = contractMilestones.filter(
+      m => m.status === MilestoneStatus.READY_FOR_PAYMENT || 
+           m.status === MilestoneStatus.PENDING_REVIEW
+    );
+
+    // Contracts can be priced in different currencies; totals are in the user's own
+    for (const milestone of completedMilestones) {
+      earned.push(await convertMoney(money(milestone.amount, contract.currency), user.homeCurrency));
+    }
+
+    for (const milestone of pendingMilestones) {
+      pending.push(await convertMoney(money(milestone.amount, contract.currency), user.homeCurrency));
+    }
+  }
+
+  const templates = await store.getUserTemplates(userId);
+  const templateCount = templates.length;
+
+  // Get user disputes count
+  const userDisputes = await store.getDisputesByUser(userId);
+  const disputesCount = userDisputes.length;
+
+  // Get user average rating
+  const averageRating = await store.getUserRating(userId);
+
+  return {
+    activeContracts,
+    pendingPayments: sumMoney(pending, user.homeCurrency).amount,
+    totalEarned: sumMoney(earned, user.homeCurrency).amount,
+    templateCount,
+    disputesCount,
+    averageRating,
+    currency: user.homeCurrency
+  };
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private contracts: Map<number, Contract>;
+  private contractStatusHistory: Map<number, ContractStatusHistory>;
   private milestones: Map<number, Milestone>;
   private templates: Map<number, Template>;
   private escrowPayments: Map<number, EscrowPayment>;
+  private paymentWebhookEvents: Map<number, PaymentWebhookEvent>;
   private disputes: Map<number, Dispute>;
   private reviews: Map<number, Review>;
   private blockchainContracts: Map<number, BlockchainContract>;
   private twoFactorAuths: Map<number, TwoFactorAuth>;
+  private apiKeys: Map<number, ApiKey>;
   private notifications: Map<number, Notification>;
+  private notificationPreferences: Map<number, NotificationPreference>;
+  private webhookSubscriptions: Map<number, WebhookSubscription>;
+  private webhookDeliveries: Map<number, WebhookDelivery>;
+  private invoices: Map<number, Invoice>;
+  private invoiceItems: Map<number, InvoiceItem>;
+  private invoiceCounters: Map<number, number>; // Freelancer id -> last sequence
+  private taxProfiles: Map<number, TaxProfile>;
+  private trustScoreSnapshots: Map<number, TrustScoreSnapshot>;
   
   private userIdCounter: number;
   private contractIdCounter: number;
+  private contractStatusHistoryIdCounter: number;
   private milestoneIdCounter: number;
   private templateIdCounter: number;
   private escrowPaymentIdCounter: number;
+  private paymentWebhookEventIdCounter: number;
   private disputeIdCounter: number;
   private reviewIdCounter: number;
   private blockchainContractIdCounter: number;
+  private twoFactorAuthIdCounter: number;
+  private apiKeyIdCounter: number;
   private notificationIdCounter: number;
+  private notificationPreferenceIdCounter: number;
+  private webhookSubscriptionIdCounter: number;
+  private webhookDeliveryIdCounter: number;
+  private invoiceIdCounter: number;
+  private invoiceItemIdCounter: number;
+  private taxProfileIdCounter: number;
+  private trustScoreSnapshotIdCounter: number;
 
   constructor() {
     this.users = new Map();
     this.contracts = new Map();
+    this.contractStatusHistory = new Map();
     this.milestones = new Map();
     this.templates = new Map();
     this.escrowPayments = new Map();
+    this.paymentWebhookEvents = new Map();
     this.disputes = new Map();
     this.reviews = new Map();
     this.blockchainContracts = new Map();
     this.twoFactorAuths = new Map();
+    this.apiKeys = new Map();
     this.notifications = new Map();
+    this.notificationPreferences = new Map();
+    this.webhookSubscriptions = new Map();
+    this.webhookDeliveries = new Map();
+    this.invoices = new Map();
+    this.invoiceItems = new Map();
+    this.invoiceCounters = new Map();
+    this.taxProfiles = new Map();
+    this.trustScoreSnapshots = new Map();
     
     this.userIdCounter = 1;
     this.contractIdCounter = 1;
+    this.contractStatusHistoryIdCounter = 1;
     this.milestoneIdCounter = 1;
     this.templateIdCounter = 1;
     this.escrowPaymentIdCounter = 1;
+    this.paymentWebhookEventIdCounter = 1;
     this.disputeIdCounter = 1;
     this.reviewIdCounter = 1;
     this.blockchainContractIdCounter = 1;
+    this.twoFactorAuthIdCounter = 1;
+    this.apiKeyIdCounter = 1;
     this.notificationIdCounter = 1;
+    this.notificationPreferenceIdCounter = 1;
+    this.webhookSubscriptionIdCounter = 1;
+    this.webhookDeliveryIdCounter = 1;
+    this.invoiceIdCounter = 1;
+    this.invoiceItemIdCounter = 1;
+    this.taxProfileIdCounter = 1;
+    this.trustScoreSnapshotIdCounter = 1;
   }
 
   // User operations
@@ -148,6 +382,12 @@ export class MemStorage implements IStorage {
       (user) => user.email === email
     );
   }
+  
+  async getUsersByType(userType: UserType): Promise<User[]> {
+    return Array.from(this.users.values()).filter(
+      (user) => user.userType === userType
+    );
+  }
 
   async createUser(userData: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
@@ -155,8 +395,12 @@ export class MemStorage implements IStorage {
     const user: User = { 
       ...userData, 
       id,
+      password: await hashPassword(userData.password),
       bio: userData.bio || null,
-      profileImage: userData.profileImage || null 
+      profileImage: userData.profileImage || null,
+      homeCurrency: userData.homeCurrency || DEFAULT_CURRENCY,
+      walletAddress: null,
+      stripeAccountId: null
     };
     this.users.set(id, user);
     return user;
@@ -198,7 +442,8 @@ export class MemStorage implements IStorage {
       ...contractData,
       id, 
       createdAt: now,
-      status: contractData.status || ContractStatus.DRAFT
+      status: contractData.status || ContractStatus.DRAFT,
+      currency: contractData.currency || DEFAULT_CURRENCY
     };
     this.contracts.set(id, contract);
     return contract;
@@ -216,6 +461,27 @@ export class MemStorage implements IStorage {
     return updatedContract;
   }
 
+  // Contract status history operations
+  async createContractStatusHistory(entryData: InsertContractStatusHistory): Promise<ContractStatusHistory> {
+    const id = this.contractStatusHistoryIdCounter++;
+    const entry: ContractStatusHistory = {
+      ...entryData,
+      id,
+      fromStatus: entryData.fromStatus || null,
+      changedBy: entryData.changedBy || null,
+      reason: entryData.reason || null,
+      createdAt: new Date()
+    };
+    this.contractStatusHistory.set(id, entry);
+    return entry;
+  }
+
+  async getContractStatusHistory(contractId: number): Promise<ContractStatusHistory[]> {
+    return Array.from(this.contractStatusHistory.values())
+      .filter(entry => entry.contractId === contractId)
+      .sort((a, b) => a.id - b.id);
+  }
+
   // Milestone operations
   async getMilestone(id: number): Promise<Milestone | undefined> {
     return this.milestones.get(id);
@@ -226,6 +492,12 @@ export class MemStorage implements IStorage {
       (milestone) => milestone.contractId === contractId
     );
   }
+  
+  async getMilestonesDueBetween(from: Date, to: Date): Promise<Milestone[]> {
+    return Array.from(this.milestones.values()).filter(
+      (milestone) => milestone.dueDate >= from && milestone.dueDate < to
+    );
+  }
 
   async createMilestone(milestoneData: InsertMilestone): Promise<Milestone> {
     const id = this.milestoneIdCounter++;
@@ -233,7 +505,9 @@ export class MemStorage implements IStorage {
       ...milestoneData, 
       id, 
       completedDate: null,
-      status: milestoneData.status || MilestoneStatus.NOT_STARTED
+      reviewFeedback: null,
+      status: milestoneData.status || MilestoneStatus.NOT_STARTED,
+      currency: milestoneData.currency || DEFAULT_CURRENCY
     };
     this.milestones.set(id, milestone);
     return milestone;
@@ -251,6 +525,18 @@ export class MemStorage implements IStorage {
     return updatedMilestone;
   }
   
+  async updateMilestone(id: number, milestoneData: Partial<Milestone>): Promise<Milestone | undefined> {
+    const milestone = this.milestones.get(id);
+    
+    if (!milestone) {
+      return undefined;
+    }
+    
+    const updatedMilestone = { ...milestone, ...milestoneData, id };
+    this.milestones.set(id, updatedMilestone);
+    return updatedMilestone;
+  }
+  
   async completeMilestone(id: number, completedDate: Date): Promise<Milestone | undefined> {
     const milestone = this.milestones.get(id);
     
@@ -304,11 +590,20 @@ export class MemStorage implements IStorage {
     const payment: EscrowPayment = {
       ...paymentData,
       id,
+      currency: paymentData.currency || DEFAULT_CURRENCY,
       paymentDetails: paymentData.paymentDetails || null,
       stripePaymentIntentId: paymentData.stripePaymentIntentId || null,
       blockchainTxHash: paymentData.blockchainTxHash || null,
       depositedAt: now,
-      releasedAt: null
+      releasedAt: null,
+      feeTier: null,
+      feeRate: null,
+      feeDiscountRate: null,
+      feeAmount: null,
+      feeDiscount: null,
+      payoutAmount: null,
+      payoutDueAt: null,
+      paidOutAt: null
     };
     
     this.escrowPayments.set(id, payment);
@@ -325,18 +620,105 @@ export class MemStorage implements IStorage {
     );
   }
   
-  async releaseEscrowPayment(id: number, releaseDate: Date): Promise<EscrowPayment | undefined> {
+  async getEscrowPaymentsByUser(userId: number): Promise<EscrowPayment[]> {
+    return Array.from(this.escrowPayments.values()).filter(
+      (payment) => payment.clientId === userId || payment.freelancerId === userId
+    );
+  }
+  
+  async updateEscrowPayment(id: number, paymentData: Partial<EscrowPayment>): Promise<EscrowPayment | undefined> {
+    const payment = this.escrowPayments.get(id);
+    
+    if (!payment) {
+      return undefined;
+    }
+    
+    const updatedPayment = { ...payment, ...paymentData, id };
+    this.escrowPayments.set(id, updatedPayment);
+    return updatedPayment;
+  }
+  
+  async releaseEscrowPayment(id: number, releaseDate: Date, terms: EscrowReleaseTerms): Promise<EscrowPayment | undefined> {
     const payment = this.escrowPayments.get(id);
     
     if (!payment) {
       return undefined;
     }
     
-    const updatedPayment = { ...payment, releasedAt: releaseDate };
+    const updatedPayment = { ...payment, ...terms, status: EscrowStatus.RELEASED, releasedAt: releaseDate };
     this.escrowPayments.set(id, updatedPayment);
     return updatedPayment;
   }
   
+  async getDueEscrowPayouts(now: Date): Promise<EscrowPayment[]> {
+    return Array.from(this.escrowPayments.values())
+      .filter((payment) =>
+        payment.status === EscrowStatus.RELEASED &&
+        payment.paidOutAt === null &&
+        payment.payoutDueAt !== null &&
+        payment.payoutDueAt <= now
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getEscrowPaymentsByStatus(status: EscrowStatus): Promise<EscrowPayment[]> {
+    return Array.from(this.escrowPayments.values())
+      .filter((payment) => payment.status === status)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getEscrowPaymentByGatewayReference(reference: string): Promise<EscrowPayment | undefined> {
+    return Array.from(this.escrowPayments.values()).find((payment) => {
+      const details = payment.paymentDetails as Record<string, unknown> | null;
+      return details?.reference === reference || payment.stripePaymentIntentId === reference;
+    });
+  }
+  
+  // Payment webhook event operations
+  async createPaymentWebhookEvent(eventData: InsertPaymentWebhookEvent): Promise<PaymentWebhookEvent> {
+    const id = this.paymentWebhookEventIdCounter++;
+    
+    const event: PaymentWebhookEvent = {
+      ...eventData,
+      id,
+      reference: eventData.reference || null,
+      error: eventData.error || null,
+      receivedAt: new Date(),
+      processedAt: null
+    };
+    
+    this.paymentWebhookEvents.set(id, event);
+    return event;
+  }
+  
+  async getPaymentWebhookEvent(id: number): Promise<PaymentWebhookEvent | undefined> {
+    return this.paymentWebhookEvents.get(id);
+  }
+  
+  async getPaymentWebhookEventByEventId(provider: string, eventId: string): Promise<PaymentWebhookEvent | undefined> {
+    return Array.from(this.paymentWebhookEvents.values()).find(
+      (event) => event.provider === provider && event.eventId === eventId
+    );
+  }
+  
+  async getPaymentWebhookEventsByStatus(status: string): Promise<PaymentWebhookEvent[]> {
+    return Array.from(this.paymentWebhookEvents.values()).filter(
+      (event) => event.status === status
+    );
+  }
+  
+  async updatePaymentWebhookEvent(id: number, eventData: Partial<PaymentWebhookEvent>): Promise<PaymentWebhookEvent | undefined> {
+    const event = this.paymentWebhookEvents.get(id);
+    
+    if (!event) {
+      return undefined;
+    }
+    
+    const updatedEvent = { ...event, ...eventData, id };
+    this.paymentWebhookEvents.set(id, updatedEvent);
+    return updatedEvent;
+  }
+  
   // Dispute operations
   async createDispute(disputeData: InsertDispute): Promise<Dispute> {
     const id = this.disputeIdCounter++;
@@ -345,6 +727,10 @@ export class MemStorage implements IStorage {
     const dispute: Dispute = {
       ...disputeData,
       id,
+      milestoneId: disputeData.milestoneId ?? null,
+      moderatorId: disputeData.moderatorId ?? null,
+      evidence: disputeData.evidence ?? null,
+      resolution: disputeData.resolution ?? null,
       createdAt: now,
       resolvedAt: null,
       status: disputeData.status || DisputeStatus.OPEN
@@ -370,6 +756,30 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getDisputesByStatus(status: DisputeStatus): Promise<Dispute[]> {
+    return Array.from(this.disputes.values()).filter(
+      (dispute) => dispute.status === status
+    );
+  }
+  
+  async getDisputesByModerator(moderatorId: number): Promise<Dispute[]> {
+    return Array.from(this.disputes.values()).filter(
+      (dispute) => dispute.moderatorId === moderatorId
+    );
+  }
+  
+  async updateDispute(id: number, disputeData: Partial<Dispute>): Promise<Dispute | undefined> {
+    const dispute = this.disputes.get(id);
+    
+    if (!dispute) {
+      return undefined;
+    }
+    
+    const updatedDispute = { ...dispute, ...disputeData, id };
+    this.disputes.set(id, updatedDispute);
+    return updatedDispute;
+  }
+  
   async updateDisputeStatus(id: number, status: DisputeStatus, resolution?: string): Promise<Dispute | undefined> {
     const dispute = this.disputes.get(id);
     
@@ -381,11 +791,7 @@ export class MemStorage implements IStorage {
       ...dispute, 
       status,
       resolution: resolution || dispute.resolution,
-      resolvedAt: [
-        DisputeStatus.RESOLVED_FOR_CLIENT,
-        DisputeStatus.RESOLVED_FOR_FREELANCER,
-        DisputeStatus.RESOLVED_COMPROMISE
-      ].includes(status) ? new Date() : dispute.resolvedAt
+      resolvedAt: RESOLVED_DISPUTE_STATUSES.includes(status) ? new Date() : dispute.resolvedAt
     };
     
     this.disputes.set(id, updatedDispute);
@@ -410,13 +816,24 @@ export class MemStorage implements IStorage {
   }
   
   // Review operations
-  async createReview(reviewData: InsertReview): Promise<Review> {
+  async createReview(reviewData: InsertReview): Promise<Review | undefined> {
+    const existing = Array.from(this.reviews.values()).find(
+      (review) => review.contractId === reviewData.contractId && review.reviewerId === reviewData.reviewerId
+    );
+    
+    if (existing) {
+      return undefined;
+    }
+    
     const id = this.reviewIdCounter++;
     const now = new Date();
     
     const review: Review = {
       ...reviewData,
       id,
+      comment: reviewData.comment ?? null,
+      reply: null,
+      repliedAt: null,
       createdAt: now
     };
     
@@ -424,20 +841,56 @@ export class MemStorage implements IStorage {
     return review;
   }
   
+  async getReview(id: number): Promise<Review | undefined> {
+    return this.reviews.get(id);
+  }
+  
   async getReviewsByUser(userId: number): Promise<Review[]> {
     return Array.from(this.reviews.values()).filter(
       (review) => review.receiverId === userId
     );
   }
   
+  async getRevealedReviewsByUser(userId: number, now: Date): Promise<Review[]> {
+    return Array.from(this.reviews.values()).filter(
+      (review) => review.receiverId === userId && review.revealedAt <= now
+    );
+  }
+  
   async getReviewsByContract(contractId: number): Promise<Review[]> {
     return Array.from(this.reviews.values()).filter(
       (review) => review.contractId === contractId
     );
   }
   
+  async revealReviews(contractId: number, revealedAt: Date): Promise<Review[]> {
+    const revealed: Review[] = [];
+    
+    for (const review of Array.from(this.reviews.values())) {
+      if (review.contractId === contractId && review.revealedAt > revealedAt) {
+        const updated = { ...review, revealedAt };
+        this.reviews.set(review.id, updated);
+        revealed.push(updated);
+      }
+    }
+    
+    return revealed;
+  }
+  
+  async setReviewReply(id: number, reply: string, repliedAt: Date): Promise<Review | undefined> {
+    const review = this.reviews.get(id);
+    
+    if (!review || review.reply !== null) {
+      return undefined;
+    }
+    
+    const updated = { ...review, reply, repliedAt };
+    this.reviews.set(id, updated);
+    return updated;
+  }
+  
   async getUserRating(userId: number): Promise<number> {
-    const reviews = await this.getReviewsByUser(userId);
+    const reviews = await this.getRevealedReviewsByUser(userId, new Date());
     
     if (reviews.length === 0) {
       return 0;
@@ -480,12 +933,14 @@ export class MemStorage implements IStorage {
   
   // 2FA operations
   async setupTwoFactorAuth(twoFactorData: InsertTwoFactorAuth): Promise<TwoFactorAuth> {
-    const id = this.userIdCounter++; // Reusing the user ID counter as they're 1:1 with users
+    const id = this.twoFactorAuthIdCounter++;
     
     const twoFactorAuth: TwoFactorAuth = {
       ...twoFactorData,
       id,
       verified: twoFactorData.verified || false,
+      backupCodes: twoFactorData.backupCodes || null,
+      lastUsedStep: null,
       createdAt: new Date()
     };
     
@@ -499,22 +954,70 @@ export class MemStorage implements IStorage {
     );
   }
   
-  async verifyTwoFactorAuth(userId: number, token: string): Promise<boolean> {
-    // In a real implementation, we would validate the token against the secret
-    // For this mock implementation, we'll just return true for demo purposes
+  async updateTwoFactorAuth(userId: number, twoFactorData: Partial<TwoFactorAuth>): Promise<TwoFactorAuth | undefined> {
     const tfa = await this.getTwoFactorAuthByUser(userId);
     
     if (!tfa) {
-      return false;
+      return undefined;
     }
     
-    // Mark as verified if not already
-    if (!tfa.verified) {
-      tfa.verified = true;
-      this.twoFactorAuths.set(tfa.id, tfa);
+    const updatedTfa = { ...tfa, ...twoFactorData, id: tfa.id, userId };
+    this.twoFactorAuths.set(tfa.id, updatedTfa);
+    return updatedTfa;
+  }
+  
+  async deleteTwoFactorAuth(userId: number): Promise<boolean> {
+    const tfa = await this.getTwoFactorAuthByUser(userId);
+    return tfa ? this.twoFactorAuths.delete(tfa.id) : false;
+  }
+  
+  // API key operations
+  async createApiKey(apiKeyData: InsertApiKey): Promise<ApiKey> {
+    const id = this.apiKeyIdCounter++;
+    
+    const apiKey: ApiKey = {
+      ...apiKeyData,
+      id,
+      rateLimitRequests: apiKeyData.rateLimitRequests ?? 100,
+      rateLimitPeriod: apiKeyData.rateLimitPeriod ?? 60,
+      expiresAt: apiKeyData.expiresAt ?? null,
+      replacedById: null,
+      lastUsedAt: null,
+      createdAt: new Date()
+    };
+    
+    this.apiKeys.set(id, apiKey);
+    return apiKey;
+  }
+  
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    return this.apiKeys.get(id);
+  }
+  
+  async getApiKeyByKey(apiKey: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(key => key.apiKey === apiKey);
+  }
+  
+  async getApiKeysByUser(userId: number): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(key => key.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async updateApiKey(id: number, apiKeyData: Partial<ApiKey>): Promise<ApiKey | undefined> {
+    const apiKey = this.apiKeys.get(id);
+    
+    if (!apiKey) {
+      return undefined;
     }
     
-    return true; // In reality, validate token
+    const updatedApiKey = { ...apiKey, ...apiKeyData, id };
+    this.apiKeys.set(id, updatedApiKey);
+    return updatedApiKey;
+  }
+  
+  async deleteApiKey(id: number): Promise<boolean> {
+    return this.apiKeys.delete(id);
   }
   
   // Notification operations
@@ -525,7 +1028,10 @@ export class MemStorage implements IStorage {
     const notification: Notification = {
       ...notificationData,
       id,
-      read: false,
+      data: notificationData.data ?? null,
+      read: notificationData.read ?? false,
+      digestPending: notificationData.digestPending ?? false,
+      emailedAt: null,
       createdAt: now
     };
     
@@ -533,6 +1039,10 @@ export class MemStorage implements IStorage {
     return notification;
   }
   
+  async getNotification(id: number): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+  
   async getUserNotifications(userId: number): Promise<Notification[]> {
     return Array.from(this.notifications.values())
       .filter(notification => notification.userId === userId)
@@ -557,82 +1067,1105 @@ export class MemStorage implements IStorage {
     return updatedNotification;
   }
   
-  // Dashboard stats
-  async getUserStats(userId: number): Promise<{
-    activeContracts: number;
-    pendingPayments: number;
-    totalEarned: number;
-    templateCount: number;
-    disputesCount: number;
-    averageRating: number;
-  }> {
-    const user = await this.getUser(userId);
+  async markAllNotificationsAsRead(userId: number): Promise<number> {
+    let count = 0;
     
-    if (!user) {
-      return {
-        activeContracts: 0,
-        pendingPayments: 0,
-        totalEarned: 0,
-        templateCount: 0,
-        disputesCount: 0,
-        averageRating: 0
-      };
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.read) {
+        this.notifications.set(notification.id, { ...notification, read: true });
+        count++;
+      }
     }
     
-    let userContracts: Contract[] = [];
-    if (user.userType === 'freelancer') {
-      userContracts = await this.getContractsByFreelancer(userId);
-    } else {
-      userContracts = await this.getContractsByClient(userId);
+    return count;
+  }
+  
+  async updateNotification(id: number, notificationData: Partial<Notification>): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    
+    if (!notification) {
+      return undefined;
     }
     
-    const activeContracts = userContracts.filter(c => 
-      c.status === ContractStatus.ACTIVE
-    ).length;
+    const updatedNotification = { ...notification, ...notificationData };
+    this.notifications.set(id, updatedNotification);
+    return updatedNotification;
+  }
+  
+  async getPendingDigestNotifications(): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.digestPending)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Notification preference operations
+  async getNotificationPreferences(userId: number): Promise<NotificationPreference[]> {
+    return Array.from(this.notificationPreferences.values()).filter(
+      (preference) => preference.userId === userId
+    );
+  }
+  
+  async setNotificationPreference(preferenceData: InsertNotificationPreference): Promise<NotificationPreference> {
+    const existing = Array.from(this.notificationPreferences.values()).find(
+      (preference) => preference.userId === preferenceData.userId && preference.type === preferenceData.type
+    );
     
-    let totalEarned = 0;
-    let pendingPayments = 0;
+    const preference: NotificationPreference = {
+      id: existing?.id ?? this.notificationPreferenceIdCounter++,
+      ...preferenceData,
+      inApp: preferenceData.inApp ?? true,
+      updatedAt: new Date()
+    };
     
-    for (const contract of userContracts) {
-      const contractMilestones = await this.getMilestonesByContract(contract.id);
-      
-      const completedMilestones = contractMilestones.filter(
-        m => m.status === MilestoneStatus.COMPLETED
-      );
-      
-      const pendingMilestones = contractMilestones.filter(
-        m => m.status === MilestoneStatus.READY_FOR_PAYMENT || 
-             m.status === MilestoneStatus.PENDING_REVIEW
-      );
-      
-      for (const milestone of completedMilestones) {
-        totalEarned += milestone.amount;
-      }
-      
-      for (const milestone of pendingMilestones) {
-        pendingPayments += milestone.amount;
+    this.notificationPreferences.set(preference.id, preference);
+    return preference;
+  }
+  
+  // Webhook subscription operations
+  async createWebhookSubscription(subscriptionData: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const id = this.webhookSubscriptionIdCounter++;
+    
+    const subscription: WebhookSubscription = {
+      ...subscriptionData,
+      id,
+      description: subscriptionData.description ?? null,
+      active: true,
+      consecutiveFailures: 0,
+      disabledAt: null,
+      createdAt: new Date()
+    };
+    
+    this.webhookSubscriptions.set(id, subscription);
+    return subscription;
+  }
+  
+  async getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined> {
+    return this.webhookSubscriptions.get(id);
+  }
+  
+  async getWebhookSubscriptionsByUser(userId: number): Promise<WebhookSubscription[]> {
+    return Array.from(this.webhookSubscriptions.values())
+      .filter(subscription => subscription.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async updateWebhookSubscription(id: number, subscriptionData: Partial<WebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    const subscription = this.webhookSubscriptions.get(id);
+    
+    if (!subscription) {
+      return undefined;
+    }
+    
+    const updatedSubscription = { ...subscription, ...subscriptionData, id };
+    this.webhookSubscriptions.set(id, updatedSubscription);
+    return updatedSubscription;
+  }
+  
+  async deleteWebhookSubscription(id: number): Promise<boolean> {
+    // The delivery log goes with the subscription
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.subscriptionId === id) {
+        this.webhookDeliveries.delete(delivery.id);
       }
     }
     
-    const templates = await this.getUserTemplates(userId);
-    const templateCount = templates.length;
+    return this.webhookSubscriptions.delete(id);
+  }
+  
+  // Webhook delivery operations
+  async createWebhookDelivery(deliveryData: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = this.webhookDeliveryIdCounter++;
+    
+    const delivery: WebhookDelivery = {
+      ...deliveryData,
+      id,
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: deliveryData.nextAttemptAt ?? null,
+      lastAttemptAt: null,
+      responseStatus: null,
+      error: null,
+      redeliveryOf: deliveryData.redeliveryOf ?? null,
+      createdAt: new Date()
+    };
+    
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+  
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.get(id);
+  }
+  
+  async getWebhookDeliveriesBySubscription(subscriptionId: number, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.subscriptionId === subscriptionId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async updateWebhookDelivery(id: number, deliveryData: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    
+    if (!delivery) {
+      return undefined;
+    }
+    
+    const updatedDelivery = { ...delivery, ...deliveryData, id };
+    this.webhookDeliveries.set(id, updatedDelivery);
+    return updatedDelivery;
+  }
+  
+  async getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery =>
+        delivery.status === WebhookDeliveryStatus.PENDING &&
+        delivery.nextAttemptAt !== null &&
+        delivery.nextAttemptAt <= now
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Invoice operations
+  async createInvoice(invoiceData: InsertInvoice, itemData: Omit<InsertInvoiceItem, 'invoiceId'>[]): Promise<InvoiceWithItems | undefined> {
+    const invoiced = await this.getActiveInvoiceItemsByMilestones(itemData.map(item => item.milestoneId));
     
-    // Get user disputes count
-    const userDisputes = await this.getDisputesByUser(userId);
-    const disputesCount = userDisputes.length;
+    if (invoiced.length > 0) {
+      return undefined;
+    }
     
-    // Get user average rating
-    const averageRating = await this.getUserRating(userId);
+    const id = this.invoiceIdCounter++;
     
-    return {
-      activeContracts,
-      pendingPayments,
-      totalEarned,
-      templateCount,
-      disputesCount,
-      averageRating
+    const invoice: Invoice = {
+      ...invoiceData,
+      id,
+      sequence: null,
+      number: null,
+      status: InvoiceStatus.DRAFT,
+      taxTotal: invoiceData.taxTotal ?? 0,
+      currency: invoiceData.currency || DEFAULT_CURRENCY,
+      taxLines: invoiceData.taxLines ?? [],
+      reverseCharge: invoiceData.reverseCharge ?? false,
+      freelancerTaxId: invoiceData.freelancerTaxId ?? null,
+      clientTaxId: invoiceData.clientTaxId ?? null,
+      notes: invoiceData.notes ?? null,
+      issuedAt: null,
+      paidAt: null,
+      voidedAt: null,
+      voidReason: null,
+      createdAt: new Date()
     };
+    
+    const items = itemData.map((data): InvoiceItem => ({
+      ...data,
+      id: this.invoiceItemIdCounter++,
+      invoiceId: id,
+      voided: false
+    }));
+    
+    this.invoices.set(id, invoice);
+    items.forEach(item => this.invoiceItems.set(item.id, item));
+    return { ...invoice, items };
+  }
+  
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    return this.invoices.get(id);
+  }
+  
+  async getInvoicesByUser(userId: number): Promise<Invoice[]> {
+    return Array.from(this.invoices.values())
+      .filter(invoice => invoice.freelancerId === userId || invoice.clientId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getInvoiceItems(invoiceId: number): Promise<InvoiceItem[]> {
+    return Array.from(this.invoiceItems.values())
+      .filter(item => item.invoiceId === invoiceId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getActiveInvoiceItemsByMilestones(milestoneIds: number[]): Promise<InvoiceItem[]> {
+    return Array.from(this.invoiceItems.values()).filter(
+      (item) => !item.voided && milestoneIds.includes(item.milestoneId)
+    );
   }
+  
+  async issueInvoice(id: number, issuedAt: Date): Promise<Invoice | undefined> {
+    const invoice = this.invoices.get(id);
+    
+    if (!invoice || invoice.status !== InvoiceStatus.DRAFT) {
+      return undefined;
+    }
+    
+    const sequence = (this.invoiceCounters.get(invoice.freelancerId) ?? 0) + 1;
+    this.invoiceCounters.set(invoice.freelancerId, sequence);
+    
+    const issuedInvoice = {
+      ...invoice,
+      sequence,
+      number: formatInvoiceNumber(invoice.freelancerId, sequence),
+      status: InvoiceStatus.ISSUED,
+      issuedAt
+    };
+    
+    this.invoices.set(id, issuedInvoice);
+    return issuedInvoice;
+  }
+  
+  async updateInvoice(id: number, invoiceData: Partial<Invoice>): Promise<Invoice | undefined> {
+    const invoice = this.invoices.get(id);
+    
+    if (!invoice) {
+      return undefined;
+    }
+    
+    const updatedInvoice = { ...invoice, ...invoiceData, id };
+    this.invoices.set(id, updatedInvoice);
+    return updatedInvoice;
+  }
+  
+  async voidInvoice(id: number, voidedAt: Date, reason: string | null): Promise<Invoice | undefined> {
+    const invoice = this.invoices.get(id);
+    
+    if (!invoice) {
+      return undefined;
+    }
+    
+    // Frees the milestones to be invoiced again
+    for (const item of Array.from(this.invoiceItems.values())) {
+      if (item.invoiceId === id) {
+        this.invoiceItems.set(item.id, { ...item, voided: true });
+      }
+    }
+    
+    const voidedInvoice = { ...invoice, status: InvoiceStatus.VOID, voidedAt, voidReason: reason };
+    this.invoices.set(id, voidedInvoice);
+    return voidedInvoice;
+  }
+  
+  // Tax profile operations
+  async getTaxProfile(userId: number): Promise<TaxProfile | undefined> {
+    return Array.from(this.taxProfiles.values()).find(
+      (profile) => profile.userId === userId
+    );
+  }
+  
+  async setTaxProfile(profileData: InsertTaxProfile): Promise<TaxProfile> {
+    const existing = await this.getTaxProfile(profileData.userId);
+    
+    const profile: TaxProfile = {
+      id: existing?.id ?? this.taxProfileIdCounter++,
+      ...profileData,
+      registrationNumber: profileData.registrationNumber ?? null,
+      taxRates: profileData.taxRates ?? [],
+      reverseCharge: profileData.reverseCharge ?? true,
+      incomeTaxRate: profileData.incomeTaxRate ?? 0,
+      deductibleExpenseRate: profileData.deductibleExpenseRate ?? 0,
+      updatedAt: new Date()
+    };
+    
+    this.taxProfiles.set(profile.id, profile);
+    return profile;
+  }
+  
+  // Trust score snapshot operations
+  async createTrustScoreSnapshot(snapshotData: InsertTrustScoreSnapshot): Promise<TrustScoreSnapshot> {
+    const id = this.trustScoreSnapshotIdCounter++;
+    const snapshot: TrustScoreSnapshot = {
+      ...snapshotData,
+      id,
+      modelVersion: snapshotData.modelVersion ?? 1,
+      modelConfig: snapshotData.modelConfig ?? null,
+      createdAt: new Date()
+    };
+    
+    this.trustScoreSnapshots.set(id, snapshot);
+    return snapshot;
+  }
+  
+  async getTrustScoreSnapshots(userId: number, since: Date): Promise<TrustScoreSnapshot[]> {
+    return Array.from(this.trustScoreSnapshots.values())
+      .filter((snapshot) => snapshot.userId === userId && snapshot.createdAt >= since)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getLatestTrustScoreSnapshot(userId: number): Promise<TrustScoreSnapshot | undefined> {
+    return Array.from(this.trustScoreSnapshots.values())
+      .filter((snapshot) => snapshot.userId === userId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+  
+  // Dashboard stats
+  async getUserStats(userId: number): Promise<UserStats> {
+    return computeUserStats(this, userId);
+  }
+}
+
+/**
+ * Postgres-backed storage using the Drizzle table definitions in shared/schema.ts
+ */
+export class DbStorage implements IStorage {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUsersByType(userType: UserType): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.userType, userType)).orderBy(asc(users.id));
+  }
+
+  async createUser(userData: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...userData, password: await hashPassword(userData.password) })
+      .returning();
+    return user;
+  }
+  
+  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...changes } = userData;
+    const [user] = await this.db.update(users).set(changes).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Contract operations
+  async getContract(id: number): Promise<Contract | undefined> {
+    const [contract] = await this.db.select().from(contracts).where(eq(contracts.id, id));
+    return contract;
+  }
+
+  async getContractsByFreelancer(freelancerId: number): Promise<Contract[]> {
+    return this.db.select().from(contracts).where(eq(contracts.freelancerId, freelancerId)).orderBy(asc(contracts.id));
+  }
+
+  async getContractsByClient(clientId: number): Promise<Contract[]> {
+    return this.db.select().from(contracts).where(eq(contracts.clientId, clientId)).orderBy(asc(contracts.id));
+  }
+
+  async createContract(contractData: InsertContract): Promise<Contract> {
+    const [contract] = await this.db.insert(contracts).values(contractData).returning();
+    return contract;
+  }
+
+  async updateContractStatus(id: number, status: ContractStatus): Promise<Contract | undefined> {
+    const [contract] = await this.db.update(contracts).set({ status }).where(eq(contracts.id, id)).returning();
+    return contract;
+  }
+
+  // Contract status history operations
+  async createContractStatusHistory(entryData: InsertContractStatusHistory): Promise<ContractStatusHistory> {
+    const [entry] = await this.db.insert(contractStatusHistory).values(entryData).returning();
+    return entry;
+  }
+
+  async getContractStatusHistory(contractId: number): Promise<ContractStatusHistory[]> {
+    return this.db
+      .select()
+      .from(contractStatusHistory)
+      .where(eq(contractStatusHistory.contractId, contractId))
+      .orderBy(asc(contractStatusHistory.id));
+  }
+
+  // Milestone operations
+  async getMilestone(id: number): Promise<Milestone | undefined> {
+    const [milestone] = await this.db.select().from(milestones).where(eq(milestones.id, id));
+    return milestone;
+  }
+
+  async getMilestonesByContract(contractId: number): Promise<Milestone[]> {
+    return this.db.select().from(milestones).where(eq(milestones.contractId, contractId)).orderBy(asc(milestones.id));
+  }
+  
+  async getMilestonesDueBetween(from: Date, to: Date): Promise<Milestone[]> {
+    return this.db
+      .select()
+      .from(milestones)
+      .where(and(gte(milestones.dueDate, from), lt(milestones.dueDate, to)))
+      .orderBy(asc(milestones.dueDate));
+  }
+
+  async createMilestone(milestoneData: InsertMilestone): Promise<Milestone> {
+    const [milestone] = await this.db.insert(milestones).values(milestoneData).returning();
+    return milestone;
+  }
+
+  async updateMilestoneStatus(id: number, status: MilestoneStatus): Promise<Milestone | undefined> {
+    return this.updateMilestone(id, { status });
+  }
+  
+  async updateMilestone(id: number, milestoneData: Partial<Milestone>): Promise<Milestone | undefined> {
+    const { id: _id, ...changes } = milestoneData;
+    const [milestone] = await this.db.update(milestones).set(changes).where(eq(milestones.id, id)).returning();
+    return milestone;
+  }
+  
+  async completeMilestone(id: number, completedDate: Date): Promise<Milestone | undefined> {
+    return this.updateMilestone(id, { status: MilestoneStatus.COMPLETED, completedDate });
+  }
+
+  // Template operations
+  async getTemplate(id: number): Promise<Template | undefined> {
+    const [template] = await this.db.select().from(templates).where(eq(templates.id, id));
+    return template;
+  }
+
+  async getUserTemplates(userId: number): Promise<Template[]> {
+    return this.db.select().from(templates).where(eq(templates.userId, userId)).orderBy(asc(templates.id));
+  }
+
+  async getPublicTemplates(): Promise<Template[]> {
+    return this.db.select().from(templates).where(eq(templates.isPublic, true)).orderBy(asc(templates.id));
+  }
+
+  async createTemplate(templateData: InsertTemplate): Promise<Template> {
+    const [template] = await this.db.insert(templates).values(templateData).returning();
+    return template;
+  }
+  
+  // Escrow Payment operations
+  async createEscrowPayment(paymentData: InsertEscrowPayment): Promise<EscrowPayment> {
+    const [payment] = await this.db.insert(escrowPayments).values(paymentData).returning();
+    return payment;
+  }
+  
+  async getEscrowPayment(id: number): Promise<EscrowPayment | undefined> {
+    const [payment] = await this.db.select().from(escrowPayments).where(eq(escrowPayments.id, id));
+    return payment;
+  }
+  
+  async getEscrowPaymentsByMilestone(milestoneId: number): Promise<EscrowPayment[]> {
+    return this.db
+      .select()
+      .from(escrowPayments)
+      .where(eq(escrowPayments.milestoneId, milestoneId))
+      .orderBy(asc(escrowPayments.id));
+  }
+  
+  async getEscrowPaymentsByUser(userId: number): Promise<EscrowPayment[]> {
+    return this.db
+      .select()
+      .from(escrowPayments)
+      .where(or(eq(escrowPayments.clientId, userId), eq(escrowPayments.freelancerId, userId)))
+      .orderBy(asc(escrowPayments.id));
+  }
+  
+  async updateEscrowPayment(id: number, paymentData: Partial<EscrowPayment>): Promise<EscrowPayment | undefined> {
+    const { id: _id, ...changes } = paymentData;
+    const [payment] = await this.db.update(escrowPayments).set(changes).where(eq(escrowPayments.id, id)).returning();
+    return payment;
+  }
+  
+  async releaseEscrowPayment(id: number, releaseDate: Date, terms: EscrowReleaseTerms): Promise<EscrowPayment | undefined> {
+    return this.updateEscrowPayment(id, { ...terms, status: EscrowStatus.RELEASED, releasedAt: releaseDate });
+  }
+  
+  async getDueEscrowPayouts(now: Date): Promise<EscrowPayment[]> {
+    return this.db
+      .select()
+      .from(escrowPayments)
+      .where(and(
+        eq(escrowPayments.status, EscrowStatus.RELEASED),
+        isNull(escrowPayments.paidOutAt),
+        lte(escrowPayments.payoutDueAt, now)
+      ))
+      .orderBy(asc(escrowPayments.id));
+  }
+  
+  async getEscrowPaymentsByStatus(status: EscrowStatus): Promise<EscrowPayment[]> {
+    return this.db
+      .select()
+      .from(escrowPayments)
+      .where(eq(escrowPayments.status, status))
+      .orderBy(asc(escrowPayments.id));
+  }
+  
+  async getEscrowPaymentByGatewayReference(reference: string): Promise<EscrowPayment | undefined> {
+    const [payment] = await this.db
+      .select()
+      .from(escrowPayments)
+      .where(or(
+        sql`${escrowPayments.paymentDetails} ->> 'reference' = ${reference}`,
+        eq(escrowPayments.stripePaymentIntentId, reference)
+      ))
+      .orderBy(asc(escrowPayments.id))
+      .limit(1);
+    return payment;
+  }
+  
+  // Payment webhook event operations
+  async createPaymentWebhookEvent(eventData: InsertPaymentWebhookEvent): Promise<PaymentWebhookEvent> {
+    const [event] = await this.db.insert(paymentWebhookEvents).values(eventData).returning();
+    return event;
+  }
+  
+  async getPaymentWebhookEvent(id: number): Promise<PaymentWebhookEvent | undefined> {
+    const [event] = await this.db.select().from(paymentWebhookEvents).where(eq(paymentWebhookEvents.id, id));
+    return event;
+  }
+  
+  async getPaymentWebhookEventByEventId(provider: string, eventId: string): Promise<PaymentWebhookEvent | undefined> {
+    const [event] = await this.db
+      .select()
+      .from(paymentWebhookEvents)
+      .where(and(eq(paymentWebhookEvents.provider, provider), eq(paymentWebhookEvents.eventId, eventId)));
+    return event;
+  }
+  
+  async getPaymentWebhookEventsByStatus(status: string): Promise<PaymentWebhookEvent[]> {
+    return this.db
+      .select()
+      .from(paymentWebhookEvents)
+      .where(eq(paymentWebhookEvents.status, status))
+      .orderBy(asc(paymentWebhookEvents.id));
+  }
+  
+  async updatePaymentWebhookEvent(id: number, eventData: Partial<PaymentWebhookEvent>): Promise<PaymentWebhookEvent | undefined> {
+    const { id: _id, ...changes } = eventData;
+    const [event] = await this.db
+      .update(paymentWebhookEvents)
+      .set(changes)
+      .where(eq(paymentWebhookEvents.id, id))
+      .returning();
+    return event;
+  }
+  
+  // Dispute operations
+  async createDispute(disputeData: InsertDispute): Promise<Dispute> {
+    const [dispute] = await this.db.insert(disputes).values(disputeData).returning();
+    return dispute;
+  }
+  
+  async getDispute(id: number): Promise<Dispute | undefined> {
+    const [dispute] = await this.db.select().from(disputes).where(eq(disputes.id, id));
+    return dispute;
+  }
+  
+  async getDisputesByContract(contractId: number): Promise<Dispute[]> {
+    return this.db.select().from(disputes).where(eq(disputes.contractId, contractId)).orderBy(asc(disputes.id));
+  }
+  
+  async getDisputesByUser(userId: number): Promise<Dispute[]> {
+    return this.db
+      .select()
+      .from(disputes)
+      .where(or(eq(disputes.initiatedBy, userId), eq(disputes.respondent, userId)))
+      .orderBy(asc(disputes.id));
+  }
+  
+  async getDisputesByStatus(status: DisputeStatus): Promise<Dispute[]> {
+    return this.db.select().from(disputes).where(eq(disputes.status, status)).orderBy(asc(disputes.id));
+  }
+  
+  async getDisputesByModerator(moderatorId: number): Promise<Dispute[]> {
+    return this.db.select().from(disputes).where(eq(disputes.moderatorId, moderatorId)).orderBy(asc(disputes.id));
+  }
+  
+  async updateDispute(id: number, disputeData: Partial<Dispute>): Promise<Dispute | undefined> {
+    const { id: _id, ...changes } = disputeData;
+    const [dispute] = await this.db.update(disputes).set(changes).where(eq(disputes.id, id)).returning();
+    return dispute;
+  }
+  
+  async updateDisputeStatus(id: number, status: DisputeStatus, resolution?: string): Promise<Dispute | undefined> {
+    const changes: Partial<Dispute> = { status };
+    
+    if (resolution) {
+      changes.resolution = resolution;
+    }
+    
+    if (RESOLVED_DISPUTE_STATUSES.includes(status)) {
+      changes.resolvedAt = new Date();
+    }
+    
+    return this.updateDispute(id, changes);
+  }
+  
+  async assignModerator(disputeId: number, moderatorId: number): Promise<Dispute | undefined> {
+    return this.updateDispute(disputeId, { moderatorId, status: DisputeStatus.UNDER_REVIEW });
+  }
+  
+  // Review operations
+  async createReview(reviewData: InsertReview): Promise<Review | undefined> {
+    const [review] = await this.db
+      .insert(reviews)
+      .values(reviewData)
+      .onConflictDoNothing({ target: [reviews.contractId, reviews.reviewerId] })
+      .returning();
+    return review;
+  }
+  
+  async getReview(id: number): Promise<Review | undefined> {
+    const [review] = await this.db.select().from(reviews).where(eq(reviews.id, id));
+    return review;
+  }
+  
+  async getReviewsByUser(userId: number): Promise<Review[]> {
+    return this.db.select().from(reviews).where(eq(reviews.receiverId, userId)).orderBy(asc(reviews.id));
+  }
+  
+  async getRevealedReviewsByUser(userId: number, now: Date): Promise<Review[]> {
+    return this.db
+      .select()
+      .from(reviews)
+      .where(and(eq(reviews.receiverId, userId), lte(reviews.revealedAt, now)))
+      .orderBy(asc(reviews.id));
+  }
+  
+  async getReviewsByContract(contractId: number): Promise<Review[]> {
+    return this.db.select().from(reviews).where(eq(reviews.contractId, contractId)).orderBy(asc(reviews.id));
+  }
+  
+  async revealReviews(contractId: number, revealedAt: Date): Promise<Review[]> {
+    return this.db
+      .update(reviews)
+      .set({ revealedAt })
+      .where(and(eq(reviews.contractId, contractId), gt(reviews.revealedAt, revealedAt)))
+      .returning();
+  }
+  
+  async setReviewReply(id: number, reply: string, repliedAt: Date): Promise<Review | undefined> {
+    // The null check makes a second reply lose even when two race
+    const [review] = await this.db
+      .update(reviews)
+      .set({ reply, repliedAt })
+      .where(and(eq(reviews.id, id), isNull(reviews.reply)))
+      .returning();
+    return review;
+  }
+  
+  async getUserRating(userId: number): Promise<number> {
+    const [result] = await this.db
+      .select({ average: avg(reviews.rating) })
+      .from(reviews)
+      .where(and(eq(reviews.receiverId, userId), lte(reviews.revealedAt, new Date())));
+    
+    // avg() comes back as a numeric string, or null when there are no reviews
+    return result?.average ? Number(result.average) : 0;
+  }
+  
+  // Blockchain Contract operations
+  async createBlockchainContract(contractData: InsertBlockchainContract): Promise<BlockchainContract> {
+    const [blockchainContract] = await this.db.insert(blockchainContracts).values(contractData).returning();
+    return blockchainContract;
+  }
+  
+  async getBlockchainContract(id: number): Promise<BlockchainContract | undefined> {
+    const [blockchainContract] = await this.db.select().from(blockchainContracts).where(eq(blockchainContracts.id, id));
+    return blockchainContract;
+  }
+  
+  async getBlockchainContractByAddress(address: string, network: string): Promise<BlockchainContract | undefined> {
+    const [blockchainContract] = await this.db
+      .select()
+      .from(blockchainContracts)
+      .where(and(eq(blockchainContracts.contractAddress, address), eq(blockchainContracts.network, network)));
+    return blockchainContract;
+  }
+  
+  async getBlockchainContractsByAppContract(contractId: number): Promise<BlockchainContract[]> {
+    return this.db
+      .select()
+      .from(blockchainContracts)
+      .where(eq(blockchainContracts.contractId, contractId))
+      .orderBy(asc(blockchainContracts.id));
+  }
+  
+  // 2FA operations
+  async setupTwoFactorAuth(twoFactorData: InsertTwoFactorAuth): Promise<TwoFactorAuth> {
+    const [tfa] = await this.db.insert(twoFactorAuth).values(twoFactorData).returning();
+    return tfa;
+  }
+  
+  async getTwoFactorAuthByUser(userId: number): Promise<TwoFactorAuth | undefined> {
+    const [tfa] = await this.db.select().from(twoFactorAuth).where(eq(twoFactorAuth.userId, userId));
+    return tfa;
+  }
+  
+  async updateTwoFactorAuth(userId: number, twoFactorData: Partial<TwoFactorAuth>): Promise<TwoFactorAuth | undefined> {
+    const { id: _id, userId: _userId, ...changes } = twoFactorData;
+    const [tfa] = await this.db
+      .update(twoFactorAuth)
+      .set(changes)
+      .where(eq(twoFactorAuth.userId, userId))
+      .returning();
+    return tfa;
+  }
+  
+  async deleteTwoFactorAuth(userId: number): Promise<boolean> {
+    const deleted = await this.db.delete(twoFactorAuth).where(eq(twoFactorAuth.userId, userId)).returning();
+    return deleted.length > 0;
+  }
+  
+  // API key operations
+  async createApiKey(apiKeyData: InsertApiKey): Promise<ApiKey> {
+    const [apiKey] = await this.db.insert(apiKeys).values(apiKeyData).returning();
+    return apiKey;
+  }
+  
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    const [apiKey] = await this.db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey;
+  }
+  
+  async getApiKeyByKey(apiKey: string): Promise<ApiKey | undefined> {
+    const [key] = await this.db.select().from(apiKeys).where(eq(apiKeys.apiKey, apiKey));
+    return key;
+  }
+  
+  async getApiKeysByUser(userId: number): Promise<ApiKey[]> {
+    return this.db.select().from(apiKeys).where(eq(apiKeys.userId, userId)).orderBy(asc(apiKeys.id));
+  }
+  
+  async updateApiKey(id: number, apiKeyData: Partial<ApiKey>): Promise<ApiKey | undefined> {
+    const { id: _id, ...changes } = apiKeyData;
+    const [apiKey] = await this.db.update(apiKeys).set(changes).where(eq(apiKeys.id, id)).returning();
+    return apiKey;
+  }
+  
+  async deleteApiKey(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(apiKeys).where(eq(apiKeys.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Notification operations
+  async createNotification(notificationData: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values(notificationData).returning();
+    return notification;
+  }
+  
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+  
+  async getUserNotifications(userId: number): Promise<Notification[]> {
+    // Unread first, then newest first
+    return this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(asc(notifications.read), desc(notifications.createdAt));
+  }
+  
+  async markNotificationAsRead(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db
+      .update(notifications)
+      .set({ read: true })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+  
+  async markAllNotificationsAsRead(userId: number): Promise<number> {
+    const updated = await this.db
+      .update(notifications)
+      .set({ read: true })
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+  
+  async updateNotification(id: number, notificationData: Partial<Notification>): Promise<Notification | undefined> {
+    const { id: _id, ...changes } = notificationData;
+    const [notification] = await this.db.update(notifications).set(changes).where(eq(notifications.id, id)).returning();
+    return notification;
+  }
+  
+  async getPendingDigestNotifications(): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.digestPending, true))
+      .orderBy(asc(notifications.id));
+  }
+  
+  // Notification preference operations
+  async getNotificationPreferences(userId: number): Promise<NotificationPreference[]> {
+    return this.db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  }
+  
+  async setNotificationPreference(preferenceData: InsertNotificationPreference): Promise<NotificationPreference> {
+    const [preference] = await this.db
+      .insert(notificationPreferences)
+      .values(preferenceData)
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.type],
+        set: { inApp: preferenceData.inApp, email: preferenceData.email, updatedAt: new Date() }
+      })
+      .returning();
+    return preference;
+  }
+  
+  // Webhook subscription operations
+  async createWebhookSubscription(subscriptionData: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const [subscription] = await this.db.insert(webhookSubscriptions).values(subscriptionData).returning();
+    return subscription;
+  }
+  
+  async getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined> {
+    const [subscription] = await this.db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    return subscription;
+  }
+  
+  async getWebhookSubscriptionsByUser(userId: number): Promise<WebhookSubscription[]> {
+    return this.db
+      .select()
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.userId, userId))
+      .orderBy(asc(webhookSubscriptions.id));
+  }
+  
+  async updateWebhookSubscription(id: number, subscriptionData: Partial<WebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    const { id: _id, ...changes } = subscriptionData;
+    const [subscription] = await this.db
+      .update(webhookSubscriptions)
+      .set(changes)
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    return subscription;
+  }
+  
+  async deleteWebhookSubscription(id: number): Promise<boolean> {
+    // The delivery log goes with the subscription
+    await this.db.delete(webhookDeliveries).where(eq(webhookDeliveries.subscriptionId, id));
+    const deleted = await this.db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Webhook delivery operations
+  async createWebhookDelivery(deliveryData: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await this.db.insert(webhookDeliveries).values(deliveryData).returning();
+    return delivery;
+  }
+  
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+  
+  async getWebhookDeliveriesBySubscription(subscriptionId: number, limit: number): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.subscriptionId, subscriptionId))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+  
+  async updateWebhookDelivery(id: number, deliveryData: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const { id: _id, ...changes } = deliveryData;
+    const [delivery] = await this.db.update(webhookDeliveries).set(changes).where(eq(webhookDeliveries.id, id)).returning();
+    return delivery;
+  }
+  
+  async getDueWebhookDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.status, WebhookDeliveryStatus.PENDING),
+        lte(webhookDeliveries.nextAttemptAt, now)
+      ))
+      .orderBy(asc(webhookDeliveries.id));
+  }
+  
+  // Invoice operations
+  async createInvoice(invoiceData: InsertInvoice, itemData: Omit<InsertInvoiceItem, 'invoiceId'>[]): Promise<InvoiceWithItems | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [invoice] = await tx.insert(invoices).values(invoiceData).returning();
+        const items = await tx
+          .insert(invoiceItems)
+          .values(itemData.map(item => ({ ...item, invoiceId: invoice.id })))
+          .returning();
+        return { ...invoice, items };
+      });
+    } catch (error) {
+      // The partial unique index on invoice_items rejects a milestone that is already invoiced
+      if ((error as { code?: string }).code === '23505') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+  
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+  
+  async getInvoicesByUser(userId: number): Promise<Invoice[]> {
+    return this.db
+      .select()
+      .from(invoices)
+      .where(or(eq(invoices.freelancerId, userId), eq(invoices.clientId, userId)))
+      .orderBy(desc(invoices.id));
+  }
+  
+  async getInvoiceItems(invoiceId: number): Promise<InvoiceItem[]> {
+    return this.db
+      .select()
+      .from(invoiceItems)
+      .where(eq(invoiceItems.invoiceId, invoiceId))
+      .orderBy(asc(invoiceItems.id));
+  }
+  
+  async getActiveInvoiceItemsByMilestones(milestoneIds: number[]): Promise<InvoiceItem[]> {
+    if (milestoneIds.length === 0) {
+      return [];
+    }
+    
+    return this.db
+      .select()
+      .from(invoiceItems)
+      .where(and(inArray(invoiceItems.milestoneId, milestoneIds), eq(invoiceItems.voided, false)));
+  }
+  
+  async issueInvoice(id: number, issuedAt: Date): Promise<Invoice | undefined> {
+    // Numbering happens in the same transaction as the status change, so a
+    // failure rolls the counter back and never leaves a gap
+    return this.db.transaction(async (tx) => {
+      const [invoice] = await tx
+        .select()
+        .from(invoices)
+        .where(and(eq(invoices.id, id), eq(invoices.status, InvoiceStatus.DRAFT)))
+        .for('update');
+      
+      if (!invoice) {
+        return undefined;
+      }
+      
+      const [counter] = await tx
+        .insert(invoiceCounters)
+        .values({ freelancerId: invoice.freelancerId, lastSequence: 1 })
+        .onConflictDoUpdate({
+          target: invoiceCounters.freelancerId,
+          set: { lastSequence: sql`${invoiceCounters.lastSequence} + 1` }
+        })
+        .returning();
+      
+      const [issuedInvoice] = await tx
+        .update(invoices)
+        .set({
+          sequence: counter.lastSequence,
+          number: formatInvoiceNumber(invoice.freelancerId, counter.lastSequence),
+          status: InvoiceStatus.ISSUED,
+          issuedAt
+        })
+        .where(eq(invoices.id, id))
+        .returning();
+      return issuedInvoice;
+    });
+  }
+  
+  async updateInvoice(id: number, invoiceData: Partial<Invoice>): Promise<Invoice | undefined> {
+    const { id: _id, ...changes } = invoiceData;
+    const [invoice] = await this.db.update(invoices).set(changes).where(eq(invoices.id, id)).returning();
+    return invoice;
+  }
+  
+  async voidInvoice(id: number, voidedAt: Date, reason: string | null): Promise<Invoice | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Frees the milestones to be invoiced again
+      await tx.update(invoiceItems).set({ voided: true }).where(eq(invoiceItems.invoiceId, id));
+      const [invoice] = await tx
+        .update(invoices)
+        .set({ status: InvoiceStatus.VOID, voidedAt, voidReason: reason })
+        .where(eq(invoices.id, id))
+        .returning();
+      return invoice;
+    });
+  }
+  
+  // Tax profile operations
+  async getTaxProfile(userId: number): Promise<TaxProfile | undefined> {
+    const [profile] = await this.db.select().from(taxProfiles).where(eq(taxProfiles.userId, userId));
+    return profile;
+  }
+  
+  async setTaxProfile(profileData: InsertTaxProfile): Promise<TaxProfile> {
+    const { userId: _userId, ...changes } = profileData;
+    const [profile] = await this.db
+      .insert(taxProfiles)
+      .values(profileData)
+      .onConflictDoUpdate({
+        target: taxProfiles.userId,
+        set: { ...changes, updatedAt: new Date() }
+      })
+      .returning();
+    return profile;
+  }
+  
+  // Trust score snapshot operations
+  async createTrustScoreSnapshot(snapshotData: InsertTrustScoreSnapshot): Promise<TrustScoreSnapshot> {
+    const [snapshot] = await this.db.insert(trustScoreSnapshots).values(snapshotData).returning();
+    return snapshot;
+  }
+  
+  async getTrustScoreSnapshots(userId: number, since: Date): Promise<TrustScoreSnapshot[]> {
+    return this.db
+      .select()
+      .from(trustScoreSnapshots)
+      .where(and(eq(trustScoreSnapshots.userId, userId), gte(trustScoreSnapshots.createdAt, since)))
+      .orderBy(asc(trustScoreSnapshots.createdAt));
+  }
+  
+  async getLatestTrustScoreSnapshot(userId: number): Promise<TrustScoreSnapshot | undefined> {
+    const [snapshot] = await this.db
+      .select()
+      .from(trustScoreSnapshots)
+      .where(eq(trustScoreSnapshots.userId, userId))
+      .orderBy(desc(trustScoreSnapshots.createdAt))
+      .limit(1);
+    return snapshot;
+  }
+  
+  // Dashboard stats
+  async getUserStats(userId: number): Promise<UserStats> {
+    return computeUserStats(this, userId);
+  }
+}
+
+/**
+ * Whether the configuration selects a store that outlives the process
+ */
+export function usesPersistentStorage(
+  env: NodeJS.ProcessEnv = process.env
+): env is NodeJS.ProcessEnv & { DATABASE_URL: string } {
+  return env.STORAGE_DRIVER !== 'memory' && !!env.DATABASE_URL;
+}
+
+/**
+ * Pick the storage backend from configuration. STORAGE_DRIVER=memory forces
+ * the in-memory store; otherwise Postgres is used whenever DATABASE_URL is set.
+ */
+export function createStorage(env: NodeJS.ProcessEnv = process.env): IStorage {
+  if (usesPersistentStorage(env)) {
+    return new DbStorage(createDb(env.DATABASE_URL));
+  }
+
+  if (env.STORAGE_DRIVER === 'postgres') {
+    throw new Error('STORAGE_DRIVER=postgres requires DATABASE_URL to be set');
+  }
+
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,118 @@
+import { randomBytes } from "crypto";
+import {
+  API_KEY_HEADER,
+  API_NONCE_HEADER,
+  API_SIGNATURE_HEADER,
+  API_TIMESTAMP_HEADER,
+  signRequest,
+} from "./api-signing";
+
+export interface ApiClientOptions {
+  baseUrl: string; // e.g. https://contractpay.example.com
+  apiKey: string;
+  secretKey: string;
+  fetch?: typeof fetch;
+}
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Error for a non-2xx response from the external API
+ */
+export class ApiRequestError extends Error {
+  status: number;
+  retryAfter: number | null; // Seconds, set on 429 responses
+  body: unknown;
+
+  constructor(message: string, status: number, retryAfter: number | null, body: unknown) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.status = status;
+    this.retryAfter = retryAfter;
+    this.body = body;
+  }
+}
+
+/**
+ * Minimal client for the /v1 API that signs every request
+ *
+ *   const api = new ContractPayApiClient({ baseUrl, apiKey, secretKey });
+ *   const contracts = await api.get("/v1/contracts", { status: "active" });
+ */
+export class ContractPayApiClient {
+  private options: ApiClientOptions;
+
+  constructor(options: ApiClientOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Headers that authenticate one request, for callers using their own HTTP library
+   * @param method HTTP method
+   * @param path Path without the query string, e.g. "/v1/contracts"
+   * @param query Raw query string
+   * @param body Exact body that will be sent
+   */
+  signedHeaders(method: string, path: string, query: string = "", body: string = ""): Record<string, string> {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const nonce = randomBytes(16).toString("hex");
+    const signature = signRequest(this.options.secretKey, { method, path, query, timestamp, nonce, body });
+
+    return {
+      [API_KEY_HEADER]: this.options.apiKey,
+      [API_TIMESTAMP_HEADER]: timestamp,
+      [API_NONCE_HEADER]: nonce,
+      [API_SIGNATURE_HEADER]: signature,
+    };
+  }
+
+  async request<T>(method: string, path: string, options: { query?: QueryParams; body?: unknown } = {}): Promise<T> {
+    const url = new URL(path, this.options.baseUrl);
+
+    for (const [key, value] of Object.entries(options.query || {})) {
+      if (value !== undefined) {
+        url.searchParams.append(key, String(value));
+      }
+    }
+
+    const body = options.body === undefined ? "" : JSON.stringify(options.body);
+    const headers: Record<string, string> = this.signedHeaders(method, url.pathname, url.search, body);
+
+    if (body) {
+      headers["content-type"] = "application/json";
+    }
+
+    const fetchImpl = this.options.fetch || fetch;
+    const res = await fetchImpl(url, { method, headers, body: body || undefined });
+    const text = await res.text();
+    const data = text ? JSON.parse(text) : null;
+
+    if (!res.ok) {
+      const retryAfter = res.headers.get("retry-after");
+      throw new ApiRequestError(
+        data?.error || data?.message || res.statusText,
+        res.status,
+        retryAfter ? parseInt(retryAfter, 10) : null,
+        data
+      );
+    }
+
+    return data as T;
+  }
+
+  get<T>(path: string, query?: QueryParams): Promise<T> {
+    return this.request<T>("GET", path, { query });
+  }
+
+  post<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>("POST", path, { body });
+  }
+
+  patch<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>("PATCH", path, { body });
+  }
+
+  delete<T>(path: string): Promise<T> {
+    return this.request<T>("DELETE", path);
+  }
+}
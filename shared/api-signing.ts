@@ -0,0 +1,73 @@
+import { createHash, createHmac } from "crypto";
+
+// Headers carried by every signed external API request
+export const API_KEY_HEADER = "x-api-key";
+export const API_TIMESTAMP_HEADER = "x-timestamp"; // Unix time in seconds
+export const API_NONCE_HEADER = "x-nonce"; // Unique per request, 16-64 chars of [A-Za-z0-9_-]
+export const API_SIGNATURE_HEADER = "x-signature"; // Hex HMAC-SHA256 of the canonical request
+
+export const API_NONCE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+export interface SignableRequest {
+  method: string;
+  path: string; // Full path without the query string, e.g. "/v1/contracts"
+  query?: string; // Raw query string, with or without the leading "?"
+  timestamp: string;
+  nonce: string;
+  body?: string | Uint8Array; // Exact bytes sent; omit or leave empty when there is no body
+}
+
+function encodeComponent(value: string): string {
+  // RFC 3986: encodeURIComponent leaves !'()* unescaped
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Normalise a query string so both sides sign the same bytes: parameters are
+ * decoded, sorted by name then value, re-encoded per RFC 3986 and joined with "&"
+ * @param query Raw query string
+ */
+export function canonicalQueryString(query: string = ""): string {
+  const params = Array.from(new URLSearchParams(query.replace(/^\?/, "")).entries());
+
+  return params
+    .sort(([aKey, aValue], [bKey, bValue]) =>
+      aKey === bKey ? (aValue < bValue ? -1 : aValue > bValue ? 1 : 0) : (aKey < bKey ? -1 : 1))
+    .map(([key, value]) => `${encodeComponent(key)}=${encodeComponent(value)}`)
+    .join("&");
+}
+
+/**
+ * Build the string a request signature covers. It is six lines joined with "\n":
+ *
+ *   METHOD            upper case, e.g. GET
+ *   PATH              e.g. /v1/contracts
+ *   CANONICAL_QUERY   see canonicalQueryString; empty line when there is none
+ *   TIMESTAMP         value of X-Timestamp
+ *   NONCE             value of X-Nonce
+ *   BODY_SHA256       lower-case hex SHA-256 of the raw body (of "" when empty)
+ *
+ * @param request Request details
+ */
+export function buildCanonicalRequest(request: SignableRequest): string {
+  const bodyHash = createHash("sha256").update(request.body || "").digest("hex");
+
+  return [
+    request.method.toUpperCase(),
+    request.path,
+    canonicalQueryString(request.query),
+    request.timestamp,
+    request.nonce,
+    bodyHash,
+  ].join("\n");
+}
+
+/**
+ * Sign a request with an API secret
+ * @param secretKey The secret returned when the API key was created
+ * @param request Request details
+ * @returns Hex HMAC-SHA256 signature for the X-Signature header
+ */
+export function signRequest(secretKey: string, request: SignableRequest): string {
+  return createHmac("sha256", secretKey).update(buildCanonicalRequest(request)).digest("hex");
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { formatMoney, toCurrencyCode } from "./currency";
+
+describe("currency", () => {
+  it("narrows stored codes to a supported currency", () => {
+    expect(toCurrencyCode("eur")).toBe("EUR");
+    expect(toCurrencyCode("JPY")).toBe("USD");
+    expect(toCurrencyCode(null)).toBe("USD");
+  });
+
+  it("formats minor units in the currency and locale", () => {
+    expect(formatMoney(123456, "USD", { locale: "en-US" })).toBe("$1,234.56");
+    expect(formatMoney(123456, "EUR", { locale: "de-DE" })).toBe("1.234,56 €");
+    expect(formatMoney(10000000, "INR", { locale: "en-IN" })).toBe("₹1,00,000.00");
+  });
+
+  it("can print the code instead of the symbol, and drop the minor units", () => {
+    expect(formatMoney(120000, "INR", { locale: "en-US", display: "code" })).toBe("INR 1,200.00");
+    expect(formatMoney(123456, "GBP", { locale: "en-GB", wholeUnits: true })).toBe("£1,235");
+  });
+});
@@ -0,0 +1,35 @@
+import { CURRENCIES, CurrencyCode, DEFAULT_CURRENCY } from "./schema";
+import { toMajorUnits } from "./money";
+
+export interface FormatMoneyOptions {
+  locale?: string; // BCP 47 tag; the runtime's default locale when left out
+  display?: "symbol" | "code"; // "code" prints e.g. "INR 1,200.00" for output without the symbol glyphs
+  wholeUnits?: boolean; // Drop the minor units, for compact summaries
+}
+
+/**
+ * Narrow an arbitrary stored code to a supported currency
+ * @param code Currency code, e.g. from a database row
+ * @returns The code, or the default currency when it isn't supported
+ */
+export function toCurrencyCode(code: string | null | undefined): CurrencyCode {
+  return CURRENCIES.find(currency => currency === code?.toUpperCase()) || DEFAULT_CURRENCY;
+}
+
+/**
+ * Format an amount in a currency for display, following the locale's
+ * grouping, decimal separator and symbol placement
+ * @param amount Amount in integer minor units (e.g. cents)
+ * @param currency Currency the amount is in
+ * @param options Locale and display options
+ */
+export function formatMoney(amount: number, currency: string, options: FormatMoneyOptions = {}): string {
+  const code = toCurrencyCode(currency);
+
+  return new Intl.NumberFormat(options.locale, {
+    style: "currency",
+    currency: code,
+    currencyDisplay: options.display || "symbol",
+    ...(options.wholeUnits ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {}),
+  }).format(toMajorUnits(amount, code));
+}
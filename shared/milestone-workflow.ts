@@ -0,0 +1,64 @@
+import { MilestoneStatus } from "./schema";
+
+// Actions that move a milestone through its workflow
+export type MilestoneAction = "start" | "submit" | "approve" | "request_changes" | "mark_paid";
+
+// Who may trigger an action. "system" actions run automatically (e.g. after escrow release)
+export type MilestoneActor = "client" | "freelancer" | "system";
+
+export interface MilestoneActionRule {
+  from: MilestoneStatus[];
+  to: MilestoneStatus;
+  actors: MilestoneActor[];
+  label: string;
+}
+
+// Milestone workflow:
+// NOT_STARTED -> IN_PROGRESS -> PENDING_REVIEW -> READY_FOR_PAYMENT -> COMPLETED
+//                     ^               |
+//                     +-- changes ----+
+export const MILESTONE_WORKFLOW: Record<MilestoneAction, MilestoneActionRule> = {
+  start: {
+    from: [MilestoneStatus.NOT_STARTED],
+    to: MilestoneStatus.IN_PROGRESS,
+    actors: ["freelancer"],
+    label: "Start Work",
+  },
+  submit: {
+    from: [MilestoneStatus.IN_PROGRESS],
+    to: MilestoneStatus.PENDING_REVIEW,
+    actors: ["freelancer"],
+    label: "Submit for Review",
+  },
+  approve: {
+    from: [MilestoneStatus.PENDING_REVIEW],
+    to: MilestoneStatus.READY_FOR_PAYMENT,
+    actors: ["client"],
+    label: "Approve",
+  },
+  request_changes: {
+    from: [MilestoneStatus.PENDING_REVIEW],
+    to: MilestoneStatus.IN_PROGRESS,
+    actors: ["client"],
+    label: "Request Changes",
+  },
+  mark_paid: {
+    from: [MilestoneStatus.READY_FOR_PAYMENT],
+    to: MilestoneStatus.COMPLETED,
+    actors: ["system"],
+    label: "Mark Paid",
+  },
+};
+
+/**
+ * List the workflow actions an actor can take on a milestone in its current status
+ * @param status Current milestone status
+ * @param actor Role of the acting party
+ * @returns Available actions
+ */
+export function getAvailableMilestoneActions(status: MilestoneStatus, actor: MilestoneActor): MilestoneAction[] {
+  return (Object.keys(MILESTONE_WORKFLOW) as MilestoneAction[]).filter(action => {
+    const rule = MILESTONE_WORKFLOW[action];
+    return rule.from.includes(status) && rule.actors.includes(actor);
+  });
+}
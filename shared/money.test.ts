@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  addMoney, allocateMoney, formatMinorUnits, money, MoneyError, splitMoney, sumMoney, toMajorUnits, toMinorUnits,
+} from "./money";
+
+const amounts = (shares: { amount: number }[]) => shares.map(share => share.amount);
+
+describe("money", () => {
+  it("only holds whole minor units", () => {
+    expect(money(1234, "USD")).toEqual({ amount: 1234, currency: "USD" });
+    expect(() => money(12.5, "USD")).toThrow(MoneyError);
+  });
+
+  it("converts between major and minor units by the currency's digits", () => {
+    expect(toMinorUnits(1.005, "USD")).toBe(101);
+    expect(toMinorUnits(-1.005, "USD")).toBe(-101);
+    expect(toMinorUnits(1234, "JPY")).toBe(1234);
+    expect(toMajorUnits(1234, "USD")).toBe(12.34);
+    expect(formatMinorUnits(5, "USD")).toBe("0.05");
+    expect(formatMinorUnits(-1234, "EUR")).toBe("-12.34");
+    expect(formatMinorUnits(1234, "JPY")).toBe("1234");
+  });
+
+  it("refuses to combine currencies", () => {
+    expect(addMoney(money(100, "EUR"), money(50, "EUR"))).toEqual(money(150, "EUR"));
+    expect(() => sumMoney([money(100, "EUR"), money(50, "GBP")], "EUR")).toThrow(MoneyError);
+    expect(sumMoney([], "GBP")).toEqual(money(0, "GBP"));
+  });
+
+  it("gives the leftover units of an allocation to the largest remainders", () => {
+    // 100 * 1/3 = 33.33 each; one unit left for the earliest share
+    expect(amounts(allocateMoney(money(100, "USD"), [1, 1, 1]))).toEqual([34, 33, 33]);
+    // 10 * [0.15, 0.25, 0.6] = [1.5, 2.5, 6]; the tie goes to the earlier share
+    expect(amounts(allocateMoney(money(10, "USD"), [15, 25, 60]))).toEqual([2, 2, 6]);
+    // 7 * [0.1, 0.2, 0.7] = [0.7, 1.4, 4.9]; the two largest remainders win
+    expect(amounts(allocateMoney(money(7, "USD"), [1, 2, 7]))).toEqual([1, 1, 5]);
+  });
+
+  it("allocates exactly, including negative totals and zero weights", () => {
+    const shares = allocateMoney(money(-1001, "EUR"), [3, 0, 7]);
+
+    expect(amounts(shares)).toEqual([-300, 0, -701]);
+    expect(shares.every(share => share.currency === "EUR")).toBe(true);
+
+    for (const total of [1, 99, 12345]) {
+      const allocated = allocateMoney(money(total, "USD"), [2, 3, 5, 7]);
+      expect(sumMoney(allocated, "USD").amount).toBe(total);
+    }
+  });
+
+  it("rejects weights that can't be allocated by", () => {
+    expect(() => allocateMoney(money(100, "USD"), [0, 0])).toThrow(MoneyError);
+    expect(() => allocateMoney(money(100, "USD"), [1, -1, 1])).toThrow(MoneyError);
+    expect(() => allocateMoney(money(100, "USD"), [])).toThrow(MoneyError);
+  });
+
+  it("splits into equal parts with the first parts taking the remainder", () => {
+    expect(amounts(splitMoney(money(1000, "USD"), 3))).toEqual([334, 333, 333]);
+    expect(() => splitMoney(money(1000, "USD"), 0)).toThrow(MoneyError);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * An amount of money as an integer number of the currency's minor units
+ * (e.g. cents), so sums and splits are exact
+ */
+export interface Money {
+  amount: number; // Integer minor units
+  currency: string;
+}
+
+/**
+ * Error raised for invalid money arithmetic, e.g. mixing currencies
+ */
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MoneyError";
+  }
+}
+
+/**
+ * Number of minor unit digits of a currency, e.g. 2 for USD
+ * @param currency ISO 4217 currency code
+ */
+export function minorUnitDigits(currency: string): number {
+  return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Create a money value
+ * @param amount Integer minor units
+ * @param currency ISO 4217 currency code
+ */
+export function money(amount: number, currency: string): Money {
+  if (!Number.isSafeInteger(amount)) {
+    throw new MoneyError(`Money amounts must be whole minor units, got ${amount}`);
+  }
+
+  return { amount, currency };
+}
+
+/**
+ * Convert a major unit amount (e.g. 12.34 dollars) to minor units (1234 cents),
+ * rounding half away from zero on the decimal representation
+ * @param major Amount in major units
+ * @param currency Currency the amount is in
+ */
+export function toMinorUnits(major: number, currency: string): number {
+  const digits = minorUnitDigits(currency);
+  // Shift the exponent rather than multiplying, so 1.005 becomes 100.5 and not 100.49999...
+  const shifted = Number(`${Math.abs(major)}e${digits}`);
+
+  return Math.sign(major) * Math.round(shifted);
+}
+
+/**
+ * Convert minor units back to a major unit number, for display and input only
+ * @param minor Integer minor units
+ * @param currency Currency the amount is in
+ */
+export function toMajorUnits(minor: number, currency: string): number {
+  return minor / 10 ** minorUnitDigits(currency);
+}
+
+/**
+ * Exact decimal string of a minor unit amount, e.g. 1234 USD -> "12.34"
+ * @param minor Integer minor units
+ * @param currency Currency the amount is in
+ */
+export function formatMinorUnits(minor: number, currency: string): string {
+  const digits = minorUnitDigits(currency);
+  const sign = minor < 0 ? "-" : "";
+  const padded = String(Math.abs(minor)).padStart(digits + 1, "0");
+
+  return digits === 0
+    ? `${sign}${padded}`
+    : `${sign}${padded.slice(0, -digits)}.${padded.slice(-digits)}`;
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new MoneyError(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount + b.amount, a.currency);
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount - b.amount, a.currency);
+}
+
+/**
+ * Sum amounts in one currency
+ * @param amounts Amounts to add up
+ * @param currency Currency of the result, which every amount must share
+ * @returns The total; zero when there are no amounts
+ */
+export function sumMoney(amounts: Money[], currency: string): Money {
+  return amounts.reduce(addMoney, money(0, currency));
+}
+
+/**
+ * Split an amount in proportion to weights without losing a minor unit:
+ * each share is rounded down and the leftover units go to the shares with
+ * the largest remainders (earliest share first on ties)
+ * @param total Amount to split
+ * @param weights Non-negative weights, at least one positive
+ * @returns One share per weight, summing exactly to total
+ */
+export function allocateMoney(total: Money, weights: number[]): Money[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+
+  if (weights.some(weight => weight < 0 || !Number.isFinite(weight)) || !(weightSum > 0)) {
+    throw new MoneyError("Allocation weights must be non-negative with a positive sum");
+  }
+
+  const negative = total.amount < 0;
+  const units = Math.abs(total.amount);
+  const exact = weights.map(weight => units * weight / weightSum);
+  const shares = exact.map(Math.floor);
+  let leftover = units - shares.reduce((sum, share) => sum + share, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (const { index } of byRemainder) {
+    if (leftover === 0) {
+      break;
+    }
+    shares[index]++;
+    leftover--;
+  }
+
+  // Zero shares stay 0 rather than -0
+  return shares.map(share => money(negative && share > 0 ? -share : share, total.currency));
+}
+
+/**
+ * Split an amount into equal parts, the first parts taking any remainder
+ * @param total Amount to split
+ * @param parts Number of parts
+ */
+export function splitMoney(total: Money, parts: number): Money[] {
+  if (!Number.isInteger(parts) || parts < 1) {
+    throw new MoneyError("An amount can only be split into a whole, positive number of parts");
+  }
+
+  return allocateMoney(total, Array(parts).fill(1));
+}
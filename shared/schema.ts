@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, bigint, jsonb, real, index, unique, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -37,6 +38,23 @@ export enum PaymentMethod {
   CRYPTO = "crypto", // For blockchain payments
 }
 
+// Escrow payment status
+export enum EscrowStatus {
+  PENDING = "pending", // Hold created at the gateway, awaiting payer confirmation
+  FUNDED = "funded",
+  RELEASED = "released",
+  REFUNDED = "refunded",
+  FAILED = "failed", // Gateway reported the charge as failed
+  DISPUTED = "disputed", // Payer opened a chargeback with their provider
+}
+
+// Processing state of an inbound payment webhook event
+export enum WebhookEventStatus {
+  PROCESSED = "processed",
+  UNHANDLED = "unhandled", // Unknown event type, kept for replay
+  FAILED = "failed",
+}
+
 // Dispute status
 export enum DisputeStatus {
   OPEN = "open",
@@ -46,6 +64,77 @@ export enum DisputeStatus {
   RESOLVED_COMPROMISE = "resolved_compromise",
 }
 
+// Notification types, one per domain event users are told about
+export enum NotificationType {
+  CONTRACT_SIGNED = "contract_signed",
+  MILESTONE_SUBMITTED = "milestone_submitted",
+  ESCROW_FUNDED = "escrow_funded",
+  PAYMENT_RELEASED = "payment_released",
+  DISPUTE_OPENED = "dispute_opened",
+  MILESTONE_DUE_SOON = "milestone_due_soon",
+  TRUST_TIER_CHANGED = "trust_tier_changed",
+}
+
+// Scopes that can be granted to an external API key
+export const API_KEY_PERMISSIONS = [
+  "read:contracts",
+  "write:contracts",
+  "delete:contracts",
+  "read:milestones",
+  "write:milestones",
+  "delete:milestones",
+  "read:payments",
+  "write:payments",
+  "read:invoices",
+  "write:invoices",
+] as const;
+
+export type ApiKeyPermission = typeof API_KEY_PERMISSIONS[number];
+
+// How a notification type is delivered by email
+export enum EmailDelivery {
+  OFF = "off",
+  IMMEDIATE = "immediate",
+  DIGEST = "digest", // Batched into the daily digest
+}
+
+// Events that can be sent to outgoing webhook subscriptions
+export const WEBHOOK_EVENT_TYPES = [
+  "contract.created",
+  "contract.status_changed",
+  "milestone.created",
+  "milestone.status_changed",
+  "escrow.funded",
+  "escrow.released",
+  "escrow.paid_out",
+  "escrow.refunded",
+  "dispute.opened",
+  "dispute.resolved",
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export enum WebhookDeliveryStatus {
+  PENDING = "pending", // Waiting for its first attempt or a retry
+  SUCCEEDED = "succeeded",
+  FAILED = "failed", // Out of retries, or the subscription was disabled
+}
+
+// Invoice status
+export enum InvoiceStatus {
+  DRAFT = "draft", // Editable and unnumbered; only the freelancer can see it
+  ISSUED = "issued",
+  PAID = "paid",
+  VOID = "void", // Keeps its number; its milestones can be invoiced again
+}
+
+// ISO 4217 codes for the currencies contracts can be priced in
+export const CURRENCIES = ["USD", "EUR", "GBP", "INR"] as const;
+
+export type CurrencyCode = typeof CURRENCIES[number];
+
+export const DEFAULT_CURRENCY: CurrencyCode = "USD";
+
 // Users schema
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -56,6 +145,9 @@ export const users = pgTable("users", {
   userType: text("user_type").notNull(),
   bio: text("bio"),
   profileImage: text("profile_image"),
+  homeCurrency: text("home_currency").notNull().default(DEFAULT_CURRENCY), // Earnings are reported in this currency
+  walletAddress: text("wallet_address"), // Crypto escrow is deposited from, and paid out to, this address
+  stripeAccountId: text("stripe_account_id"), // Stripe Connect account card payments are paid out to
 });
 
 // Contracts schema
@@ -66,7 +158,8 @@ export const contracts = pgTable("contracts", {
   clientId: integer("client_id").notNull(),
   freelancerId: integer("freelancer_id").notNull(),
   status: text("status").notNull().default(ContractStatus.DRAFT),
-  totalAmount: doublePrecision("total_amount").notNull(),
+  totalAmount: bigint("total_amount_minor", { mode: "number" }).notNull(), // Integer minor units of the currency
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY), // Every amount on the contract is in this currency
   contractType: text("contract_type").notNull(),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
@@ -74,16 +167,29 @@ export const contracts = pgTable("contracts", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Contract status history (one row per lifecycle transition)
+export const contractStatusHistory = pgTable("contract_status_history", {
+  id: serial("id").primaryKey(),
+  contractId: integer("contract_id").notNull(),
+  fromStatus: text("from_status"), // Null for the initial DRAFT entry
+  toStatus: text("to_status").notNull(),
+  changedBy: integer("changed_by"), // Null when the system triggered the transition
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Milestones schema
 export const milestones = pgTable("milestones", {
   id: serial("id").primaryKey(),
   contractId: integer("contract_id").notNull(),
   title: text("title").notNull(),
   description: text("description").notNull(),
-  amount: doublePrecision("amount").notNull(),
+  amount: bigint("amount_minor", { mode: "number" }).notNull(), // Integer minor units of the currency
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY), // Copied from the contract
   status: text("status").notNull().default(MilestoneStatus.NOT_STARTED),
   dueDate: timestamp("due_date").notNull(),
   completedDate: timestamp("completed_date"),
+  reviewFeedback: text("review_feedback"), // Latest change request from the client
 });
 
 // Templates schema
@@ -102,16 +208,42 @@ export const escrowPayments = pgTable("escrow_payments", {
   milestoneId: integer("milestone_id").notNull(),
   clientId: integer("client_id").notNull(),
   freelancerId: integer("freelancer_id").notNull(),
-  amount: doublePrecision("amount").notNull(),
-  status: text("status").notNull(),
+  amount: bigint("amount_minor", { mode: "number" }).notNull(), // Integer minor units of the currency
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY), // Copied from the contract
+  status: text("status").notNull(), // EscrowStatus
   paymentMethod: text("payment_method").notNull(),
   paymentDetails: jsonb("payment_details"), // Stores payment gateway response data
   stripePaymentIntentId: text("stripe_payment_intent_id"),
   blockchainTxHash: text("blockchain_tx_hash"), // If using blockchain
   depositedAt: timestamp("deposited_at").defaultNow(),
   releasedAt: timestamp("released_at"),
+  // Platform fee charged on release, discounted by the freelancer's trust tier at the time
+  feeTier: text("fee_tier"),
+  feeRate: integer("fee_rate"), // Basis points of the amount
+  feeDiscountRate: integer("fee_discount_rate"), // Basis points off the fee
+  feeAmount: bigint("fee_minor", { mode: "number" }), // Before the discount
+  feeDiscount: bigint("fee_discount_minor", { mode: "number" }),
+  payoutAmount: bigint("payout_minor", { mode: "number" }), // Amount less the discounted fee
+  payoutDueAt: timestamp("payout_due_at"), // Released funds are captured for the freelancer from then
+  paidOutAt: timestamp("paid_out_at"),
 });
 
+// Inbound payment gateway webhook events (deduplicated per provider event id)
+export const paymentWebhookEvents = pgTable("payment_webhook_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(), // PaymentMethod
+  eventId: text("event_id").notNull(),
+  type: text("type").notNull(),
+  reference: text("reference"), // Gateway payment reference the event is about
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull(),
+  error: text("error"),
+  receivedAt: timestamp("received_at").defaultNow(),
+  processedAt: timestamp("processed_at"),
+}, (table) => [
+  unique("payment_webhook_events_provider_event_id").on(table.provider, table.eventId),
+]);
+
 // Disputes schema
 export const disputes = pgTable("disputes", {
   id: serial("id").primaryKey(),
@@ -136,8 +268,15 @@ export const reviews = pgTable("reviews", {
   receiverId: integer("receiver_id").notNull(),
   rating: integer("rating").notNull(), // 1-5 stars
   comment: text("comment"),
+  // Hidden from all but the reviewer until then: the end of the review window,
+  // brought forward once both parties have reviewed
+  revealedAt: timestamp("revealed_at").notNull(),
+  reply: text("reply"), // The receiver's one public reply
+  repliedAt: timestamp("replied_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  unique("reviews_contract_reviewer").on(table.contractId, table.reviewerId),
+]);
 
 // Blockchain Contract Records (for blockchain integration)
 export const blockchainContracts = pgTable("blockchain_contracts", {
@@ -156,7 +295,24 @@ export const twoFactorAuth = pgTable("two_factor_auth", {
   userId: integer("user_id").notNull().unique(),
   secret: text("secret").notNull(),
   verified: boolean("verified").default(false),
-  backupCodes: jsonb("backup_codes"),
+  backupCodes: jsonb("backup_codes"), // scrypt hashes of the unused codes
+  lastUsedStep: integer("last_used_step"), // TOTP time step of the last accepted code, to block replays
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// External API keys
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  apiKey: text("api_key").notNull().unique(), // Public identifier sent in X-API-Key
+  encryptedSecret: text("encrypted_secret").notNull(), // AES-256-GCM; the server needs the secret itself to check HMAC signatures
+  permissions: jsonb("permissions").notNull(), // ApiKeyPermission[]
+  rateLimitRequests: integer("rate_limit_requests").notNull().default(100),
+  rateLimitPeriod: integer("rate_limit_period").notNull().default(60), // Seconds
+  expiresAt: timestamp("expires_at"),
+  replacedById: integer("replaced_by_id"), // Set when rotated; the old key then expires after its grace period
+  lastUsedAt: timestamp("last_used_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -169,11 +325,136 @@ export const notifications = pgTable("notifications", {
   message: text("message").notNull(),
   read: boolean("read").default(false),
   data: jsonb("data"), // Additional data related to notification
+  digestPending: boolean("digest_pending").default(false), // Waiting for the next daily digest email
+  emailedAt: timestamp("emailed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Per-user delivery channels for each notification type; types without a row use the defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  type: text("type").notNull(), // NotificationType
+  inApp: boolean("in_app").notNull().default(true),
+  email: text("email").notNull(), // EmailDelivery
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("notification_preferences_user_type").on(table.userId, table.type),
+]);
+
+// Outgoing webhook subscriptions, managed by users to push contract events to their systems
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: jsonb("events").notNull(), // WebhookEventType[]
+  encryptedSecret: text("encrypted_secret").notNull(), // AES-256-GCM; used to sign deliveries
+  active: boolean("active").notNull().default(true),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0), // Failed attempts since the last success
+  disabledAt: timestamp("disabled_at"), // Set when turned off automatically after repeated failures
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One event sent to one subscription, with the outcome of its latest attempt
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull(),
+  eventId: text("event_id").notNull(), // Shared by every delivery (and redelivery) of the same event
+  eventType: text("event_type").notNull(), // WebhookEventType
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default(WebhookDeliveryStatus.PENDING),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // Null once the delivery has succeeded or failed for good
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  redeliveryOf: integer("redelivery_of"), // Delivery this one was manually resent from
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Invoices raised by a freelancer to a client for completed milestones
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  contractId: integer("contract_id").notNull(),
+  freelancerId: integer("freelancer_id").notNull(),
+  clientId: integer("client_id").notNull(),
+  sequence: integer("sequence"), // Per-freelancer, gapless; assigned when the invoice is issued
+  number: text("number").unique(), // Formatted from the freelancer and sequence, e.g. INV-12-00003
+  status: text("status").notNull().default(InvoiceStatus.DRAFT),
+  subtotal: bigint("subtotal_minor", { mode: "number" }).notNull(), // Sum of the items, before tax
+  taxTotal: bigint("tax_total_minor", { mode: "number" }).notNull().default(0),
+  total: bigint("total_minor", { mode: "number" }).notNull(), // Integer minor units of the currency; subtotal plus tax
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY), // Copied from the contract
+  taxLines: jsonb("tax_lines").notNull().default([]), // TaxLine[], from the freelancer's tax profile when created
+  reverseCharge: boolean("reverse_charge").notNull().default(false), // The client accounts for the tax instead
+  freelancerTaxId: text("freelancer_tax_id"), // VAT/GST registration numbers as invoiced
+  clientTaxId: text("client_tax_id"),
+  notes: text("notes"),
+  issuedAt: timestamp("issued_at"),
+  paidAt: timestamp("paid_at"),
+  voidedAt: timestamp("voided_at"),
+  voidReason: text("void_reason"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("invoices_freelancer_sequence").on(table.freelancerId, table.sequence),
+]);
+
+// One completed milestone billed on an invoice, with its title and amount as invoiced
+export const invoiceItems = pgTable("invoice_items", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull(),
+  milestoneId: integer("milestone_id").notNull(),
+  title: text("title").notNull(),
+  amount: bigint("amount_minor", { mode: "number" }).notNull(), // Integer minor units of the invoice currency
+  voided: boolean("voided").notNull().default(false), // Mirrors the invoice being voided
+}, (table) => [
+  // A milestone can only be on one invoice that hasn't been voided
+  uniqueIndex("invoice_items_active_milestone").on(table.milestoneId).where(sql`${table.voided} = false`),
+]);
+
+// Tax registration and rates per user, driving invoice tax lines and tax estimates
+export const taxProfiles = pgTable("tax_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  country: text("country").notNull(), // ISO 3166-1 alpha-2, e.g. "GB"
+  registrationNumber: text("registration_number"), // VAT/GST number; tax is only charged once registered
+  taxRates: jsonb("tax_rates").notNull().default([]), // TaxRate[] charged on invoices, e.g. VAT, or CGST and SGST
+  reverseCharge: boolean("reverse_charge").notNull().default(true), // Registered business clients abroad account for the tax themselves
+  incomeTaxRate: integer("income_tax_rate").notNull().default(0), // Basis points, for estimates
+  deductibleExpenseRate: integer("deductible_expense_rate").notNull().default(0), // Basis points of earnings assumed deductible
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A user's trust score as it stood when the scheduled snapshot ran
+export const trustScoreSnapshots = pgTable("trust_score_snapshots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  overallScore: integer("overall_score").notNull(), // 0-100
+  ratingFactor: real("rating_factor").notNull(), // 0-1
+  reliabilityFactor: real("reliability_factor").notNull(), // 0-1
+  disputeFactor: real("dispute_factor").notNull(), // 0-1
+  tier: text("tier").notNull(),
+  modelVersion: integer("model_version").notNull().default(1), // Trust model that produced the score
+  modelConfig: jsonb("model_config"), // TrustModelConfig the score was calculated with; null for version 1
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("trust_score_snapshots_user_created").on(table.userId, table.createdAt),
+]);
+
+// Last invoice sequence used by each freelancer; the row lock serializes concurrent issues
+export const invoiceCounters = pgTable("invoice_counters", {
+  freelancerId: integer("freelancer_id").primaryKey(),
+  lastSequence: integer("last_sequence").notNull(),
 });
 
 // Schema Validations
 
+const currencySchema = z.enum(CURRENCIES);
+
+// Amounts are integer minor units of their currency, e.g. 1250 for $12.50
+const minorAmountSchema = z.number().int().safe().describe("Integer minor units of the currency");
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -182,6 +463,8 @@ export const insertUserSchema = createInsertSchema(users).pick({
   userType: true,
   bio: true,
   profileImage: true,
+}).extend({
+  homeCurrency: currencySchema.optional(),
 }).refine(data => 
   [UserType.FREELANCER, UserType.CLIENT].includes(data.userType as UserType), {
     message: "User type must be 'freelancer' or 'client'",
@@ -200,6 +483,23 @@ export const insertContractSchema = createInsertSchema(contracts).pick({
   startDate: true,
   endDate: true,
   termsAndConditions: true,
+}).extend({
+  totalAmount: minorAmountSchema.positive(),
+  currency: currencySchema.optional(),
+});
+
+export const updateProfileSchema = z.object({
+  homeCurrency: currencySchema.optional(),
+  walletAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Must be a 0x-prefixed Ethereum address").nullable().optional(),
+  stripeAccountId: z.string().regex(/^acct_\w+$/, "Must be a Stripe account id (acct_...)").nullable().optional(),
+});
+
+export const insertContractStatusHistorySchema = createInsertSchema(contractStatusHistory).pick({
+  contractId: true,
+  fromStatus: true,
+  toStatus: true,
+  changedBy: true,
+  reason: true,
 });
 
 export const insertMilestoneSchema = createInsertSchema(milestones).pick({
@@ -209,6 +509,10 @@ export const insertMilestoneSchema = createInsertSchema(milestones).pick({
   amount: true,
   status: true,
   dueDate: true,
+}).extend({
+  amount: minorAmountSchema.positive(),
+  // Always set from the contract by the server
+  currency: currencySchema.optional(),
 });
 
 export const insertTemplateSchema = createInsertSchema(templates).pick({
@@ -225,6 +529,7 @@ export const insertEscrowPaymentSchema = createInsertSchema(escrowPayments).pick
   clientId: true,
   freelancerId: true,
   amount: true,
+  currency: true,
   status: true,
   paymentMethod: true,
   paymentDetails: true,
@@ -232,6 +537,28 @@ export const insertEscrowPaymentSchema = createInsertSchema(escrowPayments).pick
   blockchainTxHash: true,
 });
 
+// Request body for depositing a milestone's funds into escrow
+export const fundEscrowSchema = z.object({
+  milestoneId: z.number().int().positive(),
+  amount: minorAmountSchema.positive(),
+  paymentMethod: z.nativeEnum(PaymentMethod),
+});
+
+// The client's transaction depositing a crypto payment into the escrow contract
+export const cryptoDepositSchema = z.object({
+  txHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Must be a transaction hash"),
+});
+
+export const insertPaymentWebhookEventSchema = createInsertSchema(paymentWebhookEvents).pick({
+  provider: true,
+  eventId: true,
+  type: true,
+  reference: true,
+  payload: true,
+  status: true,
+  error: true,
+});
+
 export const insertDisputeSchema = createInsertSchema(disputes).pick({
   contractId: true,
   milestoneId: true,
@@ -244,12 +571,53 @@ export const insertDisputeSchema = createInsertSchema(disputes).pick({
   resolution: true,
 });
 
+// A single piece of dispute evidence as submitted by a party or moderator
+export const disputeEvidenceSchema = z.object({
+  type: z.enum(["message", "file", "link", "note"]),
+  description: z.string().min(1),
+  url: z.string().url().optional(),
+});
+
+// Request body for opening a dispute on a contract, optionally scoped to one milestone
+export const openDisputeSchema = z.object({
+  contractId: z.number().int().positive(),
+  milestoneId: z.number().int().positive().optional(),
+  reason: z.string().min(1),
+  evidence: z.array(disputeEvidenceSchema).optional(),
+});
+
+// Request body for a moderator resolving a dispute
+export const resolveDisputeSchema = z.object({
+  outcome: z.enum([
+    DisputeStatus.RESOLVED_FOR_CLIENT,
+    DisputeStatus.RESOLVED_FOR_FREELANCER,
+    DisputeStatus.RESOLVED_COMPROMISE,
+  ]),
+  resolution: z.string().min(1),
+  // Amount of the held escrow released to the freelancer; required for a compromise
+  releaseAmount: minorAmountSchema.nonnegative().optional(),
+}).refine(
+  (body) => body.outcome !== DisputeStatus.RESOLVED_COMPROMISE || body.releaseAmount !== undefined,
+  { message: "releaseAmount is required for a compromise", path: ["releaseAmount"] }
+);
+
 export const insertReviewSchema = createInsertSchema(reviews).pick({
   contractId: true,
   reviewerId: true,
   receiverId: true,
   rating: true,
   comment: true,
+  revealedAt: true,
+});
+
+// Request body for reviewing the other party on a completed contract
+export const createReviewSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export const reviewReplySchema = z.object({
+  reply: z.string().trim().min(1).max(2000),
 });
 
 export const insertBlockchainContractSchema = createInsertSchema(blockchainContracts).pick({
@@ -274,6 +642,176 @@ export const insertNotificationSchema = createInsertSchema(notifications).pick({
   message: true,
   read: true,
   data: true,
+  digestPending: true,
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).pick({
+  userId: true,
+  name: true,
+  apiKey: true,
+  encryptedSecret: true,
+  permissions: true,
+  rateLimitRequests: true,
+  rateLimitPeriod: true,
+  expiresAt: true,
+});
+
+const apiKeyPermissionsSchema = z.array(z.enum(API_KEY_PERMISSIONS)).min(1);
+
+const futureDateSchema = z.coerce.date().refine(date => date.getTime() > Date.now(), {
+  message: "Expiry must be in the future",
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  permissions: apiKeyPermissionsSchema.default(["read:contracts", "read:milestones"]),
+  expiresAt: futureDateSchema.optional(),
+});
+
+export const updateApiKeySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  permissions: apiKeyPermissionsSchema.optional(),
+  expiresAt: futureDateSchema.nullable().optional(),
+});
+
+export const rotateApiKeySchema = z.object({
+  // How long the old key keeps working alongside the new one
+  gracePeriodHours: z.number().min(0).max(168).default(24),
+  expiresAt: futureDateSchema.optional(),
+});
+
+export const insertNotificationPreferenceSchema = createInsertSchema(notificationPreferences).pick({
+  userId: true,
+  type: true,
+  inApp: true,
+  email: true,
+});
+
+export const notificationPreferencesSchema = z.object({
+  preferences: z.array(z.object({
+    type: z.nativeEnum(NotificationType),
+    inApp: z.boolean(),
+    email: z.nativeEnum(EmailDelivery),
+  })).min(1),
+});
+
+export const insertWebhookSubscriptionSchema = createInsertSchema(webhookSubscriptions).pick({
+  userId: true,
+  url: true,
+  description: true,
+  events: true,
+  encryptedSecret: true,
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).pick({
+  subscriptionId: true,
+  eventId: true,
+  eventType: true,
+  payload: true,
+  nextAttemptAt: true,
+  redeliveryOf: true,
+});
+
+const webhookUrlSchema = z.string().url().refine(url => /^https?:\/\//i.test(url), {
+  message: "Webhook URL must use http or https",
+});
+
+const webhookEventsSchema = z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1);
+
+export const createWebhookSubscriptionSchema = z.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema,
+  description: z.string().max(200).optional(),
+  // Generated when left out
+  secret: z.string().min(16).max(128).optional(),
+});
+
+export const updateWebhookSubscriptionSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: webhookEventsSchema.optional(),
+  description: z.string().max(200).nullable().optional(),
+  // Setting true re-enables a subscription that was disabled after repeated failures
+  active: z.boolean().optional(),
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices).pick({
+  contractId: true,
+  freelancerId: true,
+  clientId: true,
+  subtotal: true,
+  taxTotal: true,
+  total: true,
+  currency: true,
+  taxLines: true,
+  reverseCharge: true,
+  freelancerTaxId: true,
+  clientTaxId: true,
+  notes: true,
+});
+
+export const insertInvoiceItemSchema = createInsertSchema(invoiceItems).pick({
+  invoiceId: true,
+  milestoneId: true,
+  title: true,
+  amount: true,
+});
+
+export const createInvoiceSchema = z.object({
+  contractId: z.number().int(),
+  milestoneIds: z.array(z.number().int()).min(1),
+  notes: z.string().max(1000).optional(),
+});
+
+export const updateInvoiceStatusSchema = z.object({
+  status: z.nativeEnum(InvoiceStatus),
+  reason: z.string().max(500).optional(), // Stored when voiding
+});
+
+// Rates are in basis points, e.g. 2000 for 20%
+const basisPointsSchema = z.number().int().min(0).max(10000);
+
+export const taxRateSchema = z.object({
+  name: z.string().min(1).max(40), // Shown on the invoice, e.g. "VAT" or "CGST"
+  rate: basisPointsSchema,
+});
+
+export const insertTaxProfileSchema = createInsertSchema(taxProfiles).pick({
+  userId: true,
+  country: true,
+  registrationNumber: true,
+  taxRates: true,
+  reverseCharge: true,
+  incomeTaxRate: true,
+  deductibleExpenseRate: true,
+});
+
+export const updateTaxProfileSchema = z.object({
+  country: z.string().regex(/^[A-Z]{2}$/, "Use a two-letter ISO country code"),
+  registrationNumber: z.string().trim().min(1).max(40).nullable().default(null),
+  taxRates: z.array(taxRateSchema).max(5).default([]),
+  reverseCharge: z.boolean().default(true),
+  incomeTaxRate: basisPointsSchema.default(0),
+  deductibleExpenseRate: basisPointsSchema.default(0),
+});
+
+export const taxSummaryQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  quarter: z.coerce.number().int().min(1).max(4),
+});
+
+export const insertTrustScoreSnapshotSchema = createInsertSchema(trustScoreSnapshots).pick({
+  userId: true,
+  overallScore: true,
+  ratingFactor: true,
+  reliabilityFactor: true,
+  disputeFactor: true,
+  tier: true,
+  modelVersion: true,
+  modelConfig: true,
+});
+
+export const trustScoreHistoryQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(730).default(180),
 });
 
 // Export Types
@@ -283,6 +821,9 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Contract = typeof contracts.$inferSelect;
 export type InsertContract = z.infer<typeof insertContractSchema>;
 
+export type ContractStatusHistory = typeof contractStatusHistory.$inferSelect;
+export type InsertContractStatusHistory = z.infer<typeof insertContractStatusHistorySchema>;
+
 export type Milestone = typeof milestones.$inferSelect;
 export type InsertMilestone = z.infer<typeof insertMilestoneSchema>;
 
@@ -291,9 +832,19 @@ export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
 
 export type EscrowPayment = typeof escrowPayments.$inferSelect;
 export type InsertEscrowPayment = z.infer<typeof insertEscrowPaymentSchema>;
+// Fee and payout schedule fixed when an escrow payment is released
+export type EscrowReleaseTerms = Pick<
+  EscrowPayment,
+  "feeTier" | "feeRate" | "feeDiscountRate" | "feeAmount" | "feeDiscount" | "payoutAmount" | "payoutDueAt" | "paidOutAt"
+>;
+
+export type PaymentWebhookEvent = typeof paymentWebhookEvents.$inferSelect;
+export type InsertPaymentWebhookEvent = z.infer<typeof insertPaymentWebhookEventSchema>;
 
 export type Dispute = typeof disputes.$inferSelect;
 export type InsertDispute = z.infer<typeof insertDisputeSchema>;
+export type DisputeEvidenceInput = z.infer<typeof disputeEvidenceSchema>;
+export type DisputeEvidence = DisputeEvidenceInput & { submittedBy: number; submittedAt: string };
 
 export type Review = typeof reviews.$inferSelect;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
@@ -304,5 +855,32 @@ export type InsertBlockchainContract = z.infer<typeof insertBlockchainContractSc
 export type TwoFactorAuth = typeof twoFactorAuth.$inferSelect;
 export type InsertTwoFactorAuth = z.infer<typeof insertTwoFactorAuthSchema>;
 
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreference = z.infer<typeof insertNotificationPreferenceSchema>;
+
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+
+export type InvoiceItem = typeof invoiceItems.$inferSelect;
+export type InsertInvoiceItem = z.infer<typeof insertInvoiceItemSchema>;
+export type InvoiceWithItems = Invoice & { items: InvoiceItem[] };
+
+export type TaxProfile = typeof taxProfiles.$inferSelect;
+export type InsertTaxProfile = z.infer<typeof insertTaxProfileSchema>;
+
+export type TrustScoreSnapshot = typeof trustScoreSnapshots.$inferSelect;
+export type InsertTrustScoreSnapshot = z.infer<typeof insertTrustScoreSnapshotSchema>;
+export type TaxRate = z.infer<typeof taxRateSchema>;
+export type TaxLine = TaxRate & { taxableAmount: number; amount: number }; // Minor units of the invoice currency